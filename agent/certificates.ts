@@ -0,0 +1,122 @@
+// Certificate details for the TLS analysis. Node's X509Certificate covers
+// everything except the signature algorithm, which is read from the DER.
+
+import { X509Certificate } from 'node:crypto';
+import type { DetailedPeerCertificate } from 'node:tls';
+import type { TlsCertificate } from '../src/utils/scanAgentProtocol';
+
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  '1.2.840.113549.1.1.2': 'md2WithRSAEncryption',
+  '1.2.840.113549.1.1.4': 'md5WithRSAEncryption',
+  '1.2.840.113549.1.1.5': 'sha1WithRSAEncryption',
+  '1.2.840.113549.1.1.10': 'RSASSA-PSS',
+  '1.2.840.113549.1.1.11': 'sha256WithRSAEncryption',
+  '1.2.840.113549.1.1.12': 'sha384WithRSAEncryption',
+  '1.2.840.113549.1.1.13': 'sha512WithRSAEncryption',
+  '1.2.840.113549.1.1.14': 'sha224WithRSAEncryption',
+  '1.2.840.10040.4.3': 'dsa-with-SHA1',
+  '1.2.840.10045.4.1': 'ecdsa-with-SHA1',
+  '1.2.840.10045.4.3.2': 'ecdsa-with-SHA256',
+  '1.2.840.10045.4.3.3': 'ecdsa-with-SHA384',
+  '1.2.840.10045.4.3.4': 'ecdsa-with-SHA512',
+  '1.3.101.112': 'Ed25519',
+  '1.3.101.113': 'Ed448'
+};
+
+const CURVE_BITS: Record<string, number> = {
+  secp224r1: 224,
+  prime256v1: 256,
+  secp256k1: 256,
+  secp384r1: 384,
+  secp521r1: 521
+};
+
+/** Signature algorithms collisions have been found for */
+export const isWeakSignature = (algorithm: string) => /^(md2|md5|sha1)|SHA1$/i.test(algorithm);
+
+/** Start and end of the contents of the DER element at `offset` */
+function derElement(der: Buffer, offset: number): { start: number; end: number } {
+  let length = der[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    length = der.readUIntBE(start, bytes);
+    start += bytes;
+  }
+  return { start, end: start + length };
+}
+
+function decodeOid(bytes: Buffer): string {
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (const byte of bytes.subarray(1)) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+/**
+ * Name of the algorithm a DER certificate is signed with, or its OID if the
+ * name is not known
+ */
+export function signatureAlgorithm(der: Buffer): string {
+  // Certificate ::= SEQUENCE { tbsCertificate, signatureAlgorithm SEQUENCE { OID, ... }, signature }
+  const certificate = derElement(der, 0);
+  const tbs = derElement(der, certificate.start);
+  const algorithm = derElement(der, tbs.end);
+  const oid = derElement(der, algorithm.start);
+  const dotted = decodeOid(der.subarray(oid.start, oid.end));
+  return SIGNATURE_ALGORITHMS[dotted] ?? dotted;
+}
+
+function keyStrength(certificate: X509Certificate): { keyType: string; keyBits: number } {
+  const key = certificate.publicKey;
+  const details = key.asymmetricKeyDetails ?? {};
+  const keyType = key.asymmetricKeyType ?? 'unknown';
+  if (details.modulusLength) return { keyType, keyBits: details.modulusLength };
+  if (details.namedCurve) return { keyType, keyBits: CURVE_BITS[details.namedCurve] ?? 0 };
+  return { keyType, keyBits: keyType === 'ed25519' ? 256 : keyType === 'ed448' ? 448 : 0 };
+}
+
+const oneLine = (name: string) => name.split('\n').filter(Boolean).join(', ');
+
+export function isSelfSigned(certificate: X509Certificate): boolean {
+  try {
+    return certificate.checkIssued(certificate) && certificate.verify(certificate.publicKey);
+  } catch {
+    return false;
+  }
+}
+
+export function describeCertificate(certificate: X509Certificate): TlsCertificate {
+  return {
+    subject: oneLine(certificate.subject),
+    issuer: oneLine(certificate.issuer),
+    validFrom: new Date(certificate.validFrom).toISOString(),
+    validTo: new Date(certificate.validTo).toISOString(),
+    ...keyStrength(certificate),
+    signatureAlgorithm: signatureAlgorithm(certificate.raw),
+    subjectAltNames: certificate.subjectAltName?.split(', ') ?? [],
+    selfSigned: isSelfSigned(certificate),
+    fingerprint256: certificate.fingerprint256
+  };
+}
+
+/**
+ * The chain a server sent, leaf first, from Node's detailed peer certificate
+ */
+export function peerChain(leaf: DetailedPeerCertificate): X509Certificate[] {
+  const chain: X509Certificate[] = [];
+  const seen = new Set<string>();
+  for (let current: DetailedPeerCertificate | undefined = leaf; current?.raw; current = current.issuerCertificate) {
+    // The root's issuerCertificate is itself
+    if (seen.has(current.fingerprint256)) break;
+    seen.add(current.fingerprint256);
+    chain.push(new X509Certificate(current.raw));
+  }
+  return chain;
+}
@@ -0,0 +1,216 @@
+// Check packs: checks written as data instead of code, so teams can check
+// their own infrastructure without touching the agent or the UI.
+//
+// A pack is a JSON or YAML file (YAML is a superset of JSON, so one parser
+// reads both):
+//
+//   name: Acme infrastructure
+//   checks:
+//     - id: acme_redis_no_auth
+//       name: Redis Without Authentication
+//       service: Redis
+//       severity: critical
+//       description: Redis answers commands without a password
+//       risks: [Data theft, Remote code execution]
+//       remediation: [Set requirepass, Bind Redis to localhost]
+//       appliesTo: { ports: [6379] }
+//       probe: { send: "PING\r\n" }
+//       match: { pattern: "^\\+PONG", evidence: "PING answered {match} without a password" }
+//
+// The probe connects (over TLS if `tls` is true), sends `send` if given and
+// collects everything the service says until `pattern` matches or it has
+// been quiet for `timeoutMs`. The check fires when `pattern` matches, or,
+// with `absent: true`, when it does not. `{match}` and `{response}` in the
+// evidence are replaced with the matched text and the start of the response.
+
+import { readFile, readdir } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { parse } from 'yaml';
+import type { Severity } from '../src/utils/scanAgentProtocol';
+import { CheckPlugin, defineCheck, withConnection } from './checks/plugin';
+import { printableBanner } from './services';
+
+export const PACK_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low'];
+const DEFAULT_TIMEOUT = 2000;
+const MAX_TIMEOUT = 30000;
+const MAX_RESPONSE = 64 * 1024;
+
+export interface CheckPack {
+  name: string;
+  checks: CheckPlugin[];
+  /** Ids of checks the pack switches off by default */
+  disabled: Set<string>;
+}
+
+type Fields = Record<string, unknown>;
+
+function isFields(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Field readers that name the offending field in their errors */
+function fieldReader(fields: Fields, where: string) {
+  const fail = (key: string, expected: string): never => {
+    throw new Error(`${where}.${key} must be ${expected}`);
+  };
+  return {
+    string(key: string, optional = false): string | undefined {
+      const value = fields[key];
+      if (value === undefined && optional) return undefined;
+      return typeof value === 'string' && value.trim() ? value : fail(key, 'a non-empty string');
+    },
+    strings(key: string): string[] {
+      const value = fields[key] ?? [];
+      return Array.isArray(value) && value.every((item) => typeof item === 'string') ? value : fail(key, 'a list of strings');
+    },
+    boolean(key: string): boolean | undefined {
+      const value = fields[key];
+      return value === undefined || typeof value === 'boolean' ? value : fail(key, 'true or false');
+    },
+    number(key: string, min: number, max: number): number | undefined {
+      const value = fields[key];
+      if (value === undefined) return undefined;
+      return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+        ? value
+        : fail(key, `a whole number from ${min} to ${max}`);
+    },
+    object(key: string): Fields {
+      const value = fields[key];
+      return isFields(value) ? value : fail(key, 'an object');
+    }
+  };
+}
+
+interface ProbeResponse {
+  text: string;
+  match: RegExpExecArray | null;
+}
+
+function packCheck(fields: Fields, where: string): { check: CheckPlugin<ProbeResponse>; enabled: boolean } {
+  const read = fieldReader(fields, where);
+  const id = read.string('id')!;
+  if (!/^[A-Za-z0-9][\w.-]*$/.test(id)) {
+    throw new Error(`${where}.id may only contain letters, digits, ".", "_" and "-"`);
+  }
+  const severity = read.string('severity') as Severity;
+  if (!SEVERITIES.includes(severity)) {
+    throw new Error(`${where}.severity must be one of ${SEVERITIES.join(', ')}`);
+  }
+
+  const appliesTo = read.object('appliesTo');
+  const services = fieldReader(appliesTo, `${where}.appliesTo`).strings('services');
+  const portList = appliesTo.ports ?? [];
+  if (!Array.isArray(portList) || !portList.every((port) => Number.isInteger(port) && port >= 1 && port <= 65535)) {
+    throw new Error(`${where}.appliesTo.ports must be a list of port numbers`);
+  }
+  const ports = portList as number[];
+  if (services.length === 0 && ports.length === 0) {
+    throw new Error(`${where}.appliesTo needs at least one service or port`);
+  }
+
+  const probe = fieldReader(read.object('probe'), `${where}.probe`);
+  const send = probe.string('send', true);
+  const tls = probe.boolean('tls') ?? false;
+  const timeoutMs = probe.number('timeoutMs', 100, MAX_TIMEOUT) ?? DEFAULT_TIMEOUT;
+
+  const matcher = fieldReader(read.object('match'), `${where}.match`);
+  const source = matcher.string('pattern')!;
+  let pattern: RegExp;
+  try {
+    // Global and sticky flags would make test() remember where it stopped
+    pattern = new RegExp(source, (matcher.string('flags', true) ?? '').replace(/[gy]/g, ''));
+  } catch (error) {
+    throw new Error(`${where}.match.pattern is not a valid regular expression: ${(error as Error).message}`);
+  }
+  const absent = matcher.boolean('absent') ?? false;
+  const evidence = matcher.string('evidence', true);
+
+  const check = defineCheck<ProbeResponse>({
+    id,
+    name: read.string('name')!,
+    service: read.string('service')!,
+    severity,
+    description: read.string('description')!,
+    risks: read.strings('risks'),
+    remediation: read.strings('remediation'),
+    appliesTo: { services, ports },
+    probe: (context) => withConnection(context, tls, async (connection) => {
+      if (send !== undefined) connection.write(send);
+      const received = await connection.read(
+        (data) => data.length > MAX_RESPONSE || pattern.test(data.toString('latin1')),
+        timeoutMs
+      );
+      const text = received.toString('latin1');
+      return { text, match: pattern.exec(text) };
+    }),
+    match: ({ text, match }) => {
+      if (absent ? match : !match) return null;
+      const response = printableBanner(Buffer.from(text, 'latin1'));
+      if (evidence) {
+        return evidence.replace(/\{match\}/g, match?.[0] ?? '').replace(/\{response\}/g, response);
+      }
+      return absent
+        ? `Response did not match /${source}/: ${response || '(nothing)'}`
+        : `Response matched /${source}/: ${match![0]}`;
+    }
+  });
+  return { check, enabled: read.boolean('enabled') ?? true };
+}
+
+/**
+ * Parse a check pack; throws an error naming the problem if it is malformed
+ */
+export function parseCheckPack(content: string, fileName: string): CheckPack {
+  if (!PACK_EXTENSIONS.includes(extname(fileName).toLowerCase())) {
+    throw new Error(`Check packs must be ${PACK_EXTENSIONS.join(', ')} files`);
+  }
+  let document: unknown;
+  try {
+    document = parse(content);
+  } catch (error) {
+    throw new Error(`${fileName} is not valid JSON or YAML: ${(error as Error).message}`);
+  }
+  if (!isFields(document)) {
+    throw new Error(`${fileName} must contain an object with "name" and "checks"`);
+  }
+  const name = fieldReader(document, fileName).string('name')!;
+  if (!Array.isArray(document.checks) || document.checks.length === 0) {
+    throw new Error(`${fileName}.checks must be a non-empty list`);
+  }
+
+  const checks: CheckPlugin[] = [];
+  const disabled = new Set<string>();
+  document.checks.forEach((fields, i) => {
+    const where = `${fileName}.checks[${i}]`;
+    if (!isFields(fields)) {
+      throw new Error(`${where} must be an object`);
+    }
+    const { check, enabled } = packCheck(fields, where);
+    if (checks.some((other) => other.id === check.id)) {
+      throw new Error(`${where}.id "${check.id}" is used twice`);
+    }
+    checks.push(check);
+    if (!enabled) disabled.add(check.id);
+  });
+  return { name, checks, disabled };
+}
+
+/**
+ * Read every check pack in a directory. A broken pack is reported and
+ * skipped rather than stopping the others from loading.
+ */
+export async function readCheckPacks(directory: string): Promise<{ packs: CheckPack[]; errors: string[] }> {
+  const packs: CheckPack[] = [];
+  const errors: string[] = [];
+  const files = (await readdir(directory)).filter((file) => PACK_EXTENSIONS.includes(extname(file).toLowerCase())).sort();
+  for (const file of files) {
+    try {
+      packs.push(parseCheckPack(await readFile(join(directory, file), 'utf8'), file));
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+  return { packs, errors };
+}
@@ -0,0 +1,94 @@
+// Cookies: the Secure, HttpOnly and SameSite flags on every cookie set on
+// the way to the page, redirects included.
+
+import { WebsiteSnapshot } from '../website';
+import { WebsiteCheck } from './plugin';
+
+const LISTED_COOKIES = 5;
+
+interface Cookie {
+  name: string;
+  secure: boolean;
+  httpOnly: boolean;
+  /** SameSite as sent, lower-cased; undefined if missing */
+  sameSite?: string;
+}
+
+function parseCookie(line: string): Cookie {
+  const [pair, ...attributes] = line.split(';');
+  const cookie: Cookie = { name: pair.split('=')[0].trim(), secure: false, httpOnly: false };
+  for (const attribute of attributes) {
+    const [key, value = ''] = attribute.split('=').map((part) => part.trim().toLowerCase());
+    if (key === 'secure') cookie.secure = true;
+    else if (key === 'httponly') cookie.httpOnly = true;
+    else if (key === 'samesite') cookie.sameSite = value;
+  }
+  return cookie;
+}
+
+/**
+ * Cookies set anywhere in the redirect chain; a later Set-Cookie for the
+ * same name replaces an earlier one
+ */
+function cookies({ chain }: WebsiteSnapshot): Cookie[] {
+  const byName = new Map<string, Cookie>();
+  for (const response of chain) {
+    for (const line of response.headers['set-cookie'] ?? []) {
+      const cookie = parseCookie(line);
+      if (cookie.name) byName.set(cookie.name, cookie);
+    }
+  }
+  return [...byName.values()];
+}
+
+/** "a, b, c and 2 more" */
+function names(list: Cookie[]): string {
+  const shown = list.slice(0, LISTED_COOKIES).map((cookie) => cookie.name).join(', ');
+  return list.length > LISTED_COOKIES ? `${shown} and ${list.length - LISTED_COOKIES} more` : shown;
+}
+
+export const insecureCookies: WebsiteCheck = {
+  id: 'vuln_014',
+  name: 'Cookies Without the Secure Flag',
+  service: 'Website',
+  severity: 'medium',
+  description: 'Cookies without Secure are also sent over plain HTTP, where anyone on the network can read them',
+  risks: ['Session hijacking', 'Cookie theft on public Wi-Fi'],
+  remediation: ['Set the Secure flag on every cookie', 'Serve the whole site over HTTPS', 'Use the __Host- prefix for session cookies'],
+  audit: (site) => {
+    const missing = cookies(site).filter((cookie) => !cookie.secure);
+    if (missing.length === 0) return null;
+    const sameSiteNone = missing.some((cookie) => cookie.sameSite === 'none');
+    return `Set without Secure: ${names(missing)}${sameSiteNone ? ' (browsers reject SameSite=None without Secure)' : ''}`;
+  }
+};
+
+export const scriptableCookies: WebsiteCheck = {
+  id: 'vuln_015',
+  name: 'Cookies Without the HttpOnly Flag',
+  service: 'Website',
+  severity: 'low',
+  description: 'Scripts on the page can read cookies without HttpOnly, including any injected by an attacker',
+  risks: ['Session theft through cross-site scripting'],
+  remediation: ['Set HttpOnly on session and authentication cookies', 'Only leave it off cookies that scripts must read'],
+  audit: (site) => {
+    const missing = cookies(site).filter((cookie) => !cookie.httpOnly);
+    return missing.length > 0 ? `Set without HttpOnly: ${names(missing)}` : null;
+  }
+};
+
+export const crossSiteCookies: WebsiteCheck = {
+  id: 'vuln_016',
+  name: 'Cookies Without SameSite',
+  service: 'Website',
+  severity: 'low',
+  description: 'Cookies without a valid SameSite attribute rely on browser defaults to stay out of cross-site requests',
+  risks: ['Cross-site request forgery', 'Inconsistent behaviour between browsers'],
+  remediation: ['Set SameSite=Lax on most cookies, or Strict for sensitive ones', 'Use SameSite=None; Secure only for cookies that must work cross-site'],
+  audit: (site) => {
+    const missing = cookies(site).filter((cookie) => !['strict', 'lax', 'none'].includes(cookie.sameSite ?? ''));
+    return missing.length > 0 ? `Set without a valid SameSite: ${names(missing)}` : null;
+  }
+};
+
+export const COOKIE_CHECKS: WebsiteCheck[] = [insecureCookies, scriptableCookies, crossSiteCookies];
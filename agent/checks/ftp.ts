@@ -0,0 +1,42 @@
+// FTP: anonymous logins.
+
+import { printableBanner } from '../services';
+import { READ_TIMEOUT, defineCheck, withConnection } from './plugin';
+
+/** A complete FTP reply: multi-line replies end with "nnn " on their last line */
+const ftpReplyComplete = (data: Buffer) => /(^|\n)\d{3} [^\n]*\n$/.test(data.toString('latin1'));
+const ftpCode = (reply: Buffer) => Number(/(?:^|\n)(\d{3}) [^\n]*\n$/.exec(reply.toString('latin1'))?.[1] ?? 0);
+
+interface FtpObservation {
+  loggedIn: boolean;
+  reply: string;
+}
+
+export const anonymousFtp = defineCheck<FtpObservation>({
+  id: 'vuln_003',
+  name: 'Anonymous FTP Access',
+  service: 'FTP',
+  severity: 'critical',
+  description: 'FTP server allows anonymous access',
+  risks: ['Data leakage', 'Unauthorized file access', 'Server compromise'],
+  remediation: [
+    'Disable anonymous FTP access',
+    'Use SFTP or FTPS instead',
+    'Implement strong authentication',
+    'Regular access audits'
+  ],
+  appliesTo: { services: ['ftp'] },
+  probe: (context) => withConnection(context, false, async (connection) => {
+    const greeting = await connection.read(ftpReplyComplete, READ_TIMEOUT);
+    if (ftpCode(greeting) !== 220) return null;
+    connection.write('USER anonymous\r\n');
+    let reply = await connection.read(ftpReplyComplete, READ_TIMEOUT);
+    if (ftpCode(reply) === 331) {
+      connection.write('PASS anonymous@example.com\r\n');
+      reply = await connection.read(ftpReplyComplete, READ_TIMEOUT);
+    }
+    connection.write('QUIT\r\n');
+    return { loggedIn: ftpCode(reply) === 230, reply: printableBanner(reply) };
+  }),
+  match: ({ loggedIn, reply }) => loggedIn ? `Logged in as "anonymous": ${reply}` : null
+});
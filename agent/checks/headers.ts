@@ -0,0 +1,257 @@
+// Security headers: CSP, HSTS, clickjacking protection, Referrer-Policy,
+// Permissions-Policy and CORS, graded on the page fetched in website mode.
+// A missing header and a header that is present but too lax are separate
+// findings with their own severity.
+
+import { CORS_PROBE_ORIGIN, HttpResponse, WebsiteSnapshot, header, isHtml } from '../website';
+import { WebsiteCheck } from './plugin';
+
+/** Six months, the least HSTS preload lists accept */
+const HSTS_MIN_AGE = 15552000;
+
+type Policy = Map<string, string[]>;
+
+/**
+ * The policies in a CSP header value; a browser enforces every one of them
+ */
+function parseCsp(value: string): Policy[] {
+  return value.split(',').map((policy) => {
+    const directives: Policy = new Map();
+    for (const directive of policy.split(';')) {
+      const [name, ...sources] = directive.trim().split(/\s+/);
+      // Only the first occurrence of a directive counts
+      if (name && !directives.has(name.toLowerCase())) directives.set(name.toLowerCase(), sources);
+    }
+    return directives;
+  });
+}
+
+/**
+ * The CSP the page enforces, from the header or a <meta> tag; report-only
+ * policies are not enforced
+ */
+function enforcedCsp({ page, html }: WebsiteSnapshot): Policy[] {
+  const fromHeader = header(page, 'content-security-policy');
+  const fromMeta = /<meta\b[^>]*http-equiv\s*=\s*["']?content-security-policy["']?[^>]*>/i.exec(html)?.[0];
+  const metaContent = fromMeta && /\bcontent\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(fromMeta);
+  return [
+    ...(fromHeader ? parseCsp(fromHeader) : []),
+    ...(metaContent ? parseCsp(metaContent[1] ?? metaContent[2]) : [])
+  ];
+}
+
+/** Ways a policy fails to stop injected scripts */
+function cspWeaknesses(policy: Policy): string[] {
+  const weaknesses: string[] = [];
+  const scripts = policy.get('script-src') ?? policy.get('default-src');
+  if (!scripts) {
+    weaknesses.push('there is no script-src or default-src, so scripts can load from anywhere');
+  } else {
+    const nonceOrHash = scripts.some((source) => /^'(nonce|sha256|sha384|sha512)-/i.test(source));
+    const strictDynamic = scripts.includes("'strict-dynamic'");
+    if (scripts.includes("'unsafe-inline'") && !nonceOrHash) weaknesses.push("script-src allows 'unsafe-inline'");
+    if (scripts.includes("'unsafe-eval'")) weaknesses.push("script-src allows 'unsafe-eval'");
+    // 'strict-dynamic' makes browsers ignore host and scheme sources
+    const broad = strictDynamic ? [] : scripts.filter((source) => ['*', 'http:', 'https:', 'data:'].includes(source));
+    if (broad.length > 0) weaknesses.push(`script-src allows ${broad.join(' ')}`);
+  }
+  const objects = policy.get('object-src') ?? policy.get('default-src');
+  if (!objects || objects.join(' ') !== "'none'") weaknesses.push("object-src is not 'none'");
+  return weaknesses;
+}
+
+const htmlPage = (site: WebsiteSnapshot) => isHtml(site.page);
+const httpsPage = (site: WebsiteSnapshot) => site.page.url.protocol === 'https:';
+
+export const missingCsp: WebsiteCheck = {
+  id: 'vuln_006',
+  name: 'Missing Content Security Policy',
+  service: 'Website',
+  severity: 'medium',
+  description: 'The page sets no Content-Security-Policy, so nothing limits what an injected script can do',
+  risks: ['Cross-site scripting', 'Data exfiltration through injected scripts', 'Content injection'],
+  remediation: [
+    'Send a Content-Security-Policy header',
+    "Start from default-src 'self' and allow only the sources the site needs",
+    'Use nonces or hashes for inline scripts',
+    'Trial the policy with Content-Security-Policy-Report-Only first'
+  ],
+  audit: (site) => {
+    if (!htmlPage(site) || enforcedCsp(site).length > 0) return null;
+    return header(site.page, 'content-security-policy-report-only')
+      ? 'Only Content-Security-Policy-Report-Only is set, which reports violations without blocking them'
+      : 'No Content-Security-Policy header or <meta> tag';
+  }
+};
+
+export const weakCsp: WebsiteCheck = {
+  id: 'vuln_007',
+  name: 'Weak Content Security Policy',
+  service: 'Website',
+  severity: 'low',
+  description: 'The Content-Security-Policy allows sources that let injected scripts run',
+  risks: ['Cross-site scripting despite the policy', 'Plugin content injection'],
+  remediation: [
+    "Replace 'unsafe-inline' with nonces or hashes",
+    "Remove 'unsafe-eval' and code that needs it",
+    'List specific hosts instead of *, http: or https:',
+    "Set object-src 'none'"
+  ],
+  audit: (site) => {
+    const policies = enforcedCsp(site);
+    if (!htmlPage(site) || policies.length === 0) return null;
+    // Several policies all apply, so one strong policy is enough
+    const weaknesses = policies.map(cspWeaknesses);
+    return weaknesses.every((list) => list.length > 0) ? `In the CSP, ${weaknesses[0].join('; ')}` : null;
+  }
+};
+
+export const missingHsts: WebsiteCheck = {
+  id: 'vuln_008',
+  name: 'Missing HTTP Strict Transport Security',
+  service: 'Website',
+  severity: 'medium',
+  description: 'The HTTPS site does not send Strict-Transport-Security, so browsers will still try plain HTTP first',
+  risks: ['SSL stripping attacks', 'Session hijacking on untrusted networks', 'Cookie theft over HTTP'],
+  remediation: [
+    'Send Strict-Transport-Security: max-age=31536000; includeSubDomains',
+    'Submit the domain to the HSTS preload list once all subdomains support HTTPS'
+  ],
+  audit: (site) => {
+    if (!httpsPage(site) || header(site.page, 'strict-transport-security')) return null;
+    return `${site.page.url.origin} sends no Strict-Transport-Security header`;
+  }
+};
+
+export const weakHsts: WebsiteCheck = {
+  id: 'vuln_009',
+  name: 'Weak HTTP Strict Transport Security',
+  service: 'Website',
+  severity: 'low',
+  description: 'Strict-Transport-Security is set, but for too short a time to protect returning visitors',
+  risks: ['SSL stripping once the policy expires', 'Not eligible for HSTS preloading'],
+  remediation: ['Set max-age to at least 15552000 (six months); 31536000 (a year) is usual', 'Add includeSubDomains'],
+  audit: (site) => {
+    const value = header(site.page, 'strict-transport-security');
+    if (!httpsPage(site) || !value) return null;
+    const maxAge = /(?:^|;)\s*max-age\s*=\s*"?(\d+)"?/i.exec(value);
+    if (!maxAge) return `Strict-Transport-Security: ${value} has no valid max-age`;
+    const seconds = Number(maxAge[1]);
+    if (seconds === 0) return 'Strict-Transport-Security: max-age=0 tells browsers to forget the policy';
+    return seconds < HSTS_MIN_AGE ? `Strict-Transport-Security max-age=${seconds} is under six months` : null;
+  }
+};
+
+export const missingFrameProtection: WebsiteCheck = {
+  id: 'vuln_010',
+  name: 'Missing Clickjacking Protection',
+  service: 'Website',
+  severity: 'medium',
+  description: 'Other sites can load the page in a frame and trick users into clicking on it',
+  risks: ['Clickjacking', 'Unintended actions performed by logged-in users'],
+  remediation: [
+    "Send Content-Security-Policy: frame-ancestors 'self' (or 'none')",
+    'Send X-Frame-Options: DENY or SAMEORIGIN for older browsers'
+  ],
+  audit: (site) => {
+    if (!htmlPage(site)) return null;
+    // frame-ancestors is ignored in <meta> policies
+    const csp = header(site.page, 'content-security-policy');
+    if (csp && parseCsp(csp).some((policy) => policy.has('frame-ancestors'))) return null;
+    const frameOptions = header(site.page, 'x-frame-options');
+    if (!frameOptions) return 'Neither X-Frame-Options nor a CSP frame-ancestors directive is set';
+    return /^\s*(deny|sameorigin)\s*$/i.test(frameOptions)
+      ? null
+      : `X-Frame-Options: ${frameOptions} is not DENY or SAMEORIGIN, and there is no CSP frame-ancestors`;
+  }
+};
+
+/** Policies that send the full URL to other sites */
+const LEAKY_REFERRER_POLICIES = ['unsafe-url', 'no-referrer-when-downgrade'];
+const REFERRER_POLICIES = [
+  'no-referrer',
+  'no-referrer-when-downgrade',
+  'origin',
+  'origin-when-cross-origin',
+  'same-origin',
+  'strict-origin',
+  'strict-origin-when-cross-origin',
+  'unsafe-url'
+];
+
+export const unsafeReferrerPolicy: WebsiteCheck = {
+  id: 'vuln_011',
+  name: 'Missing or Unsafe Referrer Policy',
+  service: 'Website',
+  severity: 'low',
+  description: 'Full page URLs, including paths and query strings, may be sent to other sites in the Referer header',
+  risks: ['Leaking tokens or personal data in URLs', 'Exposing internal paths'],
+  remediation: ['Send Referrer-Policy: strict-origin-when-cross-origin, or no-referrer for sensitive pages'],
+  audit: (site) => {
+    if (!htmlPage(site)) return null;
+    const value = header(site.page, 'referrer-policy');
+    if (!value) return 'No Referrer-Policy header';
+    // Browsers use the last policy they understand
+    const policy = value.toLowerCase().split(',').map((token) => token.trim()).filter((token) => REFERRER_POLICIES.includes(token)).pop();
+    if (!policy) return `Referrer-Policy: ${value} names no policy browsers understand`;
+    return LEAKY_REFERRER_POLICIES.includes(policy) ? `Referrer-Policy: ${policy} sends the full URL to other sites` : null;
+  }
+};
+
+export const missingPermissionsPolicy: WebsiteCheck = {
+  id: 'vuln_012',
+  name: 'Missing Permissions Policy',
+  service: 'Website',
+  severity: 'low',
+  description: 'The page does not restrict which browser features (camera, microphone, geolocation...) it and its frames may use',
+  risks: ['Injected or third-party content using powerful browser features'],
+  remediation: ['Send a Permissions-Policy header that turns off unused features, e.g. camera=(), microphone=(), geolocation=()'],
+  audit: (site) => {
+    if (!htmlPage(site) || header(site.page, 'permissions-policy')) return null;
+    return header(site.page, 'feature-policy')
+      ? 'Only the obsolete Feature-Policy header is set; browsers now read Permissions-Policy'
+      : 'No Permissions-Policy header';
+  }
+};
+
+function corsProblem(page: HttpResponse): string | null {
+  const allowOrigin = header(page, 'access-control-allow-origin')?.trim();
+  const credentials = header(page, 'access-control-allow-credentials')?.trim().toLowerCase() === 'true';
+  const withCredentials = credentials ? ', with credentials' : '';
+  if (allowOrigin === CORS_PROBE_ORIGIN) {
+    return `Access-Control-Allow-Origin echoes whatever Origin is sent (${CORS_PROBE_ORIGIN})${withCredentials}`;
+  }
+  if (allowOrigin === 'null') {
+    return `Access-Control-Allow-Origin: null trusts sandboxed frames and local files${withCredentials}`;
+  }
+  if (allowOrigin === '*' && credentials) {
+    return 'Access-Control-Allow-Origin: * is combined with Access-Control-Allow-Credentials: true';
+  }
+  return null;
+}
+
+export const permissiveCors: WebsiteCheck = {
+  id: 'vuln_013',
+  name: 'Permissive CORS Policy',
+  service: 'Website',
+  severity: 'high',
+  description: 'Cross-origin requests from any website are allowed to read responses from this site',
+  risks: ['Other sites reading users\' data', 'Account takeover through stolen tokens', 'CSRF protections bypassed'],
+  remediation: [
+    'Check Origin against a list of trusted origins instead of echoing it',
+    'Never allow the null origin',
+    'Only send Access-Control-Allow-Credentials for trusted origins'
+  ],
+  audit: ({ page }) => corsProblem(page)
+};
+
+export const HEADER_CHECKS: WebsiteCheck[] = [
+  missingCsp,
+  weakCsp,
+  missingHsts,
+  weakHsts,
+  missingFrameProtection,
+  unsafeReferrerPolicy,
+  missingPermissionsPolicy,
+  permissiveCors
+];
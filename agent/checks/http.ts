@@ -0,0 +1,130 @@
+// HTTP: content served in the clear instead of a redirect to HTTPS, and in
+// website mode, HTTPS pages that still use plain HTTP on the way or for
+// their resources.
+
+import { HttpResponse, WebsiteSnapshot } from '../website';
+import { READ_TIMEOUT, WebsiteCheck, defineCheck, withConnection } from './plugin';
+
+const LISTED_URLS = 3;
+
+interface HttpObservation {
+  status: number;
+  location?: string;
+}
+
+export const plainHttp = defineCheck<HttpObservation>({
+  id: 'vuln_002',
+  name: 'Unencrypted HTTP Traffic',
+  service: 'HTTP',
+  severity: 'medium',
+  description: 'Website is serving content over HTTP instead of HTTPS',
+  risks: ['Man-in-the-middle attacks', 'Data interception', 'SEO penalties'],
+  remediation: [
+    'Install SSL/TLS certificate',
+    'Redirect HTTP to HTTPS',
+    'Enable HSTS headers',
+    'Update all internal links to HTTPS'
+  ],
+  appliesTo: { services: ['http'] },
+  probe: (context) => withConnection(context, false, async (connection) => {
+    connection.write(
+      `GET / HTTP/1.1\r\nHost: ${context.target.host}\r\nUser-Agent: SecureX-Scan-Agent\r\nConnection: close\r\n\r\n`
+    );
+    const response = (await connection.read((data) => data.includes('\r\n\r\n'), READ_TIMEOUT)).toString('latin1');
+    const headerEnd = response.indexOf('\r\n\r\n');
+    const head = headerEnd >= 0 ? response.slice(0, headerEnd) : response;
+    const status = /^HTTP\/\d(?:\.\d)? (\d{3})/.exec(head);
+    if (!status) return null;
+    return { status: Number(status[1]), location: /^location:\s*(\S+)/im.exec(head)?.[1] };
+  }),
+  match: ({ status, location }) => {
+    if (status >= 300 && status < 400 && location?.toLowerCase().startsWith('https://')) return null;
+    return location
+      ? `GET / over plain HTTP answered ${status} with a redirect to ${location}, not to HTTPS`
+      : `GET / over plain HTTP answered ${status} without redirecting to HTTPS`;
+  }
+});
+
+const hops = (chain: HttpResponse[]) => chain.map((response) => `${response.url.href} (${response.status})`).join(' → ');
+
+export const insecureRedirects: WebsiteCheck = {
+  id: 'vuln_017',
+  name: 'Insecure Redirect Chain',
+  service: 'Website',
+  severity: 'medium',
+  description: 'The way from HTTP to the HTTPS page passes through plain HTTP more than once, or back to it',
+  risks: ['Man-in-the-middle attacks on the unencrypted hops', 'Cookies and URLs sent in the clear', 'SSL stripping'],
+  remediation: [
+    'Redirect HTTP straight to HTTPS on the same host, then to the final host',
+    'Never redirect from HTTPS to HTTP',
+    'Enable HSTS so browsers skip the HTTP hop next time'
+  ],
+  audit: ({ chain, tooManyRedirects }: WebsiteSnapshot) => {
+    if (tooManyRedirects) return `Redirects loop or go on too long: ${hops(chain)}`;
+    const firstHttps = chain.findIndex((response) => response.url.protocol === 'https:');
+    // A site that never reaches HTTPS is reported by the plain HTTP check
+    if (firstHttps < 0) return null;
+    const downgrade = chain.slice(firstHttps).findIndex((response) => response.url.protocol === 'http:');
+    if (downgrade >= 0) return `Redirected from HTTPS back to HTTP: ${hops(chain.slice(0, firstHttps + downgrade + 1))}`;
+    return firstHttps > 1 ? `${firstHttps} plain HTTP hops before HTTPS: ${hops(chain.slice(0, firstHttps + 1))}` : null;
+  }
+};
+
+/** Elements that load what their URL points at, and whether it can run code */
+const LOADING_TAGS: Record<string, { attributes: string[]; active: boolean }> = {
+  script: { attributes: ['src'], active: true },
+  iframe: { attributes: ['src'], active: true },
+  frame: { attributes: ['src'], active: true },
+  object: { attributes: ['data'], active: true },
+  embed: { attributes: ['src'], active: true },
+  link: { attributes: ['href'], active: true },
+  form: { attributes: ['action'], active: true },
+  img: { attributes: ['src', 'srcset'], active: false },
+  audio: { attributes: ['src'], active: false },
+  video: { attributes: ['src', 'poster'], active: false },
+  source: { attributes: ['src', 'srcset'], active: false }
+};
+
+function httpResources(html: string): { active: string[]; passive: string[] } {
+  const found = { active: new Set<string>(), passive: new Set<string>() };
+  for (const [tag, name] of html.matchAll(/<([a-z]+)\b[^>]*>/gi)) {
+    const element = LOADING_TAGS[name.toLowerCase()];
+    if (!element) continue;
+    // Links that are not loaded (rel=canonical, alternate...) are just navigation
+    if (name.toLowerCase() === 'link' && !/\brel\s*=\s*["']?[^"'>]*\b(stylesheet|icon|preload|modulepreload|manifest)\b/i.test(tag)) continue;
+    for (const attribute of element.attributes) {
+      const value = new RegExp(`\\s${attribute}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+      const urls = (value?.[1] ?? value?.[2] ?? value?.[3] ?? '').split(',').map((entry) => entry.trim().split(/\s+/)[0]);
+      for (const url of urls.filter((entry) => /^http:\/\//i.test(entry))) {
+        (element.active ? found.active : found.passive).add(url);
+      }
+    }
+  }
+  return { active: [...found.active], passive: [...found.passive] };
+}
+
+const listUrls = (urls: string[]) =>
+  urls.slice(0, LISTED_URLS).join(', ') + (urls.length > LISTED_URLS ? ` and ${urls.length - LISTED_URLS} more` : '');
+
+export const mixedContent: WebsiteCheck = {
+  id: 'vuln_018',
+  name: 'Mixed Content',
+  service: 'Website',
+  severity: 'medium',
+  description: 'The HTTPS page loads scripts, styles, frames or media over plain HTTP',
+  risks: ['Injected scripts through tampered resources', 'Broken pages where browsers block the content', 'Tracking over HTTP'],
+  remediation: [
+    'Load every resource over HTTPS',
+    'Use relative or https:// URLs',
+    'Add upgrade-insecure-requests to the Content-Security-Policy'
+  ],
+  audit: ({ page, html }) => {
+    if (page.url.protocol !== 'https:' || !html) return null;
+    const { active, passive } = httpResources(html);
+    const parts = [
+      active.length > 0 ? `${active.length} active (${listUrls(active)})` : '',
+      passive.length > 0 ? `${passive.length} passive (${listUrls(passive)})` : ''
+    ].filter(Boolean);
+    return parts.length > 0 ? `HTTP resources on an HTTPS page: ${parts.join('; ')}` : null;
+  }
+};
@@ -0,0 +1,23 @@
+// Checks that ship with the agent. New built-in checks are added here;
+// checks for a particular environment are better written as a check pack.
+
+import { COOKIE_CHECKS } from './cookies';
+import { anonymousFtp } from './ftp';
+import { HEADER_CHECKS } from './headers';
+import { insecureRedirects, mixedContent, plainHttp } from './http';
+import { defaultMysqlCredentials } from './mysql';
+import { Check } from './plugin';
+import { weakSsh } from './ssh';
+import { TLS_CHECKS } from './tls';
+
+export const BUILTIN_CHECKS: Check[] = [
+  weakSsh,
+  plainHttp,
+  anonymousFtp,
+  defaultMysqlCredentials,
+  ...HEADER_CHECKS,
+  ...COOKIE_CHECKS,
+  insecureRedirects,
+  mixedContent,
+  ...TLS_CHECKS
+];
@@ -0,0 +1,85 @@
+// MySQL and MariaDB: a root account without a password. The probe logs in,
+// but only to see whether it can, and closes the connection straight away.
+
+import { mysqlServerVersion } from '../services';
+import { READ_TIMEOUT, defineCheck, withConnection } from './plugin';
+
+const CLIENT_LONG_PASSWORD = 0x1;
+const CLIENT_PROTOCOL_41 = 0x200;
+const CLIENT_SECURE_CONNECTION = 0x8000;
+const CLIENT_PLUGIN_AUTH = 0x80000;
+
+function mysqlPacket(sequence: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUIntLE(payload.length, 0, 3);
+  header[3] = sequence;
+  return Buffer.concat([header, payload]);
+}
+
+/** Whole packets received so far, as [sequence, payload] */
+function mysqlPackets(data: Buffer): [number, Buffer][] {
+  const packets: [number, Buffer][] = [];
+  for (let offset = 0; offset + 4 <= data.length;) {
+    const length = data.readUIntLE(offset, 3);
+    if (offset + 4 + length > data.length) break;
+    packets.push([data[offset + 3], data.subarray(offset + 4, offset + 4 + length)]);
+    offset += 4 + length;
+  }
+  return packets;
+}
+
+const hasPacket = (data: Buffer) => mysqlPackets(data).length > 0;
+
+/** HandshakeResponse41 for a user with an empty password */
+function emptyPasswordLogin(user: string): Buffer {
+  const fixed = Buffer.alloc(32);
+  fixed.writeUInt32LE(CLIENT_LONG_PASSWORD | CLIENT_PROTOCOL_41 | CLIENT_SECURE_CONNECTION | CLIENT_PLUGIN_AUTH, 0);
+  fixed.writeUInt32LE(1 << 24, 4);
+  fixed[8] = 33; // utf8_general_ci
+  return Buffer.concat([fixed, Buffer.from(`${user}\0`), Buffer.from([0]), Buffer.from('mysql_native_password\0')]);
+}
+
+interface MysqlObservation {
+  version: string;
+  loggedIn: boolean;
+}
+
+export const defaultMysqlCredentials = defineCheck<MysqlObservation>({
+  id: 'vuln_005',
+  name: 'Default Database Credentials',
+  service: 'Database',
+  severity: 'critical',
+  description: 'Database accepts the root account with an empty password',
+  risks: ['Complete database compromise', 'Data theft', 'Privilege escalation'],
+  remediation: [
+    'Change default credentials immediately',
+    'Create strong, unique passwords',
+    'Implement role-based access control',
+    'Enable database firewall'
+  ],
+  appliesTo: { services: ['mysql'] },
+  probe: (context) => withConnection(context, false, async (connection) => {
+    const greeting = await connection.read(hasPacket, READ_TIMEOUT);
+    const version = mysqlServerVersion(greeting);
+    if (!version) return null;
+    connection.write(mysqlPacket(1, emptyPasswordLogin('root')));
+
+    // OK, error, an auth method switch (answered with the same empty
+    // password) or caching_sha2_password's "fast auth succeeded" marker
+    let packets: [number, Buffer][] = [];
+    for (let round = 0; round < 4; round++) {
+      if (packets.length === 0) packets = mysqlPackets(await connection.read(hasPacket, READ_TIMEOUT));
+      const packet = packets.shift();
+      if (!packet) break;
+      const [sequence, payload] = packet;
+      if (payload[0] === 0x00) return { version, loggedIn: true };
+      if (payload[0] === 0xfe) {
+        connection.write(mysqlPacket(sequence + 1, Buffer.alloc(0)));
+      } else if (!(payload[0] === 0x01 && payload[1] === 0x03)) {
+        break;
+      }
+    }
+    return { version, loggedIn: false };
+  }),
+  match: ({ version, loggedIn }) => loggedIn ? `Logged in as "root" with an empty password (MySQL ${version})` : null
+});
@@ -0,0 +1,85 @@
+// The check plugin interface.
+//
+// A check is split in two: the probe talks to the service and reports what
+// it saw, and the matcher decides whether that shows the problem. Probes
+// never change anything on the target. Built-in checks are TypeScript
+// modules in this directory; check packs (checkPacks.ts) describe simple
+// send-and-match checks in JSON or YAML.
+//
+// Website checks are the other kind: in website mode the agent fetches the
+// page once (website.ts) and every website check audits that snapshot.
+
+import type { CheckSummary, OpenPort } from '../../src/utils/scanAgentProtocol';
+import { Connection, openConnection } from '../net';
+import { PROBE_TLS } from '../services';
+import type { WebsiteSnapshot } from '../website';
+
+export const CONNECT_TIMEOUT = 3000;
+export const READ_TIMEOUT = 3000;
+
+export interface CheckContext {
+  target: OpenPort;
+  signal?: AbortSignal;
+}
+
+export interface CheckPlugin<Observation = unknown> extends CheckSummary {
+  /**
+   * Open ports the check runs against: any port whose identified service is
+   * in `services` (ignoring case), and any port in `ports` whatever runs there
+   */
+  appliesTo: { services?: string[]; ports?: number[] };
+  /** Talk to the service; null when there is nothing to judge */
+  probe(context: CheckContext): Promise<Observation | null>;
+  /** Evidence of the problem in what the probe saw, or null */
+  match(observation: Observation): string | null;
+}
+
+export interface WebsiteCheck extends CheckSummary {
+  /** Evidence of the problem in the fetched page, or null */
+  audit(site: WebsiteSnapshot): string | null;
+}
+
+export type Check = CheckPlugin | WebsiteCheck;
+
+export function isWebsiteCheck(check: Check): check is WebsiteCheck {
+  return 'audit' in check;
+}
+
+/**
+ * Identity function that keeps the observation type of a check
+ */
+export function defineCheck<Observation>(check: CheckPlugin<Observation>): CheckPlugin<Observation> {
+  return check;
+}
+
+export function checkSummary(check: Check): CheckSummary {
+  const { id, name, service, severity, description, risks, remediation } = check;
+  return { id, name, service, severity, description, risks, remediation };
+}
+
+export function appliesTo(check: CheckPlugin, target: OpenPort): boolean {
+  const service = target.service.toLowerCase();
+  return Boolean(
+    check.appliesTo.services?.some((name) => name.toLowerCase() === service) || check.appliesTo.ports?.includes(target.port)
+  );
+}
+
+/**
+ * Open a connection to the target for the duration of `talk`
+ */
+export async function withConnection<T>(
+  { target, signal }: CheckContext,
+  tls: boolean,
+  talk: (connection: Connection) => Promise<T>
+): Promise<T> {
+  const connection = await openConnection(target.host, target.port, {
+    timeoutMs: CONNECT_TIMEOUT,
+    signal,
+    tls: tls ? PROBE_TLS : undefined
+  });
+  try {
+    return await talk(connection);
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,84 @@
+// SSH: obsolete protocol versions and weak algorithms, read from the
+// server's KEXINIT message, which is sent in the clear before any keys.
+
+import { printableBanner } from '../services';
+import { READ_TIMEOUT, defineCheck, withConnection } from './plugin';
+
+const WEAK_SSH_ALGORITHMS = new Set([
+  'diffie-hellman-group1-sha1', 'diffie-hellman-group14-sha1', 'diffie-hellman-group-exchange-sha1',
+  'ssh-dss',
+  'des-cbc', '3des-cbc', 'blowfish-cbc', 'cast128-cbc', 'arcfour', 'arcfour128', 'arcfour256',
+  'aes128-cbc', 'aes192-cbc', 'aes256-cbc', 'rijndael-cbc@lysator.liu.se',
+  'hmac-md5', 'hmac-md5-96', 'hmac-sha1-96', 'hmac-md5-etm@openssh.com', 'hmac-md5-96-etm@openssh.com',
+  'hmac-sha1-96-etm@openssh.com', 'umac-64@openssh.com'
+]);
+
+const SSH_MSG_KEXINIT = 20;
+
+/**
+ * The algorithm name-lists of an SSH_MSG_KEXINIT packet, or null until the
+ * whole packet has arrived
+ */
+function parseKexInit(data: Buffer): string[] | null {
+  if (data.length < 5) return null;
+  const packetLength = data.readUInt32BE(0);
+  if (data.length < 4 + packetLength || data[5] !== SSH_MSG_KEXINIT) return null;
+  const names: string[] = [];
+  // Skip the message code and the 16-byte cookie, then read the 10 name-lists
+  let offset = 6 + 16;
+  for (let i = 0; i < 10 && offset + 4 <= 4 + packetLength; i++) {
+    const length = data.readUInt32BE(offset);
+    names.push(...data.toString('latin1', offset + 4, offset + 4 + length).split(',').filter(Boolean));
+    offset += 4 + length;
+  }
+  return names;
+}
+
+interface SshObservation {
+  version: string;
+  /** Every algorithm offered; empty for SSH 1 servers */
+  algorithms: string[];
+}
+
+export const weakSsh = defineCheck<SshObservation>({
+  id: 'vuln_001',
+  name: 'Weak SSH Configuration',
+  service: 'SSH',
+  severity: 'high',
+  description: 'SSH service offers obsolete key exchange, host key, cipher or MAC algorithms',
+  risks: ['Brute force attacks', 'Unauthorized access', 'Data breaches'],
+  remediation: [
+    'Remove weak algorithms from KexAlgorithms, HostKeyAlgorithms, Ciphers and MACs',
+    'Disable root login',
+    'Enable key-based authentication',
+    'Implement fail2ban for brute force protection'
+  ],
+  appliesTo: { services: ['ssh'] },
+  probe: (context) => withConnection(context, false, async (connection) => {
+    // The server sends its version line, then KEXINIT in the clear; some
+    // servers wait for the client's version line before sending KEXINIT
+    let received = await connection.read((data) => data.includes('\n'), READ_TIMEOUT);
+    const lineEnd = received.indexOf('\n');
+    if (lineEnd < 0) return null;
+    const version = printableBanner(received);
+    if (/^SSH-1\.(?!99)/.test(version)) return { version, algorithms: [] };
+
+    connection.write('SSH-2.0-SecureX_Scan_Agent\r\n');
+    received = received.subarray(lineEnd + 1);
+    let algorithms = parseKexInit(received);
+    while (!algorithms) {
+      const more = await connection.read((data) => parseKexInit(Buffer.concat([received, data])) !== null, READ_TIMEOUT);
+      if (more.length === 0) return null;
+      received = Buffer.concat([received, more]);
+      algorithms = parseKexInit(received);
+    }
+    return { version, algorithms };
+  }),
+  match: ({ version, algorithms }) => {
+    if (/^SSH-1\.(?!99)/.test(version)) {
+      return `Server only speaks the obsolete SSH protocol 1 (${version})`;
+    }
+    const weak = [...new Set(algorithms.filter((name) => WEAK_SSH_ALGORITHMS.has(name)))];
+    return weak.length > 0 ? `${version} offers weak algorithms: ${weak.join(', ')}` : null;
+  }
+});
@@ -0,0 +1,179 @@
+// TLS: protocol versions, cipher suites and certificates, judged from the
+// analysis the scanner runs on every port that speaks TLS (tlsAnalyzer.ts).
+
+import type { TlsAnalysis, TlsCertificate } from '../../src/utils/scanAgentProtocol';
+import { isWeakSignature } from '../certificates';
+import { TLS_SERVICES } from '../services';
+import { EXPIRY_WARNING_DAYS } from '../tlsAnalyzer';
+import { CheckContext, defineCheck } from './plugin';
+
+const LISTED_SUITES = 4;
+const DAY = 24 * 60 * 60 * 1000;
+
+const appliesTo = { services: TLS_SERVICES };
+const analysis = async ({ target }: CheckContext) => target.tls ?? null;
+const leafOf = ({ chain }: TlsAnalysis): TlsCertificate | undefined => chain[0];
+
+export const outdatedTls = defineCheck<TlsAnalysis>({
+  id: 'vuln_004',
+  name: 'Outdated SSL/TLS Version',
+  service: 'Web Server',
+  severity: 'high',
+  description: 'Server is using outdated SSL/TLS protocols',
+  risks: ['Protocol downgrade attacks', 'Weak encryption', 'Compliance violations'],
+  remediation: [
+    'Update to TLS 1.2 or higher',
+    'Disable SSLv3 and TLS 1.0/1.1',
+    'Configure strong cipher suites',
+    'Regular SSL certificate updates'
+  ],
+  appliesTo,
+  probe: analysis,
+  match: ({ protocols, grade }) => {
+    const outdated = protocols.filter((version) => version === 'SSLv3' || version === 'TLSv1' || version === 'TLSv1.1');
+    return outdated.length > 0 ? `Accepts ${outdated.join(', ')} (TLS grade ${grade})` : null;
+  }
+});
+
+export const weakCipherSuites = defineCheck<TlsAnalysis>({
+  id: 'vuln_019',
+  name: 'Weak TLS Cipher Suites',
+  service: 'Web Server',
+  severity: 'high',
+  description: 'Server accepts cipher suites with broken or missing encryption or authentication',
+  risks: ['Decryption of captured traffic', 'Man-in-the-middle attacks', 'Compliance violations'],
+  remediation: [
+    'Disable NULL, anonymous, export, DES, 3DES and RC4 suites',
+    'Prefer ECDHE suites with AES-GCM or ChaCha20-Poly1305',
+    'Use a maintained configuration such as Mozilla\'s "intermediate" profile'
+  ],
+  appliesTo,
+  probe: analysis,
+  match: ({ cipherSuites }) => {
+    const weak = new Map<string, string>();
+    for (const suite of cipherSuites) if (suite.weakness) weak.set(suite.name, suite.weakness);
+    if (weak.size === 0) return null;
+    const listed = [...weak].slice(0, LISTED_SUITES).map(([name, weakness]) => `${name} (${weakness})`);
+    return `Accepts ${weak.size} weak suites: ${listed.join(', ')}${weak.size > LISTED_SUITES ? '...' : ''}`;
+  }
+});
+
+export const certificateExpiry = defineCheck<TlsAnalysis>({
+  id: 'vuln_020',
+  name: 'Expired or Expiring TLS Certificate',
+  service: 'Web Server',
+  severity: 'high',
+  description: 'The server certificate has expired, is not valid yet, or expires within a month',
+  risks: ['Browsers block the site', 'Users trained to click through warnings', 'Service outages'],
+  remediation: ['Renew the certificate', 'Automate renewal, for example with ACME (Let\'s Encrypt)', 'Monitor certificate expiry'],
+  appliesTo,
+  probe: analysis,
+  match: (tls) => {
+    const leaf = leafOf(tls);
+    if (!leaf) return null;
+    const now = Date.now();
+    const validTo = new Date(leaf.validTo).getTime();
+    if (validTo < now) return `Expired on ${leaf.validTo.slice(0, 10)}`;
+    if (new Date(leaf.validFrom).getTime() > now) return `Not valid until ${leaf.validFrom.slice(0, 10)}`;
+    const days = Math.floor((validTo - now) / DAY);
+    return days < EXPIRY_WARNING_DAYS ? `Expires in ${days} days, on ${leaf.validTo.slice(0, 10)}` : null;
+  }
+});
+
+export const weakCertificateKey = defineCheck<TlsAnalysis>({
+  id: 'vuln_021',
+  name: 'Weak Certificate Key',
+  service: 'Web Server',
+  severity: 'high',
+  description: 'The certificate\'s public key is too short to resist factoring or discrete-log attacks',
+  risks: ['Forged signatures', 'Impersonation of the server'],
+  remediation: ['Issue a new certificate with a 2048-bit (or longer) RSA key or a P-256 ECDSA key'],
+  appliesTo,
+  probe: analysis,
+  match: (tls) => {
+    const leaf = leafOf(tls);
+    if (!leaf || leaf.keyBits === 0) return null;
+    const minimum = leaf.keyType.startsWith('rsa') || leaf.keyType === 'dsa' ? 2048 : 224;
+    return leaf.keyBits < minimum ? `${leaf.keyBits}-bit ${leaf.keyType.toUpperCase()} key, below ${minimum} bits` : null;
+  }
+});
+
+export const weakCertificateSignature = defineCheck<TlsAnalysis>({
+  id: 'vuln_022',
+  name: 'Weak Certificate Signature',
+  service: 'Web Server',
+  severity: 'medium',
+  description: 'A certificate in the chain is signed with MD5 or SHA-1, which are open to collision attacks',
+  risks: ['Forged certificates', 'Browsers rejecting the chain'],
+  remediation: ['Reissue the certificate, and any intermediate, with a SHA-256 (or stronger) signature'],
+  appliesTo,
+  probe: analysis,
+  match: ({ chain }) => {
+    // A root's own signature is never checked
+    const weak = chain.find((certificate) => !certificate.selfSigned && isWeakSignature(certificate.signatureAlgorithm));
+    return weak ? `${weak.subject} is signed with ${weak.signatureAlgorithm}` : null;
+  }
+});
+
+export const certificateNameMismatch = defineCheck<TlsAnalysis>({
+  id: 'vuln_023',
+  name: 'Certificate Name Mismatch',
+  service: 'Web Server',
+  severity: 'high',
+  description: 'The certificate is not issued for the host name that was scanned',
+  risks: ['Browsers block the site', 'Users trained to click through warnings', 'Possible misrouted traffic'],
+  remediation: ['Issue a certificate whose subject alternative names include every host name the service is reached by'],
+  appliesTo,
+  probe: analysis,
+  match: (tls) => {
+    const leaf = leafOf(tls);
+    if (!leaf || tls.hostnameMatches !== false) return null;
+    const names = leaf.subjectAltNames.length > 0 ? leaf.subjectAltNames.join(', ') : leaf.subject;
+    return `Certificate covers ${names}`;
+  }
+});
+
+export const untrustedCertificate = defineCheck<TlsAnalysis>({
+  id: 'vuln_024',
+  name: 'Self-Signed or Untrusted Certificate',
+  service: 'Web Server',
+  severity: 'high',
+  description: 'The certificate does not chain to a trusted certificate authority',
+  risks: ['Man-in-the-middle attacks go unnoticed', 'Users trained to click through warnings'],
+  remediation: [
+    'Use a certificate from a public CA, or from an internal CA that clients trust',
+    'Send the intermediate certificates along with the leaf'
+  ],
+  appliesTo,
+  probe: analysis,
+  match: (tls) => {
+    const leaf = leafOf(tls);
+    if (!leaf || tls.trusted) return null;
+    return leaf.selfSigned ? `Self-signed certificate for ${leaf.subject}` : `Chain does not verify: ${tls.trustError ?? 'unknown issuer'}`;
+  }
+});
+
+export const missingOcspStapling = defineCheck<TlsAnalysis>({
+  id: 'vuln_025',
+  name: 'Missing OCSP Stapling',
+  service: 'Web Server',
+  severity: 'low',
+  description: 'The server does not staple an OCSP response, so clients must ask the CA whether the certificate is revoked',
+  risks: ['Revoked certificates accepted when the CA cannot be reached', 'Browsing history leaked to the CA', 'Slower connections'],
+  remediation: ['Enable OCSP stapling (ssl_stapling on in nginx, SSLUseStapling On in Apache)'],
+  appliesTo,
+  probe: analysis,
+  // Only CA-issued certificates have a responder to staple from
+  match: (tls) => (tls.trusted && !tls.ocspStapling ? 'No OCSP response was stapled to the handshake' : null)
+});
+
+export const TLS_CHECKS = [
+  outdatedTls,
+  weakCipherSuites,
+  certificateExpiry,
+  weakCertificateKey,
+  weakCertificateSignature,
+  certificateNameMismatch,
+  untrustedCertificate,
+  missingOcspStapling
+];
@@ -0,0 +1,52 @@
+// Scan agent entry point: `npm run agent`.
+//
+// Environment:
+//   SCAN_AGENT_PORT     port to listen on (default 8787)
+//   SCAN_AGENT_ORIGINS  comma-separated origins allowed to use the agent
+//                       (default: the Vite dev server on port 8080)
+//   SCAN_AGENT_CHECKS   directory of JSON/YAML check packs to load at
+//                       startup (default: checks/)
+
+import { DEFAULT_AGENT_PORT } from '../src/utils/scanAgentProtocol';
+import { readCheckPacks } from './checkPacks';
+import { BUILTIN_CHECKS } from './checks';
+import { CheckRegistry } from './registry';
+import { AGENT_VERSION, createScanAgent } from './server';
+
+const DEFAULT_ORIGINS = ['http://localhost:8080', 'http://127.0.0.1:8080', 'http://[::1]:8080'];
+const DEFAULT_CHECKS_DIRECTORY = 'checks';
+
+const port = Number(process.env.SCAN_AGENT_PORT ?? DEFAULT_AGENT_PORT);
+const allowedOrigins = process.env.SCAN_AGENT_ORIGINS
+  ? process.env.SCAN_AGENT_ORIGINS.split(',').map((origin) => origin.trim()).filter(Boolean)
+  : DEFAULT_ORIGINS;
+const checksDirectory = process.env.SCAN_AGENT_CHECKS ?? DEFAULT_CHECKS_DIRECTORY;
+
+const registry = new CheckRegistry(BUILTIN_CHECKS);
+try {
+  const { packs, errors } = await readCheckPacks(checksDirectory);
+  for (const pack of packs) {
+    try {
+      registry.replaceSource(pack.name, pack.checks, (check) => !pack.disabled.has(check.id));
+      console.log(`Loaded check pack "${pack.name}" (${pack.checks.length} checks)`);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+  for (const error of errors) console.error(`Skipped a check pack: ${error}`);
+} catch (error) {
+  // The default directory is optional; one that was asked for is not
+  if (process.env.SCAN_AGENT_CHECKS) {
+    console.error(`Could not read check packs from ${checksDirectory}: ${(error as Error).message}`);
+  }
+}
+
+const server = createScanAgent({ allowedOrigins, registry });
+server.on('error', (error) => {
+  console.error(`Scan agent could not start: ${error.message}`);
+  process.exit(1);
+});
+server.listen(port, '127.0.0.1', () => {
+  console.log(`SecureX scan agent ${AGENT_VERSION} listening on http://127.0.0.1:${port}`);
+  console.log(`Accepting requests from ${allowedOrigins.join(', ')}`);
+});
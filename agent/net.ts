@@ -0,0 +1,126 @@
+// TCP and TLS connections for the probes, with timeouts and cancellation.
+//
+// Probes hold short conversations with services: read a banner, send a
+// command, read the reply. A Connection buffers everything it receives and
+// hands it out in reads that end when the caller has seen enough, the peer
+// goes quiet or the connection closes.
+
+import { Socket, connect as connectTcp } from 'node:net';
+import { ConnectionOptions, TLSSocket, TLSSocketOptions, connect as connectTls } from 'node:tls';
+
+export const CANCELLED = 'Scan was cancelled';
+
+export interface ConnectOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+  /** Wrap the connection in TLS with these options */
+  tls?: ConnectionOptions & Pick<TLSSocketOptions, 'requestOCSP'>;
+}
+
+export interface Connection {
+  socket: Socket | TLSSocket;
+  /** The OCSP response the server stapled, when TLS was asked for one with `requestOCSP` */
+  ocspResponse?: Buffer;
+  /**
+   * Data received since the last read, once `complete` accepts it, the peer
+   * has sent nothing for `timeoutMs`, or the connection has closed
+   */
+  read(complete: (data: Buffer) => boolean, timeoutMs: number): Promise<Buffer>;
+  write(data: string | Uint8Array): void;
+  close(): void;
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) throw new Error(CANCELLED);
+}
+
+/**
+ * Connect to a host, failing after `timeoutMs` or when the signal aborts
+ */
+export function openConnection(host: string, port: number, { timeoutMs, signal, tls }: ConnectOptions): Promise<Connection> {
+  throwIfCancelled(signal);
+  return new Promise((resolve, reject) => {
+    const socket = tls
+      ? connectTls({ host, port, servername: isIpAddress(host) ? undefined : host, ...tls })
+      : connectTcp({ host, port });
+    let received = Buffer.alloc(0);
+    let ocspResponse: Buffer | undefined;
+    let ended = false;
+    let wake: (() => void) | null = null;
+
+    const onAbort = () => socket.destroy(new Error(CANCELLED));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => socket.destroy(new Error(`Connection to ${host}:${port} timed out`)), timeoutMs);
+
+    socket.on('data', (chunk: Buffer) => {
+      received = Buffer.concat([received, chunk]);
+      wake?.();
+    });
+    // Sent during the handshake, before the connection is handed out
+    socket.on('OCSPResponse', (response: Buffer) => {
+      ocspResponse = response;
+    });
+    socket.on('close', () => {
+      ended = true;
+      signal?.removeEventListener('abort', onAbort);
+      wake?.();
+    });
+    socket.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    socket.once(tls ? 'secureConnect' : 'connect', () => {
+      clearTimeout(timer);
+      resolve({
+        socket,
+        ocspResponse,
+        read(complete, readTimeoutMs) {
+          return new Promise((done) => {
+            let idle: ReturnType<typeof setTimeout>;
+            const finish = () => {
+              clearTimeout(idle);
+              wake = null;
+              const data = received;
+              received = Buffer.alloc(0);
+              done(data);
+            };
+            const check = () => {
+              clearTimeout(idle);
+              if (ended || complete(received)) {
+                finish();
+              } else {
+                idle = setTimeout(finish, readTimeoutMs);
+              }
+            };
+            wake = check;
+            check();
+          });
+        },
+        write(data) {
+          if (!ended) socket.write(data);
+        },
+        close() {
+          socket.destroy();
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Whether a TCP port accepts connections
+ */
+export async function isPortOpen(host: string, port: number, timeoutMs: number, signal?: AbortSignal): Promise<boolean> {
+  try {
+    const connection = await openConnection(host, port, { timeoutMs, signal });
+    connection.close();
+    return true;
+  } catch (error) {
+    throwIfCancelled(signal);
+    return false;
+  }
+}
+
+export function isIpAddress(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(':');
+}
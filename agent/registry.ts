@@ -0,0 +1,99 @@
+// Registry of the checks a scan can run: built-in checks plus any loaded
+// check packs, each of which can be switched off. Service checks run against
+// open ports, website checks against the page fetched in website mode.
+
+import type { CheckInfo, OpenPort } from '../src/utils/scanAgentProtocol';
+import { Check, CheckPlugin, WebsiteCheck, appliesTo, checkSummary, isWebsiteCheck } from './checks/plugin';
+
+export const BUILTIN_SOURCE = 'built-in';
+
+interface RegisteredCheck {
+  check: Check;
+  source: string;
+  enabled: boolean;
+}
+
+export class CheckRegistry {
+  private checks = new Map<string, RegisteredCheck>();
+
+  constructor(builtIn: Check[] = []) {
+    for (const check of builtIn) this.register(check, BUILTIN_SOURCE);
+  }
+
+  /**
+   * Add a check. Ids are unique across sources; to replace a pack's checks,
+   * remove the pack first.
+   */
+  register(check: Check, source: string, enabled = true) {
+    const existing = this.checks.get(check.id);
+    if (existing) {
+      throw new Error(`Check "${check.id}" is already registered by ${existing.source}`);
+    }
+    this.checks.set(check.id, { check, source, enabled });
+  }
+
+  /**
+   * Replace all checks from a source. Nothing changes if any of the new
+   * checks clashes with a check from another source.
+   */
+  replaceSource(source: string, checks: CheckPlugin[], enabled: (check: CheckPlugin) => boolean = () => true) {
+    if (source === BUILTIN_SOURCE) {
+      throw new Error('Built-in checks cannot be replaced');
+    }
+    for (const check of checks) {
+      const existing = this.checks.get(check.id);
+      if (existing && existing.source !== source) {
+        throw new Error(`Check "${check.id}" is already registered by ${existing.source}`);
+      }
+    }
+    for (const [id, entry] of this.checks) {
+      if (entry.source === source) this.checks.delete(id);
+    }
+    for (const check of checks) this.register(check, source, enabled(check));
+  }
+
+  setEnabled(id: string, enabled: boolean): CheckInfo {
+    const entry = this.checks.get(id);
+    if (!entry) {
+      throw new Error(`There is no check "${id}"`);
+    }
+    entry.enabled = enabled;
+    return this.describe(entry);
+  }
+
+  list(source?: string): CheckInfo[] {
+    return [...this.checks.values()]
+      .filter((entry) => source === undefined || entry.source === source)
+      .map((entry) => this.describe(entry));
+  }
+
+  /**
+   * Enabled checks that apply to an open port
+   */
+  checksFor(target: OpenPort): CheckPlugin[] {
+    return this.enabled().filter((check): check is CheckPlugin => !isWebsiteCheck(check) && appliesTo(check, target));
+  }
+
+  /**
+   * Enabled checks for the page fetched in website mode
+   */
+  websiteChecks(): WebsiteCheck[] {
+    return this.enabled().filter(isWebsiteCheck);
+  }
+
+  private enabled(): Check[] {
+    return [...this.checks.values()].filter((entry) => entry.enabled).map((entry) => entry.check);
+  }
+
+  private describe({ check, source, enabled }: RegisteredCheck): CheckInfo {
+    const website = isWebsiteCheck(check);
+    return {
+      ...checkSummary(check),
+      source,
+      enabled,
+      kind: website ? 'website' : 'service',
+      services: website ? [] : check.appliesTo.services ?? [],
+      ports: website ? [] : check.appliesTo.ports ?? []
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import { randomBytes } from 'node:crypto';
+import { once } from 'node:events';
+import { createServer as createHttpServer } from 'node:http';
+import { AddressInfo, Server, Socket, createServer } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { ScanReport } from '../src/utils/scanAgentProtocol';
+import { BUILTIN_CHECKS } from './checks';
+import { CheckRegistry } from './registry';
+import { runScan } from './scanner';
+
+// Local stand-ins for the services the built-in checks look at, each
+// answering just enough of its protocol for the probes
+
+/** FTP that lets anyone in, or turns anonymous logins away */
+const ftpServer = (banner: string, anonymous: boolean) => createServer((socket) => {
+  socket.write(`220-${banner}\r\n220 Ready\r\n`);
+  socket.on('data', (data) => {
+    const command = data.toString('latin1');
+    if (command.startsWith('USER')) socket.write('331 Please specify the password.\r\n');
+    else if (command.startsWith('PASS')) socket.write(anonymous ? '230 Login successful.\r\n' : '530 Login incorrect.\r\n');
+    else if (command.startsWith('QUIT')) socket.end('221 Goodbye.\r\n');
+  });
+});
+
+const nameList = (names: string[]) => {
+  const list = Buffer.from(names.join(','));
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(list.length);
+  return Buffer.concat([length, list]);
+};
+
+/** SSH that sends its version line and a KEXINIT offering some weak algorithms */
+const sshServer = (version: string) => createServer((socket) => {
+  const payload = Buffer.concat([
+    Buffer.from([20]), randomBytes(16),
+    nameList(['curve25519-sha256', 'diffie-hellman-group1-sha1']), nameList(['ssh-ed25519']),
+    nameList(['aes128-ctr', '3des-cbc']), nameList(['aes128-ctr']),
+    nameList(['hmac-sha2-256']), nameList(['hmac-sha2-256']),
+    nameList(['none']), nameList(['none']), nameList([]), nameList([]),
+    Buffer.from([0, 0, 0, 0, 0])
+  ]);
+  const padding = 8 - ((payload.length + 5) % 8) + 4;
+  const packet = Buffer.concat([Buffer.alloc(5), payload, Buffer.alloc(padding)]);
+  packet.writeUInt32BE(packet.length - 4, 0);
+  packet[4] = padding;
+  socket.write(`${version}\r\n`);
+  socket.write(packet);
+});
+
+/** MySQL that accepts root with an empty password */
+const mysqlServer = (version: string) => createServer((socket) => {
+  const handshake = Buffer.concat([
+    Buffer.from([10]), Buffer.from(`${version}\0`), Buffer.alloc(4), randomBytes(8), Buffer.from([0]),
+    Buffer.from([0xff, 0xf7, 33, 2, 0, 0xff, 0x81, 21]), Buffer.alloc(10), randomBytes(12), Buffer.from([0]),
+    Buffer.from('mysql_native_password\0')
+  ]);
+  const header = Buffer.alloc(4);
+  header.writeUIntLE(handshake.length, 0, 3);
+  socket.write(Buffer.concat([header, handshake]));
+  // OK packet, sequence 2
+  socket.once('data', () => socket.write(Buffer.from([7, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0])));
+});
+
+const servers = {
+  ftp: ftpServer('(vsFTPd 2.3.4)', true),
+  closedFtp: ftpServer('ProFTPD 1.3.5 Server', false),
+  ssh: sshServer('SSH-2.0-OpenSSH_7.4'),
+  mysql: mysqlServer('5.7.40-log'),
+  http: createHttpServer((request, response) => {
+    response.setHeader('Server', 'Apache/2.4.49 (Unix) OpenSSL/1.1.1k');
+    response.end('hello');
+  }),
+  redirect: createHttpServer((request, response) => {
+    response.writeHead(301, { Location: 'https://localhost/' });
+    response.end();
+  })
+};
+const ports = {} as Record<keyof typeof servers, number>;
+const sockets = new Set<Socket>();
+let report: ScanReport;
+
+beforeAll(async () => {
+  for (const [name, server] of Object.entries(servers) as [keyof typeof servers, Server][]) {
+    server.on('connection', (socket: Socket) => {
+      sockets.add(socket);
+      socket.on('error', () => undefined);
+    });
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    ports[name] = (server.address() as AddressInfo).port;
+  }
+  report = await runScan(
+    { target: '127.0.0.1', mode: 'network', ports: Object.values(ports) },
+    new CheckRegistry(BUILTIN_CHECKS)
+  );
+}, 30000);
+
+afterAll(() => {
+  for (const socket of sockets) socket.destroy();
+  for (const server of Object.values(servers)) server.close();
+});
+
+const findingsOn = (port: number) => report.findings.filter((finding) => finding.port === port).map((finding) => finding.checkId);
+const openPort = (port: number) => report.openPorts.find((open) => open.port === port);
+
+describe('network scan of local services', () => {
+  it('finds every listening port', () => {
+    expect(report.openPorts.map((open) => open.port)).toEqual(Object.values(ports).sort((a, b) => a - b));
+  });
+
+  it('identifies services on unusual ports', () => {
+    expect(openPort(ports.ftp)?.service).toBe('ftp');
+    expect(openPort(ports.ssh)?.service).toBe('ssh');
+    expect(openPort(ports.mysql)?.service).toBe('mysql');
+    expect(openPort(ports.http)?.service).toBe('http');
+    expect(openPort(ports.redirect)?.service).toBe('http');
+  });
+
+  it('reports anonymous FTP (vuln_003) only where the login works', () => {
+    expect(findingsOn(ports.ftp)).toEqual(['vuln_003']);
+    expect(report.findings.find((finding) => finding.port === ports.ftp)?.evidence).toBe('Logged in as "anonymous": 230 Login successful.');
+    expect(findingsOn(ports.closedFtp)).toEqual([]);
+  });
+
+  it('reports plain HTTP (vuln_002) unless it redirects to HTTPS', () => {
+    expect(findingsOn(ports.http)).toEqual(['vuln_002']);
+    expect(findingsOn(ports.redirect)).toEqual([]);
+  });
+
+  it('reports weak SSH algorithms and a passwordless MySQL root', () => {
+    expect(findingsOn(ports.ssh)).toEqual(['vuln_001']);
+    expect(report.findings.find((finding) => finding.port === ports.ssh)?.evidence)
+      .toBe('SSH-2.0-OpenSSH_7.4 offers weak algorithms: diffie-hellman-group1-sha1, 3des-cbc');
+    expect(findingsOn(ports.mysql)).toEqual(['vuln_005']);
+  });
+
+  it('detects software versions from banners and Server headers', () => {
+    expect(openPort(ports.ftp)?.software).toEqual([{ vendor: 'beasts', product: 'vsftpd', version: '2.3.4' }]);
+    expect(openPort(ports.closedFtp)?.software).toEqual([{ vendor: 'proftpd', product: 'proftpd', version: '1.3.5' }]);
+    expect(openPort(ports.ssh)?.software).toEqual([{ vendor: 'openbsd', product: 'openssh', version: '7.4' }]);
+    expect(openPort(ports.mysql)?.software).toEqual([{ vendor: 'oracle', product: 'mysql', version: '5.7.40' }]);
+    expect(openPort(ports.http)?.software).toEqual([
+      { vendor: 'apache', product: 'http_server', version: '2.4.49' },
+      { vendor: 'openssl', product: 'openssl', version: '1.1.1k' }
+    ]);
+    expect(openPort(ports.redirect)?.software).toBeUndefined();
+  });
+});
@@ -0,0 +1,211 @@
+// The scan itself: resolve the target, find open ports with TCP connects,
+// identify each service and run the registry's checks that apply to it. In
+// website mode the page is then fetched and audited by the website checks.
+
+import { lookup } from 'node:dns/promises';
+import type { OpenPort, ScanFinding, ScanReport, ScanRequest, WebsiteSummary } from '../src/utils/scanAgentProtocol';
+import { Check, checkSummary } from './checks/plugin';
+import { isPortOpen, throwIfCancelled } from './net';
+import { CheckRegistry } from './registry';
+import { TLS_SERVICES, identifyService } from './services';
+import { analyzeTls } from './tlsAnalyzer';
+import { WebsiteSnapshot, fetchWebsite } from './website';
+
+/** Ports tried when a request does not list its own */
+export const COMMON_PORTS = [21, 22, 23, 25, 80, 110, 143, 443, 465, 993, 995, 3306, 5432, 6379, 8080, 8443];
+
+const WEBSITE_PORTS = [80, 443];
+const MAX_HOSTS = 256;
+const MAX_CONNECTS = 65536;
+const CONNECT_TIMEOUT = 1500;
+const PARALLEL_CONNECTS = 64;
+/** Share of the progress bar for the website audit in website mode */
+const WEBSITE_SHARE = 0.2;
+
+export interface ScanEvents {
+  onProgress?: (fraction: number, stage: string) => void;
+  onOpenPort?: (port: OpenPort) => void;
+  onFinding?: (finding: ScanFinding) => void;
+}
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function numberToIpv4(value: number): string {
+  return [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join('.');
+}
+
+/**
+ * Addresses in an IPv4 CIDR range, without the network and broadcast
+ * addresses when the range has them
+ */
+export function expandCidr(range: string): string[] {
+  const match = /^(\d{1,3}(?:\.\d{1,3}){3})\/(\d{1,2})$/.exec(range);
+  if (!match || match[1].split('.').some((octet) => Number(octet) > 255)) {
+    throw new Error(`"${range}" is not an IPv4 CIDR range`);
+  }
+  const prefix = Number(match[2]);
+  const size = 2 ** (32 - prefix);
+  if (prefix > 32 || size > MAX_HOSTS) {
+    throw new Error(`Ranges can cover at most ${MAX_HOSTS} addresses (a /24)`);
+  }
+  const base = ipv4ToNumber(match[1]) - (ipv4ToNumber(match[1]) % size);
+  const hosts = Array.from({ length: size }, (_, i) => numberToIpv4(base + i));
+  return size > 2 ? hosts.slice(1, -1) : hosts;
+}
+
+/**
+ * Hosts and ports a request covers, and in website mode the page's URL
+ */
+export async function resolveTargets(request: ScanRequest): Promise<{ hosts: string[]; ports: number[]; url?: URL }> {
+  const target = request.target.trim();
+  if (!target) {
+    throw new Error('No target given');
+  }
+  let ports = request.ports ?? COMMON_PORTS;
+  let hosts: string[];
+  let url: URL | undefined;
+
+  if (request.mode === 'website') {
+    try {
+      url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(target) ? target : `https://${target}`);
+    } catch {
+      throw new Error(`"${target}" is not a valid URL`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error('Website scans need an http:// or https:// URL');
+    }
+    hosts = [url.hostname.replace(/^\[|\]$/g, '')];
+    ports = request.ports ?? (url.port ? [Number(url.port)] : WEBSITE_PORTS);
+  } else {
+    hosts = target.includes('/') ? expandCidr(target) : [target];
+  }
+
+  if (ports.length === 0 || ports.some((port) => !Number.isInteger(port) || port < 1 || port > 65535)) {
+    throw new Error('Ports must be whole numbers from 1 to 65535');
+  }
+  if (hosts.length * ports.length > MAX_CONNECTS) {
+    throw new Error(`A scan can try at most ${MAX_CONNECTS} host and port combinations`);
+  }
+  if (hosts.length === 1) {
+    try {
+      await lookup(hosts[0]);
+    } catch {
+      throw new Error(`Could not resolve "${hosts[0]}"`);
+    }
+  }
+  return { hosts, ports: [...new Set(ports)], url };
+}
+
+/**
+ * Run `task` over `items` with at most `limit` running at once
+ */
+async function inParallel<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await task(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Scan a target. Rejects with a CANCELLED error if the signal aborts.
+ */
+export async function runScan(
+  request: ScanRequest,
+  registry: CheckRegistry,
+  events: ScanEvents = {},
+  signal?: AbortSignal
+): Promise<ScanReport> {
+  const startedAt = new Date().toISOString();
+  events.onProgress?.(0, 'Resolving target');
+  const { hosts, ports, url } = await resolveTargets(request);
+  const probeEnd = url ? 1 - WEBSITE_SHARE : 1;
+
+  // First half of the progress bar: which ports are open
+  const attempts = hosts.flatMap((host) => ports.map((port) => ({ host, port })));
+  const open: { host: string; port: number }[] = [];
+  let tried = 0;
+  await inParallel(attempts, PARALLEL_CONNECTS, async (attempt) => {
+    if (await isPortOpen(attempt.host, attempt.port, CONNECT_TIMEOUT, signal)) open.push(attempt);
+    events.onProgress?.((++tried / attempts.length) * 0.5, 'Finding open ports');
+  });
+  open.sort((a, b) => a.host.localeCompare(b.host, undefined, { numeric: true }) || a.port - b.port);
+
+  // Second half: identify each service and run its checks
+  const openPorts: OpenPort[] = [];
+  const findings: ScanFinding[] = [];
+  const report = (check: Check, { host, port, service }: OpenPort, evidence: string) => {
+    const finding: ScanFinding = { checkId: check.id, check: checkSummary(check), host, port, service, evidence };
+    findings.push(finding);
+    events.onFinding?.(finding);
+  };
+  for (const [i, { host, port }] of open.entries()) {
+    throwIfCancelled(signal);
+    events.onProgress?.(0.5 + (i / open.length) * (probeEnd - 0.5), `Probing ${host}:${port}`);
+    const service = await identifyService(host, port, signal);
+    if (TLS_SERVICES.includes(service.service)) {
+      events.onProgress?.(0.5 + ((i + 0.5) / open.length) * (probeEnd - 0.5), `Analysing TLS on ${host}:${port}`);
+      try {
+        service.tls = await analyzeTls(host, port, signal);
+      } catch {
+        // The TLS checks have nothing to go on; the rest of the scan carries on
+        throwIfCancelled(signal);
+      }
+    }
+    openPorts.push(service);
+    events.onOpenPort?.(service);
+
+    for (const check of registry.checksFor(service)) {
+      let evidence: string | null = null;
+      try {
+        const observation = await check.probe({ target: service, signal });
+        evidence = observation === null ? null : check.match(observation);
+      } catch (error) {
+        // A check that cannot finish has found nothing; only cancellation stops the scan
+        throwIfCancelled(signal);
+      }
+      if (evidence) report(check, service, evidence);
+    }
+  }
+
+  let website: WebsiteSummary | undefined;
+  if (url) {
+    throwIfCancelled(signal);
+    // Start from plain HTTP when the site serves it, to follow the redirect to HTTPS
+    const start = new URL(url);
+    if (start.protocol === 'https:' && !start.port && open.some(({ port }) => port === 80)) start.protocol = 'http:';
+    events.onProgress?.(probeEnd, `Fetching ${start.href}`);
+    let site: WebsiteSnapshot | null = null;
+    try {
+      site = await fetchWebsite(start, signal);
+    } catch (error) {
+      throwIfCancelled(signal);
+      website = { url: start.href, chain: [], error: (error as Error).message };
+    }
+    if (site) {
+      const { page } = site;
+      website = { url: start.href, chain: site.chain.map((response) => ({ url: response.url.href, status: response.status })) };
+      const secure = page.url.protocol === 'https:';
+      const target: OpenPort = {
+        host: page.url.hostname.replace(/^\[|\]$/g, ''),
+        port: Number(page.url.port) || (secure ? 443 : 80),
+        service: secure ? 'https' : 'http'
+      };
+      for (const check of registry.websiteChecks()) {
+        let evidence: string | null = null;
+        try {
+          evidence = check.audit(site);
+        } catch {
+          // As with probes, a check that fails has found nothing
+        }
+        if (evidence) report(check, target, evidence);
+      }
+    }
+  }
+  throwIfCancelled(signal);
+  events.onProgress?.(1, 'Done');
+
+  return { target: request.target, hosts, openPorts, findings, website, startedAt, finishedAt: new Date().toISOString() };
+}
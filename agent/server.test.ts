@@ -0,0 +1,86 @@
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { Socket, connect } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AGENT_SCAN_SOCKET_PATH } from '../src/utils/scanAgentProtocol';
+import { BUILTIN_CHECKS } from './checks';
+import { CheckRegistry } from './registry';
+import { createScanAgent } from './server';
+
+const server = createScanAgent({ allowedOrigins: [], registry: new CheckRegistry(BUILTIN_CHECKS) });
+let port = 0;
+
+beforeAll(async () => {
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+/** Masked client frame, as a browser would send it */
+function clientFrame(opcode: number, text: string): Buffer {
+  const payload = Buffer.from(text, 'utf8');
+  const mask = Buffer.from([0x12, 0x34, 0x56, 0x78]);
+  const masked = payload.map((byte, i) => byte ^ mask[i & 3]);
+  return Buffer.concat([Buffer.from([0x80 | opcode, 0x80 | payload.length]), mask, masked]);
+}
+
+/** Upgraded socket and the server frames received on it, as [opcode, payload] */
+async function openSocket(): Promise<{ socket: Socket; frames: () => Promise<[number, Buffer][]> }> {
+  const socket = connect(port, '127.0.0.1');
+  socket.write(
+    `GET ${AGENT_SCAN_SOCKET_PATH} HTTP/1.1\r\nHost: 127.0.0.1\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n` +
+    'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n\r\n'
+  );
+  let received = Buffer.alloc(0);
+  socket.on('data', (chunk: Buffer) => { received = Buffer.concat([received, chunk]); });
+  while (!received.includes('\r\n\r\n')) await once(socket, 'data');
+  expect(received.toString('latin1')).toMatch(/^HTTP\/1\.1 101 /);
+
+  const frames = async () => {
+    await once(socket, 'close');
+    const result: [number, Buffer][] = [];
+    let rest = received.subarray(received.indexOf('\r\n\r\n') + 4);
+    while (rest.length >= 2) {
+      const length = rest[1] & 0x7f;
+      result.push([rest[0] & 0x0f, rest.subarray(2, 2 + length)]);
+      rest = rest.subarray(2 + length);
+    }
+    return result;
+  };
+  return { socket, frames };
+}
+
+describe('scan socket', () => {
+  it.each(['null', '42', '"scan"', '[]', '{"type":"scan"}', '{"id":1,"type":"nope"}', 'not json'])(
+    'closes the connection with 1003 on %s',
+    async (text) => {
+      const { socket, frames } = await openSocket();
+      socket.write(clientFrame(0x1, text));
+      const [[opcode, payload]] = await frames();
+      expect(opcode).toBe(0x8);
+      expect(payload.readUInt16BE(0)).toBe(1003);
+    }
+  );
+
+  it('keeps serving after a bad message', async () => {
+    const { socket, frames } = await openSocket();
+    socket.write(clientFrame(0x1, 'null'));
+    await frames();
+    const response = await fetch(`http://127.0.0.1:${port}/api/health`);
+    expect(await response.json()).toMatchObject({ name: 'securex-scan-agent' });
+  });
+
+  it('reports a bad scan request on the socket', async () => {
+    const { socket, frames } = await openSocket();
+    socket.write(clientFrame(0x1, JSON.stringify({ id: 7, type: 'scan', request: { target: 'localhost' } })));
+    socket.once('data', () => socket.write(clientFrame(0x8, '')));
+    const [[opcode, payload]] = await frames();
+    expect(opcode).toBe(0x1);
+    expect(JSON.parse(payload.toString('utf8'))).toEqual({ id: 7, type: 'error', error: 'Scan mode must be "network" or "website"' });
+  });
+});
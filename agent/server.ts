@@ -0,0 +1,225 @@
+// HTTP and WebSocket front end of the scan agent.
+//
+// The agent can open connections to anything the user's machine can reach,
+// so it listens on loopback only and refuses requests from web pages other
+// than the app's own origins. Browsers always send Origin on cross-origin
+// fetches and WebSocket handshakes, which stops other sites from driving it;
+// requests without an Origin come from local tools such as curl.
+
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import type { Duplex } from 'node:stream';
+import {
+  AGENT_SCAN_SOCKET_PATH,
+  AgentClientMessage,
+  AgentHealth,
+  AgentServerMessage,
+  CheckPackResult,
+  CheckPackUpload,
+  ScanRequest
+} from '../src/utils/scanAgentProtocol';
+import { parseCheckPack } from './checkPacks';
+import { CheckRegistry } from './registry';
+import { runScan } from './scanner';
+import { acceptWebSocket } from './websocket';
+
+export const AGENT_VERSION = '1.0.0';
+const MAX_BODY = 1024 * 1024;
+
+export interface ScanAgentOptions {
+  /** Origins allowed to use the agent, e.g. "http://localhost:8080" */
+  allowedOrigins: string[];
+  registry: CheckRegistry;
+}
+
+/**
+ * Check that an untrusted value is a well-formed scan request
+ */
+export function parseScanRequest(value: unknown): ScanRequest {
+  const request = value as Partial<ScanRequest> | null;
+  if (!request || typeof request !== 'object' || typeof request.target !== 'string') {
+    throw new Error('A scan request needs a target');
+  }
+  if (request.mode !== 'network' && request.mode !== 'website') {
+    throw new Error('Scan mode must be "network" or "website"');
+  }
+  if (request.ports !== undefined && (!Array.isArray(request.ports) || !request.ports.every((p) => typeof p === 'number'))) {
+    throw new Error('Ports must be a list of numbers');
+  }
+  return { target: request.target, mode: request.mode, ports: request.ports };
+}
+
+/**
+ * Check that an untrusted value is a check pack upload
+ */
+function parseCheckPackUpload(value: unknown): CheckPackUpload {
+  const upload = value as Partial<CheckPackUpload> | null;
+  if (!upload || typeof upload.fileName !== 'string' || typeof upload.content !== 'string') {
+    throw new Error('A check pack upload needs a file name and content');
+  }
+  return { fileName: upload.fileName, content: upload.content };
+}
+
+/**
+ * Check that an untrusted value is a message the scan socket understands
+ */
+function parseClientMessage(value: unknown): AgentClientMessage {
+  const message = value as Partial<AgentClientMessage> | null;
+  if (!message || typeof message !== 'object' || (message.type !== 'scan' && message.type !== 'cancel')) {
+    throw new Error('Unknown message type');
+  }
+  if (typeof message.id !== 'number') {
+    throw new Error('A message needs a numeric id');
+  }
+  return message as AgentClientMessage;
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY) {
+        reject(new Error('Request body is too large'));
+        request.destroy();
+      }
+    });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+const sendError = (response: ServerResponse, status: number, error: unknown) =>
+  sendJson(response, status, { error: error instanceof Error ? error.message : String(error) });
+
+/**
+ * Create the agent's server; call `listen` on it to start
+ */
+export function createScanAgent({ allowedOrigins, registry }: ScanAgentOptions): Server {
+  const originAllowed = (origin: string | undefined) => origin === undefined || allowedOrigins.includes(origin);
+
+  const handleRequest = async (request: IncomingMessage, response: ServerResponse) => {
+    const origin = request.headers.origin;
+    if (!originAllowed(origin)) {
+      sendJson(response, 403, { error: 'This origin may not use the scan agent' });
+      return;
+    }
+    if (origin) {
+      response.setHeader('Access-Control-Allow-Origin', origin);
+      response.setHeader('Vary', 'Origin');
+    }
+    const path = new URL(request.url ?? '/', 'http://agent').pathname;
+    const checkId = /^\/api\/checks\/([^/]+)$/.exec(path)?.[1];
+
+    // JSON only: a form cannot send it without a CORS preflight
+    if ((request.method === 'POST' || request.method === 'PUT') && !request.headers['content-type']?.startsWith('application/json')) {
+      sendJson(response, 415, { error: 'Send the request body as application/json' });
+      return;
+    }
+    const body = async () => JSON.parse(await readBody(request)) as unknown;
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, PUT',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Max-Age': '600'
+      });
+      response.end();
+    } else if (request.method === 'GET' && path === '/api/health') {
+      const health: AgentHealth = { name: 'securex-scan-agent', version: AGENT_VERSION };
+      sendJson(response, 200, health);
+    } else if (request.method === 'POST' && path === '/api/scans') {
+      const controller = new AbortController();
+      response.on('close', () => controller.abort());
+      try {
+        const scan = parseScanRequest(await body());
+        sendJson(response, 200, await runScan(scan, registry, {}, controller.signal));
+      } catch (error) {
+        if (!response.headersSent) sendError(response, 400, error);
+      }
+    } else if (request.method === 'GET' && path === '/api/checks') {
+      sendJson(response, 200, registry.list());
+    } else if (request.method === 'PUT' && checkId) {
+      try {
+        const { enabled } = (await body() ?? {}) as { enabled?: unknown };
+        if (typeof enabled !== 'boolean') {
+          throw new Error('Send { "enabled": true } or { "enabled": false }');
+        }
+        sendJson(response, 200, registry.setEnabled(decodeURIComponent(checkId), enabled));
+      } catch (error) {
+        sendError(response, 400, error);
+      }
+    } else if (request.method === 'POST' && path === '/api/check-packs') {
+      try {
+        const upload = parseCheckPackUpload(await body());
+        const pack = parseCheckPack(upload.content, upload.fileName);
+        registry.replaceSource(pack.name, pack.checks, (check) => !pack.disabled.has(check.id));
+        const result: CheckPackResult = { name: pack.name, checks: registry.list(pack.name) };
+        sendJson(response, 200, result);
+      } catch (error) {
+        sendError(response, 400, error);
+      }
+    } else {
+      sendJson(response, 404, { error: 'Not found' });
+    }
+  };
+
+  const handleUpgrade = (request: IncomingMessage, socket: Duplex) => {
+    const path = new URL(request.url ?? '/', 'http://agent').pathname;
+    if (path !== AGENT_SCAN_SOCKET_PATH || !originAllowed(request.headers.origin)) {
+      socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    const connection = acceptWebSocket(request, socket);
+    if (!connection) return;
+
+    const scans = new Map<number, AbortController>();
+    const send = (message: AgentServerMessage) => connection.send(JSON.stringify(message));
+
+    connection.onMessage = (text) => {
+      let message: AgentClientMessage;
+      try {
+        message = parseClientMessage(JSON.parse(text));
+      } catch {
+        connection.close(1003);
+        return;
+      }
+      if (message.type === 'cancel') {
+        scans.get(message.id)?.abort();
+        return;
+      }
+      if (scans.has(message.id)) return;
+
+      const { id } = message;
+      const controller = new AbortController();
+      scans.set(id, controller);
+      (async () => {
+        try {
+          const report = await runScan(parseScanRequest(message.request), registry, {
+            onProgress: (fraction, stage) => send({ id, type: 'progress', fraction, stage }),
+            onOpenPort: (port) => send({ id, type: 'open-port', port }),
+            onFinding: (finding) => send({ id, type: 'finding', finding })
+          }, controller.signal);
+          send({ id, type: 'result', report });
+        } catch (error) {
+          send({ id, type: 'error', error: error instanceof Error ? error.message : 'Scan failed' });
+        } finally {
+          scans.delete(id);
+        }
+      })();
+    };
+    connection.onClose = () => {
+      for (const controller of scans.values()) controller.abort();
+      scans.clear();
+    };
+  };
+
+  const server = createServer((request, response) => void handleRequest(request, response));
+  server.on('upgrade', handleUpgrade);
+  return server;
+}
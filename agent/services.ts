@@ -0,0 +1,129 @@
+// Service identification for open ports.
+//
+// The port number is only a hint: services on unusual ports are common, and
+// the checks depend on knowing what is really listening. Talkative services
+// (SSH, FTP, SMTP, MySQL...) introduce themselves with a banner; silent ones
+// are asked an HTTP question, first in the clear and then over TLS.
+
+import type { OpenPort } from '../src/utils/scanAgentProtocol';
+import { Connection, openConnection, throwIfCancelled } from './net';
+import { detectSoftware } from './software';
+
+const CONNECT_TIMEOUT = 3000;
+const BANNER_TIMEOUT = 1500;
+const MAX_BANNER = 200;
+
+/** Ports where TLS comes first, so waiting for a plain banner is pointless */
+const TLS_PORTS = new Set([443, 465, 636, 853, 993, 995, 8443]);
+
+/** Services identified as speaking TLS */
+export const TLS_SERVICES = ['https', 'tls', 'smtps', 'imaps', 'pop3s', 'ftps'];
+
+/** TLS options for probing: any certificate, any protocol the peer will speak */
+export const PROBE_TLS = { rejectUnauthorized: false, ciphers: 'DEFAULT@SECLEVEL=0', minVersion: 'TLSv1' as const };
+
+const hasData = (data: Buffer) => data.length > 0;
+
+interface Identified {
+  service: string;
+  banner?: string;
+  /** HTTP Server header, which names the software better than the status line */
+  server?: string;
+}
+
+/** First line of a banner, without control characters, for display */
+export function printableBanner(data: Buffer): string {
+  const line = data.toString('latin1').split(/\r?\n/)[0];
+  return line.replace(/[^\x20-\x7e]/g, '').trim().slice(0, MAX_BANNER);
+}
+
+/**
+ * Server version from a MySQL or MariaDB initial handshake packet, or null
+ */
+export function mysqlServerVersion(data: Buffer): string | null {
+  if (data.length < 6 || data.readUIntLE(0, 3) !== data.length - 4 || data[4] !== 10) {
+    return null;
+  }
+  const end = data.indexOf(0, 5);
+  return end > 5 ? data.toString('latin1', 5, end) : null;
+}
+
+function classifyBanner(data: Buffer): { service: string; banner: string } {
+  const mysql = mysqlServerVersion(data);
+  if (mysql) return { service: 'mysql', banner: `MySQL ${mysql}` };
+  const banner = printableBanner(data);
+  if (banner.startsWith('SSH-')) return { service: 'ssh', banner };
+  if (/^220[ -]/.test(banner)) return { service: /smtp/i.test(banner) ? 'smtp' : 'ftp', banner };
+  if (banner.startsWith('+OK')) return { service: 'pop3', banner };
+  if (banner.startsWith('* OK')) return { service: 'imap', banner };
+  return { service: 'unknown', banner };
+}
+
+/**
+ * Ask whatever is on the connection for an HTTP response; the status line
+ * and Server header if it gave one
+ */
+async function askHttp(connection: Connection, host: string): Promise<{ status: string; server?: string } | null> {
+  connection.write(`HEAD / HTTP/1.0\r\nHost: ${host}\r\nUser-Agent: SecureX-Scan-Agent\r\n\r\n`);
+  const reply = await connection.read((data) => data.includes('\r\n\r\n'), BANNER_TIMEOUT);
+  if (reply.toString('latin1', 0, 5) !== 'HTTP/') return null;
+  const server = /^server:[ \t]*(.+?)\r?$/im.exec(reply.toString('latin1'))?.[1];
+  return { status: printableBanner(reply), server: server ? printableBanner(Buffer.from(server, 'latin1')) : undefined };
+}
+
+async function probePlain(host: string, port: number, signal?: AbortSignal): Promise<Identified | null> {
+  const connection = await openConnection(host, port, { timeoutMs: CONNECT_TIMEOUT, signal });
+  try {
+    const greeting = await connection.read(hasData, BANNER_TIMEOUT);
+    if (greeting.length > 0) return classifyBanner(greeting);
+    const http = await askHttp(connection, host);
+    return http ? { service: 'http', banner: http.status, server: http.server } : null;
+  } finally {
+    connection.close();
+  }
+}
+
+async function probeTls(host: string, port: number, signal?: AbortSignal): Promise<Identified | null> {
+  let connection: Connection;
+  try {
+    connection = await openConnection(host, port, { timeoutMs: CONNECT_TIMEOUT, signal, tls: PROBE_TLS });
+  } catch {
+    throwIfCancelled(signal);
+    return null;
+  }
+  try {
+    const greeting = await connection.read(hasData, BANNER_TIMEOUT);
+    if (greeting.length > 0) {
+      const { service, banner } = classifyBanner(greeting);
+      return { service: service === 'unknown' ? 'tls' : `${service}s`, banner };
+    }
+    const http = await askHttp(connection, host);
+    return http ? { service: 'https', banner: http.status, server: http.server } : { service: 'tls' };
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * Work out what is listening on an open port
+ */
+export async function identifyService(host: string, port: number, signal?: AbortSignal): Promise<OpenPort> {
+  const tlsFirst = TLS_PORTS.has(port);
+  let found = tlsFirst ? await probeTls(host, port, signal) : null;
+  if (!found) {
+    try {
+      found = await probePlain(host, port, signal);
+    } catch {
+      throwIfCancelled(signal);
+    }
+  }
+  if (!found && !tlsFirst) found = await probeTls(host, port, signal);
+  const software = detectSoftware(found?.server ?? found?.banner ?? '');
+  return {
+    host,
+    port,
+    service: found?.service ?? 'unknown',
+    banner: found?.banner || undefined,
+    software: software.length > 0 ? software : undefined
+  };
+}
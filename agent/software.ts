@@ -0,0 +1,45 @@
+// Software and versions named in service banners and HTTP Server headers,
+// for matching against CVE feeds in the UI. Names follow the CPE dictionary
+// so they can be compared with the criteria in NVD data.
+
+import type { DetectedSoftware } from '../src/utils/scanAgentProtocol';
+
+interface Signature {
+  /** The first group is the version */
+  pattern: RegExp;
+  vendor?: string;
+  product: string;
+}
+
+const SIGNATURES: Signature[] = [
+  { pattern: /^SSH-[\d.]+-OpenSSH_([\w.]+)/i, vendor: 'openbsd', product: 'openssh' },
+  { pattern: /^SSH-[\d.]+-dropbear_([\d.]+)/i, vendor: 'dropbear_ssh_project', product: 'dropbear_ssh' },
+  { pattern: /\bvsFTPd ([\d.]+)/i, vendor: 'beasts', product: 'vsftpd' },
+  { pattern: /\bProFTPD ([\d.]+\w*)/i, vendor: 'proftpd', product: 'proftpd' },
+  { pattern: /\bFileZilla Server (?:version )?([\d.]+)/i, vendor: 'filezilla-project', product: 'filezilla_server' },
+  { pattern: /\bExim ([\d.]+)/i, vendor: 'exim', product: 'exim' },
+  { pattern: /\bPostfix ([\d.]+)/i, vendor: 'postfix', product: 'postfix' },
+  // MariaDB reports itself as "5.5.5-10.5.12-MariaDB" for old MySQL clients
+  { pattern: /\b([\d.]+)-MariaDB/i, vendor: 'mariadb', product: 'mariadb' },
+  { pattern: /^MySQL (\d+\.\d+\.\d+)(?!.*MariaDB)/i, vendor: 'oracle', product: 'mysql' },
+  { pattern: /\bApache\/([\d.]+)/i, vendor: 'apache', product: 'http_server' },
+  // nginx is listed under both nginx and f5, depending on the release
+  { pattern: /\bnginx\/([\d.]+)/i, product: 'nginx' },
+  { pattern: /\bMicrosoft-IIS\/([\d.]+)/i, vendor: 'microsoft', product: 'internet_information_services' },
+  { pattern: /\blighttpd\/([\d.]+)/i, vendor: 'lighttpd', product: 'lighttpd' },
+  { pattern: /\bOpenSSL\/([\w.]+)/i, vendor: 'openssl', product: 'openssl' },
+  { pattern: /\bPHP\/([\d.]+)/i, vendor: 'php', product: 'php' }
+];
+
+/**
+ * Every known product in a banner or Server header; a header like
+ * "Apache/2.4.49 (Unix) OpenSSL/1.1.1k" names more than one
+ */
+export function detectSoftware(banner: string): DetectedSoftware[] {
+  const found: DetectedSoftware[] = [];
+  for (const { pattern, vendor, product } of SIGNATURES) {
+    const version = pattern.exec(banner)?.[1]?.replace(/\.$/, '');
+    if (version) found.push({ vendor, product, version });
+  }
+  return found;
+}
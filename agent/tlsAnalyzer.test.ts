@@ -0,0 +1,128 @@
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { createServer } from 'node:tls';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { TlsCertificate, TlsCipherSuite, TlsVersion } from '../src/utils/scanAgentProtocol';
+import { WEAK_CERT, WEAK_KEY } from './testCertificate';
+import { analyzeTls, gradeTls, trustProblems } from './tlsAnalyzer';
+
+const suite = (name: string, version: TlsVersion, options: Partial<TlsCipherSuite> = {}): TlsCipherSuite =>
+  ({ name, version, bits: 128, forwardSecrecy: true, aead: true, ...options });
+
+const certificate = (options: Partial<TlsCertificate> = {}): TlsCertificate => ({
+  subject: 'CN=example.com',
+  issuer: 'CN=Example CA',
+  validFrom: '2024-01-01T00:00:00.000Z',
+  validTo: '2027-01-01T00:00:00.000Z',
+  keyType: 'rsa',
+  keyBits: 2048,
+  signatureAlgorithm: 'sha256WithRSAEncryption',
+  subjectAltNames: ['DNS:example.com'],
+  selfSigned: false,
+  fingerprint256: '',
+  ...options
+});
+
+const MODERN = [
+  suite('TLS_ECDHE_RSA_WITH_AES_128_GCM_SHA256', 'TLSv1.2'),
+  suite('TLS_AES_256_GCM_SHA384', 'TLSv1.3', { bits: 256 })
+];
+
+describe('gradeTls', () => {
+  it('gives a modern configuration an A', () => {
+    expect(gradeTls(['TLSv1.2', 'TLSv1.3'], MODERN, certificate())).toEqual({ grade: 'A', reasons: [] });
+  });
+
+  it.each([
+    ['RC4', ['TLSv1.2'], suite('TLS_RSA_WITH_RC4_128_SHA', 'TLSv1.2', { weakness: 'RC4', aead: false }), 'RC4 is supported'],
+    ['3DES', ['TLSv1.2'], suite('TLS_RSA_WITH_3DES_EDE_CBC_SHA', 'TLSv1.2', { bits: 112, aead: false }), '3DES is supported (Sweet32)'],
+    ['SSLv3', ['SSLv3', 'TLSv1.2'], suite('TLS_RSA_WITH_AES_128_CBC_SHA', 'SSLv3', { aead: false }), 'SSL 3.0 is supported (POODLE)']
+  ] as [string, TlsVersion[], TlsCipherSuite, string][])('caps a server offering %s at C', (_, protocols, weak, reason) => {
+    const { grade, reasons } = gradeTls([...protocols, 'TLSv1.3'], [weak, ...MODERN], certificate());
+    expect(grade).toBe('C');
+    expect(reasons).toContain(reason);
+  });
+
+  it('fails insecure suites and small keys', () => {
+    const des = suite('TLS_RSA_WITH_DES_CBC_SHA', 'TLSv1.2', { bits: 56, weakness: 'DES', aead: false });
+    expect(gradeTls(['TLSv1.2', 'TLSv1.3'], [des, ...MODERN], certificate()).reasons).toContain('Insecure cipher suites (DES)');
+    expect(gradeTls(['TLSv1.2', 'TLSv1.3'], [des, ...MODERN], certificate()).grade).toBe('F');
+    expect(gradeTls(['TLSv1.2', 'TLSv1.3'], MODERN, certificate({ keyBits: 512 })))
+      .toEqual({ grade: 'F', reasons: ['Score 78 of 100', '512-bit RSA key'] });
+  });
+
+  it('scores EC keys by their RSA equivalent', () => {
+    expect(gradeTls(['TLSv1.2', 'TLSv1.3'], MODERN, certificate({ keyType: 'ec', keyBits: 256 })).grade).toBe('A');
+  });
+});
+
+describe('trustProblems', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  const analysis = (leaf: TlsCertificate, trusted = true) => ({ chain: [leaf], trusted, hostnameMatches: true });
+
+  it('finds nothing wrong with a valid, trusted certificate', () => {
+    expect(trustProblems(analysis(certificate()), now)).toEqual([]);
+  });
+
+  it('reports expired and not yet valid certificates', () => {
+    expect(trustProblems(analysis(certificate({ validTo: '2025-03-01T00:00:00.000Z' })), now))
+      .toEqual(['The certificate expired on 2025-03-01']);
+    expect(trustProblems(analysis(certificate({ validFrom: '2026-07-01T00:00:00.000Z' })), now))
+      .toEqual(['The certificate is not valid until 2026-07-01']);
+  });
+
+  it('reports untrusted chains, other host names and weak signatures', () => {
+    expect(trustProblems({ ...analysis(certificate(), false), trustError: 'UNABLE_TO_GET_ISSUER_CERT' }, now))
+      .toEqual(['The chain does not verify (UNABLE_TO_GET_ISSUER_CERT)']);
+    expect(trustProblems({ ...analysis(certificate()), hostnameMatches: false }, now))
+      .toEqual(['The certificate does not cover the host name']);
+    expect(trustProblems(analysis(certificate({ signatureAlgorithm: 'sha1WithRSAEncryption' })), now))
+      .toEqual(['Signed with sha1WithRSAEncryption']);
+    expect(trustProblems({ chain: [], trusted: false, hostnameMatches: null }, now)).toEqual(['No certificate could be read']);
+  });
+});
+
+describe('analyzeTls against a weak local server', () => {
+  const server = createServer({
+    key: WEAK_KEY,
+    cert: WEAK_CERT,
+    minVersion: 'TLSv1',
+    maxVersion: 'TLSv1.2',
+    ciphers: 'AES128-SHA:AES256-SHA:ECDHE-RSA-AES128-SHA:@SECLEVEL=0'
+  }, (socket) => socket.end());
+  let port = 0;
+
+  beforeAll(async () => {
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('lists protocols, suites and the certificate, and grades it T', async () => {
+    const analysis = await analyzeTls('127.0.0.1', port);
+    expect(analysis.protocols).toEqual(['TLSv1', 'TLSv1.1', 'TLSv1.2']);
+    for (const version of analysis.protocols) {
+      expect(analysis.cipherSuites.filter((found) => found.version === version).map((found) => found.name).sort()).toEqual([
+        'TLS_ECDHE_RSA_WITH_AES_128_CBC_SHA',
+        'TLS_RSA_WITH_AES_128_CBC_SHA',
+        'TLS_RSA_WITH_AES_256_CBC_SHA'
+      ]);
+    }
+    expect(analysis.chain[0]).toMatchObject({ subject: 'CN=weak.test', keyType: 'rsa', keyBits: 1024, selfSigned: true });
+    expect(analysis.trusted).toBe(false);
+    expect(analysis.hostnameMatches).toBeNull();
+    expect(analysis.grade).toBe('T');
+    expect(analysis.gradeIgnoringTrust).toBe('B');
+    expect(analysis.gradeReasons).toEqual([
+      'The certificate is self-signed',
+      'TLS 1.0 or 1.1 is supported',
+      'No AEAD cipher suites',
+      '1024-bit RSA key',
+      'TLS 1.3 is not supported'
+    ]);
+  });
+});
@@ -0,0 +1,208 @@
+// TLS configuration analysis: which protocol versions and cipher suites a
+// server accepts, what certificate chain it presents, and an overall grade.
+//
+// The grade follows the outline of SSL Labs' server rating guide: a score
+// from the best and worst protocol (30%), the key size (30%) and the
+// strongest and weakest cipher (40%), then capped for known problems. A
+// server whose certificate a browser would reject gets a T, with the grade
+// it would otherwise have kept alongside.
+
+import type { TLSSocket } from 'node:tls';
+import type { TlsAnalysis, TlsCertificate, TlsCipherSuite, TlsGrade, TlsVersion } from '../src/utils/scanAgentProtocol';
+import { describeCertificate, isWeakSignature, peerChain } from './certificates';
+import { isIpAddress, openConnection, throwIfCancelled } from './net';
+import { PROBE_TLS } from './services';
+import { CIPHER_SUITES, HELLO_VERSIONS, describeSuite, sayHello } from './tlsHello';
+
+const CONNECT_TIMEOUT = 3000;
+
+/** TLS 1.3 suites, tried through Node since they need a real key exchange */
+const TLS13_SUITES = [
+  'TLS_AES_256_GCM_SHA384',
+  'TLS_CHACHA20_POLY1305_SHA256',
+  'TLS_AES_128_GCM_SHA256',
+  'TLS_AES_128_CCM_SHA256',
+  'TLS_AES_128_CCM_8_SHA256'
+];
+
+const GRADES: TlsGrade[] = ['A', 'A-', 'B', 'C', 'D', 'E', 'F'];
+const PROTOCOL_SCORES: Record<TlsVersion, number> = { SSLv3: 80, TLSv1: 90, 'TLSv1.1': 95, 'TLSv1.2': 100, 'TLSv1.3': 100 };
+
+/** Certificates closer to expiry than this are reported */
+export const EXPIRY_WARNING_DAYS = 30;
+
+/**
+ * Suites a server accepts with one protocol version: offer every suite,
+ * note the one it picks, take it out and ask again until it refuses
+ */
+async function helloSuites(host: string, port: number, version: TlsVersion, signal?: AbortSignal): Promise<TlsCipherSuite[]> {
+  const wire = HELLO_VERSIONS[version]!;
+  let remaining = Object.keys(CIPHER_SUITES).map(Number);
+  const found: TlsCipherSuite[] = [];
+  while (remaining.length > 0) {
+    let reply: { version: number; suite: number } | null = null;
+    try {
+      reply = await sayHello(host, port, wire, remaining, signal);
+    } catch {
+      throwIfCancelled(signal);
+    }
+    // A lower version in the reply means this one is not supported
+    if (!reply || reply.version !== wire || !remaining.includes(reply.suite)) break;
+    const chosen = reply.suite;
+    found.push(describeSuite(CIPHER_SUITES[chosen], version));
+    remaining = remaining.filter((suite) => suite !== chosen);
+  }
+  return found;
+}
+
+async function tls13Suites(host: string, port: number, signal?: AbortSignal): Promise<TlsCipherSuite[]> {
+  const found: TlsCipherSuite[] = [];
+  for (const name of TLS13_SUITES) {
+    try {
+      const connection = await openConnection(host, port, {
+        timeoutMs: CONNECT_TIMEOUT,
+        signal,
+        tls: { ...PROBE_TLS, minVersion: 'TLSv1.3', maxVersion: 'TLSv1.3', ciphers: `${name}:${PROBE_TLS.ciphers}` }
+      });
+      connection.close();
+      found.push(describeSuite(name, 'TLSv1.3'));
+    } catch {
+      throwIfCancelled(signal);
+    }
+  }
+  return found;
+}
+
+/** The certificate chain and what a browser would make of it */
+async function inspectCertificates(host: string, port: number, signal?: AbortSignal) {
+  const connection = await openConnection(host, port, {
+    timeoutMs: CONNECT_TIMEOUT,
+    signal,
+    tls: { ...PROBE_TLS, requestOCSP: true }
+  });
+  try {
+    const socket = connection.socket as TLSSocket;
+    const chain = peerChain(socket.getPeerCertificate(true));
+    const leaf = chain[0];
+    const hostnameMatches = !leaf || isIpAddress(host) ? null : leaf.checkHost(host) !== undefined;
+    return {
+      chain: chain.map(describeCertificate),
+      trusted: socket.authorized,
+      trustError: socket.authorizationError ? String(socket.authorizationError) : undefined,
+      hostnameMatches,
+      ocspStapling: Boolean(connection.ocspResponse?.length)
+    };
+  } finally {
+    connection.close();
+  }
+}
+
+/** RSA key size with the same strength, for scoring EC and EdDSA keys */
+function rsaEquivalentBits({ keyType, keyBits }: TlsCertificate): number {
+  if (keyType.startsWith('rsa') || keyType === 'dsa') return keyBits;
+  if (keyBits >= 384) return 7680;
+  if (keyBits >= 256) return 3072;
+  if (keyBits >= 224) return 2048;
+  return 1024;
+}
+
+function keyScore(bits: number): number {
+  if (bits < 512) return bits > 0 ? 20 : 0;
+  if (bits < 1024) return 40;
+  if (bits < 2048) return 80;
+  return bits < 4096 ? 90 : 100;
+}
+
+const cipherScore = (bits: number) => (bits === 0 ? 0 : bits < 128 ? 20 : bits < 256 ? 80 : 100);
+
+/**
+ * Problems that would make a browser reject the certificate
+ */
+export function trustProblems(analysis: Pick<TlsAnalysis, 'chain' | 'trusted' | 'trustError' | 'hostnameMatches'>, now = new Date()): string[] {
+  const [leaf] = analysis.chain;
+  if (!leaf) return ['No certificate could be read'];
+  const problems: string[] = [];
+  if (leaf.selfSigned) problems.push('The certificate is self-signed');
+  else if (!analysis.trusted) problems.push(`The chain does not verify (${analysis.trustError ?? 'unknown issuer'})`);
+  if (new Date(leaf.validTo) < now) problems.push(`The certificate expired on ${leaf.validTo.slice(0, 10)}`);
+  if (new Date(leaf.validFrom) > now) problems.push(`The certificate is not valid until ${leaf.validFrom.slice(0, 10)}`);
+  if (analysis.hostnameMatches === false) problems.push('The certificate does not cover the host name');
+  const weak = analysis.chain.filter((certificate) => !certificate.selfSigned && isWeakSignature(certificate.signatureAlgorithm));
+  if (weak.length > 0) problems.push(`Signed with ${weak[0].signatureAlgorithm}`);
+  return problems;
+}
+
+/**
+ * Grade a configuration, with the reasons it falls short of an A
+ */
+export function gradeTls(
+  protocols: TlsVersion[],
+  suites: TlsCipherSuite[],
+  leaf: TlsCertificate | undefined
+): { grade: TlsGrade; reasons: string[] } {
+  const scores = protocols.map((version) => PROTOCOL_SCORES[version]);
+  const bits = suites.map((suite) => suite.bits);
+  const keyBits = leaf ? rsaEquivalentBits(leaf) : 0;
+  const score =
+    0.3 * ((Math.max(...scores) + Math.min(...scores)) / 2) +
+    0.3 * keyScore(keyBits) +
+    0.4 * ((cipherScore(Math.max(...bits)) + cipherScore(Math.min(...bits))) / 2);
+  let grade: TlsGrade = score >= 80 ? 'A' : score >= 65 ? 'B' : score >= 50 ? 'C' : score >= 35 ? 'D' : score >= 20 ? 'E' : 'F';
+  const reasons: string[] = [];
+  const cap = (limit: TlsGrade, reason: string) => {
+    reasons.push(reason);
+    if (GRADES.indexOf(limit) > GRADES.indexOf(grade)) grade = limit;
+  };
+
+  const insecure = suites.filter((suite) => suite.bits < 112 || suite.weakness === 'no authentication');
+  if (insecure.length > 0) cap('F', `Insecure cipher suites (${[...new Set(insecure.map((suite) => suite.weakness))].join(', ')})`);
+  if (keyBits > 0 && keyBits < 1024) cap('F', `${leaf!.keyBits}-bit ${leaf!.keyType.toUpperCase()} key`);
+  if (protocols.includes('SSLv3')) cap('C', 'SSL 3.0 is supported (POODLE)');
+  if (suites.some((suite) => suite.weakness === 'RC4')) cap('C', 'RC4 is supported');
+  if (suites.some((suite) => suite.bits === 112)) cap('C', '3DES is supported (Sweet32)');
+  if (protocols.includes('TLSv1') || protocols.includes('TLSv1.1')) cap('B', 'TLS 1.0 or 1.1 is supported');
+  if (!suites.some((suite) => suite.forwardSecrecy)) cap('B', 'No forward secrecy');
+  if (!suites.some((suite) => suite.aead)) cap('B', 'No AEAD cipher suites');
+  if (keyBits >= 1024 && keyBits < 2048) cap('B', `${leaf!.keyBits}-bit ${leaf!.keyType.toUpperCase()} key`);
+  if (!protocols.includes('TLSv1.3')) cap('A-', 'TLS 1.3 is not supported');
+  if (score < 80) reasons.unshift(`Score ${Math.round(score)} of 100`);
+  return { grade, reasons };
+}
+
+/**
+ * Analyse the TLS service on a port. Throws if no protocol version can be
+ * negotiated at all.
+ */
+export async function analyzeTls(host: string, port: number, signal?: AbortSignal): Promise<TlsAnalysis> {
+  const helloVersions = Object.keys(HELLO_VERSIONS) as TlsVersion[];
+  const perVersion = await Promise.all([
+    ...helloVersions.map((version) => helloSuites(host, port, version, signal)),
+    tls13Suites(host, port, signal)
+  ]);
+  throwIfCancelled(signal);
+  const cipherSuites = perVersion.flat();
+  const protocols = [...helloVersions, 'TLSv1.3' as const].filter((_, i) => perVersion[i].length > 0);
+  if (protocols.length === 0) {
+    throw new Error(`No SSL/TLS version could be negotiated with ${host}:${port}`);
+  }
+
+  let certificates: Awaited<ReturnType<typeof inspectCertificates>>;
+  try {
+    certificates = await inspectCertificates(host, port, signal);
+  } catch {
+    // Only versions or suites Node cannot speak; the grade goes on without a certificate
+    throwIfCancelled(signal);
+    certificates = { chain: [], trusted: false, trustError: undefined, hostnameMatches: null, ocspStapling: false };
+  }
+
+  const { grade, reasons } = gradeTls(protocols, cipherSuites, certificates.chain[0]);
+  const problems = trustProblems(certificates);
+  return {
+    grade: problems.length > 0 ? 'T' : grade,
+    gradeIgnoringTrust: grade,
+    gradeReasons: [...problems, ...reasons],
+    protocols,
+    cipherSuites,
+    ...certificates
+  };
+}
@@ -0,0 +1,210 @@
+// Hand-made ClientHellos for SSLv3 up to TLS 1.2.
+//
+// Node's TLS stack refuses to offer the very suites worth finding (RC4, DES,
+// export and NULL ciphers) and cannot speak SSLv3 at all, so protocol and
+// cipher suite support is tested the way sslscan does it: send a
+// ClientHello offering a version and a list of suites, read which one the
+// ServerHello picks, and hang up before any keys are exchanged.
+
+import { randomBytes } from 'node:crypto';
+import type { TlsCipherSuite, TlsVersion } from '../src/utils/scanAgentProtocol';
+import { isIpAddress, openConnection } from './net';
+
+const CONNECT_TIMEOUT = 3000;
+const READ_TIMEOUT = 3000;
+
+/** Wire versions of the protocols a hand-made hello can offer */
+export const HELLO_VERSIONS: Partial<Record<TlsVersion, number>> = {
+  SSLv3: 0x0300,
+  TLSv1: 0x0301,
+  'TLSv1.1': 0x0302,
+  'TLSv1.2': 0x0303
+};
+
+/** Suites offered to SSLv3 - TLS 1.2 servers, strong and weak */
+export const CIPHER_SUITES: Record<number, string> = {
+  0x0001: 'TLS_RSA_WITH_NULL_MD5',
+  0x0002: 'TLS_RSA_WITH_NULL_SHA',
+  0x0003: 'TLS_RSA_EXPORT_WITH_RC4_40_MD5',
+  0x0004: 'TLS_RSA_WITH_RC4_128_MD5',
+  0x0005: 'TLS_RSA_WITH_RC4_128_SHA',
+  0x0006: 'TLS_RSA_EXPORT_WITH_RC2_CBC_40_MD5',
+  0x0008: 'TLS_RSA_EXPORT_WITH_DES40_CBC_SHA',
+  0x0009: 'TLS_RSA_WITH_DES_CBC_SHA',
+  0x000a: 'TLS_RSA_WITH_3DES_EDE_CBC_SHA',
+  0x0014: 'TLS_DHE_RSA_EXPORT_WITH_DES40_CBC_SHA',
+  0x0015: 'TLS_DHE_RSA_WITH_DES_CBC_SHA',
+  0x0016: 'TLS_DHE_RSA_WITH_3DES_EDE_CBC_SHA',
+  0x0018: 'TLS_DH_anon_WITH_RC4_128_MD5',
+  0x001b: 'TLS_DH_anon_WITH_3DES_EDE_CBC_SHA',
+  0x002f: 'TLS_RSA_WITH_AES_128_CBC_SHA',
+  0x0032: 'TLS_DHE_DSS_WITH_AES_128_CBC_SHA',
+  0x0033: 'TLS_DHE_RSA_WITH_AES_128_CBC_SHA',
+  0x0034: 'TLS_DH_anon_WITH_AES_128_CBC_SHA',
+  0x0035: 'TLS_RSA_WITH_AES_256_CBC_SHA',
+  0x0038: 'TLS_DHE_DSS_WITH_AES_256_CBC_SHA',
+  0x0039: 'TLS_DHE_RSA_WITH_AES_256_CBC_SHA',
+  0x003a: 'TLS_DH_anon_WITH_AES_256_CBC_SHA',
+  0x003b: 'TLS_RSA_WITH_NULL_SHA256',
+  0x003c: 'TLS_RSA_WITH_AES_128_CBC_SHA256',
+  0x003d: 'TLS_RSA_WITH_AES_256_CBC_SHA256',
+  0x0041: 'TLS_RSA_WITH_CAMELLIA_128_CBC_SHA',
+  0x0045: 'TLS_DHE_RSA_WITH_CAMELLIA_128_CBC_SHA',
+  0x0067: 'TLS_DHE_RSA_WITH_AES_128_CBC_SHA256',
+  0x006b: 'TLS_DHE_RSA_WITH_AES_256_CBC_SHA256',
+  0x0084: 'TLS_RSA_WITH_CAMELLIA_256_CBC_SHA',
+  0x0088: 'TLS_DHE_RSA_WITH_CAMELLIA_256_CBC_SHA',
+  0x0096: 'TLS_RSA_WITH_SEED_CBC_SHA',
+  0x009c: 'TLS_RSA_WITH_AES_128_GCM_SHA256',
+  0x009d: 'TLS_RSA_WITH_AES_256_GCM_SHA384',
+  0x009e: 'TLS_DHE_RSA_WITH_AES_128_GCM_SHA256',
+  0x009f: 'TLS_DHE_RSA_WITH_AES_256_GCM_SHA384',
+  0x00a6: 'TLS_DH_anon_WITH_AES_128_GCM_SHA256',
+  0xc006: 'TLS_ECDHE_ECDSA_WITH_NULL_SHA',
+  0xc007: 'TLS_ECDHE_ECDSA_WITH_RC4_128_SHA',
+  0xc008: 'TLS_ECDHE_ECDSA_WITH_3DES_EDE_CBC_SHA',
+  0xc009: 'TLS_ECDHE_ECDSA_WITH_AES_128_CBC_SHA',
+  0xc00a: 'TLS_ECDHE_ECDSA_WITH_AES_256_CBC_SHA',
+  0xc010: 'TLS_ECDHE_RSA_WITH_NULL_SHA',
+  0xc011: 'TLS_ECDHE_RSA_WITH_RC4_128_SHA',
+  0xc012: 'TLS_ECDHE_RSA_WITH_3DES_EDE_CBC_SHA',
+  0xc013: 'TLS_ECDHE_RSA_WITH_AES_128_CBC_SHA',
+  0xc014: 'TLS_ECDHE_RSA_WITH_AES_256_CBC_SHA',
+  0xc016: 'TLS_ECDH_anon_WITH_RC4_128_SHA',
+  0xc018: 'TLS_ECDH_anon_WITH_AES_128_CBC_SHA',
+  0xc019: 'TLS_ECDH_anon_WITH_AES_256_CBC_SHA',
+  0xc023: 'TLS_ECDHE_ECDSA_WITH_AES_128_CBC_SHA256',
+  0xc024: 'TLS_ECDHE_ECDSA_WITH_AES_256_CBC_SHA384',
+  0xc027: 'TLS_ECDHE_RSA_WITH_AES_128_CBC_SHA256',
+  0xc028: 'TLS_ECDHE_RSA_WITH_AES_256_CBC_SHA384',
+  0xc02b: 'TLS_ECDHE_ECDSA_WITH_AES_128_GCM_SHA256',
+  0xc02c: 'TLS_ECDHE_ECDSA_WITH_AES_256_GCM_SHA384',
+  0xc02f: 'TLS_ECDHE_RSA_WITH_AES_128_GCM_SHA256',
+  0xc030: 'TLS_ECDHE_RSA_WITH_AES_256_GCM_SHA384',
+  0xc072: 'TLS_ECDHE_ECDSA_WITH_CAMELLIA_128_CBC_SHA256',
+  0xc076: 'TLS_ECDHE_RSA_WITH_CAMELLIA_128_CBC_SHA256',
+  0xc09c: 'TLS_RSA_WITH_AES_128_CCM',
+  0xc09d: 'TLS_RSA_WITH_AES_256_CCM',
+  0xc09e: 'TLS_DHE_RSA_WITH_AES_128_CCM',
+  0xc09f: 'TLS_DHE_RSA_WITH_AES_256_CCM',
+  0xc0ac: 'TLS_ECDHE_ECDSA_WITH_AES_128_CCM',
+  0xc0ad: 'TLS_ECDHE_ECDSA_WITH_AES_256_CCM',
+  0xcca8: 'TLS_ECDHE_RSA_WITH_CHACHA20_POLY1305_SHA256',
+  0xcca9: 'TLS_ECDHE_ECDSA_WITH_CHACHA20_POLY1305_SHA256',
+  0xccaa: 'TLS_DHE_RSA_WITH_CHACHA20_POLY1305_SHA256'
+};
+
+/**
+ * Strength and weaknesses of a suite, from its IANA name
+ */
+export function describeSuite(name: string, version: TlsVersion): TlsCipherSuite {
+  const tls13 = version === 'TLSv1.3';
+  let bits = 128;
+  if (/_WITH_NULL_/.test(name)) bits = 0;
+  else if (/EXPORT|_40_|DES40/.test(name)) bits = 40;
+  else if (/_WITH_DES_CBC_/.test(name)) bits = 56;
+  else if (/3DES_EDE/.test(name)) bits = 112;
+  else if (/_256_|CHACHA20/.test(name)) bits = 256;
+
+  let weakness: string | undefined;
+  if (bits === 0) weakness = 'no encryption';
+  else if (/_anon_/.test(name)) weakness = 'no authentication';
+  else if (/EXPORT/.test(name)) weakness = 'export-grade';
+  else if (/RC4/.test(name)) weakness = 'RC4';
+  else if (bits === 56) weakness = 'DES';
+  else if (bits === 112) weakness = '3DES, 64-bit blocks (Sweet32)';
+
+  return {
+    name,
+    version,
+    bits,
+    forwardSecrecy: tls13 || /^TLS_(ECDHE|DHE)_/.test(name),
+    aead: tls13 || /GCM|CCM|POLY1305/.test(name),
+    weakness
+  };
+}
+
+/** `body` after its length in `lengthBytes` bytes */
+function prefixed(body: Buffer, lengthBytes = 2): Buffer {
+  const length = Buffer.alloc(lengthBytes);
+  length.writeUIntBE(body.length, 0, lengthBytes);
+  return Buffer.concat([length, body]);
+}
+
+function uint16s(values: number[]): Buffer {
+  const list = Buffer.alloc(values.length * 2);
+  values.forEach((value, i) => list.writeUInt16BE(value, i * 2));
+  return list;
+}
+
+const extension = (type: number, body: Buffer) => Buffer.concat([uint16s([type]), prefixed(body)]);
+
+/**
+ * A ClientHello record offering one protocol version and the given suites
+ */
+export function clientHello(version: number, suites: number[], servername?: string): Buffer {
+  const extensions: Buffer[] = [];
+  // SSLv3 predates extensions, and some SSLv3 servers choke on them
+  if (version > 0x0300) {
+    if (servername) {
+      extensions.push(extension(0x0000, prefixed(Buffer.concat([Buffer.from([0]), prefixed(Buffer.from(servername, 'ascii'))]))));
+    }
+    // x25519, secp256r1, secp384r1, secp521r1
+    extensions.push(extension(0x000a, prefixed(uint16s([0x001d, 0x0017, 0x0018, 0x0019]))));
+    // Uncompressed points only
+    extensions.push(extension(0x000b, prefixed(Buffer.from([0]), 1)));
+    // ECDSA, RSA-PSS, Ed25519 and RSA with SHA-2, then the SHA-1 fallbacks
+    extensions.push(extension(0x000d, prefixed(uint16s([0x0403, 0x0503, 0x0603, 0x0804, 0x0805, 0x0806, 0x0807, 0x0401, 0x0501, 0x0601, 0x0201, 0x0203]))));
+    // Empty renegotiation_info, which some servers insist on
+    extensions.push(extension(0xff01, Buffer.from([0])));
+  }
+
+  const hello = Buffer.concat([
+    uint16s([version]),
+    randomBytes(32),
+    prefixed(Buffer.alloc(0), 1),
+    prefixed(uint16s(suites)),
+    prefixed(Buffer.from([0]), 1),
+    extensions.length > 0 ? prefixed(Buffer.concat(extensions)) : Buffer.alloc(0)
+  ]);
+  const handshake = Buffer.concat([Buffer.from([1]), prefixed(hello, 3)]);
+  // Record version: TLS 1.0 for anything newer, as browsers do
+  return Buffer.concat([Buffer.from([0x16]), uint16s([Math.min(version, 0x0301)]), prefixed(handshake)]);
+}
+
+type HelloReply = { version: number; suite: number } | null | 'incomplete';
+
+/**
+ * The version and suite a ServerHello chose; null for an alert or anything
+ * else that is not a ServerHello
+ */
+export function parseServerHello(data: Buffer): HelloReply {
+  if (data.length < 5) return 'incomplete';
+  if (data[0] !== 0x16) return null;
+  // record header, handshake header, version, random, session id length
+  if (data.length < 5 + 4 + 2 + 32 + 1) return 'incomplete';
+  if (data[5] !== 2) return null;
+  const sessionIdEnd = 5 + 4 + 2 + 32 + 1 + data[5 + 4 + 2 + 32];
+  if (data.length < sessionIdEnd + 2) return 'incomplete';
+  return { version: data.readUInt16BE(9), suite: data.readUInt16BE(sessionIdEnd) };
+}
+
+/**
+ * Offer a version and suites; what the server chose, or null if it refused
+ */
+export async function sayHello(
+  host: string,
+  port: number,
+  version: number,
+  suites: number[],
+  signal?: AbortSignal
+): Promise<{ version: number; suite: number } | null> {
+  const connection = await openConnection(host, port, { timeoutMs: CONNECT_TIMEOUT, signal });
+  try {
+    connection.write(clientHello(version, suites, isIpAddress(host) ? undefined : host));
+    const reply = parseServerHello(await connection.read((data) => parseServerHello(data) !== 'incomplete', READ_TIMEOUT));
+    return reply === 'incomplete' ? null : reply;
+  } finally {
+    connection.close();
+  }
+}
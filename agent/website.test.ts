@@ -0,0 +1,140 @@
+import { once } from 'node:events';
+import { IncomingMessage, ServerResponse, createServer as createHttpServer } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
+import { AddressInfo, Server, Socket, createServer } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { ScanReport } from '../src/utils/scanAgentProtocol';
+import { BUILTIN_CHECKS } from './checks';
+import { CheckRegistry } from './registry';
+import { runScan } from './scanner';
+import { WEAK_CERT, WEAK_KEY } from './testCertificate';
+import { CORS_PROBE_ORIGIN } from './website';
+
+// Local pages that send known-bad (and known-good) headers and cookies
+
+const PAGE = '<!doctype html><html><head><title>Test</title></head><body>Hello</body></html>';
+
+type Headers = Record<string, string | string[]>;
+
+/** Each page's headers by path, built from the request so the Origin can be echoed */
+const pages: Record<string, (request: IncomingMessage) => Headers> = {
+  // Every policy in force is weak, so the CSP is weak
+  '/weak': (request) => ({
+    'Content-Security-Policy': "script-src 'self' 'unsafe-inline'; object-src 'none', default-src *",
+    'Strict-Transport-Security': 'max-age=3600; includeSubDomains',
+    'X-Frame-Options': 'DENY',
+    'Referrer-Policy': 'no-referrer, unsafe-url, not-a-policy',
+    'Permissions-Policy': 'camera=()',
+    'Access-Control-Allow-Origin': request.headers.origin ?? '',
+    'Access-Control-Allow-Credentials': 'true',
+    'Set-Cookie': ['sid=abc123; Path=/', 'theme=dark; Path=/; Secure; HttpOnly; SameSite=Lax']
+  }),
+  // A weak header policy with a strong one in a <meta> tag, where 'strict-dynamic' overrides https:
+  '/strong': () => ({
+    'Content-Security-Policy': "script-src 'unsafe-inline'; frame-ancestors 'self'",
+    'Strict-Transport-Security': 'max-age=31536000',
+    'Referrer-Policy': 'unsafe-url, strict-origin-when-cross-origin',
+    'Permissions-Policy': 'camera=()'
+  }),
+  '/report-only': () => ({
+    'Content-Security-Policy-Report-Only': "default-src 'self'",
+    'Strict-Transport-Security': 'max-age=0'
+  })
+};
+
+const META_CSP = `<meta http-equiv="Content-Security-Policy" content="script-src 'nonce-r4nd0m' 'strict-dynamic' https:; object-src 'none'">`;
+
+function servePage(request: IncomingMessage, response: ServerResponse) {
+  const path = request.url ?? '/';
+  const headers = pages[path];
+  if (!headers) {
+    response.writeHead(404).end();
+    return;
+  }
+  response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', ...headers(request) });
+  response.end(path === '/strong' ? PAGE.replace('<title>', `${META_CSP}<title>`) : PAGE);
+}
+
+const https = createHttpsServer({ key: WEAK_KEY, cert: WEAK_CERT, ciphers: 'DEFAULT@SECLEVEL=0' }, servePage);
+// Two plain HTTP hops, the first setting a cookie, before the HTTPS page
+const http = createHttpServer((request, response) => {
+  if (request.url === '/') {
+    response.writeHead(302, { Location: '/login', 'Set-Cookie': 'tracker=1' }).end();
+  } else {
+    response.writeHead(301, { Location: `${httpsUrl}/strong` }).end();
+  }
+});
+const sockets = new Set<Socket>();
+let httpUrl = '';
+let httpsUrl = '';
+let closedPort = 0;
+
+async function listen(server: Server): Promise<number> {
+  server.on('connection', (socket: Socket) => sockets.add(socket));
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  return (server.address() as AddressInfo).port;
+}
+
+beforeAll(async () => {
+  httpUrl = `http://127.0.0.1:${await listen(http)}`;
+  httpsUrl = `https://127.0.0.1:${await listen(https)}`;
+  // The page is fetched from its URL whatever the port list; a closed port
+  // keeps the port probes and TLS checks out of these scans
+  const unused = createServer();
+  closedPort = await listen(unused);
+  unused.close();
+});
+
+afterAll(() => {
+  for (const socket of sockets) socket.destroy();
+  http.close();
+  https.close();
+});
+
+/** Evidence of each website finding, by check id */
+async function audit(url: string): Promise<{ report: ScanReport; evidence: Record<string, string> }> {
+  const report = await runScan({ target: url, mode: 'website', ports: [closedPort] }, new CheckRegistry(BUILTIN_CHECKS));
+  const evidence = Object.fromEntries(
+    report.findings.filter((finding) => finding.check.service === 'Website').map((finding) => [finding.checkId, finding.evidence])
+  );
+  return { report, evidence };
+}
+
+describe('website scan of local pages', () => {
+  it('reports weak headers and cookies', async () => {
+    const { report, evidence } = await audit(`${httpsUrl}/weak`);
+    expect(report.openPorts).toEqual([]);
+    expect(evidence).toEqual({
+      vuln_007: "In the CSP, script-src allows 'unsafe-inline'",
+      vuln_009: 'Strict-Transport-Security max-age=3600 is under six months',
+      vuln_011: 'Referrer-Policy: unsafe-url sends the full URL to other sites',
+      vuln_013: `Access-Control-Allow-Origin echoes whatever Origin is sent (${CORS_PROBE_ORIGIN}), with credentials`,
+      vuln_014: 'Set without Secure: sid',
+      vuln_015: 'Set without HttpOnly: sid',
+      vuln_016: 'Set without a valid SameSite: sid'
+    });
+  });
+
+  it('passes a strong page reached through an HTTP redirect chain, except for the chain', async () => {
+    const { report, evidence } = await audit(`${httpUrl}/`);
+    expect(report.website?.chain).toEqual([
+      { url: `${httpUrl}/`, status: 302 },
+      { url: `${httpUrl}/login`, status: 301 },
+      { url: `${httpsUrl}/strong`, status: 200 }
+    ]);
+    expect(evidence).toEqual({
+      vuln_017: `2 plain HTTP hops before HTTPS: ${httpUrl}/ (302) → ${httpUrl}/login (301) → ${httpsUrl}/strong (200)`,
+      vuln_014: 'Set without Secure: tracker',
+      vuln_015: 'Set without HttpOnly: tracker',
+      vuln_016: 'Set without a valid SameSite: tracker'
+    });
+  });
+
+  it('does not count a report-only CSP or max-age=0 as protection', async () => {
+    const { evidence } = await audit(`${httpsUrl}/report-only`);
+    expect(evidence.vuln_006).toBe('Only Content-Security-Policy-Report-Only is set, which reports violations without blocking them');
+    expect(evidence.vuln_009).toBe('Strict-Transport-Security: max-age=0 tells browsers to forget the policy');
+    expect(evidence.vuln_011).toBe('No Referrer-Policy header');
+  });
+});
@@ -0,0 +1,132 @@
+// Website mode: fetch a page the way a browser would reach it, following the
+// redirect chain, so the website checks (checks/headers.ts and friends) can
+// judge its headers, cookies and content.
+//
+// Certificates are not verified here: a site with a broken certificate still
+// has headers worth auditing, and certificate problems are the TLS checks'
+// business.
+
+import { IncomingHttpHeaders, IncomingMessage, request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { CANCELLED, throwIfCancelled } from './net';
+import { PROBE_TLS } from './services';
+
+const MAX_REDIRECTS = 10;
+const MAX_PAGE = 2 * 1024 * 1024;
+const REQUEST_TIMEOUT = 10000;
+
+/**
+ * Sent with every request. A server that echoes it back in
+ * Access-Control-Allow-Origin trusts any origin.
+ */
+export const CORS_PROBE_ORIGIN = 'https://cors-probe.securex.invalid';
+
+export interface HttpResponse {
+  url: URL;
+  status: number;
+  headers: IncomingHttpHeaders;
+}
+
+export interface WebsiteSnapshot {
+  /** Every response from the first request to the page, redirects included */
+  chain: HttpResponse[];
+  /** The last response in the chain */
+  page: HttpResponse;
+  /** The page's HTML, or '' if it is something else */
+  html: string;
+  /** The chain ended because it went round in circles or on for too long */
+  tooManyRedirects: boolean;
+}
+
+/**
+ * A response header, with repeated headers joined by commas
+ */
+export function header(response: HttpResponse, name: string): string | undefined {
+  const value = response.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+export function isHtml(response: HttpResponse): boolean {
+  return /\bx?html\b/i.test(header(response, 'content-type') ?? '');
+}
+
+function get(url: URL, signal?: AbortSignal): Promise<IncomingMessage> {
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'GET',
+      headers: {
+        'User-Agent': 'SecureX-Scan-Agent',
+        Accept: 'text/html,application/xhtml+xml,*/*;q=0.8',
+        Origin: CORS_PROBE_ORIGIN
+      },
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(REQUEST_TIMEOUT)]) : AbortSignal.timeout(REQUEST_TIMEOUT),
+      ...(url.protocol === 'https:' ? PROBE_TLS : {})
+    });
+    req.on('response', resolve);
+    req.on('error', (error) => reject(signal?.aborted ? new Error(CANCELLED) : error));
+    req.end();
+  });
+}
+
+function readText(response: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    response.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      size += chunk.length;
+      // Enough to judge the page; stop downloading the rest
+      if (size > MAX_PAGE) response.destroy();
+    });
+    response.on('close', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    response.on('error', reject);
+  });
+}
+
+/**
+ * Fetch a page, following redirects. Rejects if the first request fails;
+ * a failure further along the chain ends it at the last good response.
+ */
+export async function fetchWebsite(start: URL, signal?: AbortSignal): Promise<WebsiteSnapshot> {
+  const chain: HttpResponse[] = [];
+  const seen = new Set<string>();
+  let url = start;
+  for (;;) {
+    throwIfCancelled(signal);
+    let response: IncomingMessage;
+    try {
+      response = await get(url, signal);
+    } catch (error) {
+      if (chain.length === 0 || signal?.aborted) {
+        throw new Error(`Could not fetch ${url.href}: ${(error as Error).message}`);
+      }
+      break;
+    }
+    const status = response.statusCode ?? 0;
+    chain.push({ url, status, headers: response.headers });
+    seen.add(url.href);
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      let next: URL;
+      try {
+        next = new URL(location, url);
+      } catch {
+        break;
+      }
+      if (seen.has(next.href) || chain.length > MAX_REDIRECTS) {
+        return { chain, page: chain[chain.length - 1], html: '', tooManyRedirects: true };
+      }
+      url = next;
+      continue;
+    }
+
+    const page = chain[chain.length - 1];
+    const html = isHtml(page) ? await readText(response) : '';
+    response.destroy();
+    return { chain, page, html, tooManyRedirects: false };
+  }
+  return { chain, page: chain[chain.length - 1], html: '', tooManyRedirects: false };
+}
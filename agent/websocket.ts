@@ -0,0 +1,151 @@
+// Minimal RFC 6455 WebSocket server side: the upgrade handshake and text,
+// ping and close frames. Enough for the UI's scan socket without pulling in
+// a dependency. Messages larger than MAX_MESSAGE close the connection.
+
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE = 1 << 20;
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_BINARY = 0x2;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+export interface WebSocketConnection {
+  send(text: string): void;
+  close(code?: number): void;
+  onMessage: (text: string) => void;
+  onClose: () => void;
+}
+
+function frame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 0x10000 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 0x10000) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Complete the upgrade handshake; returns null (and refuses the upgrade)
+ * when the request is not a valid WebSocket upgrade
+ */
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  let buffered = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let fragmentOpcode = 0;
+  let closed = false;
+
+  const connection: WebSocketConnection = {
+    send(text) {
+      if (!closed) socket.write(frame(OP_TEXT, Buffer.from(text, 'utf8')));
+    },
+    close(code = 1000) {
+      if (closed) return;
+      closed = true;
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code, 0);
+      socket.end(frame(OP_CLOSE, payload));
+    },
+    onMessage: () => undefined,
+    onClose: () => undefined
+  };
+
+  const handleFrame = (opcode: number, fin: boolean, payload: Buffer) => {
+    if (opcode === OP_PING) {
+      socket.write(frame(OP_PONG, payload));
+    } else if (opcode === OP_CLOSE) {
+      connection.close();
+    } else if (opcode === OP_TEXT || opcode === OP_BINARY || opcode === OP_CONTINUATION) {
+      if (opcode !== OP_CONTINUATION) {
+        fragments = [];
+        fragmentOpcode = opcode;
+      }
+      fragments.push(payload);
+      if (fragments.reduce((sum, part) => sum + part.length, 0) > MAX_MESSAGE) {
+        connection.close(1009);
+        return;
+      }
+      if (fin) {
+        const message = Buffer.concat(fragments);
+        fragments = [];
+        if (fragmentOpcode !== OP_TEXT) return;
+        // A handler that throws takes down this connection, not the process
+        try {
+          connection.onMessage(message.toString('utf8'));
+        } catch {
+          connection.close(1011);
+        }
+      }
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    while (buffered.length >= 2 && !closed) {
+      const fin = (buffered[0] & 0x80) !== 0;
+      const opcode = buffered[0] & 0x0f;
+      const masked = (buffered[1] & 0x80) !== 0;
+      let length = buffered[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffered.length < 4) return;
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) return;
+        const long = buffered.readBigUInt64BE(2);
+        if (long > BigInt(MAX_MESSAGE)) {
+          connection.close(1009);
+          return;
+        }
+        length = Number(long);
+        offset = 10;
+      }
+      // Clients must mask every frame
+      if (!masked) {
+        connection.close(1002);
+        return;
+      }
+      if (buffered.length < offset + 4 + length) return;
+      const mask = buffered.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      buffered = buffered.subarray(offset + 4 + length);
+      handleFrame(opcode, fin, payload);
+    }
+  });
+
+  socket.once('close', () => {
+    closed = true;
+    connection.onClose();
+  });
+  socket.on('error', () => socket.destroy());
+  return connection;
+}
@@ -0,0 +1,360 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AudioLines, Eye, EyeOff, Download, FileText, MessageSquare } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import VaultKeyPicker from "@/components/VaultKeyPicker";
+import {
+  AUDIO_STEGO_METHODS,
+  AudioStegoMethod,
+  MAX_LSB_BITS,
+  audioCapacity,
+  embedFileInWav,
+  embedMessageInWav,
+  extractFromWav,
+  loadWav
+} from "@/utils/audioSteganography";
+import { PcmAudio, frameCount } from "@/utils/wavCodec";
+import { filePayloadBodyLength } from "@/utils/stegoPayload";
+import { downloadBlob } from "@/utils/fileSave";
+import { encodeText } from "@/utils/textCodec";
+
+const AudioSteganography = () => {
+  const [carrierFile, setCarrierFile] = useState<File | null>(null);
+  const [carrier, setCarrier] = useState<PcmAudio | null>(null);
+  const [carrierUrl, setCarrierUrl] = useState("");
+  const [stegoUrl, setStegoUrl] = useState("");
+  const [payloadMode, setPayloadMode] = useState("message");
+  const [secretMessage, setSecretMessage] = useState("");
+  const [secretFile, setSecretFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [method, setMethod] = useState<AudioStegoMethod>("lsb");
+  const [lsbBits, setLsbBits] = useState("1");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [extractedMessage, setExtractedMessage] = useState("");
+  const [extractedFile, setExtractedFile] = useState<File | null>(null);
+
+  useEffect(() => () => {
+    if (carrierUrl) URL.revokeObjectURL(carrierUrl);
+  }, [carrierUrl]);
+
+  useEffect(() => () => {
+    if (stegoUrl) URL.revokeObjectURL(stegoUrl);
+  }, [stegoUrl]);
+
+  const payloadLength = payloadMode === "file"
+    ? secretFile ? filePayloadBodyLength(secretFile.name, secretFile.size) : null
+    : encodeText(secretMessage).length;
+  const capacity = carrier ? audioCapacity(carrier, method, Number(lsbBits), Boolean(passphrase)) : null;
+  const fits = capacity !== null && payloadLength !== null && payloadLength <= capacity;
+
+  const handleCarrierSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setCarrierFile(file);
+    setCarrier(null);
+    setStegoUrl("");
+    setCarrierUrl(URL.createObjectURL(file));
+    try {
+      setCarrier(await loadWav(file));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the WAV file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleEmbed = async () => {
+    if (!carrierFile || !carrier) {
+      toast({
+        title: "Error",
+        description: "Please select a 16-bit PCM WAV file first",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const hidingFile = payloadMode === "file";
+    if (hidingFile ? !secretFile : !secretMessage.trim()) {
+      toast({
+        title: "Error",
+        description: hidingFile ? "Please choose a file to hide" : "Please enter a message to hide",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    const options = { passphrase, method, lsbBits: Number(lsbBits) };
+    const result = hidingFile
+      ? await embedFileInWav(carrierFile, secretFile, options)
+      : await embedMessageInWav(carrierFile, secretMessage, options);
+
+    if (result.success && result.blob) {
+      downloadBlob(result.blob, `stego_${carrierFile.name.replace(/\.[^/.]+$/, "")}.wav`);
+      setStegoUrl(URL.createObjectURL(result.blob));
+      toast({
+        title: "Success",
+        description: `${hidingFile ? "File" : "Message"} embedded in audio successfully! Download started.`,
+      });
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to embed message",
+        variant: "destructive"
+      });
+    }
+    setIsProcessing(false);
+  };
+
+  const handleExtract = async () => {
+    if (!carrierFile) {
+      toast({
+        title: "Error",
+        description: "Please select a WAV file first",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    const result = await extractFromWav(carrierFile, { passphrase });
+    setExtractedFile(result.file ?? null);
+    setExtractedMessage(result.message ?? "");
+    if (result.success) {
+      toast({
+        title: "Success",
+        description: result.file ? `Hidden file "${result.file.name}" extracted successfully` : "Hidden message extracted successfully",
+      });
+    } else {
+      toast({
+        title: "No Message Found",
+        description: result.error || "This audio doesn't appear to contain any hidden messages",
+        variant: "destructive"
+      });
+    }
+    setIsProcessing(false);
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <AudioLines className="h-5 w-5 text-cyan-400" />
+          Audio Steganography
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          Hide messages or files in 16-bit PCM WAV audio with LSB or phase coding
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Carrier Upload */}
+        <div>
+          <Label htmlFor="audio-carrier" className="text-white mb-2 block">
+            Select WAV File
+          </Label>
+          <Input
+            id="audio-carrier"
+            type="file"
+            accept=".wav,audio/wav,audio/x-wav,audio/wave"
+            onChange={handleCarrierSelect}
+            className="bg-slate-700 border-slate-600 text-white file:bg-cyan-600 file:text-white file:border-0 file:rounded-md file:px-3 file:py-1"
+          />
+          {carrier && (
+            <div className="text-xs text-slate-400 mt-1">
+              {carrier.channels === 1 ? "Mono" : `${carrier.channels} channels`} · {carrier.sampleRate.toLocaleString()} Hz ·{" "}
+              {(frameCount(carrier) / carrier.sampleRate).toFixed(1)} s
+            </div>
+          )}
+          {carrierUrl && <audio controls src={carrierUrl} className="w-full mt-3" />}
+        </div>
+
+        {/* What to hide */}
+        <Tabs value={payloadMode} onValueChange={setPayloadMode} className="w-full">
+          <TabsList className="bg-slate-700">
+            <TabsTrigger value="message" className="flex items-center gap-2">
+              <MessageSquare className="h-4 w-4" />
+              Message
+            </TabsTrigger>
+            <TabsTrigger value="file" className="flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              File
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="message" className="mt-4">
+            <Label htmlFor="audio-message" className="text-white mb-2 block">
+              Secret Message (for embedding)
+            </Label>
+            <Textarea
+              id="audio-message"
+              placeholder="Enter your secret message to hide in the audio..."
+              value={secretMessage}
+              onChange={(e) => setSecretMessage(e.target.value)}
+              className="bg-slate-700 border-slate-600 text-white h-24 font-mono"
+            />
+          </TabsContent>
+
+          <TabsContent value="file" className="mt-4">
+            <Label htmlFor="audio-secret-file" className="text-white mb-2 block">
+              Secret File (for embedding)
+            </Label>
+            <Input
+              id="audio-secret-file"
+              type="file"
+              onChange={(e) => setSecretFile(e.target.files?.[0] ?? null)}
+              className="bg-slate-700 border-slate-600 text-white file:bg-cyan-600 file:text-white file:border-0 file:rounded-md file:px-3 file:py-1"
+            />
+          </TabsContent>
+        </Tabs>
+
+        {/* Passphrase */}
+        <div>
+          <Label htmlFor="audio-passphrase" className="text-white mb-2 block">
+            Passphrase (optional)
+          </Label>
+          <Input
+            id="audio-passphrase"
+            type="password"
+            placeholder="Encrypt and scatter the hidden data"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className="bg-slate-700 border-slate-600 text-white"
+          />
+          <div className="mt-2">
+            <VaultKeyPicker
+              kinds={["secret"]}
+              placeholder="Use a secret key from the vault"
+              onSelect={(entry) => setPassphrase(entry.secret ?? "")}
+            />
+          </div>
+        </div>
+
+        {/* Embedding Settings */}
+        <Card className="bg-slate-700/50 border border-slate-600">
+          <CardContent className="pt-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="audio-method" className="text-white mb-2 block">
+                  Method
+                </Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as AudioStegoMethod)}>
+                  <SelectTrigger id="audio-method" className="bg-slate-700 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-700 border-slate-600">
+                    {Object.entries(AUDIO_STEGO_METHODS).map(([id, info]) => (
+                      <SelectItem key={id} value={id}>{info.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {method === "lsb" && (
+                <div>
+                  <Label htmlFor="audio-bits" className="text-white mb-2 block">
+                    Bits per Sample
+                  </Label>
+                  <Select value={lsbBits} onValueChange={setLsbBits}>
+                    <SelectTrigger id="audio-bits" className="bg-slate-700 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-700 border-slate-600">
+                      {Array.from({ length: MAX_LSB_BITS }, (_, i) => (
+                        <SelectItem key={i + 1} value={String(i + 1)}>
+                          {i + 1} bit{i > 0 ? "s" : ""}{i === 0 ? " (least audible)" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="text-xs text-slate-400 space-y-1">
+              <div>{AUDIO_STEGO_METHODS[method].description}. Extraction detects the method by itself.</div>
+              {capacity === null ? (
+                <div>Select a WAV file to see its capacity</div>
+              ) : (
+                <div className={payloadLength !== null && !fits ? "text-red-400" : undefined}>
+                  Capacity: {capacity.toLocaleString()} bytes
+                  {payloadLength !== null && ` · Needed: ${payloadLength.toLocaleString()} bytes`}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Action Buttons */}
+        <div className="flex flex-wrap gap-3">
+          <Button
+            onClick={handleEmbed}
+            disabled={isProcessing}
+            className="bg-cyan-600 hover:bg-cyan-700 text-white"
+          >
+            <EyeOff className="h-4 w-4 mr-2" />
+            {isProcessing ? "Embedding..." : payloadMode === "file" ? "Hide File" : "Hide Message"}
+          </Button>
+          <Button
+            onClick={handleExtract}
+            disabled={isProcessing}
+            variant="outline"
+            className="border-cyan-500 text-cyan-400 hover:bg-cyan-600 hover:text-white"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            {isProcessing ? "Extracting..." : "Extract Message"}
+          </Button>
+        </div>
+
+        {stegoUrl && (
+          <div>
+            <Label className="text-white mb-2 block">Stego Audio</Label>
+            <audio controls src={stegoUrl} className="w-full" />
+          </div>
+        )}
+
+        {/* Extracted Message */}
+        {extractedMessage && (
+          <div>
+            <Label className="text-white mb-2 block">Extracted Message</Label>
+            <Card className="bg-slate-700/50 border border-slate-600">
+              <CardContent className="pt-4">
+                <p dir="auto" className="text-green-400 font-mono whitespace-pre-wrap break-words">{extractedMessage}</p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Extracted File */}
+        {extractedFile && (
+          <div>
+            <Label className="text-white mb-2 block">Extracted File</Label>
+            <Card className="bg-slate-700/50 border border-slate-600">
+              <CardContent className="pt-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-green-400 font-mono break-all">{extractedFile.name}</div>
+                  <div className="text-xs text-slate-400">{extractedFile.size.toLocaleString()} bytes</div>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => downloadBlob(extractedFile, extractedFile.name)}
+                  className="bg-cyan-600 hover:bg-cyan-700 text-white shrink-0"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AudioSteganography;
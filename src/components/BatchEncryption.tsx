@@ -0,0 +1,503 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, FolderLock, KeyRound, Lock, RotateCcw, Unlock, XCircle } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { EncryptionResult, FileMetadata, StreamOptions } from "@/utils/fileEncryption";
+import { KdfParams } from "@/utils/containerFormat";
+import {
+  ARCHIVE_EXTENSION,
+  ARCHIVE_TYPE,
+  BatchItem,
+  BatchManifest,
+  MANIFEST_NAME,
+  ManifestFile,
+  archiveToZip,
+  batchRoot,
+  buildArchive,
+  createManifest,
+  folderOutput,
+  normalizePath,
+  parseManifest,
+  verifyManifestHmac,
+  verifyManifestSignature
+} from "@/utils/batchEncryption";
+import { SigningKey, importSigningKey, importVerificationKey } from "@/utils/fileSignature";
+import { formatFingerprint } from "@/utils/publicKeyCrypto";
+import { createNestedFileStream, downloadBlob, openOutputDirectory, openSaveStream } from "@/utils/fileSave";
+import { ZipWriter } from "@/utils/zipWriter";
+
+interface BatchEncryptionProps {
+  items: BatchItem[];
+  keyMode: string;
+  password: string;
+  kdf: KdfParams;
+  /** Validates the selected password or keys, showing a toast when something is missing */
+  checkKeys: (action: "encrypt" | "decrypt") => boolean;
+  encrypt: (file: File, options: StreamOptions) => Promise<EncryptionResult>;
+  decrypt: (file: File, options: StreamOptions) => Promise<EncryptionResult>;
+  onClear: () => void;
+}
+
+interface RowState {
+  status: "pending" | "working" | "done" | "error";
+  progress: number;
+  message?: string;
+}
+
+const pendingRows = (count: number): RowState[] =>
+  Array.from({ length: count }, () => ({ status: "pending", progress: 0 }));
+
+const dirName = (path: string) => path.slice(0, path.lastIndexOf("/") + 1);
+const baseName = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+
+const BatchEncryption = ({ items, keyMode, password, kdf, checkKeys, encrypt, decrypt, onClear }: BatchEncryptionProps) => {
+  const [layout, setLayout] = useState("archive");
+  const [rows, setRows] = useState<RowState[]>(() => pendingRows(items.length));
+  const [overall, setOverall] = useState<number | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [signingKey, setSigningKey] = useState<SigningKey | null>(null);
+  const [signerKey, setSignerKey] = useState<SigningKey | null>(null);
+
+  const totalSize = items.reduce((sum, item) => sum + item.file.size, 0);
+  const root = batchRoot(items);
+  const name = root ?? "batch";
+  const rootPrefix = root ? `${root}/` : "";
+  const manifestItem = items.find(item => baseName(item.path) === MANIFEST_NAME);
+
+  const updateRow = (index: number, update: Partial<RowState>) => {
+    setRows(current => current.map((row, i) => (i === index ? { ...row, ...update } : row)));
+  };
+
+  const percent = (processed: number, total: number) => (total > 0 ? (processed / total) * 100 : 100);
+
+  // Return undefined when the user dismissed the dialog
+  const chooseOutput = async (fileName: string) => {
+    try {
+      return await openSaveStream(fileName);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const chooseDirectory = async () => {
+    try {
+      return await openOutputDirectory();
+    } catch {
+      return undefined;
+    }
+  };
+
+  // The private key signs manifests we write, the public key is the signer we expect on ones we read
+  const loadKeyFile = async (event: React.ChangeEvent<HTMLInputElement>, half: "private" | "public") => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      if (half === "private") {
+        setSigningKey(await importSigningKey(await file.text(), file.name));
+      } else {
+        setSignerKey(await importVerificationKey(await file.text(), file.name));
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import key",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const writeText = async (directory: FileSystemDirectoryHandle, path: string, text: string) => {
+    const writer = (await createNestedFileStream(directory, path)).getWriter();
+    await writer.write(new TextEncoder().encode(text));
+    await writer.close();
+  };
+
+  const start = () => {
+    setRows(pendingRows(items.length));
+    setProblems([]);
+    setOverall(null);
+    setIsProcessing(true);
+  };
+
+  const summarize = (action: string, failures: number) => {
+    const succeeded = items.length - failures;
+    toast({
+      title: failures ? "Batch Finished With Errors" : "Batch Complete",
+      description: `${succeeded} of ${items.length} files ${action}${failures ? `, ${failures} failed` : ""}`,
+      variant: failures ? "destructive" : undefined
+    });
+  };
+
+  const encryptArchive = async () => {
+    const outputName = `${name}${ARCHIVE_EXTENSION}.enc`;
+    const output = await chooseOutput(outputName);
+    if (output === undefined) return;
+
+    start();
+    try {
+      const archive = await buildArchive(items, name, (index, processed, total) =>
+        updateRow(index, { status: "working", progress: percent(processed, total) })
+      );
+      setRows(current => current.map(row => ({ ...row, status: "done", progress: 100, message: "Packed" })));
+
+      setOverall(0);
+      const result = await encrypt(archive, {
+        output: output ?? undefined,
+        onProgress: (processed, total) => setOverall(percent(processed, total))
+      });
+      if (!result.success) {
+        throw new Error(result.error || "Failed to encrypt archive");
+      }
+      if (result.blob) {
+        downloadBlob(result.blob, outputName);
+      }
+      toast({
+        title: "Archive Encrypted",
+        description: `${items.length} files packed into ${outputName}`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to encrypt archive";
+      setRows(current => current.map(row => (row.status === "done" ? row : { ...row, status: "error", message })));
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const encryptIndividually = async () => {
+    const directory = await chooseDirectory();
+    if (directory === undefined) return;
+    const zip = directory ? null : new ZipWriter();
+
+    start();
+    const manifestFiles: ManifestFile[] = [];
+    let failures = 0;
+    for (let index = 0; index < items.length; index++) {
+      const { file, path } = items[index];
+      const encryptedPath = `${path}.enc`;
+      updateRow(index, { status: "working", progress: 0 });
+      const result = await encrypt(file, {
+        output: directory ? () => createNestedFileStream(directory, encryptedPath) : undefined,
+        onProgress: (processed, total) => updateRow(index, { progress: percent(processed, total) })
+      });
+
+      if (result.success && result.metadata) {
+        if (zip && result.blob) {
+          await zip.addBlob(encryptedPath, result.blob);
+        }
+        // Manifest paths are relative to the manifest, which sits in the batch root
+        manifestFiles.push({
+          path: path.slice(rootPrefix.length),
+          encryptedPath: encryptedPath.slice(rootPrefix.length),
+          size: file.size,
+          sha256: result.metadata.sha256
+        });
+        updateRow(index, { status: "done", progress: 100 });
+      } else {
+        failures++;
+        updateRow(index, { status: "error", message: result.error || "Failed to encrypt file" });
+      }
+    }
+
+    try {
+      const manifest = await createManifest(manifestFiles, {
+        signingKey: signingKey ?? undefined,
+        password: keyMode === "password" ? password : undefined,
+        kdf
+      });
+      const manifestText = JSON.stringify(manifest, null, 2);
+      if (directory) {
+        await writeText(directory, rootPrefix + MANIFEST_NAME, manifestText);
+      } else if (zip) {
+        await zip.addBlob(rootPrefix + MANIFEST_NAME, new Blob([manifestText]));
+        downloadBlob(zip.finish(), `${name}-encrypted.zip`);
+      }
+    } catch (error) {
+      setProblems([`Manifest could not be written: ${error instanceof Error ? error.message : "unknown error"}`]);
+    }
+    summarize("encrypted", failures);
+  };
+
+  const handleEncryptAll = async () => {
+    if (!checkKeys("encrypt")) return;
+    if (layout === "individual" && keyMode !== "password" && !signingKey) {
+      toast({
+        title: "Error",
+        description: "Load a signing key so public-key recipients can check the manifest",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (layout === "archive") {
+      await encryptArchive();
+    } else {
+      await encryptIndividually();
+    }
+    setIsProcessing(false);
+  };
+
+  // Reads and checks manifest.json if it was selected; null when there is none
+  // to use, undefined when decryption should stop
+  const loadManifest = async (): Promise<BatchManifest | null | undefined> => {
+    if (!manifestItem) return null;
+    try {
+      const manifest = parseManifest(await manifestItem.file.text());
+      const checkHmac = manifest.hmac !== undefined && keyMode === "password";
+      if (!manifest.signature && !checkHmac) {
+        toast({
+          title: "Manifest Ignored",
+          description: "This manifest is only authenticated (HMAC) with the batch password and cannot be checked with a private key",
+        });
+        return null;
+      }
+      if (manifest.signature) {
+        const check = await verifyManifestSignature(manifest, signerKey ?? undefined);
+        if (!check.valid) {
+          throw new Error(check.message);
+        }
+        toast({
+          title: "Manifest Signature Verified",
+          description: check.message,
+        });
+      }
+      if (checkHmac && !(await verifyManifestHmac(manifest, password))) {
+        throw new Error("Manifest verification failed - wrong password or the manifest was modified");
+      }
+      return manifest;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Invalid manifest",
+        variant: "destructive"
+      });
+      return undefined;
+    }
+  };
+
+  const handleDecryptAll = async () => {
+    if (!checkKeys("decrypt")) return;
+
+    const manifest = await loadManifest();
+    if (manifest === undefined) return;
+    const manifestDir = manifestItem ? dirName(manifestItem.path) : "";
+
+    const directory = await chooseDirectory();
+    if (directory === undefined) return;
+    const zip = directory ? null : new ZipWriter();
+
+    start();
+    let failures = 0;
+    const seen = new Set<string>();
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+      if (item === manifestItem) {
+        const checks = [manifest?.signature && "Signature", manifest?.hmac && keyMode === "password" && "HMAC"].filter(Boolean);
+        updateRow(index, { status: "done", progress: 100, message: manifest ? `${checks.join(" and ")} verified` : "Not checked" });
+        continue;
+      }
+
+      const relative = item.path.startsWith(manifestDir) ? item.path.slice(manifestDir.length) : item.path;
+      const listed = manifest?.files.find(f => f.encryptedPath === relative);
+      if (manifest && !listed) {
+        failures++;
+        updateRow(index, { status: "error", message: "Not listed in the authenticated manifest" });
+        continue;
+      }
+      if (listed) seen.add(listed.encryptedPath);
+
+      // The manifest decides where a file goes; otherwise keep the .enc location
+      // and restore the original name stored inside the file
+      const outputPath = listed ? manifestDir + normalizePath(listed.path) : item.path.replace(/\.enc$/, "");
+      const basePath = dirName(outputPath);
+      const fileName = (metadata: FileMetadata | null) => (listed ? baseName(outputPath) : metadata?.name ?? baseName(outputPath));
+
+      updateRow(index, { status: "working", progress: 0 });
+      try {
+        const result = await decrypt(item.file, {
+          output: directory ? folderOutput(directory, basePath, fileName) : undefined,
+          onProgress: (processed, total) => updateRow(index, { progress: percent(processed, total) })
+        });
+        if (!result.success) {
+          throw new Error(result.error || "Failed to decrypt file");
+        }
+        if (listed && result.metadata?.sha256 !== listed.sha256) {
+          throw new Error("Decrypted content does not match the manifest");
+        }
+        if (zip && result.blob) {
+          if (result.metadata?.type === ARCHIVE_TYPE) {
+            await archiveToZip(result.blob, zip, basePath);
+          } else {
+            await zip.addBlob(basePath + fileName(result.metadata ?? null), result.blob, result.metadata?.lastModified);
+          }
+        }
+        updateRow(index, {
+          status: "done",
+          progress: 100,
+          message: result.integrityVerified ? "SHA-256 verified" : "Decrypted"
+        });
+      } catch (error) {
+        failures++;
+        updateRow(index, { status: "error", message: error instanceof Error ? error.message : "Failed to decrypt file" });
+      }
+    }
+
+    const missing = manifest?.files.filter(f => !seen.has(f.encryptedPath)) ?? [];
+    setProblems(missing.map(f => `Missing from selection: ${f.encryptedPath}`));
+    if (zip) {
+      downloadBlob(zip.finish(), `${name}-decrypted.zip`);
+    }
+    summarize("decrypted", failures + missing.length);
+    setIsProcessing(false);
+  };
+
+  const completed = rows.filter(row => row.status === "done" || row.status === "error").length;
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-slate-700/50 border border-slate-600">
+        <CardContent className="pt-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-white font-medium">
+              <FolderLock className="h-4 w-4 text-cyan-400" />
+              {root ?? "Selected files"} · {items.length} files · {(totalSize / 1024).toFixed(2)} KB
+            </div>
+            <Button size="sm" variant="ghost" onClick={onClear} disabled={isProcessing} className="text-slate-400">
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto space-y-2 pr-1">
+            {items.map((item, index) => {
+              const row = rows[index] ?? { status: "pending", progress: 0 };
+              return (
+                <div key={item.path} className="p-2 rounded bg-slate-800/60 space-y-1">
+                  <div className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-white font-mono truncate">{item.path}</span>
+                    <span className="flex items-center gap-1 shrink-0">
+                      {row.status === "done" && <CheckCircle className="h-4 w-4 text-green-400" />}
+                      {row.status === "error" && <XCircle className="h-4 w-4 text-red-400" />}
+                      <span className={row.status === "error" ? "text-red-400" : "text-slate-400"}>
+                        {row.message ?? (row.status === "pending" ? `${(item.file.size / 1024).toFixed(2)} KB` : `${Math.round(row.progress)}%`)}
+                      </span>
+                    </span>
+                  </div>
+                  {row.status === "working" && <Progress value={row.progress} className="h-1" />}
+                </div>
+              );
+            })}
+          </div>
+
+          {problems.map(problem => (
+            <div key={problem} className="text-sm text-red-400">{problem}</div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Output Layout */}
+      <div>
+        <Label htmlFor="batch-layout" className="text-white mb-2 block">
+          Encrypted Output
+        </Label>
+        <Select value={layout} onValueChange={setLayout}>
+          <SelectTrigger id="batch-layout" className="bg-slate-700 border-slate-600 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-700 border-slate-600">
+            <SelectItem value="archive">Single encrypted archive (.sxar.enc)</SelectItem>
+            <SelectItem value="individual">Individual .enc files + signed manifest</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="text-xs text-slate-400 mt-1">
+          {layout === "archive"
+            ? "All files and their folder structure are packed into one container, hiding names and sizes."
+            : "Each file is encrypted on its own; manifest.json lists paths and SHA-256 hashes, signed with your signing key so any recipient can check it, plus an HMAC keyed from the password in password mode."}
+          {" "}Decryption rebuilds the folder tree in a folder you choose, or as a ZIP download.
+        </div>
+      </div>
+
+      {(layout === "individual" || manifestItem) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="manifest-signing-key" className="text-white mb-2 block">
+              Manifest Signing Key (private, PEM or JWK)
+            </Label>
+            <Input
+              id="manifest-signing-key"
+              type="file"
+              accept=".pem,.jwk,.json,.key"
+              onChange={(e) => loadKeyFile(e, "private")}
+              className="bg-slate-700 border-slate-600 text-white file:bg-slate-600 file:text-white file:border-0 file:rounded-md file:px-3 file:py-1"
+            />
+            <div className="flex items-center gap-1 text-xs text-slate-400 mt-1">
+              <KeyRound className="h-3 w-3" />
+              {signingKey
+                ? `Signs the manifest as ${formatFingerprint(signingKey.fingerprint)}`
+                : "Create one under File Integrity & Signatures; optional with a password"}
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="manifest-signer-key" className="text-white mb-2 block">
+              Expected Signer (public key, optional)
+            </Label>
+            <Input
+              id="manifest-signer-key"
+              type="file"
+              accept=".pem,.jwk,.json,.key"
+              onChange={(e) => loadKeyFile(e, "public")}
+              className="bg-slate-700 border-slate-600 text-white file:bg-slate-600 file:text-white file:border-0 file:rounded-md file:px-3 file:py-1"
+            />
+            <div className="flex items-center gap-1 text-xs text-slate-400 mt-1">
+              <KeyRound className="h-3 w-3" />
+              {signerKey
+                ? `Manifests must be signed by ${formatFingerprint(signerKey.fingerprint)}`
+                : "Without it, compare the signer's fingerprint by hand"}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <Button onClick={handleEncryptAll} disabled={isProcessing} className="bg-cyan-600 hover:bg-cyan-700 text-white">
+          <Lock className="h-4 w-4 mr-2" />
+          {isProcessing ? "Processing..." : "Encrypt All"}
+        </Button>
+        <Button
+          onClick={handleDecryptAll}
+          disabled={isProcessing}
+          variant="outline"
+          className="border-cyan-500 text-cyan-400 hover:bg-cyan-600 hover:text-white"
+        >
+          <Unlock className="h-4 w-4 mr-2" />
+          {isProcessing ? "Processing..." : "Decrypt All"}
+        </Button>
+      </div>
+
+      {isProcessing && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-slate-400">
+              {overall === null ? `${completed} of ${items.length} files` : "Encrypting archive..."}
+            </span>
+            <span className="text-cyan-400">
+              {Math.round(overall ?? percent(completed, items.length))}%
+            </span>
+          </div>
+          <Progress value={overall ?? percent(completed, items.length)} className="h-2" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchEncryption;
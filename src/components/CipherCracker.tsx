@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Search } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { CLASSICAL_CIPHERS, ClassicalCipher } from "@/utils/classicalCiphers";
+import { CrackCandidate, KeyLengthEstimate, crackAffine, crackCaesar, crackVigenere } from "@/utils/cryptanalysis";
+
+interface CipherCrackerProps {
+  cipher: ClassicalCipher;
+  ciphertext: string;
+  onUse: (plaintext: string, key: string) => void;
+}
+
+const PREVIEW_LENGTH = 120;
+const KEY_LENGTHS_SHOWN = 5;
+
+const CipherCracker = ({ cipher, ciphertext, onUse }: CipherCrackerProps) => {
+  const [candidates, setCandidates] = useState<CrackCandidate[]>([]);
+  const [keyLengths, setKeyLengths] = useState<KeyLengthEstimate[]>([]);
+
+  const handleCrack = () => {
+    try {
+      setKeyLengths([]);
+      if (cipher === "caesar") {
+        setCandidates(crackCaesar(ciphertext));
+      } else if (cipher === "affine") {
+        setCandidates(crackAffine(ciphertext));
+      } else if (cipher === "vigenere") {
+        const analysis = crackVigenere(ciphertext);
+        setCandidates(analysis.candidates);
+        setKeyLengths([...analysis.keyLengths].sort((a, b) => b.ioc - a.ioc).slice(0, KEY_LENGTHS_SHOWN));
+      }
+    } catch (error) {
+      setCandidates([]);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Cryptanalysis failed",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-slate-700/50 border border-slate-600">
+      <CardContent className="pt-4 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-sm text-slate-400">
+            No key? Crack the input as {CLASSICAL_CIPHERS[cipher].name} ciphertext; candidates are ranked by English letter and bigram frequencies.
+          </div>
+          <Button
+            onClick={handleCrack}
+            disabled={!ciphertext.trim()}
+            variant="outline"
+            className="border-amber-500 text-amber-400 hover:bg-amber-600 hover:text-white shrink-0"
+          >
+            <Search className="h-4 w-4 mr-2" />
+            Crack
+          </Button>
+        </div>
+
+        {keyLengths.length > 0 && (
+          <div>
+            <div className="text-white text-sm font-medium mb-2">Likely Key Lengths</div>
+            <div className="flex flex-wrap gap-2">
+              {keyLengths.map((estimate) => (
+                <Badge key={estimate.length} variant="outline" className="text-slate-200 font-mono">
+                  {estimate.length}: IoC {estimate.ioc.toFixed(3)} · Kasiski {estimate.kasiski}
+                </Badge>
+              ))}
+            </div>
+            <div className="text-xs text-slate-400 mt-1">
+              English text has an index of coincidence near 0.066; random letters sit near 0.038.
+            </div>
+          </div>
+        )}
+
+        {candidates.length > 0 && (
+          <div className="space-y-2">
+            {candidates.map((candidate, index) => (
+              <div key={candidate.key} className="flex items-start justify-between gap-3 p-2 rounded bg-slate-800/60">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="text-slate-400">#{index + 1}</span>
+                    <span className="text-cyan-400 font-mono">key {candidate.key}</span>
+                    <span className="text-slate-500">score {candidate.score.toFixed(2)}</span>
+                  </div>
+                  <div className="text-green-400 font-mono text-sm break-all">
+                    {candidate.plaintext.length > PREVIEW_LENGTH
+                      ? candidate.plaintext.slice(0, PREVIEW_LENGTH) + "..."
+                      : candidate.plaintext}
+                  </div>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => onUse(candidate.plaintext, candidate.key)} className="text-slate-300 shrink-0">
+                  Use
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CipherCracker;
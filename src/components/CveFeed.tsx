@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "@/hooks/use-toast";
+import { Database, Trash2 } from "lucide-react";
+import { CveFeedStatus, clearFeed, getFeedStatus, importFeed } from "@/utils/cveFeed";
+
+interface CveFeedProps {
+  /** The feed cannot change while a scan is running */
+  disabled: boolean;
+}
+
+const CveFeed = ({ disabled }: CveFeedProps) => {
+  const [status, setStatus] = useState<CveFeedStatus | null>(null);
+  const [importing, setImporting] = useState<number | null>(null);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  useEffect(() => {
+    getFeedStatus().then(setStatus).catch(() => setStatus(null));
+  }, []);
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setImporting(0);
+    try {
+      const result = await importFeed(file, (fraction) => setImporting(fraction * 100));
+      setStatus(await getFeedStatus());
+      toast({
+        title: result.kind === "cves" ? "CVE Feed Imported" : "CPE Dictionary Imported",
+        description: `${file.name}: ${result.imported} added or updated, ${result.removed} removed, ${result.skipped} skipped`,
+      });
+    } catch (error) {
+      showError(error, "Could not import the feed");
+    }
+    setImporting(null);
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearFeed();
+      setStatus(await getFeedStatus());
+    } catch (error) {
+      showError(error, "Could not clear the feed");
+    }
+  };
+
+  const busy = disabled || importing !== null;
+
+  return (
+    <Card className="bg-slate-800/50 border border-slate-700">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Database className="h-5 w-5 text-cyan-400" />
+          <CardTitle className="text-white">CVE Feed</CardTitle>
+        </div>
+        <CardDescription className="text-slate-400">
+          {status && status.cveCount > 0
+            ? `${status.cveCount} CVEs indexed${status.lastModified ? `, updated to ${status.lastModified.slice(0, 10)}` : ""}. Software versions found by scans are matched against them.`
+            : "Import an NVD JSON 2.0 feed to match the software versions found by scans against known CVEs."}
+          {status && status.productCount > 0 && ` ${status.productCount} CPE names from the dictionary.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="cve-feed" className="text-white mb-2 block">
+            Import NVD Feed or CPE Dictionary
+          </Label>
+          <Input
+            id="cve-feed"
+            type="file"
+            accept=".json,.gz"
+            onChange={importFile}
+            disabled={busy}
+            className="bg-slate-700 border-slate-600 text-white file:bg-cyan-600 file:text-white file:border-0 file:rounded-md file:px-3 file:py-1"
+          />
+          <p className="text-xs text-slate-400 mt-2">
+            Import a newer feed (such as the "modified" feed) at any time to refresh the index; newer records replace older ones.
+          </p>
+        </div>
+
+        {importing !== null && <Progress value={importing} className="h-2" />}
+
+        {status && (status.cveCount > 0 || status.productCount > 0) && (
+          <Button
+            onClick={handleClear}
+            disabled={busy}
+            variant="outline"
+            className="border-red-600 text-red-400 hover:bg-red-900/30"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear Feed
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CveFeed;
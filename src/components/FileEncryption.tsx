@@ -1,87 +1,212 @@
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { FileText, Lock, Unlock, Upload, Download, Shield } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FileText, Lock, Unlock, Upload, Download, Shield, KeyRound, Users, FolderOpen } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-import { encryptFile, decryptFile, getOriginalExtension, getMimeType } from "@/utils/fileEncryption";
+import RecipientKeys from "@/components/RecipientKeys";
+import VaultKeyPicker from "@/components/VaultKeyPicker";
+import BatchEncryption from "@/components/BatchEncryption";
+import {
+  encryptFile,
+  encryptFileForRecipients,
+  decryptFile,
+  decryptFileWithPrivateKey,
+  getOriginalExtension,
+  getMimeType,
+  readContainerHeader,
+  KDF_PRESETS,
+  FileMetadata,
+  StreamOptions
+} from "@/utils/fileEncryption";
+import { IdentityKey, RecipientKey } from "@/utils/publicKeyCrypto";
+import { describeHeader } from "@/utils/containerFormat";
+import { hashFile, toHex } from "@/utils/digest";
+import { downloadBlob, openOutputDirectory, openSaveStream, sanitizeFileName } from "@/utils/fileSave";
+import { ARCHIVE_EXTENSION, ARCHIVE_TYPE, BatchItem, archiveToZip, collectDroppedItems, folderOutput, itemsFromFileList } from "@/utils/batchEncryption";
 
 const FileEncryption = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [password, setPassword] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
   const [fileHash, setFileHash] = useState("");
+  const [containerInfo, setContainerInfo] = useState("");
+  const [progress, setProgress] = useState(0);
+  const [kdfPreset, setKdfPreset] = useState("pbkdf2");
+  const [restoredFile, setRestoredFile] = useState<{ metadata: FileMetadata; verified: boolean } | null>(null);
+  const [keyMode, setKeyMode] = useState("password");
+  const [recipients, setRecipients] = useState<RecipientKey[]>([]);
+  const [identity, setIdentity] = useState<IdentityKey | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [batchId, setBatchId] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const folderInput = useRef<HTMLInputElement>(null);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
+  // A single loose file uses the single-file flow; anything else is a batch
+  const selectItems = (items: BatchItem[]) => {
+    if (items.length === 0) return;
+    setRestoredFile(null);
+
+    if (items.length === 1 && !items[0].path.includes("/")) {
+      const file = items[0].file;
+      setBatchItems([]);
       setSelectedFile(file);
       generateFileHash(file);
+      inspectContainer(file);
       toast({
         title: "File Selected",
         description: `Selected: ${file.name} (${(file.size / 1024).toFixed(2)} KB)`,
       });
+      return;
     }
+
+    setSelectedFile(null);
+    setContainerInfo("");
+    setBatchItems(items);
+    setBatchId(id => id + 1);
+    const totalSize = items.reduce((sum, item) => sum + item.file.size, 0);
+    toast({
+      title: "Files Selected",
+      description: `${items.length} files (${(totalSize / 1024).toFixed(2)} KB) ready for batch processing`,
+    });
   };
 
-  const generateFileHash = async (file: File) => {
-    const arrayBuffer = await file.arrayBuffer();
-    const hashBuffer = await crypto.subtle.digest('SHA-256', arrayBuffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-    setFileHash(hashHex.substring(0, 16) + "...");
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files) {
+      selectItems(itemsFromFileList(event.target.files));
+    }
   };
 
-  const handleEncryptFile = async () => {
-    if (!selectedFile) {
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    try {
+      selectItems(await collectDroppedItems(event.dataTransfer));
+    } catch (error) {
       toast({
         title: "Error",
-        description: "Please select a file first",
+        description: error instanceof Error ? error.message : "Could not read the dropped files",
         variant: "destructive"
       });
+    }
+  };
+
+  const clearBatch = () => {
+    setBatchItems([]);
+  };
+
+  const generateFileHash = async (file: File) => {
+    setFileHash("Calculating...");
+    setFileHash(toHex(await hashFile(file)));
+  };
+
+  const updateProgress = (processed: number, total: number) => {
+    setProgress(total > 0 ? (processed / total) * 100 : 100);
+  };
+
+  // Returns undefined when the user dismissed the save dialog
+  const chooseOutput = async (fileName: string) => {
+    try {
+      return await openSaveStream(fileName);
+    } catch {
+      return undefined;
+    }
+  };
+
+  // Returns undefined when the user dismissed the folder dialog
+  const chooseDirectory = async () => {
+    try {
+      return await openOutputDirectory();
+    } catch {
+      return undefined;
+    }
+  };
+
+  const inspectContainer = async (file: File) => {
+    if (!file.name.endsWith('.enc')) {
+      setContainerInfo("");
       return;
     }
+    const header = await readContainerHeader(file);
+    setContainerInfo(header ? describeHeader(header) : "Unrecognized format");
+    if (header) {
+      setKeyMode(header.recipients ? "recipients" : "password");
+    }
+  };
 
-    if (!password) {
+  // Shows a toast and returns false when the chosen key mode is missing input
+  const checkKeys = (action: "encrypt" | "decrypt") => {
+    let problem = "";
+    if (keyMode === "recipients") {
+      if (action === "encrypt" && recipients.length === 0) {
+        problem = "Please add at least one recipient public key";
+      } else if (action === "decrypt" && !identity) {
+        problem = "Please generate or load your private key";
+      }
+    } else if (!password) {
+      problem = action === "encrypt" ? "Please enter a password" : "Please enter the decryption password";
+    } else if (action === "encrypt" && password.length < 8) {
+      problem = "Password must be at least 8 characters long";
+    }
+
+    if (problem) {
       toast({
         title: "Error",
-        description: "Please enter a password",
+        description: problem,
         variant: "destructive"
       });
-      return;
     }
+    return !problem;
+  };
+
+  const encryptWithKeys = (file: File, options: StreamOptions) =>
+    keyMode === "recipients"
+      ? encryptFileForRecipients(file, recipients, options)
+      : encryptFile(file, password, { ...options, kdf: KDF_PRESETS[kdfPreset].kdf });
+
+  const decryptWithKeys = (file: File, options: StreamOptions) =>
+    keyMode === "recipients"
+      ? decryptFileWithPrivateKey(file, identity, options)
+      : decryptFile(file, password, options);
 
-    if (password.length < 8) {
+  const handleEncryptFile = async () => {
+    if (!selectedFile) {
       toast({
         title: "Error",
-        description: "Password must be at least 8 characters long",
+        description: "Please select a file first",
         variant: "destructive"
       });
       return;
     }
 
+    if (!checkKeys("encrypt")) return;
+
+    const outputName = `${selectedFile.name}.enc`;
+    const output = await chooseOutput(outputName);
+    if (output === undefined) return;
+
     setIsProcessing(true);
+    setProgress(0);
     
     try {
-      const result = await encryptFile(selectedFile, password);
+      const result = await encryptWithKeys(selectedFile, {
+        output: output ?? undefined,
+        onProgress: updateProgress
+      });
       
-      if (result.success && result.data) {
-        const encryptedBlob = new Blob([result.data], {
-          type: 'application/octet-stream'
-        });
-        
-        const url = URL.createObjectURL(encryptedBlob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${selectedFile.name}.enc`;
-        a.click();
-        URL.revokeObjectURL(url);
+      if (result.success) {
+        if (result.blob) {
+          downloadBlob(result.blob, outputName);
+        }
         
         toast({
           title: "Success",
-          description: "File encrypted and downloaded successfully",
+          description: output ? "File encrypted and saved successfully" : "File encrypted and downloaded successfully",
         });
       } else {
         toast({
@@ -111,14 +236,7 @@ const FileEncryption = () => {
       return;
     }
 
-    if (!password) {
-      toast({
-        title: "Error",
-        description: "Please enter the decryption password",
-        variant: "destructive"
-      });
-      return;
-    }
+    if (!checkKeys("decrypt")) return;
 
     // Check if file has .enc extension
     if (!selectedFile.name.endsWith('.enc')) {
@@ -129,31 +247,47 @@ const FileEncryption = () => {
       });
     }
 
+    // Fallback name for older files that don't carry their original name
+    const fallbackName = selectedFile.name.replace(/\.enc$/i, '');
+    const directory = await chooseDirectory();
+    if (directory === undefined) return;
+
     setIsProcessing(true);
+    setProgress(0);
+    setRestoredFile(null);
     
     try {
-      const result = await decryptFile(selectedFile, password);
+      const result = await decryptWithKeys(selectedFile, {
+        output: directory
+          ? folderOutput(directory, "", (metadata) => metadata?.name ?? fallbackName)
+          : undefined,
+        onProgress: updateProgress
+      });
       
-      if (result.success && result.data) {
-        // Get original filename and extension
-        const originalName = selectedFile.name.replace('.enc', '');
-        const extension = getOriginalExtension(selectedFile.name);
-        const mimeType = getMimeType(extension);
-        
-        const decryptedBlob = new Blob([result.data], {
-          type: mimeType
-        });
-        
-        const url = URL.createObjectURL(decryptedBlob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = originalName;
-        a.click();
-        URL.revokeObjectURL(url);
+      if (result.success) {
+        const outputName = sanitizeFileName(result.metadata?.name ?? fallbackName, "decrypted");
+        const isArchive = result.metadata?.type === ARCHIVE_TYPE;
+        if (result.blob && isArchive) {
+          // Without directory access the folder tree comes back as a ZIP
+          const { zip } = await archiveToZip(result.blob);
+          downloadBlob(zip.finish(), `${outputName.replace(ARCHIVE_EXTENSION, "")}.zip`);
+        } else if (result.blob) {
+          const mimeType = result.metadata?.type || getMimeType(getOriginalExtension(`${outputName}.enc`));
+          downloadBlob(new Blob([result.blob], { type: mimeType }), outputName);
+        }
+        if (result.metadata) {
+          setRestoredFile({ metadata: result.metadata, verified: result.integrityVerified ?? false });
+        }
         
+        let description = result.integrityVerified
+          ? `${outputName} decrypted and SHA-256 verified`
+          : `${outputName} decrypted (older file format without an integrity record)`;
+        if (isArchive) {
+          description = `${outputName} decrypted and its folder tree restored`;
+        }
         toast({
           title: "Success",
-          description: "File decrypted and downloaded successfully",
+          description,
         });
       } else {
         toast({
@@ -181,24 +315,53 @@ const FileEncryption = () => {
           File Encryption & Decryption
         </CardTitle>
         <CardDescription className="text-slate-400">
-          Secure your files with password-based encryption
+          Secure your files with a password or encrypt them to your team's public keys
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
         {/* File Upload */}
-        <div>
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`rounded-lg border-2 border-dashed p-4 transition-colors ${isDragging ? "border-cyan-400 bg-cyan-900/20" : "border-slate-600"}`}
+        >
           <Label htmlFor="file" className="text-white mb-2 block">
-            Select File
+            Select Files
           </Label>
           <div className="flex items-center gap-4">
             <Input
               id="file"
               type="file"
+              multiple
               onChange={handleFileSelect}
               className="bg-slate-700 border-slate-600 text-white file:bg-cyan-600 file:text-white file:border-0 file:rounded-md file:px-3 file:py-1"
             />
+            <input
+              ref={(element) => {
+                folderInput.current = element;
+                element?.setAttribute("webkitdirectory", "");
+              }}
+              type="file"
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+            <Button
+              variant="outline"
+              onClick={() => folderInput.current?.click()}
+              className="border-slate-600 text-slate-200 shrink-0"
+            >
+              <FolderOpen className="h-4 w-4 mr-2" />
+              Folder
+            </Button>
             <Upload className="h-5 w-5 text-cyan-400" />
           </div>
+          <div className="text-xs text-slate-400 mt-2">
+            Or drop files and folders here. Several files or a folder are processed as a batch.
+          </div>
         </div>
 
         {/* File Info */}
@@ -214,50 +377,169 @@ const FileEncryption = () => {
                   <span className="text-slate-400">File Size:</span>
                   <span className="text-white">{(selectedFile.size / 1024).toFixed(2)} KB</span>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-slate-400">SHA-256 Hash:</span>
-                  <span className="text-green-400 font-mono text-sm">{fileHash}</span>
+                <div className="flex justify-between gap-4">
+                  <span className="text-slate-400 shrink-0">SHA-256 Hash:</span>
+                  <span className="text-green-400 font-mono text-sm break-all text-right">{fileHash}</span>
                 </div>
+                {containerInfo && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Container Format:</span>
+                    <span className="text-white text-sm">{containerInfo}</span>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
         )}
 
-        {/* Password Input */}
-        <div>
-          <Label htmlFor="password" className="text-white mb-2 block">
-            Encryption Password
-          </Label>
-          <Input
-            id="password"
-            type="password"
-            placeholder="Enter a strong password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            className="bg-slate-700 border-slate-600 text-white"
+        {/* Key Mode */}
+        <Tabs value={keyMode} onValueChange={setKeyMode} className="w-full">
+          <TabsList className="bg-slate-700">
+            <TabsTrigger value="password" className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              Password
+            </TabsTrigger>
+            <TabsTrigger value="recipients" className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              Public Key Recipients
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="password" className="space-y-6 mt-4">
+            {/* Password Input */}
+            <div>
+              <Label htmlFor="password" className="text-white mb-2 block">
+                Encryption Password
+              </Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Enter a strong password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+              <div className="mt-2">
+                <VaultKeyPicker
+                  kinds={["secret"]}
+                  placeholder="Use a secret key from the vault"
+                  onSelect={(entry) => setPassword(entry.secret ?? "")}
+                />
+              </div>
+            </div>
+
+            {/* Key Derivation */}
+            <div>
+              <Label htmlFor="kdf" className="text-white mb-2 block">
+                Key Derivation
+              </Label>
+              <Select value={kdfPreset} onValueChange={setKdfPreset}>
+                <SelectTrigger id="kdf" className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-700 border-slate-600">
+                  {Object.entries(KDF_PRESETS).map(([id, preset]) => (
+                    <SelectItem key={id} value={id}>{preset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="text-xs text-slate-400 mt-1">
+                {KDF_PRESETS[kdfPreset].description}. Decryption reads the settings from the file automatically.
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="recipients" className="mt-4">
+            <RecipientKeys
+              recipients={recipients}
+              onRecipientsChange={setRecipients}
+              identity={identity}
+              onIdentityChange={setIdentity}
+            />
+          </TabsContent>
+        </Tabs>
+
+        {batchItems.length > 0 ? (
+          <BatchEncryption
+            key={batchId}
+            items={batchItems}
+            keyMode={keyMode}
+            password={password}
+            kdf={KDF_PRESETS[kdfPreset].kdf}
+            checkKeys={checkKeys}
+            encrypt={encryptWithKeys}
+            decrypt={decryptWithKeys}
+            onClear={clearBatch}
           />
-        </div>
+        ) : (
+          <>
+            {/* Action Buttons */}
+            <div className="flex flex-wrap gap-3">
+              <Button
+                onClick={handleEncryptFile}
+                disabled={isProcessing}
+                className="bg-cyan-600 hover:bg-cyan-700 text-white"
+              >
+                <Lock className="h-4 w-4 mr-2" />
+                {isProcessing ? "Encrypting..." : "Encrypt File"}
+              </Button>
+              <Button
+                onClick={handleDecryptFile}
+                disabled={isProcessing}
+                variant="outline"
+                className="border-cyan-500 text-cyan-400 hover:bg-cyan-600 hover:text-white"
+              >
+                <Unlock className="h-4 w-4 mr-2" />
+                {isProcessing ? "Decrypting..." : "Decrypt File"}
+              </Button>
+            </div>
 
-        {/* Action Buttons */}
-        <div className="flex flex-wrap gap-3">
-          <Button
-            onClick={handleEncryptFile}
-            disabled={isProcessing}
-            className="bg-cyan-600 hover:bg-cyan-700 text-white"
-          >
-            <Lock className="h-4 w-4 mr-2" />
-            {isProcessing ? "Encrypting..." : "Encrypt File"}
-          </Button>
-          <Button
-            onClick={handleDecryptFile}
-            disabled={isProcessing}
-            variant="outline"
-            className="border-cyan-500 text-cyan-400 hover:bg-cyan-600 hover:text-white"
-          >
-            <Unlock className="h-4 w-4 mr-2" />
-            {isProcessing ? "Decrypting..." : "Decrypt File"}
-          </Button>
-        </div>
+            {/* Progress */}
+            {isProcessing && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-slate-400">
+                    {progress === 0 ? "Deriving key..." : `Processing ${selectedFile?.name}...`}
+                  </span>
+                  <span className="text-cyan-400">{Math.round(progress)}%</span>
+                </div>
+                <Progress value={progress} className="h-2" />
+              </div>
+            )}
+
+            {/* Restored File Details */}
+            {restoredFile && (
+              <Card className="bg-slate-700/50 border border-slate-600">
+                <CardContent className="pt-4">
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Restored Name:</span>
+                      <span className="text-white font-mono">{restoredFile.metadata.name}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Type:</span>
+                      <span className="text-white">{restoredFile.metadata.type || "unknown"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Original Size:</span>
+                      <span className="text-white">{(restoredFile.metadata.size / 1024).toFixed(2)} KB</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Last Modified:</span>
+                      <span className="text-white">{new Date(restoredFile.metadata.lastModified).toLocaleString()}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">SHA-256:</span>
+                      <span className={`font-mono text-sm ${restoredFile.verified ? "text-green-400" : "text-red-400"}`}>
+                        {restoredFile.metadata.sha256.substring(0, 16)}... {restoredFile.verified ? "(verified)" : "(not verified)"}
+                      </span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
 
         {/* Security Notice */}
         <Card className="bg-amber-900/20 border border-amber-600/30">
@@ -267,8 +549,17 @@ const FileEncryption = () => {
               <div>
                 <h4 className="text-amber-400 font-medium">Security Features</h4>
                 <p className="text-amber-200 text-sm mt-1">
-                  Files are encrypted using AES-256-GCM with PBKDF2 key derivation (100,000 iterations). 
-                  Each file uses a unique salt and initialization vector for maximum security.
+                  Files are encrypted using AES-256-GCM with PBKDF2 (600,000 iterations) or memory-hard 
+                  Argon2id key derivation. 
+                  Each file uses a unique salt and initialization vector, and carries an authenticated 
+                  header recording its format version and key derivation settings. Large files are 
+                  streamed in 1 MiB chunks, each sealed separately so truncation or reordering is detected. 
+                  The original filename, type and SHA-256 are stored inside the encrypted envelope and 
+                  checked automatically on decryption. In recipient mode a random content key is wrapped 
+                  separately for each RSA-OAEP, P-256 or X25519 public key, so any one recipient can 
+                  decrypt with their own private key. Folders can be sealed as one archive, or as 
+                  individual files with a manifest of paths and hashes signed with an ECDSA P-256 
+                  or Ed25519 key that any recipient can check.
                 </p>
               </div>
             </div>
@@ -0,0 +1,442 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Copy, Download, KeyRound, Lock, Plus, Trash2, Unlock, Vault } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useKeyVault } from "@/hooks/use-key-vault";
+import {
+  MIN_PASSPHRASE_LENGTH,
+  VaultEntry,
+  VaultEntryKind,
+  createSecretEntry,
+  entryFromIdentity,
+  exportVaultEntry,
+  importVaultEntry,
+  isExpired
+} from "@/utils/keyVault";
+import { KEY_ALGORITHMS, KeyAlgorithm, KeyTextFormat, formatFingerprint, generateKeyPair } from "@/utils/publicKeyCrypto";
+import { downloadBlob, sanitizeFileName } from "@/utils/fileSave";
+
+const KIND_LABELS: Record<VaultEntryKind, string> = {
+  secret: "Secret Key",
+  keypair: "Key Pair",
+  contact: "Contact"
+};
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60];
+
+const KeyVault = () => {
+  const vault = useKeyVault();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [label, setLabel] = useState("");
+  const [expiry, setExpiry] = useState("");
+  const [newKind, setNewKind] = useState("secret");
+  const [algorithm, setAlgorithm] = useState<KeyAlgorithm>("X25519");
+  const [importText, setImportText] = useState("");
+  const [exportFormat, setExportFormat] = useState<KeyTextFormat>("pem");
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  // Expiry is picked as a date and applies at the end of that day
+  const expiresAt = () => (expiry ? new Date(`${expiry}T23:59:59`).getTime() : undefined);
+
+  const resetForm = () => {
+    setLabel("");
+    setExpiry("");
+    setImportText("");
+  };
+
+  const handleCreate = async () => {
+    if (passphrase !== confirmPassphrase) {
+      toast({
+        title: "Error",
+        description: "Passphrases do not match",
+        variant: "destructive"
+      });
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await vault.createVault(passphrase);
+      setPassphrase("");
+      setConfirmPassphrase("");
+      toast({
+        title: "Vault Created",
+        description: "Your key vault is ready and unlocked",
+      });
+    } catch (error) {
+      showError(error, "Failed to create the vault");
+    }
+    setIsBusy(false);
+  };
+
+  const handleUnlock = async () => {
+    setIsBusy(true);
+    try {
+      await vault.unlockVault(passphrase);
+      setPassphrase("");
+    } catch (error) {
+      showError(error, "Failed to unlock the vault");
+    }
+    setIsBusy(false);
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm("Delete the key vault and every key in it? This cannot be undone.")) return;
+    try {
+      await vault.resetVault();
+      toast({
+        title: "Vault Deleted",
+        description: "All stored keys have been removed from this browser",
+      });
+    } catch (error) {
+      showError(error, "Failed to delete the vault");
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsBusy(true);
+    try {
+      const name = label.trim() || (newKind === "secret" ? "Secret key" : `${KEY_ALGORITHMS[algorithm].name} key`);
+      const entry = newKind === "secret"
+        ? await createSecretEntry(name, undefined, expiresAt())
+        : await entryFromIdentity(await generateKeyPair(algorithm, name), expiresAt());
+      await vault.saveVaultEntry(entry);
+      resetForm();
+      toast({
+        title: "Key Added",
+        description: `${entry.label} saved to the vault`,
+      });
+    } catch (error) {
+      showError(error, "Failed to generate key");
+    }
+    setIsBusy(false);
+  };
+
+  const handleImport = async () => {
+    try {
+      const entry = await importVaultEntry(importText, label.trim() || "Imported key", expiresAt());
+      if (vault.entries.some(e => e.fingerprint === entry.fingerprint && e.kind === entry.kind)) {
+        toast({
+          title: "Already Stored",
+          description: "A key with this fingerprint is already in the vault",
+        });
+        return;
+      }
+      await vault.saveVaultEntry(entry);
+      resetForm();
+      toast({
+        title: "Key Imported",
+        description: `${entry.label} saved as ${KIND_LABELS[entry.kind].toLowerCase()}`,
+      });
+    } catch (error) {
+      showError(error, "Failed to import key");
+    }
+  };
+
+  const handleExport = async (entry: VaultEntry, includePrivate: boolean) => {
+    try {
+      const format = entry.kind === "secret" ? "jwk" : exportFormat;
+      const text = await exportVaultEntry(entry, format, includePrivate);
+      const suffix = entry.kind === "secret" ? "secret" : includePrivate ? "private" : "public";
+      downloadBlob(
+        new Blob([text], { type: format === "pem" ? "application/x-pem-file" : "application/json" }),
+        sanitizeFileName(`${entry.label}.${suffix}.${format}`, `key.${suffix}.${format}`)
+      );
+    } catch (error) {
+      showError(error, "Failed to export key");
+    }
+  };
+
+  const copySecret = (entry: VaultEntry) => {
+    navigator.clipboard.writeText(entry.secret ?? "");
+    toast({
+      title: "Copied",
+      description: "Secret copied to clipboard",
+    });
+  };
+
+  const handleDelete = async (entry: VaultEntry) => {
+    if (!window.confirm(`Delete "${entry.label}" from the vault?`)) return;
+    try {
+      await vault.removeVaultEntry(entry.id);
+    } catch (error) {
+      showError(error, "Failed to delete key");
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Vault className="h-5 w-5 text-cyan-400" />
+          Key Vault
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          Keep secret keys, your key pairs and contacts' public keys in an encrypted keyring in this browser
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {vault.status === "loading" && (
+          <div className="text-slate-400">Opening vault...</div>
+        )}
+
+        {/* Create */}
+        {vault.status === "empty" && (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="vault-passphrase" className="text-white mb-2 block">
+                Master Passphrase
+              </Label>
+              <Input
+                id="vault-passphrase"
+                type="password"
+                placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <div>
+              <Label htmlFor="vault-confirm" className="text-white mb-2 block">
+                Confirm Passphrase
+              </Label>
+              <Input
+                id="vault-confirm"
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={isBusy} className="bg-cyan-600 hover:bg-cyan-700 text-white">
+              <Vault className="h-4 w-4 mr-2" />
+              {isBusy ? "Creating..." : "Create Vault"}
+            </Button>
+          </div>
+        )}
+
+        {/* Unlock */}
+        {vault.status === "locked" && (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="vault-unlock" className="text-white mb-2 block">
+                Master Passphrase
+              </Label>
+              <Input
+                id="vault-unlock"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleUnlock()}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <div className="flex flex-wrap gap-3">
+              <Button onClick={handleUnlock} disabled={isBusy || !passphrase} className="bg-cyan-600 hover:bg-cyan-700 text-white">
+                <Unlock className="h-4 w-4 mr-2" />
+                {isBusy ? "Unlocking..." : "Unlock"}
+              </Button>
+              <Button onClick={handleReset} variant="outline" className="border-red-600 text-red-400 hover:bg-red-900/30">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Vault
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {vault.status === "unlocked" && (
+          <>
+            {/* Session */}
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <Label htmlFor="auto-lock" className="text-slate-400">Auto-lock after</Label>
+                <Select
+                  value={String(vault.autoLockMinutes)}
+                  onValueChange={(value) => vault.setAutoLockMinutes(Number(value)).catch((error) => showError(error, "Failed to save setting"))}
+                >
+                  <SelectTrigger id="auto-lock" className="w-32 bg-slate-700 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-700 border-slate-600">
+                    {AUTO_LOCK_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>{minutes} min idle</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={vault.lockVault} variant="outline" className="border-cyan-500 text-cyan-400 hover:bg-cyan-600 hover:text-white">
+                <Lock className="h-4 w-4 mr-2" />
+                Lock Now
+              </Button>
+            </div>
+
+            {/* Add Keys */}
+            <Card className="bg-slate-700/50 border border-slate-600">
+              <CardContent className="pt-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="entry-label" className="text-white mb-2 block">Label</Label>
+                    <Input
+                      id="entry-label"
+                      placeholder="e.g. Case 2291 evidence key"
+                      value={label}
+                      onChange={(e) => setLabel(e.target.value)}
+                      className="bg-slate-700 border-slate-600 text-white"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="entry-expiry" className="text-white mb-2 block">Expires (optional)</Label>
+                    <Input
+                      id="entry-expiry"
+                      type="date"
+                      value={expiry}
+                      onChange={(e) => setExpiry(e.target.value)}
+                      className="bg-slate-700 border-slate-600 text-white"
+                    />
+                  </div>
+                </div>
+
+                <Tabs defaultValue="generate" className="w-full">
+                  <TabsList className="bg-slate-700">
+                    <TabsTrigger value="generate">Generate</TabsTrigger>
+                    <TabsTrigger value="import">Import</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="generate" className="space-y-3 mt-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <Select value={newKind} onValueChange={setNewKind}>
+                        <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-700 border-slate-600">
+                          <SelectItem value="secret">Secret key (256-bit)</SelectItem>
+                          <SelectItem value="keypair">Key pair</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {newKind === "keypair" && (
+                        <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as KeyAlgorithm)}>
+                          <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-slate-700 border-slate-600">
+                            {Object.entries(KEY_ALGORITHMS).map(([id, info]) => (
+                              <SelectItem key={id} value={id}>{info.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                    <Button onClick={handleGenerate} disabled={isBusy} className="bg-cyan-600 hover:bg-cyan-700 text-white">
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      {isBusy ? "Generating..." : "Generate & Save"}
+                    </Button>
+                  </TabsContent>
+
+                  <TabsContent value="import" className="space-y-3 mt-4">
+                    <Textarea
+                      placeholder="Paste a PEM public/private key or a JWK (including symmetric oct keys)"
+                      value={importText}
+                      onChange={(e) => setImportText(e.target.value)}
+                      className="bg-slate-700 border-slate-600 text-white h-28 font-mono text-xs"
+                    />
+                    <Button onClick={handleImport} disabled={!importText.trim()} className="bg-cyan-600 hover:bg-cyan-700 text-white">
+                      <Plus className="h-4 w-4 mr-2" />
+                      Import & Save
+                    </Button>
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+
+            {/* Stored Keys */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-white font-medium">Stored Keys ({vault.entries.length})</h3>
+                <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as KeyTextFormat)}>
+                  <SelectTrigger className="w-36 bg-slate-700 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-700 border-slate-600">
+                    <SelectItem value="pem">Export as PEM</SelectItem>
+                    <SelectItem value="jwk">Export as JWK</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {vault.entries.length === 0 && (
+                <div className="text-sm text-slate-400">The vault is empty.</div>
+              )}
+
+              {vault.entries.map((entry) => (
+                <div key={entry.id} className="p-3 rounded bg-slate-700/50 border border-slate-600 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-white font-medium">{entry.label}</span>
+                      <Badge variant="outline" className="text-xs">{KIND_LABELS[entry.kind]}</Badge>
+                      {entry.algorithm && (
+                        <Badge variant="outline" className="text-xs">{KEY_ALGORITHMS[entry.algorithm].name}</Badge>
+                      )}
+                      {isExpired(entry) && (
+                        <Badge className="bg-red-600 text-white text-xs">Expired</Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {entry.kind === "secret" ? (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => copySecret(entry)} className="border-slate-600 text-slate-200">
+                            <Copy className="h-4 w-4 mr-2" />
+                            Copy
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleExport(entry, false)} className="border-slate-600 text-slate-200">
+                            <Download className="h-4 w-4 mr-2" />
+                            JWK
+                          </Button>
+                        </>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => handleExport(entry, false)} className="border-slate-600 text-slate-200">
+                          <Download className="h-4 w-4 mr-2" />
+                          Public
+                        </Button>
+                      )}
+                      {entry.kind === "keypair" && (
+                        <Button size="sm" variant="outline" onClick={() => handleExport(entry, true)} className="border-amber-600 text-amber-400">
+                          <Download className="h-4 w-4 mr-2" />
+                          Private
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(entry)} className="text-slate-400 hover:text-red-400">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-400">
+                    <span>Fingerprint: <span className="font-mono text-green-400">{formatFingerprint(entry.fingerprint)}</span></span>
+                    <span>Created: {new Date(entry.createdAt).toLocaleDateString()}</span>
+                    {entry.expiresAt && <span>Expires: {new Date(entry.expiresAt).toLocaleDateString()}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default KeyVault;
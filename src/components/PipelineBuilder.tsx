@@ -0,0 +1,413 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Workflow, Wand2, Plus, Trash2, ArrowUp, ArrowDown, Save, Download, Upload, Copy } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { downloadBlob, sanitizeFileName } from "@/utils/fileSave";
+import { bytesToHex } from "@/utils/encodings";
+import { encodeText } from "@/utils/textCodec";
+import {
+  MagicResult,
+  OperationCategory,
+  PIPELINE_OPERATIONS,
+  Recipe,
+  RecipeStep,
+  StepResult,
+  bytesToText,
+  createStep,
+  deleteSavedRecipe,
+  getOperation,
+  magic,
+  parseRecipe,
+  readSavedRecipes,
+  runRecipe,
+  saveRecipe,
+  serializeRecipe
+} from "@/utils/pipeline";
+
+const CATEGORIES: OperationCategory[] = ["Encoding", "Compression", "Bytes", "Hashing", "Ciphers"];
+const PREVIEW_BYTES = 2048;
+
+// Text when the bytes are UTF-8 without control characters, otherwise hex
+const formatOutput = (bytes: Uint8Array) => {
+  const text = bytesToText(bytes);
+  const isControl = (code: number) => (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) || code === 0x7f;
+  if (text !== null && !Array.from(text).some((char) => isControl(char.codePointAt(0)))) {
+    return { binary: false, display: text };
+  }
+  const hex = bytesToHex(bytes.subarray(0, PREVIEW_BYTES), " ");
+  return { binary: true, display: bytes.length > PREVIEW_BYTES ? hex + " ..." : hex };
+};
+
+const describeSteps = (steps: RecipeStep[]) =>
+  steps.map((step) => getOperation(step.op)?.name ?? step.op).join(" → ");
+
+const PipelineBuilder = () => {
+  const [input, setInput] = useState("");
+  const [steps, setSteps] = useState<RecipeStep[]>([]);
+  const [results, setResults] = useState<StepResult[]>([]);
+  const [recipeName, setRecipeName] = useState("");
+  const [savedRecipes, setSavedRecipes] = useState<Recipe[]>(readSavedRecipes);
+  const [recipeJson, setRecipeJson] = useState("");
+  const [showImport, setShowImport] = useState(false);
+  const [magicResults, setMagicResults] = useState<MagicResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const runId = useRef(0);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Re-run the whole recipe a moment after the input or a step stops
+  // changing; a newer run makes the results of any slower earlier run stale
+  useEffect(() => {
+    const id = ++runId.current;
+    const timer = setTimeout(() => {
+      runRecipe(steps, encodeText(input)).then((stepResults) => {
+        if (id === runId.current) setResults(stepResults);
+      });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [input, steps]);
+
+  const addStep = (op: string) => setSteps((current) => [...current, createStep(op)]);
+
+  const updateArg = (index: number, name: string, value: string) =>
+    setSteps((current) => current.map((step, i) => (i === index ? { ...step, args: { ...step.args, [name]: value } } : step)));
+
+  const moveStep = (index: number, offset: number) =>
+    setSteps((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const removeStep = (index: number) => setSteps((current) => current.filter((_, i) => i !== index));
+
+  const showError = (description: string) => toast({ title: "Error", description, variant: "destructive" });
+
+  const loadRecipe = (recipe: Recipe) => {
+    setSteps(recipe.steps);
+    setRecipeName(recipe.name);
+    setMagicResults(null);
+  };
+
+  const handleSave = () => {
+    const name = recipeName.trim();
+    if (!name || steps.length === 0) {
+      showError("Add some steps and give the recipe a name first");
+      return;
+    }
+    try {
+      setSavedRecipes(saveRecipe(name, steps));
+      toast({ title: "Recipe Saved", description: `"${name}" is saved in this browser` });
+    } catch {
+      showError("Could not save - browser storage is full or disabled");
+    }
+  };
+
+  const handleDelete = (name: string) => {
+    setSavedRecipes(deleteSavedRecipe(name));
+  };
+
+  const copyRecipe = () => {
+    navigator.clipboard.writeText(serializeRecipe(recipeName.trim() || "Untitled recipe", steps));
+    toast({ title: "Copied!", description: "Recipe JSON copied to clipboard" });
+  };
+
+  const exportRecipe = () => {
+    const name = recipeName.trim() || "recipe";
+    const blob = new Blob([serializeRecipe(name, steps)], { type: "application/json" });
+    downloadBlob(blob, sanitizeFileName(name, "recipe") + ".json");
+  };
+
+  const importRecipe = (json: string) => {
+    try {
+      loadRecipe(parseRecipe(json));
+      setShowImport(false);
+      setRecipeJson("");
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Invalid recipe");
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) importRecipe(await file.text());
+  };
+
+  const runMagic = async () => {
+    setIsSearching(true);
+    try {
+      setMagicResults(await magic(encodeText(input)));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const failed = results.find((result) => result.error);
+  const lastOutput = results.length > 0 && !failed ? results[results.length - 1].output : undefined;
+
+  return (
+    <Card className="bg-slate-800/50 border border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Workflow className="h-5 w-5 text-cyan-400" />
+          Encoding Pipeline
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          Chain encodings, compression, XOR, hashes and ciphers into a recipe, or let Magic find the decoding
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <Label htmlFor="pipeline-input" className="text-white mb-2 block">
+            Input
+          </Label>
+          <Textarea
+            id="pipeline-input"
+            placeholder="Enter text to transform or decode..."
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="bg-slate-700 border-slate-600 text-white h-28 font-mono"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <Select value="" onValueChange={addStep}>
+            <SelectTrigger className="w-56 bg-slate-700 border-slate-600 text-white">
+              <Plus className="h-4 w-4 mr-2" />
+              <SelectValue placeholder="Add operation" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-700 border-slate-600">
+              {CATEGORIES.map((category) => (
+                <SelectGroup key={category}>
+                  <SelectLabel>{category}</SelectLabel>
+                  {PIPELINE_OPERATIONS.filter((op) => op.category === category).map((op) => (
+                    <SelectItem key={op.id} value={op.id}>{op.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={runMagic}
+            disabled={!input.trim() || isSearching}
+            variant="outline"
+            className="border-amber-500 text-amber-400 hover:bg-amber-600 hover:text-white"
+          >
+            <Wand2 className="h-4 w-4 mr-2" />
+            {isSearching ? "Searching..." : "Magic"}
+          </Button>
+          {steps.length > 0 && (
+            <Button onClick={() => setSteps([])} variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Clear Recipe
+            </Button>
+          )}
+        </div>
+
+        {/* Magic suggestions */}
+        {magicResults && (
+          <Card className="bg-slate-700/50 border border-slate-600">
+            <CardContent className="pt-4 space-y-2">
+              <div className="text-white text-sm font-medium">Magic</div>
+              {magicResults.length === 0 ? (
+                <div className="text-sm text-slate-400">No decoding found that reads better than the input.</div>
+              ) : (
+                magicResults.map((result, index) => (
+                  <div key={index} className="flex items-start justify-between gap-3 p-2 rounded bg-slate-800/60">
+                    <div className="min-w-0">
+                      <div className="text-xs text-cyan-400">{describeSteps(result.steps)}</div>
+                      <div className="text-green-400 font-mono text-sm break-all line-clamp-2">
+                        {formatOutput(result.output).display}
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => loadRecipe({ format: "securex-recipe", version: 1, name: "Magic", steps: result.steps })}
+                      className="text-slate-300 shrink-0"
+                    >
+                      Use
+                    </Button>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Recipe steps with their intermediate output */}
+        {steps.length > 0 && (
+          <div className="space-y-3">
+            {steps.map((step, index) => {
+              const op = getOperation(step.op);
+              const result = results[index];
+              const output = result?.output ? formatOutput(result.output) : null;
+              return (
+                <Card key={index} className="bg-slate-700/50 border border-slate-600">
+                  <CardContent className="pt-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-slate-300">{index + 1}</Badge>
+                        <span className="text-white font-medium">{op?.name ?? step.op}</span>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => moveStep(index, -1)} disabled={index === 0} className="text-slate-300">
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} className="text-slate-300">
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => removeStep(index)} className="text-red-400">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {op && op.args.length > 0 && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {op.args.map((arg) => (
+                          <div key={arg.name}>
+                            <Label className="text-slate-300 text-xs mb-1 block">{arg.label}</Label>
+                            {arg.options ? (
+                              // Radix Select does not allow an empty value, so "" is stored as "none"
+                              <Select
+                                value={step.args[arg.name] === "" ? "none" : step.args[arg.name] ?? arg.default}
+                                onValueChange={(value) => updateArg(index, arg.name, value === "none" ? "" : value)}
+                              >
+                                <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-slate-700 border-slate-600">
+                                  {arg.options.map(([value, label]) => (
+                                    <SelectItem key={value} value={value === "" ? "none" : value}>{label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Input
+                                type={arg.name === "password" ? "password" : "text"}
+                                placeholder={arg.placeholder}
+                                value={step.args[arg.name] ?? arg.default}
+                                onChange={(e) => updateArg(index, arg.name, e.target.value)}
+                                className="bg-slate-700 border-slate-600 text-white"
+                              />
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {result?.error && <div className="text-sm text-red-400">{result.error}</div>}
+                    {output && (
+                      <div>
+                        <div className="text-xs text-slate-400 mb-1">
+                          {result.output.length} bytes{output.binary ? " (binary, shown as hex)" : ""}
+                        </div>
+                        <div className="bg-slate-800/60 rounded p-2 font-mono text-xs text-green-400 break-all whitespace-pre-wrap max-h-32 overflow-y-auto">
+                          {output.display}
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {lastOutput && (
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={() => {
+                navigator.clipboard.writeText(formatOutput(lastOutput).display);
+                toast({ title: "Copied!", description: "Output copied to clipboard" });
+              }}
+              className="bg-slate-600 hover:bg-slate-500"
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Copy Output
+            </Button>
+          </div>
+        )}
+
+        {/* Saving and sharing recipes */}
+        <div className="space-y-3">
+          <Label htmlFor="recipe-name" className="text-white block">
+            Recipe
+          </Label>
+          <div className="flex flex-wrap gap-3">
+            <Input
+              id="recipe-name"
+              placeholder="Recipe name"
+              value={recipeName}
+              onChange={(e) => setRecipeName(e.target.value)}
+              className="w-56 bg-slate-700 border-slate-600 text-white"
+            />
+            <Button onClick={handleSave} disabled={steps.length === 0} variant="outline" className="border-cyan-500 text-cyan-400 hover:bg-cyan-600 hover:text-white">
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+            <Button onClick={copyRecipe} disabled={steps.length === 0} variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700">
+              <Copy className="h-4 w-4 mr-2" />
+              Copy JSON
+            </Button>
+            <Button onClick={exportRecipe} disabled={steps.length === 0} variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700">
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <Button onClick={() => setShowImport(!showImport)} variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700">
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          </div>
+
+          {showImport && (
+            <div className="space-y-2">
+              <Textarea
+                placeholder='Paste a recipe, e.g. {"format": "securex-recipe", "version": 1, ...}'
+                value={recipeJson}
+                onChange={(e) => setRecipeJson(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white h-24 font-mono text-xs"
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => importRecipe(recipeJson)} disabled={!recipeJson.trim()} className="bg-cyan-600 hover:bg-cyan-700">
+                  Load Recipe
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => importInputRef.current?.click()} className="border-slate-600 text-slate-300 hover:bg-slate-700">
+                  From File...
+                </Button>
+                <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImportFile} className="hidden" />
+              </div>
+            </div>
+          )}
+
+          {savedRecipes.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {savedRecipes.map((recipe) => (
+                <div key={recipe.name} className="flex items-center gap-1 rounded bg-slate-700/50 border border-slate-600 pl-3">
+                  <button onClick={() => loadRecipe(recipe)} className="text-sm text-slate-200 hover:text-white" title={describeSteps(recipe.steps)}>
+                    {recipe.name}
+                  </button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(recipe.name)} className="text-slate-400 hover:text-red-400">
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PipelineBuilder;
@@ -21,6 +21,8 @@ import {
   RefreshCw,
   ExternalLink
 } from "lucide-react";
+import { IntegrityRecord, readIntegrityLog } from "@/utils/integrityLog";
+import { SIGNATURE_ALGORITHMS } from "@/utils/fileSignature";
 
 interface ReportData {
   id: string;
@@ -35,6 +37,51 @@ interface ReportData {
   details: any;
 }
 
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+// Table of recorded hash / signature results, shared by both HTML reports
+const integrityTable = (records: IntegrityRecord[]) => {
+  if (records.length === 0) {
+    return `<p>No files have been hashed, signed or verified yet.</p>`;
+  }
+  const rows = records.map((record) => {
+    const result = record.action === "verify"
+      ? `<span class="${record.valid ? "integrity-valid" : "integrity-invalid"}">${record.valid ? "Valid" : "Invalid"}</span>${record.detail ? `<br><small>${escapeHtml(record.detail)}</small>` : ""}`
+      : record.action === "sign" ? "Signed" : "Hashed";
+    const key = record.algorithm
+      ? `${SIGNATURE_ALGORITHMS[record.algorithm]?.name ?? escapeHtml(record.algorithm)}<br><code>${escapeHtml(record.keyFingerprint ?? "")}</code>`
+      : "-";
+    const hashes = Object.entries(record.hashes)
+      .map(([algorithm, hex]) => `${algorithm}: <code>${escapeHtml(hex ?? "")}</code>`)
+      .join("<br>");
+    return `
+                <tr>
+                    <td>${new Date(record.timestamp).toLocaleString()}</td>
+                    <td>${escapeHtml(record.fileName)}<br><small>${record.size.toLocaleString()} bytes</small></td>
+                    <td>${result}</td>
+                    <td>${key}</td>
+                    <td class="integrity-hashes">${hashes}</td>
+                </tr>`;
+  }).join("");
+  return `
+            <table class="integrity-table">
+                <thead>
+                    <tr><th>Time</th><th>File</th><th>Result</th><th>Signature Key</th><th>Hashes</th></tr>
+                </thead>
+                <tbody>${rows}
+                </tbody>
+            </table>`;
+};
+
+const INTEGRITY_TABLE_STYLES = `
+        .integrity-table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+        .integrity-table th, .integrity-table td { border: 1px solid #e2e8f0; padding: 8px; text-align: left; vertical-align: top; }
+        .integrity-table th { background: #f1f5f9; }
+        .integrity-table code { word-break: break-all; font-size: 0.75rem; }
+        .integrity-hashes { max-width: 420px; }
+        .integrity-valid { color: #16a34a; font-weight: bold; }
+        .integrity-invalid { color: #dc2626; font-weight: bold; }`;
+
 const ReportGenerator = () => {
   const [reports, setReports] = useState<ReportData[]>([
     {
@@ -72,6 +119,7 @@ const ReportGenerator = () => {
   const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300', '#dc2626'];
 
   const generateComprehensiveReport = () => {
+    const integrityRecords = readIntegrityLog();
     // Generate professional PDF-style HTML report
     const htmlContent = `
 <!DOCTYPE html>
@@ -248,6 +296,7 @@ const ReportGenerator = () => {
         }
         .footer-logo { font-size: 1.5rem; font-weight: bold; margin-bottom: 20px; }
         .footer-text { opacity: 0.8; margin: 10px 0; }
+${INTEGRITY_TABLE_STYLES}
         
         /* Print Styles */
         @media print {
@@ -485,6 +534,15 @@ const ReportGenerator = () => {
             </div>
         </div>
 
+        <!-- File Integrity -->
+        <div class="report-section">
+            <h2 class="section-title">
+                <span class="section-icon">✍️</span>
+                File Integrity & Signatures
+            </h2>
+            ${integrityTable(integrityRecords)}
+        </div>
+
         <!-- Report Footer -->
         <div class="report-footer">
             <div class="footer-logo">🔒 SecureX Professional Security Suite</div>
@@ -610,6 +668,7 @@ const ReportGenerator = () => {
   };
 
   const generateVisualReport = () => {
+    const integrityRecords = readIntegrityLog();
     // Create HTML content with embedded charts and professional styling
     const htmlContent = `
 <!DOCTYPE html>
@@ -639,6 +698,7 @@ const ReportGenerator = () => {
         .footer { text-align: center; color: #64748b; margin-top: 40px; padding: 20px; }
         ul { padding-left: 20px; }
         li { margin: 8px 0; }
+${INTEGRITY_TABLE_STYLES}
     </style>
 </head>
 <body>
@@ -777,6 +837,11 @@ const ReportGenerator = () => {
         </ul>
     </div>
 
+    <div class="section">
+        <h2>✍️ File Integrity & Signatures</h2>
+        ${integrityTable(integrityRecords)}
+    </div>
+
     <div class="footer">
         <p><strong>SecureX Security Suite v1.0</strong></p>
         <p>This report contains sensitive security information. Handle with appropriate confidentiality.</p>
@@ -879,7 +944,8 @@ const ReportGenerator = () => {
         encryption_logs: [],
         vulnerability_scans: [],
         port_scans: [],
-        steganography_logs: []
+        steganography_logs: [],
+        integrity_checks: readIntegrityLog()
       }
     };
     
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/hooks/use-toast";
+import { ListChecks } from "lucide-react";
+import { ScanAgentClient } from "@/utils/scanAgentClient";
+import { CheckInfo } from "@/utils/scanAgentProtocol";
+
+interface ScanChecksProps {
+  agent: () => ScanAgentClient;
+  /** False while the agent cannot be reached */
+  available: boolean;
+  /** Checks cannot change while a scan is running */
+  disabled: boolean;
+}
+
+const severityOrder = ["critical", "high", "medium", "low"];
+
+const ScanChecks = ({ agent, available, disabled }: ScanChecksProps) => {
+  const [checks, setChecks] = useState<CheckInfo[]>([]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  useEffect(() => {
+    if (!available) return;
+    agent().listChecks().then(setChecks).catch(() => setChecks([]));
+  }, [agent, available]);
+
+  const toggleCheck = async (id: string, enabled: boolean) => {
+    try {
+      const updated = await agent().setCheckEnabled(id, enabled);
+      setChecks((current) => current.map((check) => (check.id === id ? updated : check)));
+    } catch (error) {
+      showError(error, "Could not change the check");
+    }
+  };
+
+  const importPack = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const pack = await agent().importCheckPack({ fileName: file.name, content: await file.text() });
+      setChecks(await agent().listChecks());
+      toast({
+        title: "Check Pack Imported",
+        description: `${pack.name}: ${pack.checks.length} checks`,
+      });
+    } catch (error) {
+      showError(error, "Could not import the check pack");
+    }
+  };
+
+  if (!available) return null;
+
+  const sorted = [...checks].sort((a, b) =>
+    severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity) || a.name.localeCompare(b.name)
+  );
+  const enabledCount = checks.filter((check) => check.enabled).length;
+
+  return (
+    <Card className="bg-slate-800/50 border border-slate-700">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5 text-cyan-400" />
+          <CardTitle className="text-white">Checks</CardTitle>
+        </div>
+        <CardDescription className="text-slate-400">
+          {enabledCount} of {checks.length} checks run on each scan. Import a JSON or YAML check pack to add your own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="check-pack" className="text-white mb-2 block">
+            Import Check Pack
+          </Label>
+          <Input
+            id="check-pack"
+            type="file"
+            accept=".json,.yaml,.yml"
+            onChange={importPack}
+            disabled={disabled}
+            className="bg-slate-700 border-slate-600 text-white file:bg-cyan-600 file:text-white file:border-0 file:rounded-md file:px-3 file:py-1"
+          />
+        </div>
+
+        <div className="space-y-2">
+          {sorted.map((check) => (
+            <div
+              key={check.id}
+              className="flex items-center justify-between gap-4 p-3 rounded-lg bg-slate-700/50 border border-slate-600"
+            >
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-white">{check.name}</span>
+                  <Badge variant="outline" className="text-xs capitalize text-slate-300">{check.severity}</Badge>
+                  <Badge variant="outline" className="text-xs text-slate-400">{check.source}</Badge>
+                </div>
+                <p className="text-xs text-slate-400 truncate" title={check.description}>
+                  {check.service}
+                  {check.ports.length > 0 && ` · ports ${check.ports.join(", ")}`} · {check.description}
+                </p>
+              </div>
+              <Switch
+                checked={check.enabled}
+                onCheckedChange={(enabled) => toggleCheck(check.id, enabled)}
+                disabled={disabled}
+                aria-label={`Run ${check.name}`}
+              />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScanChecks;
@@ -0,0 +1,319 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScanEye, Layers, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { loadImagePixels } from "@/utils/steganography";
+import { loadWav } from "@/utils/audioSteganography";
+import { RgbaImage } from "@/utils/pngCodec";
+import {
+  ANALYSIS_CHANNEL_NAMES,
+  AnalysisChannel,
+  AnalyzedMedia,
+  ChiSquarePoint,
+  SteganalysisReport,
+  channelName
+} from "@/utils/steganalysis";
+import { SteganalysisWorker } from "@/utils/steganalysisClient";
+
+interface AnalyzedFile {
+  file: File;
+  report?: SteganalysisReport;
+  error?: string;
+}
+
+const verdict = (probability: number) =>
+  probability >= 0.8
+    ? { label: "Likely hidden data", className: "bg-red-600/80" }
+    : probability >= 0.4
+      ? { label: "Suspicious", className: "bg-yellow-600/80" }
+      : { label: "No LSB signs", className: "bg-green-700/80" };
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const isAudioFile = (file: File) => file.type.startsWith("audio/") || /\.wav$/i.test(file.name);
+
+const describeMedia = (media: AnalyzedMedia) =>
+  media.kind === "image"
+    ? `${media.width}×${media.height}`
+    : `${media.channels === 1 ? "Mono" : `${media.channels} channels`}, ${(media.frames / media.sampleRate).toFixed(1)} s`;
+
+const ChiSquareChart = ({ points }: { points: ChiSquarePoint[] }) => {
+  const line = points.map((p) => `${p.fraction * 100},${(1 - p.probability) * 40}`).join(" ");
+  return (
+    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-20 bg-slate-800/60 rounded">
+      <line x1="0" y1="20" x2="100" y2="20" stroke="#475569" strokeWidth="0.3" strokeDasharray="1 1" />
+      <polyline points={line} fill="none" stroke="#22d3ee" strokeWidth="0.8" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const Steganalysis = () => {
+  const [images, setImages] = useState<AnalyzedFile[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [planeChannel, setPlaneChannel] = useState<AnalysisChannel>(0);
+  const [planeBit, setPlaneBit] = useState(0);
+  const [planePixels, setPlanePixels] = useState<RgbaImage | null>(null);
+  const [planeUrl, setPlaneUrl] = useState("");
+  const workerRef = useRef<SteganalysisWorker | null>(null);
+  const cancelRequested = useRef(false);
+
+  const worker = () => (workerRef.current ??= new SteganalysisWorker());
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const current = images[selected];
+  const isImage = current?.report?.media.kind === "image";
+
+  // Decode the selected image once for the bit plane view
+  useEffect(() => {
+    setPlanePixels(null);
+    if (!isImage) return;
+    let cancelled = false;
+    loadImagePixels(current.file).then((pixels) => {
+      if (!cancelled) setPlanePixels(pixels);
+    }).catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [current, isImage]);
+
+  useEffect(() => {
+    if (!planePixels) {
+      setPlaneUrl("");
+      return;
+    }
+    let url = "";
+    let cancelled = false;
+    worker().bitPlane(planePixels, planeChannel, planeBit).then((blob) => {
+      if (cancelled) return;
+      url = URL.createObjectURL(blob);
+      setPlaneUrl(url);
+    }).catch(() => undefined);
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [planePixels, planeChannel, planeBit]);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []).filter((file) => file.type.startsWith("image/") || isAudioFile(file));
+    event.target.value = "";
+    if (files.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please select one or more image or WAV files",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setImages(files.map((file) => ({ file })));
+    setSelected(0);
+    setIsAnalyzing(true);
+    setProgress(0);
+    cancelRequested.current = false;
+
+    for (let i = 0; i < files.length && !cancelRequested.current; i++) {
+      let entry: AnalyzedFile;
+      const onProgress = (fraction: number) => setProgress(((i + fraction) / files.length) * 100);
+      try {
+        const report = isAudioFile(files[i])
+          ? await worker().analyzeAudio(await loadWav(files[i]), onProgress)
+          : await worker().analyze(await loadImagePixels(files[i]), onProgress);
+        entry = { file: files[i], report };
+      } catch (error) {
+        entry = { file: files[i], error: error instanceof Error ? error.message : "Analysis failed" };
+      }
+      setImages((current) => current.map((item, index) => (index === i ? entry : item)));
+      setProgress(((i + 1) / files.length) * 100);
+    }
+    setIsAnalyzing(false);
+  };
+
+  const cancel = () => {
+    cancelRequested.current = true;
+    workerRef.current?.terminate();
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <ScanEye className="h-5 w-5 text-cyan-400" />
+          Steganalysis
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          Detect LSB-embedded data in images and WAV audio from any tool with chi-square, RS and sample pair analysis
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Image Selection */}
+        <div>
+          <Label htmlFor="analysis-images" className="text-white mb-2 block">
+            Images or WAV Files to Analyze
+          </Label>
+          <Input
+            id="analysis-images"
+            type="file"
+            accept="image/*,.wav,audio/wav,audio/x-wav,audio/wave"
+            multiple
+            onChange={handleFiles}
+            disabled={isAnalyzing}
+            className="bg-slate-700 border-slate-600 text-white file:bg-cyan-600 file:text-white file:border-0 file:rounded-md file:px-3 file:py-1"
+          />
+          <div className="text-xs text-slate-400 mt-1">
+            Use the original files: resizing, re-saving as JPEG or converting audio to MP3 destroys the traces these tests look for
+          </div>
+        </div>
+
+        {isAnalyzing && (
+          <div className="flex items-center gap-3">
+            <Progress value={progress} className="h-2 flex-1" />
+            <Button size="sm" variant="ghost" onClick={cancel} className="text-slate-400">
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {/* Results */}
+        {images.length > 0 && (
+          <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+            {images.map((item, index) => {
+              const tone = item.report && verdict(item.report.probability);
+              return (
+                <button
+                  key={`${item.file.name}-${index}`}
+                  type="button"
+                  onClick={() => setSelected(index)}
+                  className={`w-full text-left p-2 rounded bg-slate-700/50 border ${index === selected ? "border-cyan-500" : "border-slate-600"}`}
+                >
+                  <div className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-white font-mono truncate">{item.file.name}</span>
+                    {item.report ? (
+                      <span className={`shrink-0 text-xs text-white px-2 py-1 rounded ${tone.className}`}>
+                        {tone.label} · {formatPercent(item.report.probability)}
+                      </span>
+                    ) : (
+                      <span className={`shrink-0 text-xs ${item.error ? "text-red-400" : "text-slate-400"}`}>
+                        {item.error ?? (isAnalyzing ? "Waiting..." : "Not analyzed")}
+                      </span>
+                    )}
+                  </div>
+                  {item.report && (
+                    <div className="text-xs text-slate-400 mt-1">
+                      {describeMedia(item.report.media)} · Estimated payload: {item.report.estimatedPayloadBytes > 0
+                        ? `${(item.report.estimatedPayloadBytes / 1024).toFixed(2)} KB (${formatPercent(item.report.embeddingRate)} of LSBs)`
+                        : "none"}
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Details */}
+        {current?.report && (
+          <Card className="bg-slate-700/50 border border-slate-600">
+            <CardContent className="pt-4 space-y-4">
+              <div>
+                <Label className="text-white mb-2 block">Detector Estimates (embedding rate)</Label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {current.report.channels.map((channel) => (
+                    <div key={channel.channel} className="p-2 rounded bg-slate-800/60 text-sm">
+                      <div className="text-white font-medium">{channelName(current.report.media, channel.channel)}</div>
+                      <div className="text-slate-400">RS analysis: <span className="text-cyan-400">{formatPercent(channel.rs)}</span></div>
+                      <div className="text-slate-400">Sample pairs: <span className="text-cyan-400">{formatPercent(channel.spa)}</span></div>
+                    </div>
+                  ))}
+                </div>
+                {!isImage && (
+                  <div className="text-xs text-slate-400 mt-1">
+                    Loud or noisy recordings can make untouched audio look embedded; compare with a clean recording from the same source
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <Label className="text-white mb-2 block">Chi-Square Attack</Label>
+                {current.report.chiSquare.length > 0 ? (
+                  <>
+                    <ChiSquareChart points={current.report.chiSquare} />
+                    <div className="text-xs text-slate-400 mt-1">
+                      {isImage
+                        ? "Probability of embedding across the image, top to bottom."
+                        : "Probability of embedding across the audio, start to end."}{" "}
+                      {current.report.chiSquareFraction > 0
+                        ? `Sequential embedding detected in the first ${formatPercent(current.report.chiSquareFraction)} of the ${isImage ? "image" : "audio"}.`
+                        : "No sequential embedding pattern."}
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-xs text-slate-400">
+                    {isImage ? "The image is too small" : "The audio is too short"} for the chi-square attack
+                  </div>
+                )}
+              </div>
+
+              {/* Bit Plane Slicer */}
+              {isImage && (
+                <div>
+                  <Label className="text-white mb-2 flex items-center gap-2">
+                    <Layers className="h-4 w-4 text-cyan-400" />
+                    Bit Plane Slicer
+                  </Label>
+                  <div className="grid grid-cols-2 gap-3 mb-3">
+                    <Select value={String(planeChannel)} onValueChange={(value) => setPlaneChannel(Number(value) as AnalysisChannel)}>
+                      <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-700 border-slate-600">
+                        {ANALYSIS_CHANNEL_NAMES.map((name, channel) => (
+                          <SelectItem key={name} value={String(channel)}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={String(planeBit)} onValueChange={(value) => setPlaneBit(Number(value))}>
+                      <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-700 border-slate-600">
+                        {Array.from({ length: 8 }, (_, bit) => (
+                          <SelectItem key={bit} value={String(bit)}>
+                            Bit {bit}{bit === 0 ? " (LSB)" : bit === 7 ? " (MSB)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {planeUrl ? (
+                    <img
+                      src={planeUrl}
+                      alt={`${ANALYSIS_CHANNEL_NAMES[planeChannel]} bit ${planeBit}`}
+                      className="w-full h-auto rounded-lg border border-slate-600 [image-rendering:pixelated]"
+                    />
+                  ) : (
+                    <div className="text-xs text-slate-400">Rendering bit plane...</div>
+                  )}
+                  <div className="text-xs text-slate-400 mt-1">
+                    Low bit planes of a natural photo still show shapes; hidden data turns them into uniform noise
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Steganalysis;
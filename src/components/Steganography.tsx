@@ -1,26 +1,139 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { Image as ImageIcon, Eye, EyeOff, Upload, Download } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Image as ImageIcon, Eye, EyeOff, Upload, Download, FileText, MessageSquare, X } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-import { embedMessage, extractMessage, hasHiddenMessage } from "@/utils/steganography";
+import VaultKeyPicker from "@/components/VaultKeyPicker";
+import { embedCapacity, STEGO_FORMATS, StegoFormat } from "@/utils/steganography";
+import { CoverSize, SteganographyWorker } from "@/utils/steganographyClient";
+import { DEFAULT_LAYOUT, MAX_BITS_PER_CHANNEL, STEGO_CHANNELS, STEGO_TRAVERSALS, StegoChannel, StegoLayout, StegoTraversal } from "@/utils/stegoLayout";
+import { DistortionMetrics } from "@/utils/stegoQuality";
+import { filePayloadBodyLength } from "@/utils/stegoPayload";
+import { downloadBlob } from "@/utils/fileSave";
+import { DEFAULT_TEXT_ENCODING, TEXT_ENCODINGS, TextEncodingId, encodeText } from "@/utils/textCodec";
+
+interface StegoComparison {
+  stegoUrl: string;
+  diffUrl: string;
+  metrics: DistortionMetrics;
+}
+
+const formatMetrics = ({ psnr, ssim }: DistortionMetrics) =>
+  `PSNR ${Number.isFinite(psnr) ? `${psnr.toFixed(1)} dB` : "∞ (identical)"} · SSIM ${ssim.toFixed(4)}`;
 
 const Steganography = () => {
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [secretMessage, setSecretMessage] = useState("");
   const [extractedMessage, setExtractedMessage] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
   const [imagePreview, setImagePreview] = useState<string>("");
   const [hasEmbeddedMessage, setHasEmbeddedMessage] = useState(false);
+  const [textEncoding, setTextEncoding] = useState<TextEncodingId>(DEFAULT_TEXT_ENCODING);
+  const [passphrase, setPassphrase] = useState("");
+  const [payloadMode, setPayloadMode] = useState("message");
+  const [secretFile, setSecretFile] = useState<File | null>(null);
+  const [extractedFile, setExtractedFile] = useState<File | null>(null);
+  const [bitsPerChannel, setBitsPerChannel] = useState(String(DEFAULT_LAYOUT.bitsPerChannel));
+  const [channels, setChannels] = useState<StegoChannel[]>(DEFAULT_LAYOUT.channels);
+  const [traversal, setTraversal] = useState<StegoTraversal>(DEFAULT_LAYOUT.traversal);
+  const [format, setFormat] = useState<StegoFormat>("png");
+  const [jpegCapacity, setJpegCapacity] = useState<number | null>(null);
+  const [coverSize, setCoverSize] = useState<CoverSize | null>(null);
+  const [estimate, setEstimate] = useState<DistortionMetrics | null>(null);
+  const [comparison, setComparison] = useState<StegoComparison | null>(null);
+  const estimateId = useRef(0);
+  const workerRef = useRef<SteganographyWorker | null>(null);
+  const cancelRequested = useRef(false);
+
+  const worker = () => (workerRef.current ??= new SteganographyWorker());
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const layout = useMemo<StegoLayout>(() => ({
+    bitsPerChannel: Number(bitsPerChannel),
+    channels: STEGO_CHANNELS.filter((channel) => channels.includes(channel)),
+    traversal
+  }), [bitsPerChannel, channels, traversal]);
+
+  // Size of the message as embedded, or null if the encoding cannot hold it
+  const messageBytes = (() => {
+    try {
+      return encodeText(secretMessage, textEncoding).length;
+    } catch {
+      return null;
+    }
+  })();
+
+  // Bytes the message or file will take up, or null if it cannot be hidden as is
+  const payloadLength = payloadMode === "file"
+    ? secretFile ? filePayloadBodyLength(secretFile.name, secretFile.size) : null
+    : messageBytes;
+  const isJpeg = format === "jpeg";
+  const capacity = isJpeg
+    ? jpegCapacity
+    : coverSize && layout.channels.length > 0
+      ? embedCapacity(coverSize.width, coverSize.height, layout, Boolean(passphrase))
+      : null;
+  const fits = capacity !== null && payloadLength !== null && payloadLength <= capacity;
+
+  // JPEG capacity depends on the image content, so it has to be worked out from the file
+  useEffect(() => {
+    setJpegCapacity(null);
+    if (!isJpeg || !selectedImage) return;
+    let cancelled = false;
+    worker().jpegCapacity(selectedImage, Boolean(passphrase))
+      .then((bytes) => {
+        if (!cancelled) setJpegCapacity(bytes);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [isJpeg, selectedImage, passphrase]);
+
+  // Re-estimate the distortion a moment after the settings stop changing
+  useEffect(() => {
+    const id = ++estimateId.current;
+    if (!selectedImage || !coverSize || !fits || isJpeg) {
+      setEstimate(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      worker().estimateDistortion(selectedImage, layout, payloadLength, Boolean(passphrase))
+        .then((metrics) => {
+          if (id === estimateId.current) setEstimate(metrics);
+        })
+        .catch(() => setEstimate(null));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [selectedImage, coverSize, layout, payloadLength, passphrase, fits, isJpeg]);
+
+  useEffect(() => () => {
+    if (comparison) {
+      URL.revokeObjectURL(comparison.stegoUrl);
+      URL.revokeObjectURL(comparison.diffUrl);
+    }
+  }, [comparison]);
+
+  const toggleChannel = (channel: StegoChannel, checked: boolean) =>
+    setChannels((current) => checked ? [...current, channel] : current.filter((c) => c !== channel));
 
   const handleImageSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       if (file.type.startsWith('image/')) {
         setSelectedImage(file);
+        setComparison(null);
+        setCoverSize(null);
+        worker().loadCover(file).then(setCoverSize).catch(() => setCoverSize(null));
         const reader = new FileReader();
         reader.onload = (e) => {
           setImagePreview(e.target?.result as string);
@@ -29,7 +142,7 @@ const Steganography = () => {
         
         // Check if image actually contains a hidden message
         try {
-          const hasMessage = await hasHiddenMessage(file);
+          const hasMessage = await worker().hasHiddenMessage(file, textEncoding);
           setHasEmbeddedMessage(hasMessage);
           
           toast({
@@ -63,34 +176,49 @@ const Steganography = () => {
       return;
     }
 
-    if (!secretMessage.trim()) {
+    const hidingFile = payloadMode === "file";
+    if (hidingFile ? !secretFile : !secretMessage.trim()) {
       toast({
         title: "Error",
-        description: "Please enter a message to hide",
+        description: hidingFile ? "Please choose a file to hide" : "Please enter a message to hide",
         variant: "destructive"
       });
       return;
     }
 
     setIsProcessing(true);
+    setProgress(0);
+    cancelRequested.current = false;
     
     try {
-      const result = await embedMessage(selectedImage, secretMessage);
+      const options = { encoding: textEncoding, passphrase, layout, format };
+      const onProgress = (fraction: number) => setProgress(fraction * 100);
+      const result = hidingFile
+        ? await worker().embedFile(selectedImage, secretFile, options, onProgress)
+        : await worker().embedMessage(selectedImage, secretMessage, options, onProgress);
       
       if (result.success && result.blob) {
         // Download the steganographic image
         const url = URL.createObjectURL(result.blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `stego_${selectedImage.name.replace(/\.[^/.]+$/, "")}.png`;
+        a.download = `stego_${selectedImage.name.replace(/\.[^/.]+$/, "")}.${isJpeg ? "jpg" : "png"}`;
         a.click();
         URL.revokeObjectURL(url);
+
+        // Show the cover and stego images side by side with their differences
+        const { metrics, diff } = await worker().compare(selectedImage, result.blob, !isJpeg && layout.channels.includes("a"));
+        setComparison({
+          stegoUrl: URL.createObjectURL(result.blob),
+          diffUrl: URL.createObjectURL(diff),
+          metrics
+        });
         
         // Mark that this image now has an embedded message
         setHasEmbeddedMessage(true);
         toast({
           title: "Success",
-          description: "Message embedded in image successfully! Download started.",
+          description: `${hidingFile ? "File" : "Message"} embedded in image successfully! Download started.`,
         });
       } else {
         toast({
@@ -100,7 +228,10 @@ const Steganography = () => {
         });
       }
     } catch (error) {
-      toast({
+      toast(cancelRequested.current ? {
+        title: "Cancelled",
+        description: "Embedding was cancelled"
+      } : {
         title: "Error",
         description: "An unexpected error occurred while embedding the message",
         variant: "destructive"
@@ -121,18 +252,33 @@ const Steganography = () => {
     }
 
     setIsProcessing(true);
+    setProgress(0);
+    cancelRequested.current = false;
     
     try {
-      const result = await extractMessage(selectedImage);
+      const result = await worker().extractMessage(
+        selectedImage,
+        { encoding: textEncoding, passphrase, layout },
+        (fraction) => setProgress(fraction * 100)
+      );
       
-      if (result.success && result.message) {
+      if (result.success && result.file) {
+        setExtractedFile(result.file);
+        setExtractedMessage("");
+        toast({
+          title: "Success",
+          description: `Hidden file "${result.file.name}" extracted successfully`,
+        });
+      } else if (result.success && result.message) {
         setExtractedMessage(result.message);
+        setExtractedFile(null);
         toast({
           title: "Success",
           description: "Hidden message extracted successfully",
         });
       } else {
         setExtractedMessage("No hidden message found in this image.");
+        setExtractedFile(null);
         toast({
           title: "No Message Found",
           description: result.error || "This image doesn't appear to contain any hidden messages",
@@ -140,7 +286,10 @@ const Steganography = () => {
         });
       }
     } catch (error) {
-      toast({
+      toast(cancelRequested.current ? {
+        title: "Cancelled",
+        description: "Extraction was cancelled"
+      } : {
         title: "Error",
         description: "An unexpected error occurred while extracting the message",
         variant: "destructive"
@@ -150,6 +299,11 @@ const Steganography = () => {
     setIsProcessing(false);
   };
 
+  const cancel = () => {
+    cancelRequested.current = true;
+    workerRef.current?.terminate();
+  };
+
   return (
     <Card className="bg-slate-800/50 border border-slate-700">
       <CardHeader>
@@ -158,7 +312,7 @@ const Steganography = () => {
           Image Steganography
         </CardTitle>
         <CardDescription className="text-slate-400">
-          Hide secret messages inside images using LSB (Least Significant Bit) technique
+          Hide secret messages inside images using LSB (Least Significant Bit) or, for JPEGs, F5 DCT-coefficient embedding
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -203,23 +357,203 @@ const Steganography = () => {
           </div>
         )}
 
-        {/* Secret Message Input */}
+        {/* What to hide */}
+        <Tabs value={payloadMode} onValueChange={setPayloadMode} className="w-full">
+          <TabsList className="bg-slate-700">
+            <TabsTrigger value="message" className="flex items-center gap-2">
+              <MessageSquare className="h-4 w-4" />
+              Message
+            </TabsTrigger>
+            <TabsTrigger value="file" className="flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              File
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="message" className="space-y-6 mt-4">
+            {/* Secret Message Input */}
+            <div>
+              <Label htmlFor="message" className="text-white mb-2 block">
+                Secret Message (for embedding)
+              </Label>
+              <Textarea
+                id="message"
+                placeholder="Enter your secret message to hide in the image..."
+                value={secretMessage}
+                onChange={(e) => setSecretMessage(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white h-24 font-mono"
+              />
+              <div className="text-xs text-slate-400 mt-1">
+                Characters: {Array.from(secretMessage).length} | {messageBytes === null
+                  ? <span className="text-red-400">Contains characters {TEXT_ENCODINGS[textEncoding].name} cannot represent</span>
+                  : `Bytes: ${messageBytes}`} | Max recommended: 1000
+              </div>
+            </div>
+
+            {/* Text Encoding */}
+            <div>
+              <Label htmlFor="stego-encoding" className="text-white mb-2 block">
+                Text Encoding
+              </Label>
+              <Select value={textEncoding} onValueChange={(value) => setTextEncoding(value as TextEncodingId)}>
+                <SelectTrigger id="stego-encoding" className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-700 border-slate-600">
+                  {Object.entries(TEXT_ENCODINGS).map(([id, info]) => (
+                    <SelectItem key={id} value={id}>{info.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="text-xs text-slate-400 mt-1">
+                {TEXT_ENCODINGS[textEncoding].description}; the encoding is recorded with the message
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="file" className="mt-4">
+            <Label htmlFor="secret-file" className="text-white mb-2 block">
+              Secret File (for embedding)
+            </Label>
+            <Input
+              id="secret-file"
+              type="file"
+              onChange={(e) => setSecretFile(e.target.files?.[0] ?? null)}
+              className="bg-slate-700 border-slate-600 text-white file:bg-cyan-600 file:text-white file:border-0 file:rounded-md file:px-3 file:py-1"
+            />
+            <div className="text-xs text-slate-400 mt-1">
+              {secretFile
+                ? `${secretFile.name} · ${secretFile.size.toLocaleString()} bytes; the name is restored on extraction`
+                : "Any file type, up to the capacity shown under Embedding Settings"}
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        {/* Passphrase */}
         <div>
-          <Label htmlFor="message" className="text-white mb-2 block">
-            Secret Message (for embedding)
+          <Label htmlFor="stego-passphrase" className="text-white mb-2 block">
+            Passphrase (optional)
           </Label>
-          <Textarea
-            id="message"
-            placeholder="Enter your secret message to hide in the image..."
-            value={secretMessage}
-            onChange={(e) => setSecretMessage(e.target.value)}
-            className="bg-slate-700 border-slate-600 text-white h-24 font-mono"
+          <Input
+            id="stego-passphrase"
+            type="password"
+            placeholder="Encrypt and scatter the hidden data"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className="bg-slate-700 border-slate-600 text-white"
           />
+          <div className="mt-2">
+            <VaultKeyPicker
+              kinds={["secret"]}
+              placeholder="Use a secret key from the vault"
+              onSelect={(entry) => setPassphrase(entry.secret ?? "")}
+            />
+          </div>
           <div className="text-xs text-slate-400 mt-1">
-            Characters: {secretMessage.length} | Max recommended: 1000
+            {passphrase
+              ? "The message is encrypted with AES-GCM and its bits are spread over the image in a passphrase-derived order; without the passphrase the image looks like it holds nothing"
+              : "Without a passphrase anyone with a steganography tool can read the message"}
           </div>
         </div>
 
+        {/* Embedding Settings */}
+        <Card className="bg-slate-700/50 border border-slate-600">
+          <CardContent className="pt-4 space-y-4">
+            <div>
+              <Label htmlFor="stego-format" className="text-white mb-2 block">
+                Output Format
+              </Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as StegoFormat)}>
+                <SelectTrigger id="stego-format" className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-700 border-slate-600">
+                  {Object.entries(STEGO_FORMATS).map(([id, info]) => (
+                    <SelectItem key={id} value={id}>{info.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {!isJpeg && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="stego-bits" className="text-white mb-2 block">
+                    Bits per Channel
+                  </Label>
+                  <Select value={bitsPerChannel} onValueChange={setBitsPerChannel}>
+                    <SelectTrigger id="stego-bits" className="bg-slate-700 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-700 border-slate-600">
+                      {Array.from({ length: MAX_BITS_PER_CHANNEL }, (_, i) => (
+                        <SelectItem key={i + 1} value={String(i + 1)}>
+                          {i + 1} bit{i > 0 ? "s" : ""}{i === 0 ? " (least visible)" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-white mb-2 block">Channels</Label>
+                  <div className="flex items-center gap-4 h-10">
+                    {STEGO_CHANNELS.map((channel) => (
+                      <label key={channel} className="flex items-center gap-2 text-slate-300 text-sm">
+                        <Checkbox
+                          checked={channels.includes(channel)}
+                          onCheckedChange={(checked) => toggleChannel(channel, checked === true)}
+                        />
+                        {channel.toUpperCase()}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="stego-traversal" className="text-white mb-2 block">
+                    Traversal
+                  </Label>
+                  <Select value={traversal} onValueChange={(value) => setTraversal(value as StegoTraversal)} disabled={Boolean(passphrase)}>
+                    <SelectTrigger id="stego-traversal" className="bg-slate-700 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-700 border-slate-600">
+                      {Object.entries(STEGO_TRAVERSALS).map(([id, info]) => (
+                        <SelectItem key={id} value={id}>{info.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div className="text-xs text-slate-400 space-y-1">
+              {isJpeg ? (
+                <div>
+                  {STEGO_FORMATS.jpeg.description}. Covers that are not baseline JPEGs are converted first.
+                  {passphrase && " The passphrase sets a secret order over the coefficients."}
+                </div>
+              ) : (
+                <div>
+                  {passphrase ? "The passphrase sets a secret order over the image" : STEGO_TRAVERSALS[traversal].description}.
+                  {channels.includes("a") && " Changing alpha alters transparency, so it only suits images that are already translucent."}
+                  {" "}Extraction detects these settings by itself.
+                </div>
+              )}
+              {!isJpeg && layout.channels.length === 0 ? (
+                <div className="text-red-400">Select at least one channel</div>
+              ) : capacity === null ? (
+                <div>{selectedImage ? "Working out the capacity..." : "Select an image to see its capacity"}</div>
+              ) : (
+                <div className={payloadLength !== null && !fits ? "text-red-400" : undefined}>
+                  Capacity: {isJpeg && "about "}{capacity.toLocaleString()} bytes
+                  {payloadLength !== null && ` · Needed: ${payloadLength.toLocaleString()} bytes (${(capacity ? (payloadLength / capacity) * 100 : 100).toFixed(1)}%)`}
+                </div>
+              )}
+              {estimate && (
+                <div>Estimated distortion: {formatMetrics(estimate)}</div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Action Buttons */}
         <div className="flex flex-wrap gap-3">
           <Button
@@ -228,7 +562,7 @@ const Steganography = () => {
             className="bg-cyan-600 hover:bg-cyan-700 text-white"
           >
             <EyeOff className="h-4 w-4 mr-2" />
-            {isProcessing ? "Embedding..." : "Hide Message"}
+            {isProcessing ? "Embedding..." : payloadMode === "file" ? "Hide File" : "Hide Message"}
           </Button>
           <Button
             onClick={handleExtractMessage}
@@ -241,13 +575,68 @@ const Steganography = () => {
           </Button>
         </div>
 
+        {isProcessing && (
+          <div className="flex items-center gap-3">
+            <Progress value={progress} className="h-2 flex-1" />
+            <Button size="sm" variant="ghost" onClick={cancel} className="text-slate-400">
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {/* Cover vs Stego */}
+        {comparison && (
+          <div>
+            <Label className="text-white mb-2 block">Cover vs Stego Image</Label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {[
+                { title: "Cover", src: imagePreview },
+                { title: "Stego", src: comparison.stegoUrl },
+                { title: "Difference (amplified)", src: comparison.diffUrl }
+              ].map(({ title, src }) => (
+                <div key={title}>
+                  <img src={src} alt={title} className="w-full h-auto rounded-lg border border-slate-600" />
+                  <div className="text-xs text-slate-400 mt-1 text-center">{title}</div>
+                </div>
+              ))}
+            </div>
+            <div className="text-xs text-slate-400 mt-2">
+              Measured distortion: {formatMetrics(comparison.metrics)}. The difference view scales the largest change to full brightness.
+            </div>
+          </div>
+        )}
+
         {/* Extracted Message */}
         {extractedMessage && (
           <div>
             <Label className="text-white mb-2 block">Extracted Message</Label>
             <Card className="bg-slate-700/50 border border-slate-600">
               <CardContent className="pt-4">
-                <p className="text-green-400 font-mono">{extractedMessage}</p>
+                <p dir="auto" className="text-green-400 font-mono whitespace-pre-wrap break-words">{extractedMessage}</p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Extracted File */}
+        {extractedFile && (
+          <div>
+            <Label className="text-white mb-2 block">Extracted File</Label>
+            <Card className="bg-slate-700/50 border border-slate-600">
+              <CardContent className="pt-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-green-400 font-mono break-all">{extractedFile.name}</div>
+                  <div className="text-xs text-slate-400">{extractedFile.size.toLocaleString()} bytes</div>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => downloadBlob(extractedFile, extractedFile.name)}
+                  className="bg-cyan-600 hover:bg-cyan-700 text-white shrink-0"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </Button>
               </CardContent>
             </Card>
           </div>
@@ -263,7 +652,8 @@ const Steganography = () => {
                 <p className="text-blue-200 text-sm mt-1">
                   LSB steganography hides data in the least significant bits of image pixels. 
                   Each pixel's color values are slightly modified to encode message bits, 
-                  making the changes imperceptible to the human eye.
+                  making the changes imperceptible to the human eye. Using more bits per
+                  channel raises capacity but makes the changes easier to see and detect.
                 </p>
               </div>
             </div>
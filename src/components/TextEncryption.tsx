@@ -3,47 +3,112 @@ import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Lock, Unlock, Copy, RotateCcw } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import VaultKeyPicker from "@/components/VaultKeyPicker";
+import { KDF_PRESETS } from "@/utils/fileEncryption";
+import { CipherId, describeHeader } from "@/utils/containerFormat";
+import { TEXT_CIPHERS, TextCipher, decryptText, encryptText, isArmoredText, readTextHeader } from "@/utils/textEncryption";
+import { CLASSICAL_CIPHERS, ClassicalCipher, applyClassicalCipher } from "@/utils/classicalCiphers";
+import CipherCracker from "@/components/CipherCracker";
+import { base64ToBytes, bytesToBase64 } from "@/utils/base64";
+import { DEFAULT_TEXT_ENCODING, TEXT_ENCODINGS, TextEncodingId, decodeText, encodeText } from "@/utils/textCodec";
 
 const TextEncryption = () => {
   const [inputText, setInputText] = useState("");
   const [outputText, setOutputText] = useState("");
-  const [algorithm, setAlgorithm] = useState("caesar");
+  const [algorithm, setAlgorithm] = useState("aes-256-gcm");
   const [key, setKey] = useState("");
+  const [password, setPassword] = useState("");
+  const [kdfPreset, setKdfPreset] = useState("pbkdf2");
   const [isEncrypting, setIsEncrypting] = useState(false);
+  const [textEncoding, setTextEncoding] = useState<TextEncodingId>(DEFAULT_TEXT_ENCODING);
 
-  // Simple Caesar cipher implementation
-  const caesarCipher = (text: string, shift: number, encrypt: boolean = true) => {
-    const s = encrypt ? shift : -shift;
-    return text.replace(/[a-zA-Z]/g, (char) => {
-      const start = char <= 'Z' ? 65 : 97;
-      return String.fromCharCode(((char.charCodeAt(0) - start + s + 26) % 26) + start);
-    });
-  };
+  const isAuthenticated = algorithm in TEXT_CIPHERS;
+  const isClassical = algorithm in CLASSICAL_CIPHERS;
+  const classicalInfo = isClassical ? CLASSICAL_CIPHERS[algorithm as ClassicalCipher] : null;
+  // Only the byte-level transforms depend on how text is turned into bytes
+  const usesTextEncoding = algorithm === "base64" || algorithm === "xor";
 
-  // Simple Base64 encoding (for demonstration)
+  // Base64 of the text's bytes in the selected encoding
   const base64Cipher = (text: string, encrypt: boolean = true) => {
     if (encrypt) {
-      return btoa(text);
-    } else {
-      try {
-        return atob(text);
-      } catch {
-        return "Invalid encoded text";
-      }
+      return bytesToBase64(encodeText(text, textEncoding));
     }
+    let bytes: Uint8Array;
+    try {
+      bytes = base64ToBytes(text);
+    } catch {
+      throw new Error("Invalid base64 - the input contains characters outside the base64 alphabet");
+    }
+    return decodeText(bytes, textEncoding, true);
   };
 
-  // ROT13 implementation
-  const rot13 = (text: string) => {
-    return text.replace(/[a-zA-Z]/g, (char) => {
-      const start = char <= 'Z' ? 65 : 97;
-      return String.fromCharCode(((char.charCodeAt(0) - start + 13) % 26) + start);
+  // Classical ciphers and encodings; throws on an invalid key
+  const transformText = (decrypt: boolean) => {
+    if (algorithm === "base64") {
+      return base64Cipher(inputText, !decrypt);
+    }
+    if (isClassical) {
+      return applyClassicalCipher(algorithm as ClassicalCipher, inputText, key, decrypt, textEncoding);
+    }
+    return inputText;
+  };
+
+  const requirePassword = () => {
+    if (password) return true;
+    toast({
+      title: "Error",
+      description: "Please enter a password",
+      variant: "destructive"
     });
+    return false;
+  };
+
+  const sealText = async () => {
+    if (!requirePassword()) return;
+    setIsEncrypting(true);
+    try {
+      setOutputText(await encryptText(inputText, password, algorithm as TextCipher, KDF_PRESETS[kdfPreset].kdf));
+      toast({
+        title: "Success",
+        description: `Text encrypted with ${TEXT_CIPHERS[algorithm as TextCipher].name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Encryption failed",
+        variant: "destructive"
+      });
+    }
+    setIsEncrypting(false);
+  };
+
+  const openText = async () => {
+    setIsEncrypting(true);
+    try {
+      const header = readTextHeader(inputText);
+      // The cipher comes from the message itself; selecting it also shows the password field
+      setAlgorithm(header.cipher === CipherId.CHACHA20_POLY1305 ? "chacha20-poly1305" : "aes-256-gcm");
+      if (requirePassword()) {
+        setOutputText(await decryptText(inputText, password));
+        toast({
+          title: "Success",
+          description: `Text decrypted and verified (${describeHeader(header)})`,
+        });
+      }
+    } catch (error) {
+      setOutputText("");
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Decryption failed",
+        variant: "destructive"
+      });
+    }
+    setIsEncrypting(false);
   };
 
   const handleEncrypt = () => {
@@ -56,24 +121,24 @@ const TextEncryption = () => {
       return;
     }
 
-    setIsEncrypting(true);
-    let result = "";
+    if (isAuthenticated) {
+      sealText();
+      return;
+    }
 
-    switch (algorithm) {
-      case "caesar":
-        const shift = parseInt(key) || 3;
-        result = caesarCipher(inputText, shift, true);
-        break;
-      case "base64":
-        result = base64Cipher(inputText, true);
-        break;
-      case "rot13":
-        result = rot13(inputText);
-        break;
-      default:
-        result = inputText;
+    let result = "";
+    try {
+      result = transformText(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Invalid key",
+        variant: "destructive"
+      });
+      return;
     }
 
+    setIsEncrypting(true);
     setTimeout(() => {
       setOutputText(result);
       setIsEncrypting(false);
@@ -94,24 +159,24 @@ const TextEncryption = () => {
       return;
     }
 
-    setIsEncrypting(true);
-    let result = "";
+    if (isAuthenticated || isArmoredText(inputText)) {
+      openText();
+      return;
+    }
 
-    switch (algorithm) {
-      case "caesar":
-        const shift = parseInt(key) || 3;
-        result = caesarCipher(inputText, shift, false);
-        break;
-      case "base64":
-        result = base64Cipher(inputText, false);
-        break;
-      case "rot13":
-        result = rot13(inputText);
-        break;
-      default:
-        result = inputText;
+    let result = "";
+    try {
+      result = transformText(true);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Invalid key",
+        variant: "destructive"
+      });
+      return;
     }
 
+    setIsEncrypting(true);
     setTimeout(() => {
       setOutputText(result);
       setIsEncrypting(false);
@@ -134,6 +199,7 @@ const TextEncryption = () => {
     setInputText("");
     setOutputText("");
     setKey("");
+    setPassword("");
   };
 
   return (
@@ -144,7 +210,7 @@ const TextEncryption = () => {
           Text Encryption & Decryption
         </CardTitle>
         <CardDescription className="text-slate-400">
-          Secure your messages with various encryption algorithms
+          Protect messages with password-based authenticated encryption, or apply classic encodings
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -152,37 +218,120 @@ const TextEncryption = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <Label htmlFor="algorithm" className="text-white mb-2 block">
-              Encryption Algorithm
+              Algorithm
             </Label>
             <Select value={algorithm} onValueChange={setAlgorithm}>
-              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+              <SelectTrigger id="algorithm" className="bg-slate-700 border-slate-600 text-white">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent className="bg-slate-700 border-slate-600">
-                <SelectItem value="caesar">Caesar Cipher</SelectItem>
-                <SelectItem value="base64">Base64 Encoding</SelectItem>
-                <SelectItem value="rot13">ROT13</SelectItem>
+                <SelectGroup>
+                  <SelectLabel>Authenticated Encryption</SelectLabel>
+                  {Object.entries(TEXT_CIPHERS).map(([id, info]) => (
+                    <SelectItem key={id} value={id}>{info.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+                <SelectGroup>
+                  <SelectLabel>Classical Ciphers (not secure)</SelectLabel>
+                  {Object.entries(CLASSICAL_CIPHERS).map(([id, info]) => (
+                    <SelectItem key={id} value={id}>{info.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+                <SelectGroup>
+                  <SelectLabel>Encodings</SelectLabel>
+                  <SelectItem value="base64">Base64 Encoding</SelectItem>
+                </SelectGroup>
               </SelectContent>
             </Select>
+            <div className="text-xs text-slate-400 mt-2">
+              {isAuthenticated
+                ? TEXT_CIPHERS[algorithm as TextCipher].description
+                : "No real security - for puzzles and CTF practice only"}
+            </div>
           </div>
+
+          {isAuthenticated && (
+            <div>
+              <Label htmlFor="text-kdf" className="text-white mb-2 block">
+                Key Derivation
+              </Label>
+              <Select value={kdfPreset} onValueChange={setKdfPreset}>
+                <SelectTrigger id="text-kdf" className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-700 border-slate-600">
+                  {Object.entries(KDF_PRESETS).map(([id, preset]) => (
+                    <SelectItem key={id} value={id}>{preset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="text-xs text-slate-400 mt-2">
+                {KDF_PRESETS[kdfPreset].description}. Decryption reads the settings from the message.
+              </div>
+            </div>
+          )}
           
-          {algorithm === "caesar" && (
+          {classicalInfo?.keyLabel && (
             <div>
               <Label htmlFor="key" className="text-white mb-2 block">
-                Shift Value
+                {classicalInfo.keyLabel}
               </Label>
               <Input
                 id="key"
-                type="number"
-                placeholder="Enter shift value (default: 3)"
+                type={algorithm === "caesar" || algorithm === "railfence" ? "number" : "text"}
+                placeholder={classicalInfo.keyPlaceholder}
                 value={key}
                 onChange={(e) => setKey(e.target.value)}
                 className="bg-slate-700 border-slate-600 text-white"
               />
             </div>
           )}
+
+          {usesTextEncoding && (
+            <div>
+              <Label htmlFor="text-encoding" className="text-white mb-2 block">
+                Text Encoding
+              </Label>
+              <Select value={textEncoding} onValueChange={(value) => setTextEncoding(value as TextEncodingId)}>
+                <SelectTrigger id="text-encoding" className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-700 border-slate-600">
+                  {Object.entries(TEXT_ENCODINGS).map(([id, info]) => (
+                    <SelectItem key={id} value={id}>{info.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="text-xs text-slate-400 mt-2">
+                {TEXT_ENCODINGS[textEncoding].description}
+              </div>
+            </div>
+          )}
         </div>
 
+        {isAuthenticated && (
+          <div>
+            <Label htmlFor="text-password" className="text-white mb-2 block">
+              Password
+            </Label>
+            <Input
+              id="text-password"
+              type="password"
+              placeholder="Enter a strong password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+            <div className="mt-2">
+              <VaultKeyPicker
+                kinds={["secret"]}
+                placeholder="Use a secret key from the vault"
+                onSelect={(entry) => setPassword(entry.secret ?? "")}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Input Text */}
         <div>
           <Label htmlFor="input" className="text-white mb-2 block">
@@ -190,6 +339,7 @@ const TextEncryption = () => {
           </Label>
           <Textarea
             id="input"
+            dir="auto"
             placeholder="Enter your message here..."
             value={inputText}
             onChange={(e) => setInputText(e.target.value)}
@@ -226,6 +376,17 @@ const TextEncryption = () => {
           </Button>
         </div>
 
+        {classicalInfo?.crackable && (
+          <CipherCracker
+            cipher={algorithm as ClassicalCipher}
+            ciphertext={inputText}
+            onUse={(plaintext, crackedKey) => {
+              setOutputText(plaintext);
+              setKey(crackedKey);
+            }}
+          />
+        )}
+
         {/* Output Text */}
         {outputText && (
           <div>
@@ -235,6 +396,7 @@ const TextEncryption = () => {
             <div className="relative">
               <Textarea
                 id="output"
+                dir="auto"
                 value={outputText}
                 readOnly
                 className="bg-slate-700 border-slate-600 text-green-400 h-32 font-mono"
@@ -0,0 +1,368 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Type, Eye, EyeOff, Copy, Download, ScanSearch } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  HIDDEN_CHARACTER_KINDS,
+  HiddenCharacterRun,
+  TEXT_STEGO_METHODS,
+  TextStegoMethod,
+  embedInText,
+  extractFromText,
+  scanHiddenCharacters,
+  textCapacity
+} from "@/utils/textSteganography";
+import { encodeTextPayload } from "@/utils/stegoPayload";
+import { downloadBlob } from "@/utils/fileSave";
+import { DEFAULT_TEXT_ENCODING, encodeText } from "@/utils/textCodec";
+
+interface ScanResult {
+  text: string;
+  runs: HiddenCharacterRun[];
+}
+
+const codePointLabel = (code: number) => `U+${code.toString(16).toUpperCase().padStart(4, "0")}`;
+
+// What to show in place of a run: invisible characters need a visible stand-in
+const runLabel = (text: string, run: HiddenCharacterRun) => {
+  const chars = text.slice(run.index, run.index + run.length);
+  switch (run.kind) {
+    case "whitespace":
+      return chars.replace(/ /g, "·").replace(/\t/g, "→");
+    case "homoglyph":
+    case "space":
+      return chars;
+    case "tag":
+      return `⟨tag "${String.fromCharCode(...run.codePoints.map((code) => code - 0xe0000))}"⟩`;
+    default:
+      return run.codePoints.length === 1
+        ? `⟨${codePointLabel(run.codePoints[0])}⟩`
+        : `⟨${codePointLabel(run.codePoints[0])} ×${run.codePoints.length}⟩`;
+  }
+};
+
+const HighlightedText = ({ text, runs }: ScanResult) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  runs.forEach((run, i) => {
+    parts.push(text.slice(last, run.index));
+    parts.push(
+      <mark
+        key={i}
+        title={`${HIDDEN_CHARACTER_KINDS[run.kind].name}: ${run.codePoints.map(codePointLabel).join(" ")}`}
+        className="bg-red-500/40 text-red-100 rounded px-0.5"
+      >
+        {runLabel(text, run)}
+      </mark>
+    );
+    last = run.index + run.length;
+  });
+  parts.push(text.slice(last));
+  return <div className="text-slate-200 font-mono text-sm whitespace-pre-wrap break-words max-h-72 overflow-y-auto">{parts}</div>;
+};
+
+const TextSteganography = () => {
+  const [coverText, setCoverText] = useState("");
+  const [secretMessage, setSecretMessage] = useState("");
+  const [method, setMethod] = useState<TextStegoMethod>("zero-width");
+  const [passphrase, setPassphrase] = useState("");
+  const [stegoText, setStegoText] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [extractedMessage, setExtractedMessage] = useState("");
+  const [extractedFile, setExtractedFile] = useState<File | null>(null);
+  const [scan, setScan] = useState<ScanResult | null>(null);
+
+  const capacity = textCapacity(coverText, method, Boolean(passphrase));
+  const needed = encodeText(secretMessage, DEFAULT_TEXT_ENCODING).length;
+
+  const handleEmbed = async () => {
+    if (!secretMessage.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a message to hide",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const payload = encodeTextPayload(secretMessage, DEFAULT_TEXT_ENCODING);
+      setStegoText(await embedInText(coverText, payload, method, passphrase));
+      toast({
+        title: "Success",
+        description: "Message hidden in the cover text - copy the result below",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to embed message",
+        variant: "destructive"
+      });
+    }
+    setIsProcessing(false);
+  };
+
+  const handleExtract = async () => {
+    if (!coverText) {
+      toast({
+        title: "Error",
+        description: "Please paste the text to extract from",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const found = await extractFromText(coverText, passphrase);
+      const payload = found?.payload;
+      setExtractedMessage(payload?.kind === "text" ? payload.text : "");
+      setExtractedFile(payload?.kind === "file" ? new File([payload.data], payload.name) : null);
+      if (found) {
+        toast({
+          title: "Success",
+          description: `Hidden ${found.payload.kind === "file" ? "file" : "message"} extracted from ${TEXT_STEGO_METHODS[found.method].name.toLowerCase()}`,
+        });
+      } else {
+        toast({
+          title: "No Message Found",
+          description: "No hidden message found in this text",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to decode message from text",
+        variant: "destructive"
+      });
+    }
+    setIsProcessing(false);
+  };
+
+  const handleScan = () => {
+    const runs = scanHiddenCharacters(coverText);
+    setScan({ text: coverText, runs });
+    toast({
+      title: "Scan Complete",
+      description: runs.length > 0
+        ? `Found ${runs.length} run${runs.length === 1 ? "" : "s"} of hidden or look-alike characters`
+        : "No invisible or look-alike characters found",
+    });
+  };
+
+  const copyStegoText = () => {
+    navigator.clipboard.writeText(stegoText);
+    toast({
+      title: "Copied",
+      description: "Stego text copied to clipboard",
+    });
+  };
+
+  const scanCounts = scan
+    ? Object.entries(HIDDEN_CHARACTER_KINDS)
+      .map(([kind, info]) => ({
+        info,
+        count: scan.runs.filter((run) => run.kind === kind).reduce((sum, run) => sum + run.codePoints.length, 0)
+      }))
+      .filter(({ count }) => count > 0)
+    : [];
+
+  return (
+    <Card className="bg-slate-800/50 border border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Type className="h-5 w-5 text-cyan-400" />
+          Text Steganography
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          Hide messages in plain text with whitespace, zero-width characters or homoglyphs, and scan text for invisible characters
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Cover Text */}
+        <div>
+          <Label htmlFor="text-cover" className="text-white mb-2 block">
+            Cover or Stego Text
+          </Label>
+          <Textarea
+            id="text-cover"
+            placeholder="Paste the text to hide a message in, extract one from, or scan..."
+            value={coverText}
+            onChange={(e) => setCoverText(e.target.value)}
+            className="bg-slate-700 border-slate-600 text-white h-32 font-mono"
+          />
+        </div>
+
+        {/* Secret Message */}
+        <div>
+          <Label htmlFor="text-message" className="text-white mb-2 block">
+            Secret Message (for embedding)
+          </Label>
+          <Textarea
+            id="text-message"
+            placeholder="Enter your secret message to hide in the text..."
+            value={secretMessage}
+            onChange={(e) => setSecretMessage(e.target.value)}
+            className="bg-slate-700 border-slate-600 text-white h-20 font-mono"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="text-method" className="text-white mb-2 block">
+              Method
+            </Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as TextStegoMethod)}>
+              <SelectTrigger id="text-method" className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-700 border-slate-600">
+                {Object.entries(TEXT_STEGO_METHODS).map(([id, info]) => (
+                  <SelectItem key={id} value={id}>{info.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="text-passphrase" className="text-white mb-2 block">
+              Passphrase (optional)
+            </Label>
+            <Input
+              id="text-passphrase"
+              type="password"
+              placeholder="Encrypt the hidden data"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+          </div>
+        </div>
+        <div className="text-xs text-slate-400 space-y-1">
+          <div>{TEXT_STEGO_METHODS[method].description}. Extraction detects the method by itself.</div>
+          <div className={Number.isFinite(capacity) && needed > capacity ? "text-red-400" : undefined}>
+            Capacity: {Number.isFinite(capacity) ? `${capacity.toLocaleString()} bytes` : "unlimited (the text grows)"} · Needed: {needed.toLocaleString()} bytes
+          </div>
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex flex-wrap gap-3">
+          <Button
+            onClick={handleEmbed}
+            disabled={isProcessing}
+            className="bg-cyan-600 hover:bg-cyan-700 text-white"
+          >
+            <EyeOff className="h-4 w-4 mr-2" />
+            {isProcessing ? "Working..." : "Hide Message"}
+          </Button>
+          <Button
+            onClick={handleExtract}
+            disabled={isProcessing}
+            variant="outline"
+            className="border-cyan-500 text-cyan-400 hover:bg-cyan-600 hover:text-white"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            Extract Message
+          </Button>
+          <Button
+            onClick={handleScan}
+            disabled={isProcessing}
+            variant="outline"
+            className="border-slate-500 text-slate-300 hover:bg-slate-600 hover:text-white"
+          >
+            <ScanSearch className="h-4 w-4 mr-2" />
+            Scan for Hidden Characters
+          </Button>
+        </div>
+
+        {/* Stego Text */}
+        {stegoText && (
+          <div>
+            <Label htmlFor="text-stego" className="text-white mb-2 block">
+              Stego Text
+            </Label>
+            <div className="relative">
+              <Textarea
+                id="text-stego"
+                value={stegoText}
+                readOnly
+                className="bg-slate-700 border-slate-600 text-green-400 h-32 font-mono"
+              />
+              <Button
+                size="sm"
+                onClick={copyStegoText}
+                className="absolute top-2 right-2 bg-slate-600 hover:bg-slate-500"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Extracted Message */}
+        {extractedMessage && (
+          <div>
+            <Label className="text-white mb-2 block">Extracted Message</Label>
+            <Card className="bg-slate-700/50 border border-slate-600">
+              <CardContent className="pt-4">
+                <p dir="auto" className="text-green-400 font-mono whitespace-pre-wrap break-words">{extractedMessage}</p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Extracted File */}
+        {extractedFile && (
+          <div>
+            <Label className="text-white mb-2 block">Extracted File</Label>
+            <Card className="bg-slate-700/50 border border-slate-600">
+              <CardContent className="pt-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-green-400 font-mono break-all">{extractedFile.name}</div>
+                  <div className="text-xs text-slate-400">{extractedFile.size.toLocaleString()} bytes</div>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => downloadBlob(extractedFile, extractedFile.name)}
+                  className="bg-cyan-600 hover:bg-cyan-700 text-white shrink-0"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Scan Results */}
+        {scan && (
+          <Card className="bg-slate-700/50 border border-slate-600">
+            <CardContent className="pt-4 space-y-3">
+              <Label className="text-white block">Hidden Characters</Label>
+              {scanCounts.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {scanCounts.map(({ info, count }) => (
+                    <span key={info.name} title={info.description} className="text-xs text-white px-2 py-1 rounded bg-red-600/60">
+                      {info.name}: {count}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-xs text-slate-400">Nothing invisible or look-alike in this text</div>
+              )}
+              <HighlightedText text={scan.text} runs={scan.runs} />
+            </CardContent>
+          </Card>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TextSteganography;
@@ -0,0 +1,50 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Vault } from "lucide-react";
+import { useKeyVault } from "@/hooks/use-key-vault";
+import { VaultEntry, VaultEntryKind, isExpired } from "@/utils/keyVault";
+
+interface VaultKeyPickerProps {
+  kinds: VaultEntryKind[];
+  placeholder: string;
+  onSelect: (entry: VaultEntry) => void;
+}
+
+/**
+ * Dropdown of usable (unexpired) vault entries; hints at unlocking when the vault is locked
+ */
+const VaultKeyPicker = ({ kinds, placeholder, onSelect }: VaultKeyPickerProps) => {
+  const { status, entries } = useKeyVault();
+
+  if (status === "locked") {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        <Vault className="h-4 w-4" />
+        Unlock the Key Vault tab to use saved keys
+      </div>
+    );
+  }
+  if (status !== "unlocked") return null;
+
+  const usable = entries.filter(entry => kinds.includes(entry.kind) && !isExpired(entry));
+  if (usable.length === 0) return null;
+
+  return (
+    // Reset to the placeholder after each pick so the same key can be picked again
+    <Select value="" onValueChange={(id) => {
+      const entry = usable.find(e => e.id === id);
+      if (entry) onSelect(entry);
+    }}>
+      <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+        <Vault className="h-4 w-4 mr-2 text-cyan-400" />
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent className="bg-slate-700 border-slate-600">
+        {usable.map((entry) => (
+          <SelectItem key={entry.id} value={entry.id}>{entry.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default VaultKeyPicker;
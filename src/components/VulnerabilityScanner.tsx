@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -16,8 +16,15 @@ import {
   Shield,
   Wifi,
   Server,
-  Globe
+  Globe,
+  X
 } from "lucide-react";
+import CveFeed from "@/components/CveFeed";
+import ScanChecks from "@/components/ScanChecks";
+import { describeCriterion } from "@/utils/cpe";
+import { CveMatch, CveReference, CvssScore, cvssRisks, matchCves } from "@/utils/cveFeed";
+import { ScanAgentClient } from "@/utils/scanAgentClient";
+import { OpenPort, ScanFinding, TlsGrade, WebsiteSummary } from "@/utils/scanAgentProtocol";
 
 interface VulnerabilityResult {
   id: string;
@@ -28,93 +35,62 @@ interface VulnerabilityResult {
   risks: string[];
   fixes: string[];
   port?: number;
+  host?: string;
+  /** What the scan agent saw */
+  evidence?: string;
+  /** Set for findings matched against the imported CVE feed */
+  cve?: {
+    id: string;
+    cvss?: CvssScore;
+    references: CveReference[];
+  };
 }
 
+const MAX_REFERENCES = 5;
+
+const nvdLink = (id: string) => `https://nvd.nist.gov/vuln/detail/${encodeURIComponent(id)}`;
+
+const toCveResult = ({ host, port, software, softwareName, cve, criterion }: CveMatch): VulnerabilityResult => ({
+  id: `${cve.id}-${host}-${port}-${software.product}`,
+  service: softwareName,
+  vulnerability: cve.id,
+  severity: !cve.cvss ? "medium" : cve.cvss.severity === "none" ? "low" : cve.cvss.severity,
+  description: cve.description,
+  risks: cve.cvss ? cvssRisks(cve.cvss.vector) : ["Known vulnerability without a CVSS v3 score"],
+  fixes: [
+    `Update ${softwareName} to a release outside the affected versions`,
+    "Follow the vendor advisories and patches in the references"
+  ],
+  host,
+  port,
+  evidence: `${software.product} ${software.version} from the service banner; affected: ${describeCriterion(criterion)}`,
+  cve: { id: cve.id, cvss: cve.cvss, references: cve.references }
+});
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] ?? c);
+
 const VulnerabilityScanner = () => {
   const [target, setTarget] = useState("");
   const [scanning, setScanning] = useState(false);
   const [progress, setProgress] = useState(0);
   const [results, setResults] = useState<VulnerabilityResult[]>([]);
   const [scanType, setScanType] = useState<"network" | "website">("network");
+  const [stage, setStage] = useState("");
+  const [openPorts, setOpenPorts] = useState<OpenPort[]>([]);
+  const [website, setWebsite] = useState<WebsiteSummary | null>(null);
+  const [agentError, setAgentError] = useState<string | null>(null);
+  const agentRef = useRef<ScanAgentClient | null>(null);
   const { toast } = useToast();
 
-  const vulnerabilityDatabase = [
-    {
-      id: "vuln_001",
-      service: "SSH",
-      vulnerability: "Weak SSH Configuration",
-      severity: "high" as const,
-      description: "SSH service is running with default configuration",
-      risks: ["Brute force attacks", "Unauthorized access", "Data breaches"],
-      fixes: [
-        "Change default SSH port from 22",
-        "Disable root login",
-        "Enable key-based authentication",
-        "Implement fail2ban for brute force protection"
-      ],
-      port: 22
-    },
-    {
-      id: "vuln_002",
-      service: "HTTP",
-      vulnerability: "Unencrypted HTTP Traffic",
-      severity: "medium" as const,
-      description: "Website is serving content over HTTP instead of HTTPS",
-      risks: ["Man-in-the-middle attacks", "Data interception", "SEO penalties"],
-      fixes: [
-        "Install SSL/TLS certificate",
-        "Redirect HTTP to HTTPS",
-        "Enable HSTS headers",
-        "Update all internal links to HTTPS"
-      ],
-      port: 80
-    },
-    {
-      id: "vuln_003",
-      service: "FTP",
-      vulnerability: "Anonymous FTP Access",
-      severity: "critical" as const,
-      description: "FTP server allows anonymous access",
-      risks: ["Data leakage", "Unauthorized file access", "Server compromise"],
-      fixes: [
-        "Disable anonymous FTP access",
-        "Use SFTP or FTPS instead",
-        "Implement strong authentication",
-        "Regular access audits"
-      ],
-      port: 21
-    },
-    {
-      id: "vuln_004",
-      service: "Web Server",
-      vulnerability: "Outdated SSL/TLS Version",
-      severity: "high" as const,
-      description: "Server is using outdated SSL/TLS protocols",
-      risks: ["Protocol downgrade attacks", "Weak encryption", "Compliance violations"],
-      fixes: [
-        "Update to TLS 1.2 or higher",
-        "Disable SSLv3 and TLS 1.0/1.1",
-        "Configure strong cipher suites",
-        "Regular SSL certificate updates"
-      ],
-      port: 443
-    },
-    {
-      id: "vuln_005",
-      service: "Database",
-      vulnerability: "Default Database Credentials",
-      severity: "critical" as const,
-      description: "Database is using default username/password",
-      risks: ["Complete database compromise", "Data theft", "Privilege escalation"],
-      fixes: [
-        "Change default credentials immediately",
-        "Create strong, unique passwords",
-        "Implement role-based access control",
-        "Enable database firewall"
-      ],
-      port: 3306
-    }
-  ];
+  const agent = useCallback(() => (agentRef.current ??= new ScanAgentClient()), []);
+  const checkAgent = () =>
+    agent().health().then(() => setAgentError(null)).catch((error: Error) => setAgentError(error.message));
+
+  useEffect(() => {
+    agent().health().then(() => setAgentError(null)).catch((error: Error) => setAgentError(error.message));
+    return () => agentRef.current?.close();
+  }, [agent]);
 
   const startScan = async () => {
     if (!target) {
@@ -128,23 +104,70 @@ const VulnerabilityScanner = () => {
 
     setScanning(true);
     setProgress(0);
+    setStage("");
     setResults([]);
+    setOpenPorts([]);
+    setWebsite(null);
 
-    // Simulate scanning process
-    const scanSteps = 5;
-    for (let i = 0; i <= scanSteps; i++) {
-      await new Promise(resolve => setTimeout(resolve, 800));
-      setProgress((i / scanSteps) * 100);
-    }
+    const toResult = ({ check, host, port, evidence }: ScanFinding): VulnerabilityResult => ({
+      id: `${check.id}-${host}-${port}`,
+      service: check.service,
+      vulnerability: check.name,
+      severity: check.severity,
+      description: check.description,
+      risks: check.risks,
+      fixes: check.remediation,
+      host,
+      port,
+      evidence
+    });
 
-    // Simulate vulnerability detection
-    const detectedVulns = vulnerabilityDatabase.filter(() => Math.random() > 0.3);
-    setResults(detectedVulns);
+    try {
+      const report = await agent().scan({ target, mode: scanType }, {
+        onProgress: (fraction, stage) => {
+          setProgress(fraction * 100);
+          setStage(stage);
+        },
+        onOpenPort: (port) => setOpenPorts((current) => [...current, port]),
+        onFinding: (finding) => setResults((current) => [...current, toResult(finding)])
+      });
+      setAgentError(null);
+      setOpenPorts(report.openPorts);
+      setWebsite(report.website ?? null);
+      let cves: VulnerabilityResult[] = [];
+      try {
+        cves = (await matchCves(report.openPorts)).map(toCveResult);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? `CVE matching failed: ${error.message}` : "CVE matching failed",
+          variant: "destructive"
+        });
+      }
+      setResults([...report.findings.map(toResult), ...cves]);
+      toast({
+        title: "Scan Complete",
+        description: `Found ${report.findings.length + cves.length} potential vulnerabilities on ${report.openPorts.length} open ports`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "The scan failed";
+      if (message !== "Scan was cancelled") {
+        toast({
+          title: "Error",
+          description: message,
+          variant: "destructive"
+        });
+      }
+      checkAgent();
+    }
     setScanning(false);
+  };
 
+  const cancelScan = () => {
+    agentRef.current?.cancel();
     toast({
-      title: "Scan Complete",
-      description: `Found ${detectedVulns.length} potential vulnerabilities`,
+      title: "Scan Cancelled",
+      description: "Results found so far are shown below",
     });
   };
 
@@ -158,6 +181,17 @@ const VulnerabilityScanner = () => {
     }
   };
 
+  const getGradeColor = (grade: TlsGrade) => {
+    switch (grade) {
+      case "A": return "bg-green-500 text-white";
+      case "A-":
+      case "B": return "bg-yellow-500 text-black";
+      case "C":
+      case "D": return "bg-orange-500 text-white";
+      default: return "bg-red-500 text-white";
+    }
+  };
+
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
       case "critical":
@@ -187,7 +221,7 @@ const VulnerabilityScanner = () => {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Vulnerability Scan Report - ${target}</title>
+    <title>Vulnerability Scan Report - ${escapeHtml(target)}</title>
     <style>
         * { margin: 0; padding: 0; box-sizing: border-box; }
         body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background: #f8fafc; color: #1a1a1a; line-height: 1.6; }
@@ -271,6 +305,7 @@ const VulnerabilityScanner = () => {
         .severity-low { background: #16a34a; color: white; }
         
         .vuln-description { color: #64748b; margin-bottom: 20px; }
+        .vuln-evidence { font-family: monospace; font-size: 0.9rem; background: #f1f5f9; padding: 10px; border-radius: 6px; margin-bottom: 20px; word-break: break-word; }
         .risks-fixes { display: grid; grid-template-columns: 1fr 1fr; gap: 20px; }
         .risks, .fixes { }
         .section-subtitle { font-weight: 600; margin-bottom: 10px; }
@@ -307,11 +342,13 @@ const VulnerabilityScanner = () => {
     <div class="container">
         <div class="report-header">
             <h1>🔍 Vulnerability Scan Report</h1>
-            <div class="subtitle">Security Assessment for ${target}</div>
+            <div class="subtitle">Security Assessment for ${escapeHtml(target)}</div>
             <div class="target-info">
-                <strong>Target:</strong> ${target} | 
+                <strong>Target:</strong> ${escapeHtml(target)} | 
                 <strong>Scan Type:</strong> ${scanType} | 
                 <strong>Date:</strong> ${new Date().toLocaleString()}
+                ${website && website.chain.length > 0 ? `<br><strong>Redirect chain:</strong> ${website.chain.map((hop) => `${hop.status} ${escapeHtml(hop.url)}`).join(' → ')}` : ''}
+                ${openPorts.filter((port) => port.tls).map((port) => `<br><strong>TLS grade ${escapeHtml(`${port.host}:${port.port}`)}:</strong> ${port.tls!.grade} (${port.tls!.protocols.join(', ')})`).join('')}
             </div>
         </div>
 
@@ -347,23 +384,25 @@ const VulnerabilityScanner = () => {
                 <div class="vuln-item vuln-${vuln.severity}">
                     <div class="vuln-header">
                         <div>
-                            <div class="vuln-service">${vuln.service}${vuln.port ? ` (Port ${vuln.port})` : ''}</div>
-                            <div class="vuln-title">${vuln.vulnerability}</div>
+                            <div class="vuln-service">${escapeHtml(vuln.service)}${vuln.host ? ` on ${escapeHtml(vuln.host)}` : ''}${vuln.port ? ` (Port ${vuln.port})` : ''}</div>
+                            <div class="vuln-title">${escapeHtml(vuln.vulnerability)}</div>
                         </div>
                         <div class="severity-badge severity-${vuln.severity}">${vuln.severity}</div>
                     </div>
-                    <div class="vuln-description">${vuln.description}</div>
+                    <div class="vuln-description">${escapeHtml(vuln.description)}</div>
+                    ${vuln.evidence ? `<div class="vuln-evidence"><strong>Evidence:</strong> ${escapeHtml(vuln.evidence)}</div>` : ''}
+                    ${vuln.cve ? `<div class="vuln-evidence"><strong>CVE:</strong> <a href="${escapeHtml(nvdLink(vuln.cve.id))}">${escapeHtml(vuln.cve.id)}</a>${vuln.cve.cvss ? ` | <strong>CVSS ${vuln.cve.cvss.version}:</strong> ${vuln.cve.cvss.score} ${escapeHtml(vuln.cve.cvss.vector)}` : ''}${vuln.cve.references.slice(0, MAX_REFERENCES).map((reference) => `<br><a href="${escapeHtml(reference.url)}">${escapeHtml(reference.url)}</a>`).join('')}</div>` : ''}
                     <div class="risks-fixes">
                         <div class="risks">
                             <div class="section-subtitle">Potential Risks</div>
                             <ul class="risk-list">
-                                ${vuln.risks.map(risk => `<li>${risk}</li>`).join('')}
+                                ${vuln.risks.map(risk => `<li>${escapeHtml(risk)}</li>`).join('')}
                             </ul>
                         </div>
                         <div class="fixes">
                             <div class="section-subtitle">Recommended Fixes</div>
                             <ul class="fix-list">
-                                ${vuln.fixes.map(fix => `<li>${fix}</li>`).join('')}
+                                ${vuln.fixes.map(fix => `<li>${escapeHtml(fix)}</li>`).join('')}
                             </ul>
                         </div>
                     </div>
@@ -406,6 +445,16 @@ const VulnerabilityScanner = () => {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          {agentError && (
+            <Alert className="bg-slate-700/50 border border-slate-600">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="text-slate-300">
+                {agentError} Scans run from a small agent on this machine, because the browser cannot open
+                connections to other services itself.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <Tabs value={scanType} onValueChange={(value) => setScanType(value as "network" | "website")}>
             <TabsList className="bg-slate-700">
               <TabsTrigger value="network" className="flex items-center gap-2">
@@ -434,20 +483,97 @@ const VulnerabilityScanner = () => {
             >
               {scanning ? "Scanning..." : "Start Scan"}
             </Button>
+            {scanning && (
+              <Button onClick={cancelScan} variant="ghost" className="text-slate-400">
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            )}
           </div>
 
           {scanning && (
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-slate-400">Scanning in progress...</span>
+                <span className="text-slate-400">{stage || "Scanning in progress..."}</span>
                 <span className="text-cyan-400">{Math.round(progress)}%</span>
               </div>
               <Progress value={progress} className="h-2" />
             </div>
           )}
+
+          {openPorts.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-slate-400">Open ports:</span>
+              {openPorts.map((port) => (
+                <Badge
+                  key={`${port.host}:${port.port}`}
+                  variant="outline"
+                  className="text-xs text-slate-300"
+                  title={port.banner}
+                >
+                  {port.host}:{port.port} {port.service}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {openPorts.some((port) => port.tls) && (
+            <div className="space-y-2">
+              {openPorts.map(({ host, port, tls }) => tls && (
+                <div
+                  key={`${host}:${port}`}
+                  className="p-3 rounded-lg bg-slate-700/50 border border-slate-600 space-y-1 text-sm"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge className={getGradeColor(tls.grade)}>TLS {tls.grade}</Badge>
+                    {tls.grade === "T" && (
+                      <Badge variant="outline" className="text-xs text-slate-300">
+                        {tls.gradeIgnoringTrust} if trust issues are ignored
+                      </Badge>
+                    )}
+                    <span className="text-white">{host}:{port}</span>
+                    <span className="text-slate-400">
+                      {tls.protocols.join(", ")} · {tls.cipherSuites.length} cipher suites
+                      {tls.chain[0] && ` · certificate valid until ${tls.chain[0].validTo.slice(0, 10)}`}
+                    </span>
+                  </div>
+                  {tls.gradeReasons.length > 0 && (
+                    <ul className="list-disc list-inside text-slate-400">
+                      {tls.gradeReasons.map((reason) => <li key={reason}>{reason}</li>)}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {website && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-slate-400">Redirect chain:</span>
+              {website.error ? (
+                <span className="text-red-400">{website.error}</span>
+              ) : (
+                website.chain.map((hop, index) => (
+                  <span key={hop.url} className="flex items-center gap-2">
+                    {index > 0 && <span className="text-slate-500">→</span>}
+                    <Badge
+                      variant="outline"
+                      className={`text-xs ${hop.url.startsWith("https:") ? "text-green-400" : "text-orange-400"}`}
+                    >
+                      {hop.status} {hop.url}
+                    </Badge>
+                  </span>
+                ))
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      <ScanChecks agent={agent} available={!agentError} disabled={scanning} />
+
+      <CveFeed disabled={scanning} />
+
       {results.length > 0 && (
         <Card className="bg-slate-800/50 border border-slate-700">
           <CardHeader>
@@ -475,7 +601,7 @@ const VulnerabilityScanner = () => {
                         <span className="font-medium text-white">{vuln.service}</span>
                         {vuln.port && (
                           <Badge variant="outline" className="text-xs">
-                            Port {vuln.port}
+                            {vuln.host ? `${vuln.host}:${vuln.port}` : `Port ${vuln.port}`}
                           </Badge>
                         )}
                       </div>
@@ -486,6 +612,40 @@ const VulnerabilityScanner = () => {
                     </div>
                     <h4 className="font-semibold text-orange-400">{vuln.vulnerability}</h4>
                     <p className="text-sm text-slate-300">{vuln.description}</p>
+                    {vuln.evidence && (
+                      <p className="text-xs font-mono text-slate-400 break-words">{vuln.evidence}</p>
+                    )}
+                    {vuln.cve && (
+                      <div className="space-y-1 text-xs">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <a
+                            href={nvdLink(vuln.cve.id)}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-cyan-400 hover:underline"
+                          >
+                            {vuln.cve.id} on NVD
+                          </a>
+                          {vuln.cve.cvss && (
+                            <Badge variant="outline" className="text-xs font-mono text-slate-300">
+                              CVSS {vuln.cve.cvss.score} {vuln.cve.cvss.vector}
+                            </Badge>
+                          )}
+                        </div>
+                        {vuln.cve.references.slice(0, MAX_REFERENCES).map((reference) => (
+                          <a
+                            key={reference.url}
+                            href={reference.url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="block text-cyan-400 hover:underline break-all"
+                          >
+                            {reference.url}
+                            {reference.tags.length > 0 && <span className="text-slate-400"> ({reference.tags.join(", ")})</span>}
+                          </a>
+                        ))}
+                      </div>
+                    )}
                   </CardHeader>
                   <CardContent className="pt-0">
                     <div className="grid md:grid-cols-2 gap-4">
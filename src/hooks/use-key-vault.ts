@@ -0,0 +1,175 @@
+import * as React from "react"
+
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  VaultEntry,
+  deleteEntry,
+  deleteVault,
+  hasVault,
+  initializeVault,
+  readEntries,
+  readVaultSettings,
+  unlockVaultKey,
+  writeEntry,
+  writeVaultSettings,
+} from "@/utils/keyVault"
+
+type VaultStatus = "loading" | "empty" | "locked" | "unlocked"
+
+interface State {
+  status: VaultStatus
+  entries: VaultEntry[]
+  autoLockMinutes: number
+}
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"]
+const IDLE_CHECK_INTERVAL = 15 * 1000
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = {
+  status: "loading",
+  entries: [],
+  autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+}
+
+// The vault key only ever lives here, never in React state
+let vaultKey: CryptoKey | null = null
+let lastActivity = Date.now()
+let idleTimer: ReturnType<typeof setInterval> | null = null
+
+function setState(update: Partial<State>) {
+  memoryState = { ...memoryState, ...update }
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function markActivity() {
+  lastActivity = Date.now()
+}
+
+function startIdleWatch() {
+  stopIdleWatch()
+  markActivity()
+  ACTIVITY_EVENTS.forEach((event) =>
+    window.addEventListener(event, markActivity, { passive: true })
+  )
+  idleTimer = setInterval(() => {
+    if (Date.now() - lastActivity >= memoryState.autoLockMinutes * 60 * 1000) {
+      lockVault()
+    }
+  }, IDLE_CHECK_INTERVAL)
+}
+
+function stopIdleWatch() {
+  ACTIVITY_EVENTS.forEach((event) =>
+    window.removeEventListener(event, markActivity)
+  )
+  if (idleTimer) {
+    clearInterval(idleTimer)
+    idleTimer = null
+  }
+}
+
+async function refreshVault() {
+  const exists = await hasVault()
+  if (!exists) {
+    setState({ status: "empty", entries: [] })
+    return
+  }
+  const settings = await readVaultSettings()
+  setState({
+    status: vaultKey ? "unlocked" : "locked",
+    autoLockMinutes: settings.autoLockMinutes,
+  })
+}
+
+async function openWithKey(key: CryptoKey) {
+  const entries = await readEntries(key)
+  const settings = await readVaultSettings()
+  vaultKey = key
+  setState({
+    status: "unlocked",
+    entries,
+    autoLockMinutes: settings.autoLockMinutes,
+  })
+  startIdleWatch()
+}
+
+async function createVault(passphrase: string) {
+  await openWithKey(await initializeVault(passphrase))
+}
+
+async function unlockVault(passphrase: string) {
+  await openWithKey(await unlockVaultKey(passphrase))
+}
+
+function lockVault() {
+  vaultKey = null
+  stopIdleWatch()
+  if (memoryState.status === "unlocked") {
+    setState({ status: "locked", entries: [] })
+  }
+}
+
+function requireKey(): CryptoKey {
+  if (!vaultKey) {
+    throw new Error("The key vault is locked")
+  }
+  return vaultKey
+}
+
+async function saveVaultEntry(entry: VaultEntry) {
+  await writeEntry(requireKey(), entry)
+  const others = memoryState.entries.filter((e) => e.id !== entry.id)
+  setState({ entries: [...others, entry].sort((a, b) => a.createdAt - b.createdAt) })
+}
+
+async function removeVaultEntry(id: string) {
+  requireKey()
+  await deleteEntry(id)
+  setState({ entries: memoryState.entries.filter((e) => e.id !== id) })
+}
+
+async function setAutoLockMinutes(autoLockMinutes: number) {
+  requireKey()
+  await writeVaultSettings({ autoLockMinutes })
+  setState({ autoLockMinutes })
+}
+
+async function resetVault() {
+  lockVault()
+  await deleteVault()
+  setState({ status: "empty", entries: [], autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES })
+}
+
+function useKeyVault() {
+  const [state, setLocalState] = React.useState<State>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalState)
+    if (memoryState.status === "loading") {
+      refreshVault().catch(() => setState({ status: "empty" }))
+    }
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state,
+    createVault,
+    unlockVault,
+    lockVault,
+    saveVaultEntry,
+    removeVaultEntry,
+    setAutoLockMinutes,
+    resetVault,
+  }
+}
+
+export { useKeyVault, lockVault }
@@ -1,14 +1,20 @@
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Shield, Lock, FileText, Image, Search, Wifi, BarChart3 } from "lucide-react";
+import { Shield, Lock, FileText, Image, Search, Wifi, BarChart3, Vault } from "lucide-react";
 import TextEncryption from "@/components/TextEncryption";
+import PipelineBuilder from "@/components/PipelineBuilder";
 import FileEncryption from "@/components/FileEncryption";
+import FileSignature from "@/components/FileSignature";
 import Steganography from "@/components/Steganography";
+import AudioSteganography from "@/components/AudioSteganography";
+import TextSteganography from "@/components/TextSteganography";
+import Steganalysis from "@/components/Steganalysis";
 import VulnerabilityScanner from "@/components/VulnerabilityScanner";
 import PortScanner from "@/components/PortScanner";
 import ReportGenerator from "@/components/ReportGenerator";
 import SecurityDashboard from "@/components/SecurityDashboard";
+import KeyVault from "@/components/KeyVault";
 
 const Index = () => {
   return (
@@ -33,7 +39,7 @@ const Index = () => {
 
         {/* Main Tools */}
         <Tabs defaultValue="text" className="w-full">
-          <TabsList className="grid w-full grid-cols-6 bg-slate-800 border border-slate-700">
+          <TabsList className="grid w-full grid-cols-7 bg-slate-800 border border-slate-700">
             <TabsTrigger 
               value="text" 
               className="flex items-center gap-2 data-[state=active]:bg-cyan-600 data-[state=active]:text-white"
@@ -48,6 +54,13 @@ const Index = () => {
               <FileText className="h-4 w-4" />
               File Security
             </TabsTrigger>
+            <TabsTrigger 
+              value="vault" 
+              className="flex items-center gap-2 data-[state=active]:bg-cyan-600 data-[state=active]:text-white"
+            >
+              <Vault className="h-4 w-4" />
+              Key Vault
+            </TabsTrigger>
             <TabsTrigger 
               value="steganography" 
               className="flex items-center gap-2 data-[state=active]:bg-cyan-600 data-[state=active]:text-white"
@@ -78,16 +91,25 @@ const Index = () => {
             </TabsTrigger>
           </TabsList>
 
-          <TabsContent value="text" className="mt-6">
+          <TabsContent value="text" className="mt-6 space-y-6">
             <TextEncryption />
+            <PipelineBuilder />
           </TabsContent>
 
-          <TabsContent value="file" className="mt-6">
+          <TabsContent value="file" className="mt-6 space-y-6">
             <FileEncryption />
+            <FileSignature />
+          </TabsContent>
+
+          <TabsContent value="vault" className="mt-6">
+            <KeyVault />
           </TabsContent>
 
-          <TabsContent value="steganography" className="mt-6">
+          <TabsContent value="steganography" className="mt-6 space-y-6">
             <Steganography />
+            <AudioSteganography />
+            <TextSteganography />
+            <Steganalysis />
           </TabsContent>
 
           <TabsContent value="vulnerability" className="mt-6">
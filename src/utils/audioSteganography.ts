@@ -0,0 +1,340 @@
+// Steganography in 16-bit PCM WAV audio, alongside the image engine.
+//
+// Two methods, which extraction tells apart by itself:
+//   - LSB: the low 1-4 bits of every sample of every channel. Large capacity
+//     and inaudible, but lost to any lossy encoding or resampling.
+//   - Phase coding: the first channel is cut into segments of 2^n samples.
+//     The phases of the first segment's frequency bins are set to +pi/2 for
+//     a 0 bit and -pi/2 for a 1, and every later segment is rotated by the
+//     same amount, which keeps the phase differences between segments that
+//     the ear is sensitive to. Capacity is under half a segment.
+//
+// The hidden data is the same payload as in images (see stegoPayload.ts),
+// sealed and scattered in a keyed order when there is a passphrase (see
+// stegoCrypto.ts).
+
+import { SEAL_OVERHEAD, ScatterOrder, deriveStegoKeys, keyedPermutation, sealPayload } from './stegoCrypto';
+import { PAYLOAD_HEADER_LENGTH, StegoPayload, encodeFilePayload, encodeTextPayload, readPayload } from './stegoPayload';
+import { LsbCursor } from './stegoLayout';
+import { PcmAudio, decodeWav, encodeWav, frameCount } from './wavCodec';
+import { DEFAULT_TEXT_ENCODING, TextEncodingId } from './textCodec';
+import { SteganographyResult, toResult } from './steganography';
+
+export type AudioStegoMethod = 'lsb' | 'phase';
+
+export interface AudioStegoMethodInfo {
+  name: string;
+  description: string;
+}
+
+export const AUDIO_STEGO_METHODS: Record<AudioStegoMethod, AudioStegoMethodInfo> = {
+  'lsb': { name: 'LSB', description: 'Low bits of every sample; large capacity, but any lossy encoding or resampling destroys it' },
+  'phase': { name: 'Phase coding', description: 'Phases of the opening segment of the first channel; small capacity, hard to hear' }
+};
+
+export const MAX_LSB_BITS = 4;
+
+// Phase coding segments: the shortest used, and the smallest amplitude (in
+// sample units) a carrying frequency is raised to, so that rounding the
+// samples back to integers cannot flip its phase
+const MIN_SEGMENT = 1024;
+const PHASE_MIN_AMPLITUDE = 0.25;
+
+export interface AudioSteganographyOptions {
+  /** How text is turned into bytes */
+  encoding?: TextEncodingId;
+  /** Encrypt and scatter the data; the same passphrase is needed to extract it */
+  passphrase?: string;
+  method?: AudioStegoMethod;
+  /** Low bits used per sample by the LSB method */
+  lsbBits?: number;
+}
+
+// cos and sin of -2*pi*k/n for k < n/2, per FFT length
+const twiddleCache = new Map<number, [Float64Array, Float64Array]>();
+
+function twiddles(n: number): [Float64Array, Float64Array] {
+  let table = twiddleCache.get(n);
+  if (!table) {
+    const cos = new Float64Array(n / 2);
+    const sin = new Float64Array(n / 2);
+    for (let k = 0; k < n / 2; k++) {
+      cos[k] = Math.cos((2 * Math.PI * k) / n);
+      sin[k] = -Math.sin((2 * Math.PI * k) / n);
+    }
+    table = [cos, sin];
+    twiddleCache.set(n, table);
+  }
+  return table;
+}
+
+/**
+ * In-place radix-2 FFT; the length must be a power of two
+ */
+function fft(re: Float64Array, im: Float64Array, inverse = false) {
+  const n = re.length;
+  const [cos, sin] = twiddles(n);
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wRe = cos[k * step];
+        const wIm = inverse ? -sin[k * step] : sin[k * step];
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+/**
+ * One segment of the first channel as the real part of re, starting at `frame`
+ */
+function readSegment(audio: PcmAudio, view: DataView, frame: number, re: Float64Array, im: Float64Array) {
+  for (let i = 0; i < re.length; i++) {
+    re[i] = view.getInt16((frame + i) * audio.channels * 2, true);
+    im[i] = 0;
+  }
+}
+
+function writeSegment(audio: PcmAudio, view: DataView, frame: number, re: Float64Array) {
+  for (let i = 0; i < re.length; i++) {
+    view.setInt16((frame + i) * audio.channels * 2, Math.max(-32768, Math.min(32767, Math.round(re[i]))), true);
+  }
+}
+
+/**
+ * Longest phase coding segment the audio has room for, or 0 if it is too short
+ */
+function maxSegmentLength(audio: PcmAudio): number {
+  const frames = frameCount(audio);
+  if (frames < MIN_SEGMENT) return 0;
+  return 2 ** Math.floor(Math.log2(frames));
+}
+
+const segmentBits = (segment: number) => segment / 2 - 1;
+
+/**
+ * The frequency bin that carries each bit: lowest first, or in a keyed order
+ */
+function binOrder(segment: number, scatterKey?: Uint8Array): Uint32Array {
+  if (scatterKey) return keyedPermutation(scatterKey, segmentBits(segment));
+  return Uint32Array.from({ length: segmentBits(segment) }, (_, i) => i);
+}
+
+/**
+ * Bytes of message or file the audio can hold with the method
+ */
+export function audioCapacity(audio: PcmAudio, method: AudioStegoMethod, lsbBits: number, withPassphrase: boolean): number {
+  const bits = method === 'lsb'
+    ? frameCount(audio) * audio.channels * lsbBits
+    : Math.max(segmentBits(maxSegmentLength(audio)), 0);
+  const overhead = PAYLOAD_HEADER_LENGTH + (withPassphrase ? SEAL_OVERHEAD : 0);
+  return Math.max(Math.floor(bits / 8) - overhead, 0);
+}
+
+function lsbOrder(audio: PcmAudio, scatterKey?: Uint8Array): () => number {
+  const samples = frameCount(audio) * audio.channels;
+  // Each sample's low bits live in its first (little-endian) byte
+  if (scatterKey) {
+    const order = new ScatterOrder(scatterKey, samples);
+    return () => order.next() * 2;
+  }
+  let sample = 0;
+  return () => {
+    if (sample >= samples) {
+      throw new Error('The carrier has no unused positions left');
+    }
+    return 2 * sample++;
+  };
+}
+
+function embedPhase(audio: PcmAudio, data: Uint8Array, scatterKey?: Uint8Array) {
+  const bits = data.length * 8;
+  let segment = MIN_SEGMENT;
+  while (segmentBits(segment) < bits) segment *= 2;
+  const order = binOrder(segment, scatterKey);
+  const view = new DataView(audio.data.buffer, audio.data.byteOffset, audio.data.byteLength);
+  const re = new Float64Array(segment);
+  const im = new Float64Array(segment);
+  const floor = (PHASE_MIN_AMPLITUDE * segment) / 2;
+
+  // New phases for the first segment, and the rotation that gives each bin
+  readSegment(audio, view, 0, re, im);
+  fft(re, im);
+  const rotations = new Map<number, number>();
+  for (let i = 0; i < bits; i++) {
+    const bin = order[i] + 1;
+    const bit = (data[i >> 3] >> (7 - (i & 7))) & 1;
+    const phase = bit ? -Math.PI / 2 : Math.PI / 2;
+    rotations.set(bin, phase - Math.atan2(im[bin], re[bin]));
+  }
+
+  for (let start = 0; start + segment <= frameCount(audio); start += segment) {
+    readSegment(audio, view, start, re, im);
+    fft(re, im);
+    for (const [bin, rotation] of rotations) {
+      let magnitude = Math.hypot(re[bin], im[bin]);
+      if (start === 0) magnitude = Math.max(magnitude, floor);
+      const phase = Math.atan2(im[bin], re[bin]) + rotation;
+      re[bin] = magnitude * Math.cos(phase);
+      im[bin] = magnitude * Math.sin(phase);
+      // Keep the spectrum conjugate-symmetric so the samples stay real
+      re[segment - bin] = re[bin];
+      im[segment - bin] = -im[bin];
+    }
+    fft(re, im, true);
+    writeSegment(audio, view, start, re);
+  }
+
+  // Loud audio clips when its phases move, which can flip bits
+  const written = readPhase(audio, segment, order);
+  if (data.some((byte, i) => written[i] !== byte)) {
+    throw new Error('The audio is too loud for phase coding to survive clipping - try LSB or a quieter recording');
+  }
+}
+
+/**
+ * Every byte phase coding with this segment length could carry
+ */
+function readPhase(audio: PcmAudio, segment: number, order: Uint32Array): Uint8Array {
+  const view = new DataView(audio.data.buffer, audio.data.byteOffset, audio.data.byteLength);
+  const re = new Float64Array(segment);
+  const im = new Float64Array(segment);
+  readSegment(audio, view, 0, re, im);
+  fft(re, im);
+  const bytes = new Uint8Array(Math.floor(segmentBits(segment) / 8));
+  for (let i = 0; i < bytes.length * 8; i++) {
+    if (im[order[i] + 1] < 0) bytes[i >> 3] |= 1 << (7 - (i & 7));
+  }
+  return bytes;
+}
+
+/**
+ * Hide a complete payload (header and body) in the audio; returns new audio
+ */
+export async function embedInAudio(
+  audio: PcmAudio,
+  payload: Uint8Array,
+  { method = 'lsb', lsbBits = 1, passphrase = '' }: AudioSteganographyOptions = {}
+): Promise<PcmAudio> {
+  if (!Number.isInteger(lsbBits) || lsbBits < 1 || lsbBits > MAX_LSB_BITS) {
+    throw new Error(`Bits per sample must be between 1 and ${MAX_LSB_BITS}`);
+  }
+  const capacity = audioCapacity(audio, method, lsbBits, Boolean(passphrase));
+  const needed = payload.length - PAYLOAD_HEADER_LENGTH;
+  if (needed > capacity) {
+    throw new Error(`Too much data to hide. Max capacity: ${capacity} bytes, needed ${needed}`);
+  }
+
+  const keys = passphrase ? await deriveStegoKeys(passphrase, frameCount(audio), audio.channels) : null;
+  const data = keys ? await sealPayload(keys, payload) : payload;
+  const stego = { ...audio, data: audio.data.slice() };
+  if (method === 'lsb') {
+    new LsbCursor(stego.data, lsbBits, lsbOrder(stego, keys?.scatterKey)).write(data);
+  } else {
+    embedPhase(stego, data, keys?.scatterKey);
+  }
+  return stego;
+}
+
+/**
+ * Find a payload hidden by embedInAudio with any method and setting
+ */
+export async function extractFromAudio(audio: PcmAudio, passphrase = ''): Promise<StegoPayload | null> {
+  const keys = passphrase ? await deriveStegoKeys(passphrase, frameCount(audio), audio.channels) : null;
+  const samples = frameCount(audio) * audio.channels;
+
+  for (let lsbBits = 1; lsbBits <= MAX_LSB_BITS; lsbBits++) {
+    const cursor = new LsbCursor(audio.data, lsbBits, lsbOrder(audio, keys?.scatterKey));
+    const payload = await readPayload(length => cursor.read(length), Math.floor((samples * lsbBits) / 8), keys);
+    if (payload) return payload;
+  }
+
+  for (let segment = MIN_SEGMENT; segment <= maxSegmentLength(audio); segment *= 2) {
+    const bytes = readPhase(audio, segment, binOrder(segment, keys?.scatterKey));
+    let offset = 0;
+    const read = (length: number) => bytes.subarray(offset, (offset += length));
+    const payload = await readPayload(read, bytes.length, keys);
+    if (payload) return payload;
+  }
+  return null;
+}
+
+/**
+ * Parse a WAV file for embedding or extraction
+ */
+export async function loadWav(wavFile: Blob): Promise<PcmAudio> {
+  return decodeWav(new Uint8Array(await wavFile.arrayBuffer()));
+}
+
+async function embedPayloadInWav(wavFile: File, payload: Uint8Array, options: AudioSteganographyOptions): Promise<SteganographyResult> {
+  const stego = await embedInAudio(await loadWav(wavFile), payload, options);
+  return { success: true, blob: new Blob([encodeWav(stego)], { type: 'audio/wav' }) };
+}
+
+/**
+ * Embed a message into a WAV file
+ */
+export async function embedMessageInWav(
+  wavFile: File,
+  message: string,
+  options: AudioSteganographyOptions = {}
+): Promise<SteganographyResult> {
+  try {
+    const payload = encodeTextPayload(message, options.encoding ?? DEFAULT_TEXT_ENCODING);
+    return await embedPayloadInWav(wavFile, payload, options);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Failed to embed message" };
+  }
+}
+
+/**
+ * Embed a whole file (any type) into a WAV file, keeping its name
+ */
+export async function embedFileInWav(
+  wavFile: File,
+  secretFile: File,
+  options: AudioSteganographyOptions = {}
+): Promise<SteganographyResult> {
+  try {
+    const payload = encodeFilePayload(secretFile.name, new Uint8Array(await secretFile.arrayBuffer()));
+    return await embedPayloadInWav(wavFile, payload, options);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Failed to embed file" };
+  }
+}
+
+/**
+ * Extract a hidden message or file from a WAV file
+ */
+export async function extractFromWav(wavFile: File, options: AudioSteganographyOptions = {}): Promise<SteganographyResult> {
+  try {
+    const payload = await extractFromAudio(await loadWav(wavFile), options.passphrase);
+    return payload ? toResult(payload) : { success: false, error: "No hidden message found in this audio" };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Failed to decode message from audio" };
+  }
+}
@@ -0,0 +1,34 @@
+// Base64 helpers for binary data (btoa/atob only handle Latin-1 strings)
+
+/**
+ * Encode bytes as standard base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Build the string in slices to stay under the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Encode bytes as unpadded URL-safe base64 (RFC 4648 section 5)
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode standard or URL-safe base64, ignoring whitespace and missing padding
+ */
+export function base64ToBytes(text: string): Uint8Array {
+  const normalized = text.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized + '='.repeat((4 - (normalized.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
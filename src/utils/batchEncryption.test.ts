@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createManifest, parseManifest, verifyManifestHmac, verifyManifestSignature } from './batchEncryption';
+import { KdfId, KdfParams } from './containerFormat';
+import { exportSigningKey, generateSigningKeyPair, importVerificationKey } from './fileSignature';
+
+const files = [{ path: 'docs/a.txt', encryptedPath: 'docs/a.txt.enc', size: 3, sha256: '00'.repeat(32) }];
+const kdf: KdfParams = { id: KdfId.PBKDF2_SHA256, iterations: 1000 };
+
+const roundTrip = (manifest: object) => parseManifest(JSON.stringify(manifest));
+
+describe('batch manifests', () => {
+  it('verifies a password manifest HMAC with the right password only', async () => {
+    const manifest = roundTrip(await createManifest(files, { password: 'secret', kdf }));
+    expect(manifest.signature).toBeUndefined();
+    expect(await verifyManifestHmac(manifest, 'secret')).toBe(true);
+    expect(await verifyManifestHmac(manifest, 'wrong')).toBe(false);
+    expect(await verifyManifestHmac({ ...manifest, files: [{ ...files[0], size: 4 }] }, 'secret')).toBe(false);
+  });
+
+  it.each(['ECDSA-P256', 'Ed25519'] as const)('lets anyone check a %s signed manifest', async (algorithm) => {
+    const key = await generateSigningKeyPair(algorithm);
+    const manifest = roundTrip(await createManifest(files, { signingKey: key }));
+    expect(manifest.hmac).toBeUndefined();
+
+    const anyone = await verifyManifestSignature(manifest);
+    expect(anyone.valid).toBe(true);
+    expect(anyone.message).toContain('compare it with the sender');
+    const publicOnly = await importVerificationKey(await exportSigningKey(key, 'public', 'pem'));
+    expect((await verifyManifestSignature(manifest, publicOnly)).valid).toBe(true);
+
+    const other = await generateSigningKeyPair(algorithm);
+    expect(await verifyManifestSignature(manifest, other)).toMatchObject({ valid: false, message: expect.stringContaining('different key') });
+    expect((await verifyManifestSignature({ ...manifest, files: [{ ...files[0], path: 'docs/b.txt' }] })).valid).toBe(false);
+  });
+
+  it('signs the HMAC too when a password manifest is also signed', async () => {
+    const key = await generateSigningKeyPair('ECDSA-P256');
+    const manifest = roundTrip(await createManifest(files, { signingKey: key, password: 'secret', kdf }));
+    expect(await verifyManifestHmac(manifest, 'secret')).toBe(true);
+    expect((await verifyManifestSignature(manifest, key)).valid).toBe(true);
+    expect((await verifyManifestSignature({ ...manifest, hmac: 'ff'.repeat(32) }, key)).valid).toBe(false);
+  });
+
+  it('rejects a signature that swaps in another public key', async () => {
+    const key = await generateSigningKeyPair('Ed25519');
+    const other = await generateSigningKeyPair('Ed25519');
+    const manifest = roundTrip(await createManifest(files, { signingKey: key }));
+    const swapped = { ...manifest.signature!, publicKey: await exportSigningKey(other, 'public', 'pem') };
+    expect((await verifyManifestSignature({ ...manifest, signature: swapped })).valid).toBe(false);
+  });
+
+  it('needs a signing key or a password', async () => {
+    await expect(createManifest(files, {})).rejects.toThrow('A manifest needs a signing key or a password');
+    const manifest = await createManifest(files, { password: 'secret', kdf });
+    expect(() => roundTrip({ ...manifest, hmac: undefined })).toThrow('Invalid manifest - unrecognized format');
+  });
+
+  it('still reads version 1 manifests, which only carry an HMAC', async () => {
+    const manifest = await createManifest(files, { password: 'secret', kdf });
+    expect(roundTrip({ ...manifest, version: 1 }).version).toBe(1);
+    const key = await generateSigningKeyPair('Ed25519');
+    const signed = await createManifest(files, { signingKey: key, password: 'secret', kdf });
+    expect(() => roundTrip({ ...signed, version: 1 })).toThrow('Unsupported manifest version 1');
+  });
+
+  it.each([
+    [{ id: KdfId.PBKDF2_SHA256, iterations: 0xffffffff }, 'PBKDF2 iterations is above the limit'],
+    [{ id: KdfId.ARGON2ID, memory: 0xffffffff, passes: 2, parallelism: 4 }, 'MiB is above the limit'],
+    [{ id: KdfId.PBKDF2_SHA256, iterations: '1000' }, 'bad PBKDF2 iteration count'],
+    [{ id: KdfId.NONE }, 'must be derived from a password'],
+    [{ id: 9 }, 'unsupported key derivation function']
+  ])('rejects KDF parameters %o before deriving a key', async (badKdf, message) => {
+    const manifest = await createManifest(files, { password: 'secret', kdf });
+    expect(() => roundTrip({ ...manifest, kdf: badKdf })).toThrow(`Invalid manifest - `);
+    expect(() => roundTrip({ ...manifest, kdf: badKdf })).toThrow(message);
+  });
+});
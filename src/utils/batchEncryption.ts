@@ -0,0 +1,528 @@
+// Batch and folder encryption.
+//
+// Two output layouts are supported:
+//   archive     - every file is packed into one SXAR archive, which is then
+//                 encrypted as a single container with type ARCHIVE_TYPE
+//   individual  - one .enc per file, plus manifest.json listing paths and
+//                 SHA-256 hashes, signed with an ECDSA P-256 or Ed25519 key
+//                 that anyone can check, and in password mode also
+//                 authenticated with an HMAC keyed from the password
+//
+// SXAR layout (integers are big-endian):
+//   "SXAR" | version u8 | { record length u32 | JSON record | content }* | u32 0
+
+import { KdfId, KdfParams, kdfParamsProblem } from './containerFormat';
+import { FileMetadata, KDF_PRESETS, OutputTarget, deriveKeyBits } from './fileEncryption';
+import { Sha256, hashFile, toHex } from './digest';
+import { base64ToBytes, bytesToBase64 } from './base64';
+import { createNestedFileStream, sanitizeFileName } from './fileSave';
+import {
+  SIGNATURE_ALGORITHMS,
+  SignatureAlgorithm,
+  SigningKey,
+  exportSigningKey,
+  importVerificationKey,
+  signStatement,
+  verifyStatement
+} from './fileSignature';
+import { formatFingerprint } from './publicKeyCrypto';
+import { ZipWriter } from './zipWriter';
+
+export interface BatchItem {
+  file: File;
+  /** Relative path using "/" separators, e.g. "case-118/photos/a.jpg" */
+  path: string;
+}
+
+export interface ArchiveEntry {
+  path: string;
+  type: string;
+  size: number;
+  lastModified: number;
+  sha256: string;
+}
+
+export interface ManifestFile {
+  path: string;
+  encryptedPath: string;
+  size: number;
+  sha256: string;
+}
+
+export interface ManifestSignature {
+  algorithm: SignatureAlgorithm;
+  /** PEM public key of the signer, so the manifest can be checked on its own */
+  publicKey: string;
+  /** Hex SHA-256 of the signer's public key, to compare with the one expected */
+  keyFingerprint: string;
+  /** Base64 signature over the manifest fields and the two above */
+  value: string;
+}
+
+export interface BatchManifest {
+  format: string;
+  version: number;
+  createdAt: string;
+  /** HMAC key derivation, present when the batch was encrypted with a password */
+  kdf?: KdfParams;
+  /** Base64 salt for the HMAC key */
+  salt?: string;
+  files: ManifestFile[];
+  /** Hex HMAC-SHA256 over all of the above */
+  hmac?: string;
+  signature?: ManifestSignature;
+}
+
+export interface ManifestOptions {
+  /** Private key that signs the manifest */
+  signingKey?: SigningKey;
+  /** Password for the HMAC, in password mode */
+  password?: string;
+  kdf?: KdfParams;
+}
+
+export interface ManifestCheck {
+  valid: boolean;
+  message: string;
+}
+
+export const ARCHIVE_TYPE = 'application/x-securex-archive';
+export const ARCHIVE_EXTENSION = '.sxar';
+export const MANIFEST_NAME = 'manifest.json';
+
+const ARCHIVE_MAGIC = [0x53, 0x58, 0x41, 0x52]; // "SXAR"
+const ARCHIVE_VERSION = 1;
+const MAX_RECORD_LENGTH = 64 * 1024;
+const MANIFEST_FORMAT = 'securex-batch-manifest';
+// Version 1 manifests carry only the HMAC
+const MANIFEST_VERSION = 2;
+const MANIFEST_STATEMENT_PREFIX = 'securex-batch-manifest v2\n';
+
+/**
+ * Normalize a relative path, rejecting anything that could escape the output folder
+ */
+export function normalizePath(path: string): string {
+  const segments = path.split(/[\\/]/).filter(segment => segment && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) {
+    throw new Error(`Unsafe path "${path}"`);
+  }
+  return segments.map(segment => sanitizeFileName(segment, '_')).join('/');
+}
+
+/**
+ * Items from an <input type="file" multiple> or webkitdirectory picker
+ */
+export function itemsFromFileList(files: FileList | File[]): BatchItem[] {
+  return Array.from(files).map(file => ({
+    file,
+    path: normalizePath(file.webkitRelativePath || file.name)
+  }));
+}
+
+function readDirectory(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function walkEntry(entry: FileSystemEntry, items: BatchItem[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    items.push({ file, path: normalizePath(entry.fullPath) });
+    return;
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns results in batches until it returns an empty list
+    for (;;) {
+      const children = await readDirectory(reader);
+      if (children.length === 0) break;
+      for (const child of children) {
+        await walkEntry(child, items);
+      }
+    }
+  }
+}
+
+/**
+ * Items from a drag-and-drop, descending into dropped folders
+ */
+export async function collectDroppedItems(dataTransfer: DataTransfer): Promise<BatchItem[]> {
+  // Entries must be taken synchronously, before the drop event returns
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+  if (entries.length === 0) {
+    return itemsFromFileList(dataTransfer.files);
+  }
+
+  const items: BatchItem[] = [];
+  for (const entry of entries) {
+    await walkEntry(entry, items);
+  }
+  return items;
+}
+
+/**
+ * The selected or dropped folder when every item lives inside the same one, else null
+ */
+export function batchRoot(items: BatchItem[]): string | null {
+  const roots = new Set(items.map(item => item.path.split('/')[0]));
+  const allNested = items.every(item => item.path.includes('/'));
+  return roots.size === 1 && allNested ? [...roots][0] : null;
+}
+
+function encodeRecord(entry: ArchiveEntry): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(entry));
+  const record = new Uint8Array(4 + json.length);
+  new DataView(record.buffer).setUint32(0, json.length);
+  record.set(json, 4);
+  return record;
+}
+
+function isArchiveEntry(value: unknown): value is ArchiveEntry {
+  const e = value as ArchiveEntry;
+  return typeof e === 'object' && e !== null &&
+    typeof e.path === 'string' &&
+    typeof e.type === 'string' &&
+    Number.isSafeInteger(e.size) && e.size >= 0 &&
+    typeof e.lastModified === 'number' &&
+    typeof e.sha256 === 'string' && /^[0-9a-f]{64}$/.test(e.sha256);
+}
+
+/**
+ * Pack files into an SXAR archive. The result is a lazily composed File, so
+ * nothing is read into memory; each file is hashed once for its record.
+ */
+export async function buildArchive(
+  items: BatchItem[],
+  name: string,
+  onItemProgress?: (index: number, processed: number, total: number) => void
+): Promise<File> {
+  const parts: BlobPart[] = [new Uint8Array([...ARCHIVE_MAGIC, ARCHIVE_VERSION])];
+  for (let index = 0; index < items.length; index++) {
+    const { file, path } = items[index];
+    const digest = await hashFile(file, new Sha256(), (processed, total) => onItemProgress?.(index, processed, total));
+    onItemProgress?.(index, file.size, file.size);
+    parts.push(encodeRecord({
+      path,
+      type: file.type,
+      size: file.size,
+      lastModified: file.lastModified,
+      sha256: toHex(digest)
+    }), file);
+  }
+  parts.push(new Uint8Array(4));
+  return new File(parts, `${name}${ARCHIVE_EXTENSION}`, { type: ARCHIVE_TYPE, lastModified: Date.now() });
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b;
+  const combined = new Uint8Array(a.length + b.length);
+  combined.set(a);
+  combined.set(b, a.length);
+  return combined;
+}
+
+/**
+ * Incremental SXAR parser that streams each entry's content to its own output
+ */
+class ArchiveParser {
+  entries: ArchiveEntry[] = [];
+  private buffer = new Uint8Array(0);
+  private state: 'magic' | 'record' | 'content' | 'end' = 'magic';
+  private entry: ArchiveEntry | null = null;
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+  private remaining = 0;
+  private hasher = new Sha256();
+
+  constructor(
+    private openEntry: (entry: ArchiveEntry) => Promise<WritableStream<Uint8Array>>,
+    private onEntryDone?: (entry: ArchiveEntry) => void
+  ) {}
+
+  async push(chunk: Uint8Array) {
+    this.buffer = concat(this.buffer, chunk);
+
+    for (;;) {
+      if (this.state === 'magic') {
+        if (this.buffer.length < 5) return;
+        if (!ARCHIVE_MAGIC.every((byte, i) => this.buffer[i] === byte) || this.buffer[4] !== ARCHIVE_VERSION) {
+          throw new Error('Invalid archive - unknown format or version');
+        }
+        this.buffer = this.buffer.subarray(5);
+        this.state = 'record';
+      } else if (this.state === 'record') {
+        if (this.buffer.length < 4) return;
+        const length = new DataView(this.buffer.buffer, this.buffer.byteOffset).getUint32(0);
+        if (length === 0) {
+          this.buffer = this.buffer.subarray(4);
+          this.state = 'end';
+          continue;
+        }
+        if (length > MAX_RECORD_LENGTH) {
+          throw new Error('Invalid archive - entry record is too large');
+        }
+        if (this.buffer.length < 4 + length) return;
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(new TextDecoder().decode(this.buffer.subarray(4, 4 + length)));
+        } catch {
+          parsed = null;
+        }
+        if (!isArchiveEntry(parsed)) {
+          throw new Error('Invalid archive - malformed entry record');
+        }
+        this.buffer = this.buffer.subarray(4 + length);
+        this.entry = { ...parsed, path: normalizePath(parsed.path) };
+        this.writer = (await this.openEntry(this.entry)).getWriter();
+        this.hasher = new Sha256();
+        this.remaining = this.entry.size;
+        this.state = 'content';
+      } else if (this.state === 'content') {
+        const take = Math.min(this.remaining, this.buffer.length);
+        if (take > 0) {
+          const piece = this.buffer.subarray(0, take);
+          this.hasher.update(piece);
+          await this.writer!.write(piece);
+          this.remaining -= take;
+          this.buffer = this.buffer.subarray(take);
+        }
+        if (this.remaining > 0) return;
+        await this.finishEntry();
+        this.state = 'record';
+      } else {
+        if (this.buffer.length > 0) {
+          throw new Error('Invalid archive - unexpected data after the last entry');
+        }
+        return;
+      }
+    }
+  }
+
+  private async finishEntry() {
+    const entry = this.entry!;
+    if (toHex(this.hasher.digest()) !== entry.sha256) {
+      throw new Error(`Integrity check failed for ${entry.path}`);
+    }
+    await this.writer!.close();
+    this.writer = null;
+    this.entries.push(entry);
+    this.onEntryDone?.(entry);
+  }
+
+  finish() {
+    if (this.state !== 'end') {
+      throw new Error('Invalid archive - it is truncated');
+    }
+  }
+
+  async abort() {
+    await this.writer?.abort().catch(() => undefined);
+  }
+}
+
+/**
+ * WritableStream that unpacks an SXAR archive, opening one output per entry
+ */
+export function createArchiveExtractor(
+  openEntry: (entry: ArchiveEntry) => Promise<WritableStream<Uint8Array>>,
+  onEntryDone?: (entry: ArchiveEntry) => void
+): WritableStream<Uint8Array> {
+  const parser = new ArchiveParser(openEntry, onEntryDone);
+  return new WritableStream({
+    write: (chunk) => parser.push(chunk),
+    close: () => parser.finish(),
+    abort: () => parser.abort()
+  });
+}
+
+/**
+ * Decryption target inside a chosen folder: archives are unpacked below
+ * `basePath`, any other file is written to `basePath` + fileName(metadata)
+ */
+export function folderOutput(
+  directory: FileSystemDirectoryHandle,
+  basePath: string,
+  fileName: (metadata: FileMetadata | null) => string,
+  onEntryDone?: (entry: ArchiveEntry) => void
+): OutputTarget {
+  return async (metadata) => metadata?.type === ARCHIVE_TYPE
+    ? createArchiveExtractor((entry) => createNestedFileStream(directory, basePath + entry.path), onEntryDone)
+    : createNestedFileStream(directory, basePath + sanitizeFileName(fileName(metadata), 'decrypted'));
+}
+
+/**
+ * Repack a decrypted SXAR archive as a ZIP download (for browsers without
+ * directory access)
+ */
+export async function archiveToZip(archive: Blob, zip = new ZipWriter(), basePath = ''): Promise<{ zip: ZipWriter; entries: ArchiveEntry[] }> {
+  const entries: ArchiveEntry[] = [];
+  await archive.stream().pipeTo(createArchiveExtractor(
+    async (entry) => zip.entryStream(basePath + entry.path, entry.lastModified),
+    (entry) => entries.push(entry)
+  ));
+  return { zip, entries };
+}
+
+// Stable serialization of everything the HMAC covers
+function manifestBody(manifest: Omit<BatchManifest, 'hmac' | 'signature'>): Uint8Array {
+  const kdf = manifest.kdf ? Object.entries(manifest.kdf).sort(([a], [b]) => a.localeCompare(b)) : null;
+  return new TextEncoder().encode(JSON.stringify([
+    manifest.format,
+    manifest.version,
+    manifest.createdAt,
+    kdf,
+    manifest.salt ?? null,
+    manifest.files.map(f => [f.path, f.encryptedPath, f.size, f.sha256])
+  ]));
+}
+
+// What the signature covers: the HMAC'd fields, the HMAC itself and the signer
+function manifestStatement(manifest: Omit<BatchManifest, 'signature'>, signature: Omit<ManifestSignature, 'value'>): Uint8Array {
+  return new TextEncoder().encode(MANIFEST_STATEMENT_PREFIX + JSON.stringify([
+    new TextDecoder().decode(manifestBody(manifest)),
+    manifest.hmac ?? null,
+    signature.algorithm,
+    signature.publicKey,
+    signature.keyFingerprint
+  ]));
+}
+
+async function manifestKey(password: string, salt: Uint8Array, kdf: KdfParams): Promise<CryptoKey> {
+  const raw = await deriveKeyBits(password, salt, kdf);
+  return crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/**
+ * Build the manifest for an individual-files batch, signed with the signing
+ * key and, given a password, also authenticated with an HMAC keyed from it
+ */
+export async function createManifest(files: ManifestFile[], options: ManifestOptions): Promise<BatchManifest> {
+  const { signingKey, password, kdf = KDF_PRESETS.pbkdf2.kdf } = options;
+  if (!signingKey && password === undefined) {
+    throw new Error('A manifest needs a signing key or a password');
+  }
+  let manifest: BatchManifest = {
+    format: MANIFEST_FORMAT,
+    version: MANIFEST_VERSION,
+    createdAt: new Date().toISOString(),
+    files
+  };
+
+  if (password !== undefined) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const body = { ...manifest, kdf, salt: bytesToBase64(salt) };
+    const key = await manifestKey(password, salt, kdf);
+    const hmac = await crypto.subtle.sign('HMAC', key, manifestBody(body));
+    manifest = { ...body, hmac: toHex(new Uint8Array(hmac)) };
+  }
+
+  if (signingKey) {
+    const signer = {
+      algorithm: signingKey.algorithm,
+      publicKey: await exportSigningKey(signingKey, 'public', 'pem'),
+      keyFingerprint: signingKey.fingerprint
+    };
+    const value = await signStatement(signingKey, manifestStatement(manifest, signer));
+    manifest = { ...manifest, signature: { ...signer, value } };
+  }
+  return manifest;
+}
+
+function isManifestSignature(value: unknown): value is ManifestSignature {
+  const signature = value as ManifestSignature;
+  return typeof signature === 'object' && signature !== null &&
+    signature.algorithm in SIGNATURE_ALGORITHMS &&
+    typeof signature.publicKey === 'string' &&
+    typeof signature.keyFingerprint === 'string' && /^[0-9a-f]{64}$/.test(signature.keyFingerprint) &&
+    typeof signature.value === 'string';
+}
+
+/**
+ * Parse a manifest.json, checking its shape but not its signature or HMAC
+ */
+export function parseManifest(text: string): BatchManifest {
+  let manifest: BatchManifest;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid manifest - not valid JSON');
+  }
+  const hasHmac = manifest?.hmac !== undefined;
+  const valid = manifest?.format === MANIFEST_FORMAT &&
+    (hasHmac || manifest.signature !== undefined) &&
+    (!hasHmac || (
+      typeof manifest.kdf === 'object' && manifest.kdf !== null &&
+      typeof manifest.salt === 'string' &&
+      typeof manifest.hmac === 'string' && /^[0-9a-f]{64}$/.test(manifest.hmac)
+    )) &&
+    (manifest.signature === undefined || isManifestSignature(manifest.signature)) &&
+    Array.isArray(manifest.files) &&
+    manifest.files.every(f =>
+      typeof f?.path === 'string' && typeof f.encryptedPath === 'string' &&
+      Number.isSafeInteger(f.size) && typeof f.sha256 === 'string');
+  if (!valid) {
+    throw new Error('Invalid manifest - unrecognized format');
+  }
+  if (manifest.version !== MANIFEST_VERSION && !(manifest.version === 1 && hasHmac && !manifest.signature)) {
+    throw new Error(`Unsupported manifest version ${manifest.version}`);
+  }
+  if (manifest.kdf) {
+    // The KDF parameters come from the file and are used before the HMAC can be
+    // checked, so they get the same limits as a container header
+    const problem = manifest.kdf.id === KdfId.NONE
+      ? 'the HMAC key must be derived from a password'
+      : kdfParamsProblem(manifest.kdf);
+    if (problem) {
+      throw new Error(`Invalid manifest - ${problem}`);
+    }
+  }
+  return manifest;
+}
+
+/**
+ * Check the manifest HMAC; false means a wrong password, a modified manifest
+ * or one made without a password
+ */
+export async function verifyManifestHmac(manifest: BatchManifest, password: string): Promise<boolean> {
+  if (!manifest.hmac || !manifest.kdf || manifest.salt === undefined) return false;
+  const key = await manifestKey(password, base64ToBytes(manifest.salt), manifest.kdf);
+  const hmac = new Uint8Array(manifest.hmac.match(/../g)!.map(byte => parseInt(byte, 16)));
+  return crypto.subtle.verify('HMAC', key, hmac, manifestBody(manifest));
+}
+
+/**
+ * Check the manifest signature with the public key it carries. When the
+ * expected signer is given the manifest must also have been signed by that
+ * key; otherwise the message names the signer's fingerprint so it can be
+ * compared with the one the sender published.
+ */
+export async function verifyManifestSignature(manifest: BatchManifest, signer?: SigningKey): Promise<ManifestCheck> {
+  const { signature } = manifest;
+  if (!signature) {
+    return { valid: false, message: 'The manifest is not signed' };
+  }
+  const fingerprint = formatFingerprint(signature.keyFingerprint);
+  if (signer && signer.fingerprint !== signature.keyFingerprint) {
+    return { valid: false, message: `The manifest was signed by a different key (${fingerprint})` };
+  }
+
+  let key: SigningKey;
+  try {
+    key = await importVerificationKey(signature.publicKey);
+  } catch {
+    return { valid: false, message: 'The manifest signature carries an unreadable public key' };
+  }
+  if (key.algorithm !== signature.algorithm || key.fingerprint !== signature.keyFingerprint) {
+    return { valid: false, message: 'The manifest signature does not match the public key it carries' };
+  }
+  if (!(await verifyStatement(key, signature.value, manifestStatement(manifest, signature)))) {
+    return { valid: false, message: 'The manifest signature is not valid - the manifest has been modified' };
+  }
+  return {
+    valid: true,
+    message: signer
+      ? `Manifest signed by the expected key ${fingerprint}`
+      : `Manifest signed by key ${fingerprint} - compare it with the sender's fingerprint`
+  };
+}
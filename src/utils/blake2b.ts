@@ -0,0 +1,163 @@
+// BLAKE2b (RFC 7693) in pure TypeScript, used by the Argon2 implementation.
+// 64-bit words are stored as pairs of 32-bit halves, low half first.
+
+const BLAKE2B_IV32 = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85,
+  0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c,
+  0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19
+]);
+
+const SIGMA = [
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+  14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3,
+  11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4,
+  7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8,
+  9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13,
+  2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9,
+  12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11,
+  13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10,
+  6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5,
+  10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0,
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+  14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3
+].map(x => x * 2);
+
+const BLOCK_BYTES = 128;
+
+/**
+ * Incremental BLAKE2b hash with a configurable digest length (1-64 bytes)
+ */
+export class Blake2b {
+  private h = new Uint32Array(16);
+  private v = new Uint32Array(32);
+  private m = new Uint32Array(32);
+  private buffer = new Uint8Array(BLOCK_BYTES);
+  private bufferLength = 0;
+  private counter = 0;
+
+  constructor(private outLength = 64) {
+    if (outLength < 1 || outLength > 64) {
+      throw new Error('BLAKE2b digest length must be between 1 and 64 bytes');
+    }
+    this.h.set(BLAKE2B_IV32);
+    this.h[0] ^= 0x01010000 ^ outLength;
+  }
+
+  update(data: Uint8Array): this {
+    for (let i = 0; i < data.length; i++) {
+      // Only compress a full buffer once more input arrives, so the
+      // final block can be flagged as last in digest()
+      if (this.bufferLength === BLOCK_BYTES) {
+        this.counter += BLOCK_BYTES;
+        this.compress(false);
+        this.bufferLength = 0;
+      }
+      this.buffer[this.bufferLength++] = data[i];
+    }
+    return this;
+  }
+
+  digest(): Uint8Array {
+    this.counter += this.bufferLength;
+    this.buffer.fill(0, this.bufferLength);
+    this.compress(true);
+
+    const out = new Uint8Array(this.outLength);
+    for (let i = 0; i < this.outLength; i++) {
+      out[i] = this.h[i >> 2] >>> (8 * (i & 3));
+    }
+    return out;
+  }
+
+  private compress(last: boolean) {
+    const { v, m, h, buffer } = this;
+
+    for (let i = 0; i < 16; i++) {
+      v[i] = h[i];
+      v[i + 16] = BLAKE2B_IV32[i];
+    }
+    // 128-bit byte counter; inputs here never exceed 2^53 bytes
+    v[24] ^= this.counter >>> 0;
+    v[25] ^= Math.floor(this.counter / 0x100000000);
+    if (last) {
+      v[28] = ~v[28];
+      v[29] = ~v[29];
+    }
+
+    for (let i = 0; i < 32; i++) {
+      const o = i * 4;
+      m[i] = buffer[o] | (buffer[o + 1] << 8) | (buffer[o + 2] << 16) | (buffer[o + 3] << 24);
+    }
+
+    for (let round = 0; round < 12; round++) {
+      const s = round * 16;
+      mix(v, m, 0, 8, 16, 24, SIGMA[s], SIGMA[s + 1]);
+      mix(v, m, 2, 10, 18, 26, SIGMA[s + 2], SIGMA[s + 3]);
+      mix(v, m, 4, 12, 20, 28, SIGMA[s + 4], SIGMA[s + 5]);
+      mix(v, m, 6, 14, 22, 30, SIGMA[s + 6], SIGMA[s + 7]);
+      mix(v, m, 0, 10, 20, 30, SIGMA[s + 8], SIGMA[s + 9]);
+      mix(v, m, 2, 12, 22, 24, SIGMA[s + 10], SIGMA[s + 11]);
+      mix(v, m, 4, 14, 16, 26, SIGMA[s + 12], SIGMA[s + 13]);
+      mix(v, m, 6, 8, 18, 28, SIGMA[s + 14], SIGMA[s + 15]);
+    }
+
+    for (let i = 0; i < 16; i++) {
+      h[i] ^= v[i] ^ v[i + 16];
+    }
+  }
+}
+
+// v[a] += v[b] as 64-bit words
+function add64(v: Uint32Array, a: number, b: number) {
+  const lo = v[a] + v[b];
+  v[a + 1] = v[a + 1] + v[b + 1] + (lo >= 0x100000000 ? 1 : 0);
+  v[a] = lo;
+}
+
+// v[a] += (hi:lo) as 64-bit words
+function add64Const(v: Uint32Array, a: number, lo: number, hi: number) {
+  const sum = v[a] + lo;
+  v[a + 1] = v[a + 1] + hi + (sum >= 0x100000000 ? 1 : 0);
+  v[a] = sum;
+}
+
+// The BLAKE2b G function; a, b, c, d index 64-bit words in v, x and y in m
+function mix(v: Uint32Array, m: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number) {
+  add64(v, a, b);
+  add64Const(v, a, m[x], m[x + 1]);
+
+  let lo = v[d] ^ v[a];
+  let hi = v[d + 1] ^ v[a + 1];
+  v[d] = hi;
+  v[d + 1] = lo;
+
+  add64(v, c, d);
+
+  lo = v[b] ^ v[c];
+  hi = v[b + 1] ^ v[c + 1];
+  v[b] = (lo >>> 24) ^ (hi << 8);
+  v[b + 1] = (hi >>> 24) ^ (lo << 8);
+
+  add64(v, a, b);
+  add64Const(v, a, m[y], m[y + 1]);
+
+  lo = v[d] ^ v[a];
+  hi = v[d + 1] ^ v[a + 1];
+  v[d] = (lo >>> 16) ^ (hi << 16);
+  v[d + 1] = (hi >>> 16) ^ (lo << 16);
+
+  add64(v, c, d);
+
+  lo = v[b] ^ v[c];
+  hi = v[b + 1] ^ v[c + 1];
+  v[b] = (hi >>> 31) ^ (lo << 1);
+  v[b + 1] = (lo >>> 31) ^ (hi << 1);
+}
+
+/**
+ * One-shot BLAKE2b digest
+ */
+export function blake2b(data: Uint8Array, outLength = 64): Uint8Array {
+  return new Blake2b(outLength).update(data).digest();
+}
@@ -0,0 +1,212 @@
+// ChaCha20-Poly1305 AEAD (RFC 8439) in pure TypeScript. Web Crypto does not
+// offer it, and it is used for text messages, so everything is done in memory.
+// Poly1305 keeps its 130-bit accumulator in ten 13-bit limbs so that every
+// intermediate product stays well inside the exact range of a double.
+
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// "expand 32-byte k"
+const SIGMA = [0x61707865, 0x3320646e, 0x79622d32, 0x6b206574];
+
+function readUint32LE(data: Uint8Array, offset: number): number {
+  return (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+}
+
+function quarterRound(x: Uint32Array, a: number, b: number, c: number, d: number) {
+  x[a] += x[b]; x[d] ^= x[a]; x[d] = (x[d] << 16) | (x[d] >>> 16);
+  x[c] += x[d]; x[b] ^= x[c]; x[b] = (x[b] << 12) | (x[b] >>> 20);
+  x[a] += x[b]; x[d] ^= x[a]; x[d] = (x[d] << 8) | (x[d] >>> 24);
+  x[c] += x[d]; x[b] ^= x[c]; x[b] = (x[b] << 7) | (x[b] >>> 25);
+}
+
+/**
+ * One 64-byte ChaCha20 keystream block
+ */
+function chachaBlock(key: Uint8Array, counter: number, nonce: Uint8Array, out: Uint8Array) {
+  const state = new Uint32Array(16);
+  state.set(SIGMA);
+  for (let i = 0; i < 8; i++) state[4 + i] = readUint32LE(key, i * 4);
+  state[12] = counter;
+  for (let i = 0; i < 3; i++) state[13 + i] = readUint32LE(nonce, i * 4);
+
+  const x = new Uint32Array(state);
+  for (let round = 0; round < 10; round++) {
+    quarterRound(x, 0, 4, 8, 12);
+    quarterRound(x, 1, 5, 9, 13);
+    quarterRound(x, 2, 6, 10, 14);
+    quarterRound(x, 3, 7, 11, 15);
+    quarterRound(x, 0, 5, 10, 15);
+    quarterRound(x, 1, 6, 11, 12);
+    quarterRound(x, 2, 7, 8, 13);
+    quarterRound(x, 3, 4, 9, 14);
+  }
+
+  const view = new DataView(out.buffer, out.byteOffset, out.byteLength);
+  for (let i = 0; i < 16; i++) view.setUint32(i * 4, (x[i] + state[i]) >>> 0, true);
+}
+
+/**
+ * XOR `data` with the ChaCha20 keystream starting at block `counter`
+ */
+export function chacha20(key: Uint8Array, nonce: Uint8Array, data: Uint8Array, counter = 0): Uint8Array {
+  if (key.length !== KEY_LENGTH || nonce.length !== NONCE_LENGTH) {
+    throw new Error('ChaCha20 needs a 32-byte key and a 12-byte nonce');
+  }
+  const out = new Uint8Array(data.length);
+  const block = new Uint8Array(64);
+  for (let offset = 0; offset < data.length; offset += 64, counter++) {
+    chachaBlock(key, counter >>> 0, nonce, block);
+    const end = Math.min(offset + 64, data.length);
+    for (let i = offset; i < end; i++) out[i] = data[i] ^ block[i - offset];
+  }
+  return out;
+}
+
+/**
+ * Bits [13i, 13i + 13) of a 16-byte little-endian number, for i = 0..9
+ */
+function toLimbs(bytes: Uint8Array, offset: number, limbs: Float64Array) {
+  for (let i = 0; i < 10; i++) {
+    const bit = i * 13;
+    const byte = offset + (bit >>> 3);
+    const end = offset + 16;
+    const value = (byte < end ? bytes[byte] : 0)
+      | (byte + 1 < end ? bytes[byte + 1] << 8 : 0)
+      | (byte + 2 < end ? bytes[byte + 2] << 16 : 0);
+    limbs[i] = (value >>> (bit & 7)) & 0x1fff;
+  }
+}
+
+/**
+ * Propagate carries through the limbs, folding 2^130 back in as 5.
+ * Returns the amount folded; once it is zero every limb is below 2^13.
+ */
+function carry(h: Float64Array): number {
+  let c = 0;
+  for (let i = 0; i < 10; i++) {
+    h[i] += c;
+    c = Math.floor(h[i] / 0x2000);
+    h[i] -= c * 0x2000;
+  }
+  h[0] += c * 5;
+  return c;
+}
+
+/**
+ * Poly1305 one-time authenticator over `message` with a 32-byte key
+ */
+export function poly1305(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const clamped = key.slice(0, 16);
+  clamped[3] &= 15; clamped[7] &= 15; clamped[11] &= 15; clamped[15] &= 15;
+  clamped[4] &= 252; clamped[8] &= 252; clamped[12] &= 252;
+
+  const r = new Float64Array(10);
+  toLimbs(clamped, 0, r);
+  const h = new Float64Array(10);
+  const m = new Float64Array(10);
+  const d = new Float64Array(10);
+  const block = new Uint8Array(16);
+
+  for (let offset = 0; offset < message.length; offset += 16) {
+    const length = Math.min(16, message.length - offset);
+    block.fill(0);
+    block.set(message.subarray(offset, offset + length));
+    toLimbs(block, 0, m);
+    // Append the 0x01 byte after the block: bit 128 for full blocks
+    const padBit = length * 8;
+    m[Math.floor(padBit / 13)] += 2 ** (padBit % 13);
+    for (let i = 0; i < 10; i++) h[i] += m[i];
+
+    // h *= r (mod 2^130 - 5); limb products that pass 2^130 wrap around times 5
+    for (let i = 0; i < 10; i++) {
+      let sum = 0;
+      for (let j = 0; j < 10; j++) {
+        sum += h[j] * (j <= i ? r[i - j] : 5 * r[i + 10 - j]);
+      }
+      d[i] = sum;
+    }
+    h.set(d);
+    carry(h);
+    carry(h);
+  }
+
+  // Fully reduce: use h + 5 - 2^130 when h >= 2^130 - 5
+  while (carry(h) !== 0) {
+    // repeat until no carry is left to fold back in
+  }
+  const g = new Float64Array(10);
+  let c = 5;
+  for (let i = 0; i < 10; i++) {
+    g[i] = h[i] + c;
+    c = g[i] >>> 13;
+    g[i] &= 0x1fff;
+  }
+  const reduced = c > 0 ? g : h;
+
+  // Take the low 128 bits and add s = key[16..32] modulo 2^128
+  const tag = new Uint8Array(TAG_LENGTH);
+  let acc = 0, accBits = 0, word = 0, sum = 0;
+  for (let i = 0; i < 10 && word < 8; i++) {
+    acc |= reduced[i] << accBits;
+    accBits += 13;
+    while (accBits >= 16 && word < 8) {
+      sum = (acc & 0xffff) + (key[16 + word * 2] | (key[17 + word * 2] << 8)) + (sum >>> 16);
+      tag[word * 2] = sum & 0xff;
+      tag[word * 2 + 1] = (sum >>> 8) & 0xff;
+      acc >>>= 16;
+      accBits -= 16;
+      word++;
+    }
+  }
+  return tag;
+}
+
+function macData(aad: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const pad = (n: number) => (16 - (n % 16)) % 16;
+  const aadEnd = aad.length + pad(aad.length);
+  const ctEnd = aadEnd + ciphertext.length + pad(ciphertext.length);
+  const data = new Uint8Array(ctEnd + 16);
+  data.set(aad);
+  data.set(ciphertext, aadEnd);
+  const view = new DataView(data.buffer);
+  view.setUint32(ctEnd, aad.length, true);
+  view.setUint32(ctEnd + 8, ciphertext.length, true);
+  return data;
+}
+
+function oneTimeKey(key: Uint8Array, nonce: Uint8Array): Uint8Array {
+  return chacha20(key, nonce, new Uint8Array(32));
+}
+
+/**
+ * Encrypt and authenticate; returns ciphertext followed by the 16-byte tag
+ */
+export function chacha20Poly1305Encrypt(key: Uint8Array, nonce: Uint8Array, plaintext: Uint8Array, aad = new Uint8Array(0)): Uint8Array {
+  const ciphertext = chacha20(key, nonce, plaintext, 1);
+  const tag = poly1305(oneTimeKey(key, nonce), macData(aad, ciphertext));
+  const out = new Uint8Array(ciphertext.length + TAG_LENGTH);
+  out.set(ciphertext);
+  out.set(tag, ciphertext.length);
+  return out;
+}
+
+/**
+ * Check the tag and decrypt; throws if the data or additional data was modified
+ */
+export function chacha20Poly1305Decrypt(key: Uint8Array, nonce: Uint8Array, sealed: Uint8Array, aad = new Uint8Array(0)): Uint8Array {
+  if (sealed.length < TAG_LENGTH) {
+    throw new Error('ChaCha20-Poly1305 data is truncated');
+  }
+  const ciphertext = sealed.subarray(0, sealed.length - TAG_LENGTH);
+  const expected = poly1305(oneTimeKey(key, nonce), macData(aad, ciphertext));
+  let diff = 0;
+  for (let i = 0; i < TAG_LENGTH; i++) {
+    diff |= expected[i] ^ sealed[ciphertext.length + i];
+  }
+  if (diff !== 0) {
+    throw new Error('ChaCha20-Poly1305 authentication failed');
+  }
+  return chacha20(key, nonce, ciphertext, 1);
+}
@@ -0,0 +1,319 @@
+// Classical ciphers for CTF practice and teaching. None of these provide any
+// real security; see textEncryption.ts for actual encryption.
+//
+// Letter ciphers keep case and pass other characters through unchanged,
+// except Playfair, which works on letter pairs and returns upper-case text.
+
+import { DEFAULT_TEXT_ENCODING, TextEncodingId, decodeText, encodeText } from './textCodec';
+
+export type ClassicalCipher =
+  | 'caesar'
+  | 'rot13'
+  | 'atbash'
+  | 'affine'
+  | 'vigenere'
+  | 'playfair'
+  | 'railfence'
+  | 'columnar'
+  | 'xor'
+  | 'substitution';
+
+export interface ClassicalCipherInfo {
+  name: string;
+  /** Label for the key field, or undefined when the cipher has no key */
+  keyLabel?: string;
+  keyPlaceholder?: string;
+  /** Whether cryptanalysis.ts can break it without the key */
+  crackable: boolean;
+}
+
+export const CLASSICAL_CIPHERS: Record<ClassicalCipher, ClassicalCipherInfo> = {
+  caesar: { name: 'Caesar Cipher', keyLabel: 'Shift Value', keyPlaceholder: 'Enter shift value (default: 3)', crackable: true },
+  rot13: { name: 'ROT13', crackable: false },
+  atbash: { name: 'Atbash', crackable: false },
+  affine: { name: 'Affine Cipher', keyLabel: 'Key (a,b)', keyPlaceholder: 'e.g. 5,8 - a must be coprime with 26', crackable: true },
+  vigenere: { name: 'Vigenère Cipher', keyLabel: 'Keyword', keyPlaceholder: 'e.g. LEMON', crackable: true },
+  playfair: { name: 'Playfair Cipher', keyLabel: 'Keyword', keyPlaceholder: 'e.g. PLAYFAIR EXAMPLE', crackable: false },
+  railfence: { name: 'Rail Fence', keyLabel: 'Rails', keyPlaceholder: 'Number of rails, e.g. 3', crackable: false },
+  columnar: { name: 'Columnar Transposition', keyLabel: 'Keyword', keyPlaceholder: 'e.g. ZEBRAS', crackable: false },
+  xor: { name: 'XOR (repeating key)', keyLabel: 'Key', keyPlaceholder: 'Key text; output is hex', crackable: false },
+  substitution: { name: 'Substitution Cipher', keyLabel: 'Cipher Alphabet', keyPlaceholder: '26 letters, e.g. QWERTYUIOPASDFGHJKLZXCVBNM', crackable: false }
+};
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+/**
+ * Apply `transform` to the 0-25 index of every letter, keeping case.
+ * `transform` also gets the count of letters seen so far (for keyed ciphers).
+ */
+function mapLetters(text: string, transform: (index: number, position: number) => number): string {
+  let position = 0;
+  return text.replace(/[a-zA-Z]/g, (char) => {
+    const start = char <= 'Z' ? 65 : 97;
+    const mapped = mod(transform(char.charCodeAt(0) - start, position++), 26);
+    return String.fromCharCode(mapped + start);
+  });
+}
+
+function lettersOf(key: string): number[] {
+  return key.toUpperCase().replace(/[^A-Z]/g, '').split('').map(c => c.charCodeAt(0) - 65);
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? Math.abs(a) : gcd(b, a % b);
+}
+
+function modInverse(a: number, m: number): number {
+  for (let x = 1; x < m; x++) {
+    if (mod(a * x, m) === 1) return x;
+  }
+  throw new Error(`${a} has no inverse modulo ${m}`);
+}
+
+export function caesar(text: string, shift: number, decrypt = false): string {
+  const s = decrypt ? -shift : shift;
+  return mapLetters(text, i => i + s);
+}
+
+export function rot13(text: string): string {
+  return caesar(text, 13);
+}
+
+export function atbash(text: string): string {
+  return mapLetters(text, i => 25 - i);
+}
+
+/** Affine keys: `a` values coprime with 26 */
+export const AFFINE_MULTIPLIERS = [1, 3, 5, 7, 9, 11, 15, 17, 19, 21, 23, 25];
+
+export function affine(text: string, a: number, b: number, decrypt = false): string {
+  if (gcd(a, 26) !== 1) {
+    throw new Error(`Affine key a=${a} must be coprime with 26 (one of ${AFFINE_MULTIPLIERS.join(', ')})`);
+  }
+  if (decrypt) {
+    const inverse = modInverse(mod(a, 26), 26);
+    return mapLetters(text, i => inverse * (i - b));
+  }
+  return mapLetters(text, i => a * i + b);
+}
+
+export function vigenere(text: string, key: string, decrypt = false): string {
+  const shifts = lettersOf(key);
+  if (shifts.length === 0) {
+    throw new Error('The Vigenère keyword must contain letters');
+  }
+  return mapLetters(text, (i, position) => i + (decrypt ? -1 : 1) * shifts[position % shifts.length]);
+}
+
+/**
+ * Build the 5x5 Playfair square (I and J share a cell)
+ */
+function playfairSquare(key: string): string {
+  const seen = new Set<string>();
+  for (const char of (key.toUpperCase() + ALPHABET).replace(/J/g, 'I')) {
+    if (char >= 'A' && char <= 'Z') seen.add(char);
+  }
+  return Array.from(seen).join('');
+}
+
+export function playfair(text: string, key: string, decrypt = false): string {
+  const square = playfairSquare(key);
+  const letters = text.toUpperCase().replace(/[^A-Z]/g, '').replace(/J/g, 'I');
+
+  // Split into digraphs, separating doubled letters and padding with X (or Q after an X)
+  const pairs: string[] = [];
+  if (decrypt) {
+    if (letters.length % 2 !== 0) {
+      throw new Error('Playfair ciphertext must have an even number of letters');
+    }
+    for (let i = 0; i < letters.length; i += 2) pairs.push(letters.slice(i, i + 2));
+  } else {
+    for (let i = 0; i < letters.length;) {
+      const first = letters[i];
+      let second = letters[i + 1];
+      if (second === undefined || second === first) {
+        second = first === 'X' ? 'Q' : 'X';
+        i += 1;
+      } else {
+        i += 2;
+      }
+      pairs.push(first + second);
+    }
+  }
+
+  const step = decrypt ? 4 : 1;
+  return pairs.map(([a, b]) => {
+    const ia = square.indexOf(a), ib = square.indexOf(b);
+    const ra = Math.floor(ia / 5), ca = ia % 5, rb = Math.floor(ib / 5), cb = ib % 5;
+    if (ra === rb) {
+      return square[ra * 5 + (ca + step) % 5] + square[rb * 5 + (cb + step) % 5];
+    }
+    if (ca === cb) {
+      return square[((ra + step) % 5) * 5 + ca] + square[((rb + step) % 5) * 5 + cb];
+    }
+    return square[ra * 5 + cb] + square[rb * 5 + ca];
+  }).join(decrypt ? '' : ' ');
+}
+
+/**
+ * Rail (row) of every character position in a zigzag over `rails` rows
+ */
+function railPattern(length: number, rails: number): number[] {
+  const cycle = 2 * (rails - 1);
+  return Array.from({ length }, (_, i) => {
+    const p = i % cycle;
+    return p < rails ? p : cycle - p;
+  });
+}
+
+export function railFence(text: string, rails: number, decrypt = false): string {
+  const chars = Array.from(text);
+  if (!Number.isInteger(rails) || rails < 2) {
+    throw new Error('Rail fence needs at least 2 rails');
+  }
+  if (rails >= chars.length) return text;
+
+  const pattern = railPattern(chars.length, rails);
+  // Positions in the order they are read off, rail by rail
+  const order: number[] = [];
+  for (let rail = 0; rail < rails; rail++) {
+    pattern.forEach((r, i) => { if (r === rail) order.push(i); });
+  }
+
+  const out: string[] = new Array(chars.length);
+  order.forEach((position, k) => {
+    if (decrypt) out[position] = chars[k];
+    else out[k] = chars[position];
+  });
+  return out.join('');
+}
+
+/**
+ * Column read order for a keyword: alphabetical, ties left to right
+ */
+function columnOrder(key: string): number[] {
+  const letters = key.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (letters.length < 2) {
+    throw new Error('The transposition keyword needs at least 2 letters');
+  }
+  return Array.from(letters, (char, i) => ({ char, i }))
+    .sort((x, y) => (x.char < y.char ? -1 : x.char > y.char ? 1 : x.i - y.i))
+    .map(entry => entry.i);
+}
+
+/**
+ * Columnar transposition without padding; the last row may be short
+ */
+export function columnar(text: string, key: string, decrypt = false): string {
+  const chars = Array.from(text);
+  const order = columnOrder(key);
+  const columns = order.length;
+  const rows = Math.ceil(chars.length / columns);
+  const fullColumns = chars.length % columns || columns;
+  const columnLength = (column: number) => (column < fullColumns ? rows : rows - 1);
+
+  const out: string[] = [];
+  if (decrypt) {
+    const grid: string[][] = Array.from({ length: columns }, () => []);
+    let k = 0;
+    for (const column of order) {
+      grid[column] = chars.slice(k, k + columnLength(column));
+      k += columnLength(column);
+    }
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        if (row < grid[column].length) out.push(grid[column][row]);
+      }
+    }
+  } else {
+    for (const column of order) {
+      for (let row = 0; row < columnLength(column); row++) out.push(chars[row * columns + column]);
+    }
+  }
+  return out.join('');
+}
+
+/**
+ * XOR the bytes of the text (and key) in the given encoding with a repeating
+ * key. Encryption returns hex; decryption takes hex and returns text.
+ */
+export function xorRepeating(text: string, key: string, decrypt = false, encoding: TextEncodingId = DEFAULT_TEXT_ENCODING): string {
+  const keyBytes = encodeText(key, encoding);
+  if (keyBytes.length === 0) {
+    throw new Error('Enter an XOR key');
+  }
+  let data: Uint8Array;
+  if (decrypt) {
+    const hex = text.replace(/\s+/g, '');
+    if (!/^([0-9a-fA-F]{2})*$/.test(hex)) {
+      throw new Error('XOR input must be hex when decrypting');
+    }
+    data = new Uint8Array(hex.match(/../g)?.map(h => parseInt(h, 16)) ?? []);
+  } else {
+    data = encodeText(text, encoding);
+  }
+
+  const out = data.map((byte, i) => byte ^ keyBytes[i % keyBytes.length]);
+  return decrypt
+    ? decodeText(out, encoding)
+    : Array.from(out).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function substitution(text: string, cipherAlphabet: string, decrypt = false): string {
+  const alphabet = cipherAlphabet.toUpperCase().replace(/[^A-Z]/g, '');
+  if (alphabet.length !== 26 || new Set(alphabet).size !== 26) {
+    throw new Error('The cipher alphabet must contain each of the 26 letters exactly once');
+  }
+  const forward = Array.from(alphabet, c => c.charCodeAt(0) - 65);
+  const backward: number[] = [];
+  forward.forEach((to, from) => { backward[to] = from; });
+  const table = decrypt ? backward : forward;
+  return mapLetters(text, i => table[i]);
+}
+
+function parseInteger(key: string, fallback: number): number {
+  const value = parseInt(key, 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Run any classical cipher with its key given as text, as entered in the UI.
+ * `encoding` only matters for XOR, the one cipher that works on bytes.
+ */
+export function applyClassicalCipher(
+  cipher: ClassicalCipher,
+  text: string,
+  key: string,
+  decrypt: boolean,
+  encoding: TextEncodingId = DEFAULT_TEXT_ENCODING
+): string {
+  switch (cipher) {
+    case 'caesar':
+      return caesar(text, parseInteger(key, 3), decrypt);
+    case 'rot13':
+      return rot13(text);
+    case 'atbash':
+      return atbash(text);
+    case 'affine': {
+      const [a, b] = key.split(/[\s,;]+/).filter(Boolean).map(n => parseInt(n, 10));
+      if (Number.isNaN(a) || Number.isNaN(b) || a === undefined || b === undefined) {
+        throw new Error('Enter the affine key as two numbers "a,b", e.g. 5,8');
+      }
+      return affine(text, a, b, decrypt);
+    }
+    case 'vigenere':
+      return vigenere(text, key, decrypt);
+    case 'playfair':
+      return playfair(text, key, decrypt);
+    case 'railfence':
+      return railFence(text, parseInteger(key, 3), decrypt);
+    case 'columnar':
+      return columnar(text, key, decrypt);
+    case 'xor':
+      return xorRepeating(text, key, decrypt, encoding);
+    case 'substitution':
+      return substitution(text, key, decrypt);
+  }
+}
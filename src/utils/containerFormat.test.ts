@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CipherId,
+  KdfId,
+  KdfParams,
+  MAX_ARGON2_MEMORY,
+  MAX_PBKDF2_ITERATIONS,
+  kdfParamsProblem,
+  parseHeader,
+  serializeHeader
+} from './containerFormat';
+
+const header = (kdf: KdfParams) =>
+  serializeHeader({ flags: 0, cipher: CipherId.AES_256_GCM, kdf, salt: new Uint8Array(16), iv: new Uint8Array(12) }).bytes;
+
+describe('KDF parameters in headers', () => {
+  it('accepts the strongest preset', () => {
+    const kdf: KdfParams = { id: KdfId.ARGON2ID, memory: 1024 * 1024, passes: 2, parallelism: 4 };
+    expect(parseHeader(header(kdf)).kdf).toEqual(kdf);
+    expect(parseHeader(header({ id: KdfId.PBKDF2_SHA256, iterations: 600000 })).kdf.id).toBe(KdfId.PBKDF2_SHA256);
+  });
+
+  it.each([
+    [{ id: KdfId.PBKDF2_SHA256, iterations: 0xffffffff }, 'PBKDF2 iterations is above the limit'],
+    [{ id: KdfId.PBKDF2_SHA256, iterations: 0 }, 'bad PBKDF2 iteration count'],
+    [{ id: KdfId.ARGON2ID, memory: 0xffffffff, passes: 2, parallelism: 4 }, 'MiB is above the limit'],
+    [{ id: KdfId.ARGON2ID, memory: 65536, passes: 0xffffffff, parallelism: 4 }, 'passes is above the limit'],
+    [{ id: KdfId.ARGON2ID, memory: 65536, passes: 2, parallelism: 1000 }, 'lanes is above the limit'],
+    [{ id: KdfId.ARGON2ID, memory: 4, passes: 2, parallelism: 1 }, 'bad Argon2id parameters']
+  ] as [KdfParams, string][])('rejects %o before deriving a key', (kdf, message) => {
+    expect(() => parseHeader(header(kdf))).toThrow(`Invalid encrypted file format: `);
+    expect(() => parseHeader(header(kdf))).toThrow(message);
+  });
+
+  it('checks values from JSON as well', () => {
+    expect(kdfParamsProblem({ id: KdfId.PBKDF2_SHA256, iterations: MAX_PBKDF2_ITERATIONS })).toBeNull();
+    expect(kdfParamsProblem({ id: KdfId.PBKDF2_SHA256, iterations: '1000' as unknown as number })).toBe('bad PBKDF2 iteration count');
+    expect(kdfParamsProblem({ id: KdfId.ARGON2ID, memory: MAX_ARGON2_MEMORY + 1, passes: 1, parallelism: 1 })).toMatch('above the limit');
+    expect(kdfParamsProblem({ id: 9 } as unknown as KdfParams)).toBe('unsupported key derivation function (id 9)');
+  });
+});
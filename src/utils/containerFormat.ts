@@ -0,0 +1,470 @@
+// Self-describing container format for files produced by fileEncryption.ts
+//
+// Layout (all integers big-endian):
+//
+//   offset  size  field
+//   0       4     magic "SXCF"
+//   4       1     format version
+//   5       1     flags
+//   6       4     total header length in bytes (including this prefix)
+//   10      1     cipher id
+//   11      1     KDF id
+//   12      2     KDF parameter block length (n)
+//   14      n     KDF parameters
+//   ..      1+s   salt length, salt
+//   ..      1+v   IV length, IV
+//   ..      4     chunk size (only when the CHUNKED flag is set)
+//   ..      1     recipient count (only when the RECIPIENTS flag is set),
+//                 then per recipient: type u8, key id (8), length u16, payload
+//
+// The serialized header is passed to AES-GCM as additional authenticated data,
+// so tampering with any field (e.g. lowering the iteration count) makes
+// decryption fail. Files written before the header existed are a bare
+// salt(16) || iv(12) || ciphertext blob and are parsed as "legacy v0".
+//
+// With the CHUNKED flag the plaintext is split into fixed-size chunks, each
+// sealed separately with AES-GCM under a nonce derived from the header IV,
+// the chunk counter and a final-chunk marker (see chunkNonce).
+//
+// With the METADATA flag the plaintext starts with a record describing the
+// original file (u32 length followed by UTF-8 JSON), so name, type and
+// SHA-256 are restored from inside the encrypted envelope.
+//
+// With the RECIPIENTS flag the content key is random rather than derived
+// from a password (KDF id NONE), and the header carries one wrapped copy
+// of it per public-key recipient (see publicKeyCrypto.ts).
+
+export const CONTAINER_MAGIC = new Uint8Array([0x53, 0x58, 0x43, 0x46]); // "SXCF"
+export const CONTAINER_VERSION = 1;
+export const LEGACY_VERSION = 0;
+
+export const KdfId = {
+  NONE: 0x00,
+  PBKDF2_SHA256: 0x01,
+  ARGON2ID: 0x02,
+} as const;
+
+export const CipherId = {
+  AES_256_GCM: 0x01,
+  // Only used for text messages (see textEncryption.ts)
+  CHACHA20_POLY1305: 0x02,
+} as const;
+
+const CIPHER_NAMES: Record<number, string> = {
+  [CipherId.AES_256_GCM]: 'AES-256-GCM',
+  [CipherId.CHACHA20_POLY1305]: 'ChaCha20-Poly1305',
+};
+
+export const ContainerFlag = {
+  CHUNKED: 0x01,
+  METADATA: 0x02,
+  RECIPIENTS: 0x04,
+} as const;
+
+export const RecipientType = {
+  RSA_OAEP_SHA256: 0x01,
+  ECDH_P256: 0x02,
+  X25519: 0x03,
+} as const;
+
+// Unknown flag bits are rejected so that a file from a newer writer cannot
+// be silently misread by this version.
+const KNOWN_FLAGS = ContainerFlag.CHUNKED | ContainerFlag.METADATA | ContainerFlag.RECIPIENTS;
+const KEY_ID_LENGTH = 8;
+
+export const PREFIX_LENGTH = 10;
+const LEGACY_SALT_LENGTH = 16;
+const LEGACY_IV_LENGTH = 12;
+const LEGACY_ITERATIONS = 100000;
+
+// Ceilings for KDF costs read from files: a few times the strongest preset
+// (600,000 iterations; Argon2id "paranoid" at 1 GiB, 2 passes, 4 lanes)
+export const MAX_PBKDF2_ITERATIONS = 10_000_000;
+/** KiB; twice the paranoid preset */
+export const MAX_ARGON2_MEMORY = 2 * 1024 * 1024;
+export const MAX_ARGON2_PASSES = 16;
+export const MAX_ARGON2_PARALLELISM = 64;
+
+export type KdfParams =
+  | {
+      id: typeof KdfId.NONE;
+    }
+  | {
+      id: typeof KdfId.PBKDF2_SHA256;
+      iterations: number;
+    }
+  | {
+      id: typeof KdfId.ARGON2ID;
+      /** Memory cost in KiB */
+      memory: number;
+      /** Time cost (passes over memory) */
+      passes: number;
+      parallelism: number;
+    };
+
+export interface RecipientStanza {
+  type: number;
+  /** First 8 bytes of the recipient public key fingerprint */
+  keyId: Uint8Array;
+  /** Wrapped content key, plus any ephemeral public key the type needs */
+  payload: Uint8Array;
+}
+
+export interface ContainerHeader {
+  version: number;
+  flags: number;
+  cipher: number;
+  kdf: KdfParams;
+  salt: Uint8Array;
+  iv: Uint8Array;
+  /** Plaintext bytes per chunk, present when the CHUNKED flag is set */
+  chunkSize?: number;
+  /** Wrapped content keys, present when the RECIPIENTS flag is set */
+  recipients?: RecipientStanza[];
+  /** Serialized header, used as AES-GCM additional data (empty for legacy v0) */
+  bytes: Uint8Array;
+}
+
+export type ContainerHeaderFields = Omit<ContainerHeader, 'version' | 'bytes'>;
+
+/**
+ * Minimal big-endian byte writer used to serialize headers
+ */
+class ByteWriter {
+  private parts: number[] = [];
+
+  u8(value: number) {
+    this.parts.push(value & 0xff);
+  }
+
+  u16(value: number) {
+    this.u8(value >>> 8);
+    this.u8(value);
+  }
+
+  u32(value: number) {
+    this.u16(value >>> 16);
+    this.u16(value);
+  }
+
+  bytes(data: Uint8Array) {
+    for (const byte of data) this.parts.push(byte);
+  }
+
+  get length(): number {
+    return this.parts.length;
+  }
+
+  toUint8Array(): Uint8Array {
+    return new Uint8Array(this.parts);
+  }
+}
+
+/**
+ * Bounds-checked big-endian byte reader used to parse headers
+ */
+class ByteReader {
+  offset = 0;
+
+  constructor(private data: Uint8Array, private limit = data.length) {}
+
+  private need(count: number) {
+    if (this.offset + count > this.limit) {
+      throw new Error('Invalid encrypted file format: header is truncated');
+    }
+  }
+
+  u8(): number {
+    this.need(1);
+    return this.data[this.offset++];
+  }
+
+  u16(): number {
+    return (this.u8() << 8) | this.u8();
+  }
+
+  u32(): number {
+    return ((this.u16() << 16) >>> 0) + this.u16();
+  }
+
+  bytes(count: number): Uint8Array {
+    this.need(count);
+    const slice = this.data.slice(this.offset, this.offset + count);
+    this.offset += count;
+    return slice;
+  }
+}
+
+function encodeKdfParams(kdf: KdfParams): Uint8Array {
+  const writer = new ByteWriter();
+  switch (kdf.id) {
+    case KdfId.NONE:
+      break;
+    case KdfId.PBKDF2_SHA256:
+      writer.u32(kdf.iterations);
+      break;
+    case KdfId.ARGON2ID:
+      writer.u32(kdf.memory);
+      writer.u32(kdf.passes);
+      writer.u32(kdf.parallelism);
+      break;
+    default:
+      throw new Error(`Unsupported KDF id ${(kdf as KdfParams).id}`);
+  }
+  return writer.toUint8Array();
+}
+
+/**
+ * Why KDF parameters read from a file cannot be used, or null if they can.
+ * Costs are capped as well as floored: a crafted header asking for 4 GiB of
+ * Argon2id memory or billions of PBKDF2 iterations would otherwise hang the
+ * tab before the password is ever checked.
+ */
+export function kdfParamsProblem(kdf: KdfParams): string | null {
+  const integer = (value: unknown, min: number) => Number.isSafeInteger(value) && (value as number) >= min;
+  switch (kdf?.id) {
+    case KdfId.NONE:
+      return null;
+    case KdfId.PBKDF2_SHA256:
+      if (!integer(kdf.iterations, 1)) return 'bad PBKDF2 iteration count';
+      if (kdf.iterations > MAX_PBKDF2_ITERATIONS) {
+        return `${kdf.iterations} PBKDF2 iterations is above the limit of ${MAX_PBKDF2_ITERATIONS}`;
+      }
+      return null;
+    case KdfId.ARGON2ID:
+      if (!integer(kdf.parallelism, 1) || !integer(kdf.passes, 1) || !integer(kdf.memory, 8 * kdf.parallelism)) {
+        return 'bad Argon2id parameters';
+      }
+      if (kdf.memory > MAX_ARGON2_MEMORY) {
+        return `Argon2id memory of ${Math.ceil(kdf.memory / 1024)} MiB is above the limit of ${MAX_ARGON2_MEMORY / 1024} MiB`;
+      }
+      if (kdf.passes > MAX_ARGON2_PASSES) return `${kdf.passes} Argon2id passes is above the limit of ${MAX_ARGON2_PASSES}`;
+      if (kdf.parallelism > MAX_ARGON2_PARALLELISM) {
+        return `${kdf.parallelism} Argon2id lanes is above the limit of ${MAX_ARGON2_PARALLELISM}`;
+      }
+      return null;
+    default:
+      return `unsupported key derivation function (id ${(kdf as { id?: unknown })?.id})`;
+  }
+}
+
+function decodeKdfParams(id: number, params: Uint8Array): KdfParams {
+  const reader = new ByteReader(params);
+  let kdf: KdfParams;
+  switch (id) {
+    case KdfId.NONE:
+      kdf = { id };
+      break;
+    case KdfId.PBKDF2_SHA256:
+      kdf = { id, iterations: reader.u32() };
+      break;
+    case KdfId.ARGON2ID:
+      kdf = { id, memory: reader.u32(), passes: reader.u32(), parallelism: reader.u32() };
+      break;
+    default:
+      throw new Error(`Unsupported key derivation function (id ${id})`);
+  }
+  const problem = kdfParamsProblem(kdf);
+  if (problem) {
+    throw new Error(`Invalid encrypted file format: ${problem}`);
+  }
+  return kdf;
+}
+
+function startsWithMagic(data: Uint8Array): boolean {
+  if (data.length < CONTAINER_MAGIC.length) return false;
+  return CONTAINER_MAGIC.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Total header length announced by the first PREFIX_LENGTH bytes of a file,
+ * or null when the file has no header (legacy v0)
+ */
+export function readHeaderLength(prefix: Uint8Array): number | null {
+  if (!startsWithMagic(prefix) || prefix.length < PREFIX_LENGTH) return null;
+  const reader = new ByteReader(prefix);
+  reader.offset = CONTAINER_MAGIC.length + 2;
+  return reader.u32();
+}
+
+/**
+ * Serialize a v1 container header
+ */
+export function serializeHeader(fields: ContainerHeaderFields): ContainerHeader {
+  const kdfParams = encodeKdfParams(fields.kdf);
+  if (fields.salt.length > 0xff || fields.iv.length > 0xff) {
+    throw new Error('Salt and IV must be at most 255 bytes');
+  }
+
+  const body = new ByteWriter();
+  body.u8(fields.cipher);
+  body.u8(fields.kdf.id);
+  body.u16(kdfParams.length);
+  body.bytes(kdfParams);
+  body.u8(fields.salt.length);
+  body.bytes(fields.salt);
+  body.u8(fields.iv.length);
+  body.bytes(fields.iv);
+  if (fields.flags & ContainerFlag.CHUNKED) {
+    body.u32(fields.chunkSize);
+  }
+  if (fields.flags & ContainerFlag.RECIPIENTS) {
+    const recipients = fields.recipients ?? [];
+    if (recipients.length < 1 || recipients.length > 0xff) {
+      throw new Error('Between 1 and 255 recipients are required');
+    }
+    body.u8(recipients.length);
+    for (const recipient of recipients) {
+      body.u8(recipient.type);
+      body.bytes(recipient.keyId);
+      body.u16(recipient.payload.length);
+      body.bytes(recipient.payload);
+    }
+  }
+
+  const writer = new ByteWriter();
+  writer.bytes(CONTAINER_MAGIC);
+  writer.u8(CONTAINER_VERSION);
+  writer.u8(fields.flags);
+  writer.u32(PREFIX_LENGTH + body.length);
+  writer.bytes(body.toUint8Array());
+
+  return {
+    ...fields,
+    version: CONTAINER_VERSION,
+    bytes: writer.toUint8Array()
+  };
+}
+
+/**
+ * Parse the header at the start of an encrypted file.
+ * Data without the magic prefix is treated as a legacy v0 file.
+ */
+export function parseHeader(data: Uint8Array): ContainerHeader {
+  if (!startsWithMagic(data)) {
+    if (data.length < LEGACY_SALT_LENGTH + LEGACY_IV_LENGTH) {
+      throw new Error('Invalid encrypted file format');
+    }
+    return {
+      version: LEGACY_VERSION,
+      flags: 0,
+      cipher: CipherId.AES_256_GCM,
+      kdf: { id: KdfId.PBKDF2_SHA256, iterations: LEGACY_ITERATIONS },
+      salt: data.slice(0, LEGACY_SALT_LENGTH),
+      iv: data.slice(LEGACY_SALT_LENGTH, LEGACY_SALT_LENGTH + LEGACY_IV_LENGTH),
+      bytes: new Uint8Array(0)
+    };
+  }
+
+  const prefix = new ByteReader(data);
+  prefix.bytes(CONTAINER_MAGIC.length);
+  const version = prefix.u8();
+  if (version !== CONTAINER_VERSION) {
+    throw new Error(`Unsupported encrypted file version ${version}`);
+  }
+  const flags = prefix.u8();
+  if ((flags & ~KNOWN_FLAGS) !== 0) {
+    throw new Error(`Unsupported encrypted file flags 0x${flags.toString(16)}`);
+  }
+  const headerLength = prefix.u32();
+  if (headerLength < PREFIX_LENGTH || headerLength > data.length) {
+    throw new Error('Invalid encrypted file format: bad header length');
+  }
+
+  const reader = new ByteReader(data, headerLength);
+  reader.offset = prefix.offset;
+  const cipher = reader.u8();
+  if (!(cipher in CIPHER_NAMES)) {
+    throw new Error(`Unsupported cipher (id ${cipher})`);
+  }
+  const kdfId = reader.u8();
+  const kdf = decodeKdfParams(kdfId, reader.bytes(reader.u16()));
+  const salt = reader.bytes(reader.u8());
+  const iv = reader.bytes(reader.u8());
+  let chunkSize: number | undefined;
+  if (flags & ContainerFlag.CHUNKED) {
+    chunkSize = reader.u32();
+    if (chunkSize < 1 || iv.length !== 12) {
+      throw new Error('Invalid encrypted file format: bad chunk parameters');
+    }
+  }
+  let recipients: RecipientStanza[] | undefined;
+  if (flags & ContainerFlag.RECIPIENTS) {
+    const count = reader.u8();
+    recipients = [];
+    for (let i = 0; i < count; i++) {
+      const type = reader.u8();
+      const keyId = reader.bytes(KEY_ID_LENGTH);
+      const payload = reader.bytes(reader.u16());
+      recipients.push({ type, keyId, payload });
+    }
+  }
+  // A random content key only makes sense when it is wrapped for recipients
+  if ((kdf.id === KdfId.NONE) !== Boolean(flags & ContainerFlag.RECIPIENTS)) {
+    throw new Error('Invalid encrypted file format: inconsistent key settings');
+  }
+  if (reader.offset !== headerLength) {
+    throw new Error('Invalid encrypted file format: unexpected header data');
+  }
+
+  return {
+    version,
+    flags,
+    cipher,
+    kdf,
+    salt,
+    iv,
+    chunkSize,
+    recipients,
+    bytes: data.slice(0, headerLength)
+  };
+}
+
+/**
+ * Nonce for chunk `index`: the header IV with the big-endian chunk counter
+ * XORed into bytes 7..10 and the final-chunk marker XORed into byte 11.
+ * A reordered, dropped or truncated chunk therefore fails authentication.
+ */
+export function chunkNonce(iv: Uint8Array, index: number, isFinal: boolean): Uint8Array {
+  const nonce = new Uint8Array(iv);
+  nonce[7] ^= (index >>> 24) & 0xff;
+  nonce[8] ^= (index >>> 16) & 0xff;
+  nonce[9] ^= (index >>> 8) & 0xff;
+  nonce[10] ^= index & 0xff;
+  nonce[11] ^= isFinal ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Describe key derivation settings for display
+ */
+export function describeKdf(kdf: KdfParams): string {
+  switch (kdf.id) {
+    case KdfId.NONE:
+      return 'no password';
+    case KdfId.PBKDF2_SHA256:
+      return `PBKDF2-SHA256 (${kdf.iterations.toLocaleString()} iterations)`;
+    case KdfId.ARGON2ID:
+      return `Argon2id (${formatMemory(kdf.memory)}, t=${kdf.passes}, p=${kdf.parallelism})`;
+  }
+}
+
+function formatMemory(kib: number): string {
+  return kib >= 1024 * 1024 && kib % (1024 * 1024) === 0
+    ? `${kib / (1024 * 1024)} GiB`
+    : kib >= 1024 ? `${Math.round(kib / 1024)} MiB` : `${kib} KiB`;
+}
+
+/**
+ * Describe a parsed header for display, e.g. "v1 · PBKDF2-SHA256 (600,000 iterations) · AES-256-GCM"
+ */
+export function describeHeader(header: ContainerHeader): string {
+  const version = header.version === LEGACY_VERSION ? 'legacy v0' : `v${header.version}`;
+  const kdf = header.recipients
+    ? `${header.recipients.length} public-key recipient${header.recipients.length === 1 ? '' : 's'}`
+    : describeKdf(header.kdf);
+  const cipher = header.chunkSize
+    ? `${CIPHER_NAMES[header.cipher]} (${Math.round(header.chunkSize / 1024)} KiB chunks)`
+    : CIPHER_NAMES[header.cipher];
+  return `${version} · ${kdf} · ${cipher}`;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { CpeCriterion, compareVersions, criterionMatches } from './cpe';
+import { toRecord } from './cveFeed';
+
+const openssh = (version: string) => ({ vendor: 'openbsd', product: 'openssh', version });
+const anyOpenssh = 'cpe:2.3:a:openbsd:openssh:*:*:*:*:*:*:*:*';
+
+describe('compareVersions', () => {
+  it.each([
+    ['1.2.10', '1.2.9'],
+    ['2.0', '2.0rc1'],
+    ['2.0.0', '2.0.rc1'],
+    ['2.0rc2', '2.0rc1'],
+    ['2.0rc1', '2.0beta3'],
+    ['1.0', '1.0alpha'],
+    ['8.2p1', '8.2'],
+    ['8.2p2', '8.2p1'],
+    ['8.3', '8.2p1'],
+    ['1.0.2k', '1.0.2'],
+    ['1.0.2k', '1.0.2j'],
+    ['1.1.0', '1.0.2k']
+  ])('puts %s after %s', (newer, older) => {
+    expect(compareVersions(newer, older)).toBe(1);
+    expect(compareVersions(older, newer)).toBe(-1);
+  });
+
+  it('treats case and equal versions alike', () => {
+    expect(compareVersions('1.0.2K', '1.0.2k')).toBe(0);
+    expect(compareVersions('8.2p1', '8.2p1')).toBe(0);
+  });
+});
+
+describe('criterionMatches', () => {
+  it('matches an exact version, with the CPE update as a letter release', () => {
+    const criterion = { criteria: 'cpe:2.3:a:openbsd:openssh:8.2:p1:*:*:*:*:*:*' };
+    expect(criterionMatches(criterion, openssh('8.2p1'))).toBe(true);
+    expect(criterionMatches(criterion, openssh('8.2'))).toBe(false);
+    expect(criterionMatches(criterion, openssh('8.2p2'))).toBe(false);
+  });
+
+  it('takes an update of * as any update of the version', () => {
+    const criterion = { criteria: 'cpe:2.3:a:openbsd:openssh:8.2:*:*:*:*:*:*:*' };
+    expect(criterionMatches(criterion, openssh('8.2'))).toBe(true);
+    expect(criterionMatches(criterion, openssh('8.2p1'))).toBe(true);
+    expect(criterionMatches(criterion, openssh('8.21'))).toBe(false);
+    expect(criterionMatches(criterion, openssh('8.2.1'))).toBe(false);
+  });
+
+  it('never matches a version of -', () => {
+    expect(criterionMatches({ criteria: 'cpe:2.3:a:openbsd:openssh:-:*:*:*:*:*:*:*' }, openssh('8.2'))).toBe(false);
+  });
+
+  it('checks the vendor only when it is known', () => {
+    const criterion = { criteria: 'cpe:2.3:a:openbsd:openssh:8.2:*:*:*:*:*:*:*' };
+    expect(criterionMatches(criterion, { product: 'openssh', version: '8.2' })).toBe(true);
+    expect(criterionMatches(criterion, { vendor: 'other', product: 'openssh', version: '8.2' })).toBe(false);
+    expect(criterionMatches(criterion, { vendor: 'openbsd', product: 'openssl', version: '8.2' })).toBe(false);
+  });
+
+  it.each<[CpeCriterion, string, boolean]>([
+    [{ criteria: anyOpenssh, versionStartIncluding: '8.0' }, '8.0', true],
+    [{ criteria: anyOpenssh, versionStartIncluding: '8.0' }, '7.9p1', false],
+    [{ criteria: anyOpenssh, versionStartExcluding: '8.0' }, '8.0', false],
+    [{ criteria: anyOpenssh, versionStartExcluding: '8.0' }, '8.0p1', true],
+    [{ criteria: anyOpenssh, versionEndIncluding: '8.2p1' }, '8.2p1', true],
+    [{ criteria: anyOpenssh, versionEndIncluding: '8.2p1' }, '8.3', false],
+    [{ criteria: anyOpenssh, versionEndExcluding: '9.3p2' }, '9.3p1', true],
+    [{ criteria: anyOpenssh, versionEndExcluding: '9.3p2' }, '9.3p2', false],
+    [{ criteria: anyOpenssh, versionStartIncluding: '8.0', versionEndExcluding: '9.0' }, '8.9p1', true],
+    [{ criteria: anyOpenssh, versionStartIncluding: '8.0', versionEndExcluding: '9.0' }, '9.0rc1', true],
+    [{ criteria: anyOpenssh, versionStartIncluding: '8.0', versionEndExcluding: '9.0' }, '9.0', false],
+    [{ criteria: anyOpenssh }, '1.0', true]
+  ])('range %o against %s is %s', (criterion, version, expected) => {
+    expect(criterionMatches(criterion, openssh(version))).toBe(expected);
+  });
+});
+
+describe('toRecord', () => {
+  const cve = {
+    id: 'CVE-2099-0001',
+    published: '2099-01-01T00:00:00.000',
+    lastModified: '2099-01-02T00:00:00.000',
+    descriptions: [{ lang: 'es', value: 'Descripción' }, { lang: 'en', value: 'Description' }],
+    configurations: [{
+      nodes: [
+        { cpeMatch: [{ vulnerable: true, criteria: anyOpenssh, versionEndExcluding: '9.3p2' }] },
+        { cpeMatch: [{ vulnerable: false, criteria: 'cpe:2.3:o:microsoft:windows:-:*:*:*:*:*:*:*' }] }
+      ]
+    }],
+    references: [{ url: 'https://example.test/advisory', tags: ['Patch'] }, { url: 'javascript:alert(1)' }]
+  };
+
+  it('keeps only the vulnerable entries, not the platform they run on', () => {
+    const record = toRecord(cve);
+    expect(record?.affected).toEqual([{ criteria: anyOpenssh, versionEndExcluding: '9.3p2' }]);
+    expect(record?.products).toEqual(['openssh']);
+    expect(record?.description).toBe('Description');
+    expect(record?.references).toEqual([{ url: 'https://example.test/advisory', tags: ['Patch'] }]);
+  });
+
+  it('has no record for a rejected CVE', () => {
+    expect(toRecord({ ...cve, vulnStatus: 'Rejected' })).toBeNull();
+  });
+});
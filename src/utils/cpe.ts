@@ -0,0 +1,113 @@
+// CPE 2.3 names and the version ranges NVD attaches to them in CVE
+// configurations, e.g. cpe:2.3:a:openbsd:openssh:*:*:*:*:*:*:*:* with
+// versionEndExcluding 9.3p2.
+
+import { DetectedSoftware } from './scanAgentProtocol';
+
+export interface CpeName {
+  /** a for applications, o for operating systems, h for hardware */
+  part: string;
+  vendor: string;
+  product: string;
+  /** "*" for any version, "-" for not applicable */
+  version: string;
+  update: string;
+}
+
+/** One vulnerable cpeMatch entry from an NVD configuration */
+export interface CpeCriterion {
+  criteria: string;
+  versionStartIncluding?: string;
+  versionStartExcluding?: string;
+  versionEndIncluding?: string;
+  versionEndExcluding?: string;
+}
+
+const PRE_RELEASE = /^(alpha|beta|rc|pre|dev|preview)$/;
+
+/**
+ * Split a formatted CPE 2.3 name into its fields; backslash escapes
+ * (e.g. "\:" inside a product name) are removed. Null if it is not one.
+ */
+export function parseCpe(name: string): CpeName | null {
+  const values = [''];
+  for (let i = 0; i < name.length; i++) {
+    if (name[i] === '\\' && i + 1 < name.length) values[values.length - 1] += name[++i];
+    else if (name[i] === ':') values.push('');
+    else values[values.length - 1] += name[i];
+  }
+  if (values.length < 7 || values[0] !== 'cpe' || values[1] !== '2.3') return null;
+  const [, , part, vendor, product, version, update] = values;
+  return { part, vendor, product, version, update };
+}
+
+/**
+ * A CPE version and update as one version string, the way banners show
+ * them: 8.2 with update p1 is OpenSSH 8.2p1
+ */
+export function cpeRelease({ version, update }: Pick<CpeName, 'version' | 'update'>): string {
+  return update === '*' || update === '-' || update === '' ? version : `${version}${update}`;
+}
+
+/**
+ * Order two version strings: numbers compare as numbers, letters as text,
+ * and a letter release (1.0.2k, 8.2p1) comes after the plain one, except
+ * for pre-releases such as 2.0rc1
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.toLowerCase().match(/\d+|[a-z]+/g) ?? [];
+  const right = b.toLowerCase().match(/\d+|[a-z]+/g) ?? [];
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i];
+    const y = right[i];
+    if (x === undefined) return PRE_RELEASE.test(y) ? 1 : -1;
+    if (y === undefined) return PRE_RELEASE.test(x) ? -1 : 1;
+    const xNumber = /^\d/.test(x);
+    const yNumber = /^\d/.test(y);
+    if (xNumber && yNumber) {
+      const difference = Number(x) - Number(y);
+      if (difference !== 0) return Math.sign(difference);
+    } else if (xNumber !== yNumber) {
+      // 2.0.rc1 is older than 2.0.0
+      return xNumber ? 1 : -1;
+    } else if (x !== y) {
+      return x < y ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Whether detected software falls in a criterion's name and version range
+ */
+export function criterionMatches(criterion: CpeCriterion, software: DetectedSoftware): boolean {
+  const name = parseCpe(criterion.criteria);
+  if (!name || name.product !== software.product) return false;
+  if (software.vendor && name.vendor !== software.vendor) return false;
+  if (name.version === '-') return false;
+  if (name.version !== '*') {
+    if (compareVersions(software.version, cpeRelease(name)) === 0) return true;
+    // Any update of the version: 8.2 covers 8.2p1
+    return name.update === '*' && software.version.startsWith(name.version) && /^[^\d.]/.test(software.version.slice(name.version.length));
+  }
+  const version = software.version;
+  const { versionStartIncluding, versionStartExcluding, versionEndIncluding, versionEndExcluding } = criterion;
+  if (versionStartIncluding && compareVersions(version, versionStartIncluding) < 0) return false;
+  if (versionStartExcluding && compareVersions(version, versionStartExcluding) <= 0) return false;
+  if (versionEndIncluding && compareVersions(version, versionEndIncluding) > 0) return false;
+  if (versionEndExcluding && compareVersions(version, versionEndExcluding) >= 0) return false;
+  return true;
+}
+
+/** "versions 2.4.0 to 2.4.50", for evidence */
+export function describeCriterion(criterion: CpeCriterion): string {
+  const name = parseCpe(criterion.criteria);
+  if (name && name.version !== '*') return `version ${cpeRelease(name)}`;
+  const from = criterion.versionStartIncluding
+    ? `from ${criterion.versionStartIncluding} `
+    : criterion.versionStartExcluding ? `after ${criterion.versionStartExcluding} ` : '';
+  const to = criterion.versionEndIncluding
+    ? `up to ${criterion.versionEndIncluding}`
+    : criterion.versionEndExcluding ? `before ${criterion.versionEndExcluding}` : '';
+  return from || to ? `versions ${from}${to}`.trim() : 'all versions';
+}
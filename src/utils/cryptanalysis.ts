@@ -0,0 +1,223 @@
+// Automatic cryptanalysis of the crackable classical ciphers.
+//
+// Candidates are ranked by how English they look: the average log-probability
+// per letter of single letters plus the bigrams inside each word. Caesar and
+// Affine are brute-forced; Vigenère key lengths are estimated with the index
+// of coincidence (supported by Kasiski examination), then each key letter is
+// solved as a Caesar shift by chi-squared against English letter frequencies.
+
+import { AFFINE_MULTIPLIERS, affine, caesar, vigenere } from './classicalCiphers';
+
+export interface CrackCandidate {
+  key: string;
+  plaintext: string;
+  /** Average log10 probability per letter; higher is more English-like */
+  score: number;
+}
+
+export interface KeyLengthEstimate {
+  length: number;
+  /** Mean index of coincidence of the columns; English is about 0.066, random 0.038 */
+  ioc: number;
+  /** How many repeated-sequence distances this length divides */
+  kasiski: number;
+}
+
+export interface VigenereAnalysis {
+  keyLengths: KeyLengthEstimate[];
+  candidates: CrackCandidate[];
+}
+
+// Relative letter frequencies of English text, A-Z
+const LETTER_FREQUENCIES = [
+  0.08167, 0.01492, 0.02782, 0.04253, 0.12702, 0.02228, 0.02015, 0.06094, 0.06966,
+  0.00153, 0.00772, 0.04025, 0.02406, 0.06749, 0.07507, 0.01929, 0.00095, 0.05987,
+  0.06327, 0.09056, 0.02758, 0.00978, 0.0236, 0.0015, 0.01974, 0.00074
+];
+
+// Most common English bigrams (as fractions of all bigrams); others fall back
+// to an estimate from the letter frequencies
+const COMMON_BIGRAMS: Record<string, number> = {
+  TH: 0.0356, HE: 0.0307, IN: 0.0243, ER: 0.0205, AN: 0.0199, RE: 0.0185, ON: 0.0176,
+  AT: 0.0149, EN: 0.0145, ND: 0.0135, TI: 0.0134, ES: 0.0134, OR: 0.0128, TE: 0.012,
+  OF: 0.0117, ED: 0.0117, IS: 0.0113, IT: 0.0112, AL: 0.0109, AR: 0.0107, ST: 0.0105,
+  TO: 0.0104, NT: 0.0104, NG: 0.0095, SE: 0.0093, HA: 0.0093, AS: 0.0087, OU: 0.0087,
+  IO: 0.0083, LE: 0.0083, VE: 0.0083, CO: 0.0079, ME: 0.0079, DE: 0.0076, HI: 0.0076,
+  RI: 0.0073, RO: 0.0073, IC: 0.007, NE: 0.0069, EA: 0.0069, RA: 0.0069, CE: 0.0065,
+  LI: 0.0062, CH: 0.006, LL: 0.0058, BE: 0.0058, MA: 0.0057, SI: 0.0055, OM: 0.0055,
+  UR: 0.0054
+};
+
+const LETTER_LOG = LETTER_FREQUENCIES.map(Math.log10);
+const BIGRAM_LOG = (() => {
+  const table = new Float64Array(26 * 26);
+  for (let a = 0; a < 26; a++) {
+    for (let b = 0; b < 26; b++) {
+      const known = COMMON_BIGRAMS[String.fromCharCode(65 + a, 65 + b)];
+      table[a * 26 + b] = Math.log10(known ?? Math.max(LETTER_FREQUENCIES[a] * LETTER_FREQUENCIES[b] * 0.5, 1e-6));
+    }
+  }
+  return table;
+})();
+
+const MAX_CANDIDATES = 10;
+const MAX_KEY_LENGTH = 20;
+
+function letterIndexes(text: string): number[] {
+  return Array.from(text.toUpperCase().replace(/[^A-Z]/g, ''), c => c.charCodeAt(0) - 65);
+}
+
+/**
+ * How English a text looks; only letters count, bigrams are taken within words
+ */
+export function englishScore(text: string): number {
+  let total = 0;
+  let letters = 0;
+  for (const word of text.toUpperCase().split(/[^A-Z]+/)) {
+    for (let i = 0; i < word.length; i++) {
+      const index = word.charCodeAt(i) - 65;
+      total += LETTER_LOG[index];
+      if (i > 0) total += BIGRAM_LOG[(word.charCodeAt(i - 1) - 65) * 26 + index];
+      letters++;
+    }
+  }
+  return letters > 0 ? total / letters : -Infinity;
+}
+
+function rank(candidates: CrackCandidate[]): CrackCandidate[] {
+  return candidates.sort((a, b) => b.score - a.score).slice(0, MAX_CANDIDATES);
+}
+
+function candidate(key: string, plaintext: string): CrackCandidate {
+  return { key, plaintext, score: englishScore(plaintext) };
+}
+
+/**
+ * Try all 26 shifts
+ */
+export function crackCaesar(ciphertext: string): CrackCandidate[] {
+  return rank(Array.from({ length: 26 }, (_, shift) => candidate(String(shift), caesar(ciphertext, shift, true))));
+}
+
+/**
+ * Try all 312 affine keys
+ */
+export function crackAffine(ciphertext: string): CrackCandidate[] {
+  const candidates: CrackCandidate[] = [];
+  for (const a of AFFINE_MULTIPLIERS) {
+    for (let b = 0; b < 26; b++) {
+      candidates.push(candidate(`${a},${b}`, affine(ciphertext, a, b, true)));
+    }
+  }
+  return rank(candidates);
+}
+
+export function indexOfCoincidence(letters: number[]): number {
+  if (letters.length < 2) return 0;
+  const counts = new Array(26).fill(0);
+  letters.forEach(l => counts[l]++);
+  const pairs = counts.reduce((sum, n) => sum + n * (n - 1), 0);
+  return pairs / (letters.length * (letters.length - 1));
+}
+
+/**
+ * Count, for each possible key length, the distances between repeated
+ * trigrams that it divides
+ */
+function kasiskiCounts(letters: number[], maxLength: number): number[] {
+  const counts = new Array(maxLength + 1).fill(0);
+  const lastSeen = new Map<string, number>();
+  for (let i = 0; i + 3 <= letters.length; i++) {
+    const trigram = letters.slice(i, i + 3).join(',');
+    const previous = lastSeen.get(trigram);
+    if (previous !== undefined) {
+      const distance = i - previous;
+      for (let length = 2; length <= maxLength; length++) {
+        if (distance % length === 0) counts[length]++;
+      }
+    }
+    lastSeen.set(trigram, i);
+  }
+  return counts;
+}
+
+function chiSquared(counts: number[], total: number): number {
+  let chi = 0;
+  for (let i = 0; i < 26; i++) {
+    const expected = LETTER_FREQUENCIES[i] * total;
+    chi += (counts[i] - expected) ** 2 / expected;
+  }
+  return chi;
+}
+
+/**
+ * Best Caesar shift for every column of a key of the given length
+ */
+function solveKey(letters: number[], length: number): string {
+  let key = '';
+  for (let column = 0; column < length; column++) {
+    const counts = new Array(26).fill(0);
+    let total = 0;
+    for (let i = column; i < letters.length; i += length) {
+      counts[letters[i]]++;
+      total++;
+    }
+    let best = 0, bestChi = Infinity;
+    for (let shift = 0; shift < 26; shift++) {
+      const shifted = counts.map((_, i) => counts[(i + shift) % 26]);
+      const chi = chiSquared(shifted, total);
+      if (chi < bestChi) {
+        bestChi = chi;
+        best = shift;
+      }
+    }
+    key += String.fromCharCode(65 + best);
+  }
+  return key;
+}
+
+/**
+ * Shortest repeating unit of a key, so "LEMONLEMON" is reported as "LEMON"
+ */
+function keyPeriod(key: string): string {
+  for (let length = 1; length < key.length; length++) {
+    if (key.length % length === 0 && key.slice(0, length).repeat(key.length / length) === key) {
+      return key.slice(0, length);
+    }
+  }
+  return key;
+}
+
+/**
+ * Estimate the key length and recover likely keys for a Vigenère ciphertext
+ */
+export function crackVigenere(ciphertext: string): VigenereAnalysis {
+  const letters = letterIndexes(ciphertext);
+  if (letters.length < 20) {
+    throw new Error('Need at least 20 letters of ciphertext to analyse a Vigenère cipher');
+  }
+
+  const maxLength = Math.min(MAX_KEY_LENGTH, Math.floor(letters.length / 4));
+  const kasiski = kasiskiCounts(letters, maxLength);
+  const keyLengths: KeyLengthEstimate[] = [];
+  for (let length = 1; length <= maxLength; length++) {
+    let sum = 0;
+    for (let column = 0; column < length; column++) {
+      sum += indexOfCoincidence(letters.filter((_, i) => i % length === column));
+    }
+    keyLengths.push({ length, ioc: sum / length, kasiski: kasiski[length] });
+  }
+
+  // Solve the most promising lengths; multiples of the real length score as
+  // well as the length itself and collapse to the same key below
+  const tried = new Set<string>();
+  const candidates: CrackCandidate[] = [];
+  for (const { length } of [...keyLengths].sort((a, b) => b.ioc - a.ioc).slice(0, 6)) {
+    const key = keyPeriod(solveKey(letters, length));
+    if (tried.has(key)) continue;
+    tried.add(key);
+    candidates.push(candidate(key, vigenere(ciphertext, key, true)));
+  }
+
+  return { keyLengths, candidates: rank(candidates) };
+}
@@ -0,0 +1,391 @@
+// Offline CVE data from NVD, kept in IndexedDB so scan results can be
+// matched against it without a network connection.
+//
+// Import NVD JSON 2.0 CVE files (the yearly and "modified" feeds, or saved
+// API responses), plain or gzipped. Importing a newer file refreshes the
+// index: a record is replaced when the file has a later lastModified, and
+// CVEs the file marks as rejected are removed. A CPE dictionary file in the
+// products API format adds the titles software is shown under.
+
+import { CpeCriterion, cpeRelease, criterionMatches, parseCpe } from './cpe';
+import { DetectedSoftware, OpenPort } from './scanAgentProtocol';
+
+export type CvssSeverity = 'critical' | 'high' | 'medium' | 'low' | 'none';
+
+export interface CvssScore {
+  version: '3.1' | '3.0';
+  /** e.g. "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N" */
+  vector: string;
+  score: number;
+  severity: CvssSeverity;
+}
+
+export interface CveReference {
+  url: string;
+  /** NVD's tags, e.g. "Patch", "Vendor Advisory", "Exploit" */
+  tags: string[];
+}
+
+export interface CveRecord {
+  id: string;
+  description: string;
+  published: string;
+  lastModified: string;
+  cvss?: CvssScore;
+  references: CveReference[];
+  /** Vulnerable cpeMatch entries from every configuration */
+  affected: CpeCriterion[];
+  /** CPE product names in `affected`, for the lookup index */
+  products: string[];
+}
+
+export interface CveFeedStatus {
+  cveCount: number;
+  /** CPE names with titles, from dictionary imports */
+  productCount: number;
+  importedAt?: number;
+  /** Latest lastModified of any CVE imported; newer feeds refresh records older than this */
+  lastModified?: string;
+}
+
+export interface FeedImportResult {
+  kind: 'cves' | 'products';
+  imported: number;
+  /** Rejected CVEs taken out of the index */
+  removed: number;
+  /** Records already up to date, or CVEs that name no affected products yet */
+  skipped: number;
+}
+
+export interface CveMatch {
+  host: string;
+  port: number;
+  software: DetectedSoftware;
+  /** Title from the CPE dictionary, or the product name and version */
+  softwareName: string;
+  cve: CveRecord;
+  /** The affected range the version falls in */
+  criterion: CpeCriterion;
+}
+
+interface NvdCvssMetric {
+  type?: string;
+  cvssData: { version: string; vectorString: string; baseScore: number; baseSeverity: string };
+}
+
+/** A CVE as NVD's JSON 2.0 feeds and API give it, in the parts used here */
+export interface NvdCve {
+  id: string;
+  published: string;
+  lastModified: string;
+  vulnStatus?: string;
+  descriptions?: { lang: string; value: string }[];
+  metrics?: { cvssMetricV31?: NvdCvssMetric[]; cvssMetricV30?: NvdCvssMetric[] };
+  configurations?: { nodes?: { cpeMatch?: (CpeCriterion & { vulnerable: boolean })[] }[] }[];
+  references?: { url: string; tags?: string[] }[];
+}
+
+interface NvdProduct {
+  cpe: { cpeName: string; deprecated?: boolean; titles?: { title: string; lang: string }[] };
+}
+
+interface ProductTitle {
+  cpeName: string;
+  vendor: string;
+  /** "product:release", e.g. "openssh:8.2p1" */
+  release: string;
+  title: string;
+}
+
+interface FeedMeta {
+  importedAt: number;
+  lastModified?: string;
+}
+
+const DB_NAME = 'securex-cve-feed';
+const DB_VERSION = 1;
+const CVE_STORE = 'cves';
+const PRODUCT_STORE = 'products';
+const META_STORE = 'meta';
+const META_KEY = 'feed';
+const BATCH_SIZE = 1000;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CVE_STORE)) {
+        db.createObjectStore(CVE_STORE, { keyPath: 'id' }).createIndex('products', 'products', { multiEntry: true });
+      }
+      if (!db.objectStoreNames.contains(PRODUCT_STORE)) {
+        db.createObjectStore(PRODUCT_STORE, { keyPath: 'cpeName' }).createIndex('release', 'release');
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Parse a JSON file, gunzipping it first if it starts with the gzip magic
+ */
+async function readJson(file: Blob): Promise<unknown> {
+  const magic = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const stream = magic[0] === 0x1f && magic[1] === 0x8b
+    ? file.stream().pipeThrough(new DecompressionStream('gzip'))
+    : file.stream();
+  try {
+    return await new Response(stream).json();
+  } catch {
+    throw new Error('The file is not valid JSON or gzipped JSON');
+  }
+}
+
+const SEVERITIES: CvssSeverity[] = ['critical', 'high', 'medium', 'low', 'none'];
+
+/** NVD's own score if it has one, otherwise the first listed */
+function pickCvss({ metrics }: NvdCve): CvssScore | undefined {
+  const metric = [metrics?.cvssMetricV31, metrics?.cvssMetricV30]
+    .map((list) => list?.find((entry) => entry.type === 'Primary') ?? list?.[0])
+    .find(Boolean);
+  if (!metric) return undefined;
+  const { version, vectorString, baseScore, baseSeverity } = metric.cvssData;
+  const severity = baseSeverity.toLowerCase() as CvssSeverity;
+  return {
+    version: version === '3.0' ? '3.0' : '3.1',
+    vector: vectorString,
+    score: baseScore,
+    severity: SEVERITIES.includes(severity) ? severity : 'none'
+  };
+}
+
+const CVSS_ACCESS: Record<string, string> = { N: 'remotely', A: 'from the local network', L: 'with local access', P: 'with physical access' };
+const CVSS_IMPACTS: Record<string, string> = { C: 'confidentiality', I: 'integrity', A: 'availability' };
+
+/**
+ * What a CVSS v3 vector says about exploiting the vulnerability, as a list
+ * of risks
+ */
+export function cvssRisks(vector: string): string[] {
+  const metrics = new Map(vector.split('/').map((part) => part.split(':') as [string, string]));
+  const risks: string[] = [];
+  const access = CVSS_ACCESS[metrics.get('AV') ?? ''];
+  if (access) risks.push(`Exploitable ${access}${metrics.get('PR') === 'N' ? ' without authentication' : ''}`);
+  for (const [metric, name] of Object.entries(CVSS_IMPACTS)) {
+    const level = metrics.get(metric);
+    if (level === 'H' || level === 'L') risks.push(`${level === 'H' ? 'High' : 'Low'} impact on ${name}`);
+  }
+  if (metrics.get('S') === 'C') risks.push('Reaches beyond the vulnerable component');
+  return risks;
+}
+
+/**
+ * The index record for a CVE; null if NVD has rejected it, so it should
+ * not be in the index at all
+ */
+export function toRecord(cve: NvdCve): CveRecord | null {
+  if (cve.vulnStatus === 'Rejected') return null;
+  // Only the vulnerable entries count; platform entries in AND
+  // configurations ("running on Windows") cannot be checked from a banner
+  const affected = (cve.configurations ?? [])
+    .flatMap((configuration) => configuration.nodes ?? [])
+    .flatMap((node) => node.cpeMatch ?? [])
+    .filter((match) => match.vulnerable)
+    .map(({ criteria, versionStartIncluding, versionStartExcluding, versionEndIncluding, versionEndExcluding }) => ({
+      criteria,
+      versionStartIncluding,
+      versionStartExcluding,
+      versionEndIncluding,
+      versionEndExcluding
+    }));
+  const products = new Set(affected.map((criterion) => parseCpe(criterion.criteria)?.product).filter(Boolean) as string[]);
+  return {
+    id: cve.id,
+    description: (cve.descriptions?.find((entry) => entry.lang === 'en') ?? cve.descriptions?.[0])?.value ?? '',
+    published: cve.published,
+    lastModified: cve.lastModified,
+    cvss: pickCvss(cve),
+    // The references become links, so only web addresses are kept
+    references: (cve.references ?? [])
+      .filter(({ url }) => /^https?:\/\//i.test(url ?? ''))
+      .map(({ url, tags }) => ({ url, tags: tags ?? [] })),
+    affected,
+    products: [...products]
+  };
+}
+
+function toTitle({ cpe }: NvdProduct): ProductTitle | null {
+  const name = parseCpe(cpe.cpeName);
+  const title = (cpe.titles?.find((entry) => entry.lang === 'en') ?? cpe.titles?.[0])?.title;
+  if (!name || !title || cpe.deprecated) return null;
+  return { cpeName: cpe.cpeName, vendor: name.vendor, release: `${name.product}:${cpeRelease(name)}`, title };
+}
+
+async function importCves(db: IDBDatabase, cves: NvdCve[], onProgress?: (fraction: number) => void): Promise<FeedImportResult> {
+  const result: FeedImportResult = { kind: 'cves', imported: 0, removed: 0, skipped: 0 };
+  let newest = '';
+  for (let start = 0; start < cves.length; start += BATCH_SIZE) {
+    const transaction = db.transaction(CVE_STORE, 'readwrite');
+    const store = transaction.objectStore(CVE_STORE);
+    for (const cve of cves.slice(start, start + BATCH_SIZE)) {
+      if (!cve?.id || !cve.lastModified) continue;
+      if (cve.lastModified > newest) newest = cve.lastModified;
+      const existing = store.get(cve.id);
+      existing.onsuccess = () => {
+        const current = existing.result as CveRecord | undefined;
+        const record = toRecord(cve);
+        if (!record) {
+          if (current) {
+            store.delete(cve.id);
+            result.removed++;
+          } else {
+            result.skipped++;
+          }
+          return;
+        }
+        if ((current && current.lastModified >= cve.lastModified) || (!current && record.products.length === 0)) {
+          result.skipped++;
+          return;
+        }
+        store.put(record);
+        result.imported++;
+      };
+    }
+    await completion(transaction);
+    onProgress?.(Math.min(1, (start + BATCH_SIZE) / cves.length));
+  }
+
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  const metaStore = transaction.objectStore(META_STORE);
+  const previous = await promisify<FeedMeta | undefined>(metaStore.get(META_KEY));
+  const lastModified = previous?.lastModified && previous.lastModified > newest ? previous.lastModified : newest || undefined;
+  metaStore.put({ importedAt: Date.now(), lastModified } satisfies FeedMeta, META_KEY);
+  await completion(transaction);
+  return result;
+}
+
+async function importProducts(db: IDBDatabase, products: NvdProduct[], onProgress?: (fraction: number) => void): Promise<FeedImportResult> {
+  const result: FeedImportResult = { kind: 'products', imported: 0, removed: 0, skipped: 0 };
+  for (let start = 0; start < products.length; start += BATCH_SIZE) {
+    const transaction = db.transaction(PRODUCT_STORE, 'readwrite');
+    const store = transaction.objectStore(PRODUCT_STORE);
+    for (const product of products.slice(start, start + BATCH_SIZE)) {
+      const title = product?.cpe ? toTitle(product) : null;
+      if (title) {
+        store.put(title);
+        result.imported++;
+      } else if (product?.cpe?.deprecated) {
+        store.delete(product.cpe.cpeName);
+        result.removed++;
+      } else {
+        result.skipped++;
+      }
+    }
+    await completion(transaction);
+    onProgress?.(Math.min(1, (start + BATCH_SIZE) / products.length));
+  }
+  return result;
+}
+
+/**
+ * Add an NVD JSON 2.0 CVE file or CPE dictionary file to the index
+ */
+export async function importFeed(file: Blob, onProgress?: (fraction: number) => void): Promise<FeedImportResult> {
+  const json = (await readJson(file)) as Record<string, unknown> | null;
+  const db = await openDatabase();
+  try {
+    if (Array.isArray(json?.vulnerabilities)) {
+      return await importCves(db, json.vulnerabilities.map((entry: { cve: NvdCve }) => entry?.cve), onProgress);
+    }
+    if (Array.isArray(json?.products)) {
+      return await importProducts(db, json.products as NvdProduct[], onProgress);
+    }
+  } finally {
+    db.close();
+  }
+  if (Array.isArray(json?.CVE_Items)) {
+    throw new Error('This is an NVD 1.1 feed, which NVD no longer publishes; import the JSON 2.0 feed instead');
+  }
+  throw new Error('Not an NVD JSON 2.0 CVE file or CPE dictionary');
+}
+
+export async function getFeedStatus(): Promise<CveFeedStatus> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([CVE_STORE, PRODUCT_STORE, META_STORE], 'readonly');
+    const [cveCount, productCount, meta] = await Promise.all([
+      promisify(transaction.objectStore(CVE_STORE).count()),
+      promisify(transaction.objectStore(PRODUCT_STORE).count()),
+      promisify<FeedMeta | undefined>(transaction.objectStore(META_STORE).get(META_KEY))
+    ]);
+    return { cveCount, productCount, importedAt: meta?.importedAt, lastModified: meta?.lastModified };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Remove every imported CVE and product title
+ */
+export async function clearFeed(): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([CVE_STORE, PRODUCT_STORE, META_STORE], 'readwrite');
+    for (const name of [CVE_STORE, PRODUCT_STORE, META_STORE]) transaction.objectStore(name).clear();
+    await completion(transaction);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * CVEs whose affected versions include software found on the open ports,
+ * highest CVSS score first
+ */
+export async function matchCves(ports: OpenPort[]): Promise<CveMatch[]> {
+  const detected = ports.flatMap((port) => (port.software ?? []).map((software) => ({ port, software })));
+  if (detected.length === 0) return [];
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([CVE_STORE, PRODUCT_STORE], 'readonly');
+    const byPort = await Promise.all(
+      detected.map(async ({ port, software }) => {
+        const [records, titles] = await Promise.all([
+          promisify<CveRecord[]>(transaction.objectStore(CVE_STORE).index('products').getAll(software.product)),
+          promisify<ProductTitle[]>(
+            transaction.objectStore(PRODUCT_STORE).index('release').getAll(`${software.product}:${software.version}`)
+          )
+        ]);
+        const softwareName =
+          titles.find((title) => !software.vendor || title.vendor === software.vendor)?.title ??
+          `${software.product.replace(/_/g, ' ')} ${software.version}`;
+        return records.flatMap((cve) => {
+          const criterion = cve.affected.find((entry) => criterionMatches(entry, software));
+          return criterion ? [{ host: port.host, port: port.port, software, softwareName, cve, criterion }] : [];
+        });
+      })
+    );
+    return byPort.flat().sort((a, b) => (b.cve.cvss?.score ?? 0) - (a.cve.cvss?.score ?? 0));
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,389 @@
+// Incremental hash functions for data that is too large to hash in one
+// crypto.subtle.digest call (Web Crypto has no streaming digest API).
+
+import { ChunkReader } from './streamReader';
+
+export interface Hasher {
+  update(data: Uint8Array): this;
+  digest(): Uint8Array;
+}
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+/**
+ * Merkle-Damgård block buffering shared by the SHA family
+ */
+abstract class BlockHasher implements Hasher {
+  protected buffer: Uint8Array;
+  protected bufferLength = 0;
+  protected totalLength = 0;
+
+  constructor(protected blockSize: number) {
+    this.buffer = new Uint8Array(blockSize);
+  }
+
+  protected abstract processBlock(block: Uint8Array, offset: number): void;
+  protected abstract output(): Uint8Array;
+
+  update(data: Uint8Array): this {
+    let offset = 0;
+    this.totalLength += data.length;
+
+    if (this.bufferLength > 0) {
+      const take = Math.min(this.blockSize - this.bufferLength, data.length);
+      this.buffer.set(data.subarray(0, take), this.bufferLength);
+      this.bufferLength += take;
+      offset = take;
+      if (this.bufferLength === this.blockSize) {
+        this.processBlock(this.buffer, 0);
+        this.bufferLength = 0;
+      }
+    }
+
+    while (offset + this.blockSize <= data.length) {
+      this.processBlock(data, offset);
+      offset += this.blockSize;
+    }
+
+    if (offset < data.length) {
+      this.buffer.set(data.subarray(offset), 0);
+      this.bufferLength = data.length - offset;
+    }
+    return this;
+  }
+
+  digest(): Uint8Array {
+    // Padding: 0x80, zeros, then the message length in bits (big-endian)
+    const lengthBytes = this.blockSize / 8;
+    const bitLength = this.totalLength * 8;
+    this.buffer[this.bufferLength++] = 0x80;
+    if (this.bufferLength > this.blockSize - lengthBytes) {
+      this.buffer.fill(0, this.bufferLength);
+      this.processBlock(this.buffer, 0);
+      this.bufferLength = 0;
+    }
+    this.buffer.fill(0, this.bufferLength);
+    const view = new DataView(this.buffer.buffer);
+    view.setUint32(this.blockSize - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(this.blockSize - 4, bitLength >>> 0);
+    this.processBlock(this.buffer, 0);
+    return this.output();
+  }
+}
+
+/**
+ * Incremental SHA-256 (FIPS 180-4)
+ */
+export class Sha256 extends BlockHasher {
+  private h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  private w = new Uint32Array(64);
+
+  constructor() {
+    super(64);
+  }
+
+  protected processBlock(block: Uint8Array, offset: number) {
+    const w = this.w;
+    for (let i = 0; i < 16; i++) {
+      const o = offset + i * 4;
+      w[i] = (block[o] << 24) | (block[o + 1] << 16) | (block[o + 2] << 8) | block[o + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15], w2 = w[i - 2];
+      const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+      const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    const state = this.h;
+    let a = state[0], b = state[1], c = state[2], d = state[3];
+    let e = state[4], f = state[5], g = state[6], h = state[7];
+    for (let i = 0; i < 64; i++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + S1 + ch + SHA256_K[i] + w[i]) | 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    state[0] += a; state[1] += b; state[2] += c; state[3] += d;
+    state[4] += e; state[5] += f; state[6] += g; state[7] += h;
+  }
+
+  protected output(): Uint8Array {
+    const out = new Uint8Array(32);
+    const view = new DataView(out.buffer);
+    this.h.forEach((word, i) => view.setUint32(i * 4, word));
+    return out;
+  }
+}
+
+/**
+ * Incremental SHA-1 (FIPS 180-4). Broken for collision resistance; only
+ * offered so files can be matched against published legacy checksums.
+ */
+export class Sha1 extends BlockHasher {
+  private h = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+  private w = new Uint32Array(80);
+
+  constructor() {
+    super(64);
+  }
+
+  protected processBlock(block: Uint8Array, offset: number) {
+    const w = this.w;
+    for (let i = 0; i < 16; i++) {
+      const o = offset + i * 4;
+      w[i] = (block[o] << 24) | (block[o + 1] << 16) | (block[o + 2] << 8) | block[o + 3];
+    }
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+
+    const state = this.h;
+    let a = state[0], b = state[1], c = state[2], d = state[3], e = state[4];
+    for (let i = 0; i < 80; i++) {
+      let f: number, k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const t = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = t;
+    }
+
+    state[0] += a; state[1] += b; state[2] += c; state[3] += d; state[4] += e;
+  }
+
+  protected output(): Uint8Array {
+    const out = new Uint8Array(20);
+    const view = new DataView(out.buffer);
+    this.h.forEach((word, i) => view.setUint32(i * 4, word));
+    return out;
+  }
+}
+
+// SHA-512 works on 64-bit words, held here as (high, low) pairs of 32-bit
+// halves in Uint32Arrays. Sums are built in doubles and wrapped on store.
+const SHA512_K = new Uint32Array([
+  0x428a2f98, 0xd728ae22, 0x71374491, 0x23ef65cd, 0xb5c0fbcf, 0xec4d3b2f, 0xe9b5dba5, 0x8189dbbc,
+  0x3956c25b, 0xf348b538, 0x59f111f1, 0xb605d019, 0x923f82a4, 0xaf194f9b, 0xab1c5ed5, 0xda6d8118,
+  0xd807aa98, 0xa3030242, 0x12835b01, 0x45706fbe, 0x243185be, 0x4ee4b28c, 0x550c7dc3, 0xd5ffb4e2,
+  0x72be5d74, 0xf27b896f, 0x80deb1fe, 0x3b1696b1, 0x9bdc06a7, 0x25c71235, 0xc19bf174, 0xcf692694,
+  0xe49b69c1, 0x9ef14ad2, 0xefbe4786, 0x384f25e3, 0x0fc19dc6, 0x8b8cd5b5, 0x240ca1cc, 0x77ac9c65,
+  0x2de92c6f, 0x592b0275, 0x4a7484aa, 0x6ea6e483, 0x5cb0a9dc, 0xbd41fbd4, 0x76f988da, 0x831153b5,
+  0x983e5152, 0xee66dfab, 0xa831c66d, 0x2db43210, 0xb00327c8, 0x98fb213f, 0xbf597fc7, 0xbeef0ee4,
+  0xc6e00bf3, 0x3da88fc2, 0xd5a79147, 0x930aa725, 0x06ca6351, 0xe003826f, 0x14292967, 0x0a0e6e70,
+  0x27b70a85, 0x46d22ffc, 0x2e1b2138, 0x5c26c926, 0x4d2c6dfc, 0x5ac42aed, 0x53380d13, 0x9d95b3df,
+  0x650a7354, 0x8baf63de, 0x766a0abb, 0x3c77b2a8, 0x81c2c92e, 0x47edaee6, 0x92722c85, 0x1482353b,
+  0xa2bfe8a1, 0x4cf10364, 0xa81a664b, 0xbc423001, 0xc24b8b70, 0xd0f89791, 0xc76c51a3, 0x0654be30,
+  0xd192e819, 0xd6ef5218, 0xd6990624, 0x5565a910, 0xf40e3585, 0x5771202a, 0x106aa070, 0x32bbd1b8,
+  0x19a4c116, 0xb8d2d0c8, 0x1e376c08, 0x5141ab53, 0x2748774c, 0xdf8eeb99, 0x34b0bcb5, 0xe19b48a8,
+  0x391c0cb3, 0xc5c95a63, 0x4ed8aa4a, 0xe3418acb, 0x5b9cca4f, 0x7763e373, 0x682e6ff3, 0xd6b2b8a3,
+  0x748f82ee, 0x5defb2fc, 0x78a5636f, 0x43172f60, 0x84c87814, 0xa1f0ab72, 0x8cc70208, 0x1a6439ec,
+  0x90befffa, 0x23631e28, 0xa4506ceb, 0xde82bde9, 0xbef9a3f7, 0xb2c67915, 0xc67178f2, 0xe372532b,
+  0xca273ece, 0xea26619c, 0xd186b8c7, 0x21c0c207, 0xeada7dd6, 0xcde0eb1e, 0xf57d4f7f, 0xee6ed178,
+  0x06f067aa, 0x72176fba, 0x0a637dc5, 0xa2c898a6, 0x113f9804, 0xbef90dae, 0x1b710b35, 0x131c471b,
+  0x28db77f5, 0x23047d84, 0x32caab7b, 0x40c72493, 0x3c9ebe0a, 0x15c9bebc, 0x431d67c4, 0x9c100d4c,
+  0x4cc5d4be, 0xcb3e42b6, 0x597f299c, 0xfc657e2a, 0x5fcb6fab, 0x3ad6faec, 0x6c44198c, 0x4a475817
+]);
+
+const SHA512_IV = [
+  0x6a09e667, 0xf3bcc908, 0xbb67ae85, 0x84caa73b, 0x3c6ef372, 0xfe94f82b, 0xa54ff53a, 0x5f1d36f1,
+  0x510e527f, 0xade682d1, 0x9b05688c, 0x2b3e6c1f, 0x1f83d9ab, 0xfb41bd6b, 0x5be0cd19, 0x137e2179
+];
+
+const SHA384_IV = [
+  0xcbbb9d5d, 0xc1059ed8, 0x629a292a, 0x367cd507, 0x9159015a, 0x3070dd17, 0x152fecd8, 0xf70e5939,
+  0x67332667, 0xffc00b31, 0x8eb44a87, 0x68581511, 0xdb0c2e0d, 0x64f98fa7, 0x47b5481d, 0xbefa4fa4
+];
+
+const TWO_32 = 0x100000000;
+
+function rotrHigh(high: number, low: number, n: number): number {
+  return n < 32 ? (high >>> n) | (low << (32 - n)) : (low >>> (n - 32)) | (high << (64 - n));
+}
+
+function rotrLow(high: number, low: number, n: number): number {
+  return n < 32 ? (low >>> n) | (high << (32 - n)) : (high >>> (n - 32)) | (low << (64 - n));
+}
+
+/**
+ * Incremental SHA-512 (FIPS 180-4)
+ */
+export class Sha512 extends BlockHasher {
+  private h: Uint32Array;
+  private w = new Uint32Array(160);
+  private v = new Uint32Array(16);
+
+  constructor(iv: number[] = SHA512_IV, private outputLength = 64) {
+    super(128);
+    this.h = new Uint32Array(iv);
+  }
+
+  protected processBlock(block: Uint8Array, offset: number) {
+    const w = this.w;
+    for (let i = 0; i < 32; i++) {
+      const o = offset + i * 4;
+      w[i] = (block[o] << 24) | (block[o + 1] << 16) | (block[o + 2] << 8) | block[o + 3];
+    }
+    for (let i = 16; i < 80; i++) {
+      const xh = w[(i - 15) * 2], xl = w[(i - 15) * 2 + 1];
+      const yh = w[(i - 2) * 2], yl = w[(i - 2) * 2 + 1];
+      const s0h = rotrHigh(xh, xl, 1) ^ rotrHigh(xh, xl, 8) ^ (xh >>> 7);
+      const s0l = rotrLow(xh, xl, 1) ^ rotrLow(xh, xl, 8) ^ ((xl >>> 7) | (xh << 25));
+      const s1h = rotrHigh(yh, yl, 19) ^ rotrHigh(yh, yl, 61) ^ (yh >>> 6);
+      const s1l = rotrLow(yh, yl, 19) ^ rotrLow(yh, yl, 61) ^ ((yl >>> 6) | (yh << 26));
+      const low = (s0l >>> 0) + (s1l >>> 0) + w[(i - 16) * 2 + 1] + w[(i - 7) * 2 + 1];
+      w[i * 2 + 1] = low;
+      w[i * 2] = s0h + s1h + w[(i - 16) * 2] + w[(i - 7) * 2] + Math.floor(low / TWO_32);
+    }
+
+    // v holds a..h; each round shifts it down one word and replaces a and e
+    const v = this.v;
+    v.set(this.h);
+    for (let i = 0; i < 80; i++) {
+      const ah = v[0], al = v[1], eh = v[8], el = v[9];
+      const S1h = rotrHigh(eh, el, 14) ^ rotrHigh(eh, el, 18) ^ rotrHigh(eh, el, 41);
+      const S1l = rotrLow(eh, el, 14) ^ rotrLow(eh, el, 18) ^ rotrLow(eh, el, 41);
+      const chh = (eh & v[10]) ^ (~eh & v[12]);
+      const chl = (el & v[11]) ^ (~el & v[13]);
+      const t1l = (S1l >>> 0) + (chl >>> 0) + v[15] + SHA512_K[i * 2 + 1] + w[i * 2 + 1];
+      const t1h = S1h + chh + v[14] + SHA512_K[i * 2] + w[i * 2] + Math.floor(t1l / TWO_32);
+
+      const S0h = rotrHigh(ah, al, 28) ^ rotrHigh(ah, al, 34) ^ rotrHigh(ah, al, 39);
+      const S0l = rotrLow(ah, al, 28) ^ rotrLow(ah, al, 34) ^ rotrLow(ah, al, 39);
+      const majh = (ah & v[2]) ^ (ah & v[4]) ^ (v[2] & v[4]);
+      const majl = (al & v[3]) ^ (al & v[5]) ^ (v[3] & v[5]);
+      const t2l = (S0l >>> 0) + (majl >>> 0);
+      const t2h = S0h + majh + Math.floor(t2l / TWO_32);
+
+      v.copyWithin(2, 0, 14);
+      const eLow = v[9] + (t1l >>> 0);
+      v[9] = eLow;
+      v[8] = v[8] + t1h + Math.floor(eLow / TWO_32);
+      const aLow = (t1l >>> 0) + (t2l >>> 0);
+      v[1] = aLow;
+      v[0] = t1h + t2h + Math.floor(aLow / TWO_32);
+    }
+
+    const state = this.h;
+    for (let j = 0; j < 16; j += 2) {
+      const low = state[j + 1] + v[j + 1];
+      state[j + 1] = low;
+      state[j] = state[j] + v[j] + Math.floor(low / TWO_32);
+    }
+  }
+
+  protected output(): Uint8Array {
+    const out = new Uint8Array(64);
+    const view = new DataView(out.buffer);
+    this.h.forEach((word, i) => view.setUint32(i * 4, word));
+    return out.slice(0, this.outputLength);
+  }
+}
+
+/**
+ * Incremental SHA-384: SHA-512 with its own initial state, truncated to 48 bytes
+ */
+export class Sha384 extends Sha512 {
+  constructor() {
+    super(SHA384_IV, 48);
+  }
+}
+
+export type HashAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+export const HASH_ALGORITHMS: HashAlgorithm[] = ['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512'];
+
+export function createHasher(algorithm: HashAlgorithm): Hasher {
+  switch (algorithm) {
+    case 'SHA-1':
+      return new Sha1();
+    case 'SHA-256':
+      return new Sha256();
+    case 'SHA-384':
+      return new Sha384();
+    case 'SHA-512':
+      return new Sha512();
+  }
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash a file by streaming it from disk, without loading it into memory
+ */
+export async function hashFile(
+  file: Blob,
+  hasher: Hasher = new Sha256(),
+  onProgress?: (processed: number, total: number) => void
+): Promise<Uint8Array> {
+  const reader = new ChunkReader(file.stream());
+  const chunkSize = 4 * 1024 * 1024;
+  let processed = 0;
+  for (;;) {
+    const chunk = await reader.read(chunkSize);
+    if (chunk.length === 0) break;
+    hasher.update(chunk);
+    processed += chunk.length;
+    onProgress?.(processed, file.size);
+  }
+  return hasher.digest();
+}
+
+/**
+ * Hash a file with several algorithms in one pass, returning hex digests
+ */
+export async function hashFileMulti(
+  file: Blob,
+  algorithms: HashAlgorithm[] = HASH_ALGORITHMS,
+  onProgress?: (processed: number, total: number) => void
+): Promise<Partial<Record<HashAlgorithm, string>>> {
+  const hashers = algorithms.map(createHasher);
+  const fanOut: Hasher = {
+    update(data: Uint8Array) {
+      hashers.forEach(h => h.update(data));
+      return this;
+    },
+    digest: () => new Uint8Array(0)
+  };
+  await hashFile(file, fanOut, onProgress);
+  return Object.fromEntries(algorithms.map((algorithm, i) => [algorithm, toHex(hashers[i].digest())]));
+}
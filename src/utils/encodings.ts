@@ -0,0 +1,168 @@
+// Text encodings of binary data used by the encoding pipeline. Base64 lives
+// in base64.ts; everything here works on bytes in and bytes or text out.
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export function bytesToHex(bytes: Uint8Array, separator = ''): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join(separator);
+}
+
+/**
+ * Decode hex, ignoring whitespace, colons and 0x prefixes
+ */
+export function hexToBytes(text: string): Uint8Array {
+  const hex = text.replace(/0x/gi, '').replace(/[\s:,]+/g, '');
+  if (!/^([0-9a-fA-F]{2})*$/.test(hex)) {
+    throw new Error('Invalid hex - expected pairs of 0-9 / a-f digits');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * RFC 4648 base32 with padding
+ */
+export function bytesToBase32(bytes: Uint8Array): string {
+  let out = '';
+  let buffer = 0, bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return out + '='.repeat((8 - (out.length % 8)) % 8);
+}
+
+/**
+ * Decode base32, case-insensitive, ignoring whitespace and padding
+ */
+export function base32ToBytes(text: string): Uint8Array {
+  const clean = text.replace(/[\s=]+/g, '').toUpperCase();
+  const out: number[] = [];
+  let buffer = 0, bits = 0;
+  for (const char of clean) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    buffer = ((buffer << 5) | value) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(out);
+}
+
+/**
+ * Base58 with the Bitcoin alphabet; leading zero bytes become leading "1"s
+ */
+export function bytesToBase58(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  // Repeated division of the big-endian number by 58, digits least significant first
+  const digits: number[] = [];
+  for (let i = zeros; i < bytes.length; i++) {
+    let carry = bytes[i];
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j] << 8;
+      digits[j] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+  return '1'.repeat(zeros) + digits.reverse().map(d => BASE58_ALPHABET[d]).join('');
+}
+
+export function base58ToBytes(text: string): Uint8Array {
+  const clean = text.trim();
+  let zeros = 0;
+  while (zeros < clean.length && clean[zeros] === '1') zeros++;
+
+  const bytes: number[] = [];
+  for (let i = zeros; i < clean.length; i++) {
+    let carry = BASE58_ALPHABET.indexOf(clean[i]);
+    if (carry < 0) {
+      throw new Error(`Invalid base58 character "${clean[i]}"`);
+    }
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  const out = new Uint8Array(zeros + bytes.length);
+  out.set(bytes.reverse(), zeros);
+  return out;
+}
+
+/**
+ * Percent-encode everything except RFC 3986 unreserved characters
+ */
+export function urlEncode(text: string): string {
+  return encodeURIComponent(text).replace(/[!'()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+}
+
+/**
+ * Percent-decode; "+" is treated as a space, as in form data
+ */
+export function urlDecode(text: string): string {
+  try {
+    return decodeURIComponent(text.replace(/\+/g, ' '));
+  } catch {
+    throw new Error('Invalid URL encoding - a % escape is malformed or not UTF-8');
+  }
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', copy: '©', reg: '®'
+};
+
+/**
+ * Escape HTML special characters; with `all`, every non-ASCII character too
+ */
+export function htmlEntityEncode(text: string, all = false): string {
+  return Array.from(text, char => {
+    if (HTML_ESCAPES[char]) return HTML_ESCAPES[char];
+    const code = char.codePointAt(0);
+    return all && code > 0x7e ? `&#${code};` : char;
+  }).join('');
+}
+
+/**
+ * Decode named, decimal and hex character references; unknown names are kept
+ */
+export function htmlEntityDecode(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { CipherId, ContainerFlag, KdfId, RecipientType, serializeHeader } from './containerFormat';
+import { readContainerHeader } from './fileEncryption';
+
+describe('readContainerHeader', () => {
+  it('reads a header longer than 64 KiB, as many RSA recipients make', async () => {
+    const recipients = Array.from({ length: 200 }, (_, i) => ({
+      type: RecipientType.RSA_OAEP_SHA256,
+      keyId: new Uint8Array(8).fill(i),
+      payload: new Uint8Array(512).fill(i)
+    }));
+    const header = serializeHeader({
+      flags: ContainerFlag.RECIPIENTS,
+      cipher: CipherId.AES_256_GCM,
+      kdf: { id: KdfId.NONE },
+      salt: new Uint8Array(0),
+      iv: new Uint8Array(12),
+      recipients
+    }).bytes;
+    expect(header.length).toBeGreaterThan(64 * 1024);
+
+    const read = await readContainerHeader(new File([header, new Uint8Array(1024)], 'big.enc'));
+    expect(read?.recipients).toHaveLength(200);
+    expect(read?.recipients?.[199].keyId).toEqual(new Uint8Array(8).fill(199));
+  });
+
+  it('reads a legacy file as version 0 and has no header for a truncated one', async () => {
+    expect((await readContainerHeader(new File([new Uint8Array(64)], 'legacy.enc')))?.version).toBe(0);
+    const header = serializeHeader({
+      flags: 0,
+      cipher: CipherId.AES_256_GCM,
+      kdf: { id: KdfId.PBKDF2_SHA256, iterations: 1000 },
+      salt: new Uint8Array(16),
+      iv: new Uint8Array(12)
+    }).bytes;
+    expect(await readContainerHeader(new File([header.slice(0, header.length - 1)], 'cut.enc'))).toBeNull();
+  });
+});
@@ -1,77 +1,412 @@
 // File encryption utilities using Web Crypto API
 
+import {
+  CipherId,
+  ContainerFlag,
+  ContainerHeader,
+  KdfId,
+  KdfParams,
+  PREFIX_LENGTH,
+  chunkNonce,
+  parseHeader,
+  readHeaderLength,
+  serializeHeader
+} from './containerFormat';
+import { ChunkReader } from './streamReader';
+import { argon2id, verifyArgon2TestVectors } from './argon2';
+import { Sha256, hashFile, toHex } from './digest';
+import { IdentityKey, RecipientKey, generateContentKey, unwrapContentKey, wrapContentKey } from './publicKeyCrypto';
+
+export interface FileMetadata {
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+  /** Hex SHA-256 of the original content */
+  sha256: string;
+}
+
 export interface EncryptionResult {
   success: boolean;
-  data?: ArrayBuffer;
+  /** Output when no stream was given; after decryption a File carrying the restored name and type */
+  blob?: Blob;
   error?: string;
   salt?: Uint8Array;
   iv?: Uint8Array;
+  header?: ContainerHeader;
+  /** Original file details stored in the envelope (absent for older files) */
+  metadata?: FileMetadata;
+  /** True when the decrypted content matched the recorded SHA-256 */
+  integrityVerified?: boolean;
+}
+
+/**
+ * A stream to write into, or a callback that opens one once the embedded
+ * metadata (and therefore the original filename) is known
+ */
+export type OutputTarget =
+  | WritableStream<Uint8Array>
+  | ((metadata: FileMetadata | null) => Promise<WritableStream<Uint8Array>>);
+
+export interface StreamOptions {
+  /** Called after every chunk with the input bytes processed so far */
+  onProgress?: (processed: number, total: number) => void;
+  /** Where to write the output; when omitted the result is returned as a Blob */
+  output?: OutputTarget;
+}
+
+export interface EncryptOptions extends StreamOptions {
+  /** Key derivation settings for the new file (defaults to PBKDF2) */
+  kdf?: KdfParams;
+}
+
+export interface KdfPreset {
+  name: string;
+  description: string;
+  kdf: KdfParams;
+}
+
+// Iteration count for newly encrypted files. Older files keep working
+// because their own count is read back from the container header.
+export const DEFAULT_PBKDF2_ITERATIONS = 600000;
+
+// Key derivation choices offered for new files. Argon2id costs follow the
+// RFC 9106 / OWASP recommendations, scaled up for the stronger presets.
+export const KDF_PRESETS: Record<string, KdfPreset> = {
+  pbkdf2: {
+    name: 'PBKDF2-SHA256',
+    description: '600,000 iterations, fastest and universally supported',
+    kdf: { id: KdfId.PBKDF2_SHA256, iterations: DEFAULT_PBKDF2_ITERATIONS }
+  },
+  interactive: {
+    name: 'Argon2id · Interactive',
+    description: '19 MiB, 2 passes - about a second',
+    kdf: { id: KdfId.ARGON2ID, memory: 19 * 1024, passes: 2, parallelism: 1 }
+  },
+  moderate: {
+    name: 'Argon2id · Moderate',
+    description: '64 MiB, 3 passes, 4 lanes - a few seconds',
+    kdf: { id: KdfId.ARGON2ID, memory: 64 * 1024, passes: 3, parallelism: 4 }
+  },
+  sensitive: {
+    name: 'Argon2id · Sensitive',
+    description: '256 MiB, 3 passes, 4 lanes - around 20 seconds',
+    kdf: { id: KdfId.ARGON2ID, memory: 256 * 1024, passes: 3, parallelism: 4 }
+  },
+  paranoid: {
+    name: 'Argon2id · Paranoid',
+    description: '1 GiB, 2 passes, 4 lanes - about a minute, needs plenty of free RAM',
+    kdf: { id: KdfId.ARGON2ID, memory: 1024 * 1024, passes: 2, parallelism: 4 }
+  }
+};
+
+// Plaintext bytes sealed per AES-GCM call in chunked mode
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+const GCM_TAG_LENGTH = 16;
+const MAX_HEADER_LENGTH = 1024 * 1024;
+const MAX_METADATA_LENGTH = 64 * 1024;
+
+/**
+ * Output destination that either forwards to a WritableStream or collects Blob parts
+ */
+interface OutputSink {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<Blob | undefined>;
+  abort(): Promise<void>;
+}
+
+function createSink(output?: OutputTarget, getMetadata: () => FileMetadata | null = () => null): OutputSink {
+  if (output) {
+    // Opened on first use so a callback target can see the decrypted metadata
+    let writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+    const open = async () => {
+      if (!writer) {
+        const stream = typeof output === 'function' ? await output(getMetadata()) : output;
+        writer = stream.getWriter();
+      }
+      return writer;
+    };
+    return {
+      write: async (chunk) => (await open()).write(chunk),
+      close: async () => {
+        await (await open()).close();
+        return undefined;
+      },
+      abort: async () => {
+        await writer?.abort().catch(() => undefined);
+      }
+    };
+  }
+
+  let parts: BlobPart[] = [];
+  return {
+    write: async (chunk) => {
+      parts.push(chunk);
+    },
+    close: async () => new Blob(parts, { type: 'application/octet-stream' }),
+    abort: async () => {
+      parts = [];
+    }
+  };
+}
+
+/**
+ * Serialize the metadata record placed in front of the plaintext
+ */
+function encodeMetadata(metadata: FileMetadata): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(metadata));
+  const record = new Uint8Array(4 + json.length);
+  new DataView(record.buffer).setUint32(0, json.length);
+  record.set(json, 4);
+  return record;
+}
+
+function isFileMetadata(value: unknown): value is FileMetadata {
+  const m = value as FileMetadata;
+  return typeof m === 'object' && m !== null &&
+    typeof m.name === 'string' &&
+    typeof m.type === 'string' &&
+    Number.isSafeInteger(m.size) && m.size >= 0 &&
+    typeof m.lastModified === 'number' &&
+    typeof m.sha256 === 'string' && /^[0-9a-f]{64}$/.test(m.sha256);
+}
+
+/**
+ * Splits decrypted plaintext into the metadata record and file content,
+ * hashing the content on the way through so it can be checked at the end
+ */
+class EnvelopeReader {
+  metadata: FileMetadata | null = null;
+  private pending = new Uint8Array(0);
+  private hasher = new Sha256();
+  private contentLength = 0;
+
+  constructor(private hasMetadata: boolean, private sink: OutputSink) {}
+
+  async write(plain: Uint8Array) {
+    if (!this.hasMetadata || this.metadata) {
+      await this.writeContent(plain);
+      return;
+    }
+
+    const combined = new Uint8Array(this.pending.length + plain.length);
+    combined.set(this.pending);
+    combined.set(plain, this.pending.length);
+    this.pending = combined;
+    if (combined.length < 4) return;
+
+    const recordLength = new DataView(combined.buffer).getUint32(0);
+    if (recordLength > MAX_METADATA_LENGTH) {
+      throw new Error('Invalid encrypted file format: metadata record is too large');
+    }
+    if (combined.length < 4 + recordLength) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(new TextDecoder().decode(combined.subarray(4, 4 + recordLength)));
+    } catch {
+      parsed = null;
+    }
+    if (!isFileMetadata(parsed)) {
+      throw new Error('Invalid encrypted file format: malformed metadata record');
+    }
+    this.metadata = parsed;
+    this.pending = new Uint8Array(0);
+    await this.writeContent(combined.subarray(4 + recordLength));
+  }
+
+  private async writeContent(data: Uint8Array) {
+    if (data.length === 0) return;
+    if (this.hasMetadata) {
+      this.hasher.update(data);
+      this.contentLength += data.length;
+    }
+    await this.sink.write(data);
+  }
+
+  /**
+   * Check the content against the recorded size and hash; returns whether a check was possible
+   */
+  finish(): boolean {
+    if (!this.hasMetadata) return false;
+    if (!this.metadata) {
+      throw new Error('Decryption failed - file is truncated');
+    }
+    if (this.contentLength !== this.metadata.size || toHex(this.hasher.digest()) !== this.metadata.sha256) {
+      throw new Error('Integrity check failed - decrypted content does not match the recorded SHA-256');
+    }
+    return true;
+  }
 }
 
 /**
- * Derive a key from password using PBKDF2
+ * Produces the content key for a parsed header, from a password or a private key
  */
-async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+type KeyResolver = (header: ContainerHeader) => Promise<CryptoKey>;
+
+/**
+ * Derive 256 bits of key material from a password with the given KDF settings
+ */
+export async function deriveKeyBits(password: string, salt: Uint8Array, kdf: KdfParams): Promise<Uint8Array> {
   const encoder = new TextEncoder();
+
+  if (kdf.id === KdfId.NONE) {
+    throw new Error('This file is encrypted to public-key recipients - decrypt it with a private key');
+  }
+
+  if (kdf.id === KdfId.ARGON2ID) {
+    if (!(await verifyArgon2TestVectors())) {
+      throw new Error('Argon2id self-test failed - refusing to derive keys');
+    }
+    return argon2id({
+      password: encoder.encode(password),
+      salt,
+      memory: kdf.memory,
+      passes: kdf.passes,
+      parallelism: kdf.parallelism,
+      tagLength: 32
+    });
+  }
+
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
     encoder.encode(password),
     'PBKDF2',
     false,
-    ['deriveKey']
+    ['deriveBits']
   );
 
-  return crypto.subtle.deriveKey(
+  const bits = await crypto.subtle.deriveBits(
     {
       name: 'PBKDF2',
       salt: salt,
-      iterations: 100000,
+      iterations: kdf.iterations,
       hash: 'SHA-256'
     },
     keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt']
+    256
   );
+  return new Uint8Array(bits);
 }
 
 /**
- * Encrypt a file using AES-GCM
+ * Derive a key from password using the KDF recorded in the container header
  */
-export async function encryptFile(file: File, password: string): Promise<EncryptionResult> {
-  try {
-    // Generate random salt and IV
+export async function deriveKey(password: string, salt: Uint8Array, kdf: KdfParams): Promise<CryptoKey> {
+  const rawKey = await deriveKeyBits(password, salt, kdf);
+  return crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Encrypt a file using chunked AES-GCM with a password-derived key
+ */
+export async function encryptFile(file: File, password: string, options: EncryptOptions = {}): Promise<EncryptionResult> {
+  return sealFile(file, options, async () => {
+    // Generate random salt and base nonce
     const salt = crypto.getRandomValues(new Uint8Array(16));
     const iv = crypto.getRandomValues(new Uint8Array(12));
-    
+
+    const header = serializeHeader({
+      flags: ContainerFlag.CHUNKED | ContainerFlag.METADATA,
+      cipher: CipherId.AES_256_GCM,
+      kdf: options.kdf ?? KDF_PRESETS.pbkdf2.kdf,
+      salt,
+      iv,
+      chunkSize: DEFAULT_CHUNK_SIZE
+    });
+
     // Derive key from password
-    const key = await deriveKey(password, salt);
-    
-    // Read file as ArrayBuffer
-    const fileData = await file.arrayBuffer();
-    
-    // Encrypt the file data
-    const encryptedData = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv: iv },
-      key,
-      fileData
-    );
-    
-    // Combine salt, iv, and encrypted data
-    const result = new ArrayBuffer(16 + 12 + encryptedData.byteLength);
-    const resultView = new Uint8Array(result);
-    
-    resultView.set(salt, 0);
-    resultView.set(iv, 16);
-    resultView.set(new Uint8Array(encryptedData), 28);
+    return { header, key: await deriveKey(password, salt, header.kdf) };
+  });
+}
+
+/**
+ * Encrypt a file to one or more public keys; any of their private keys can decrypt it
+ */
+export async function encryptFileForRecipients(file: File, recipients: RecipientKey[], options: StreamOptions = {}): Promise<EncryptionResult> {
+  return sealFile(file, options, async () => {
+    if (recipients.length === 0) {
+      throw new Error('Add at least one recipient public key');
+    }
+    const key = await generateContentKey();
+    const stanzas = await Promise.all(recipients.map(recipient => wrapContentKey(key, recipient)));
+
+    const header = serializeHeader({
+      flags: ContainerFlag.CHUNKED | ContainerFlag.METADATA | ContainerFlag.RECIPIENTS,
+      cipher: CipherId.AES_256_GCM,
+      kdf: { id: KdfId.NONE },
+      salt: new Uint8Array(0),
+      iv: crypto.getRandomValues(new Uint8Array(12)),
+      chunkSize: DEFAULT_CHUNK_SIZE,
+      recipients: stanzas
+    });
+    return { header, key };
+  });
+}
+
+/**
+ * Stream a file through chunked AES-GCM under the header and key from `prepare`
+ */
+async function sealFile(
+  file: File,
+  options: StreamOptions,
+  prepare: () => Promise<{ header: ContainerHeader; key: CryptoKey }>
+): Promise<EncryptionResult> {
+  const sink = createSink(options.output);
+
+  try {
+    const { header, key } = await prepare();
+    const { salt, iv } = header;
+
+    // Hash the original so decryption can verify it; this is a separate
+    // streaming pass, reported as the first half of the progress
+    const total = file.size * 2;
+    const digest = await hashFile(file, new Sha256(), (processed) => options.onProgress?.(processed, total));
+    const metadata: FileMetadata = {
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      lastModified: file.lastModified,
+      sha256: toHex(digest)
+    };
+    const record = encodeMetadata(metadata);
+
+    await sink.write(header.bytes);
+
+    // Seal one chunk at a time; reading one chunk ahead tells us which is final
+    const reader = new ChunkReader(new Blob([record, file]).stream());
+    let processed = file.size - record.length;
+    let current = await reader.read(DEFAULT_CHUNK_SIZE);
+    for (let index = 0; ; index++) {
+      const next = current.length === DEFAULT_CHUNK_SIZE
+        ? await reader.read(DEFAULT_CHUNK_SIZE)
+        : new Uint8Array(0);
+      const isFinal = next.length === 0;
+
+      const sealed = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: chunkNonce(iv, index, isFinal), additionalData: header.bytes },
+        key,
+        current
+      );
+      await sink.write(new Uint8Array(sealed));
+
+      processed += current.length;
+      options.onProgress?.(processed, total);
+      if (isFinal) break;
+      current = next;
+    }
     
     return {
       success: true,
-      data: result,
+      blob: await sink.close(),
       salt,
-      iv
+      iv,
+      header,
+      metadata
     };
   } catch (error) {
+    await sink.abort();
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Encryption failed'
@@ -80,42 +415,113 @@ export async function encryptFile(file: File, password: string): Promise<Encrypt
 }
 
 /**
- * Decrypt a file using AES-GCM
+ * Decrypt a legacy v0 or single-shot v1 file, which has to be read whole
  */
-export async function decryptFile(encryptedFile: File, password: string): Promise<EncryptionResult> {
+async function decryptWhole(encryptedFile: File, resolveKey: KeyResolver, options: StreamOptions): Promise<{ header: ContainerHeader; plaintext: Uint8Array }> {
+  const encryptedData = await encryptedFile.arrayBuffer();
+  const header = parseHeader(new Uint8Array(encryptedData));
+
+  // Legacy v0 files store salt and IV without a header
+  const contentOffset = header.bytes.length > 0
+    ? header.bytes.length
+    : header.salt.length + header.iv.length;
+  const content = new Uint8Array(encryptedData, contentOffset);
+
+  const key = await resolveKey(header);
+
+  // Legacy files were written without additional data
+  const params: AesGcmParams = { name: 'AES-GCM', iv: header.iv };
+  if (header.bytes.length > 0) {
+    params.additionalData = header.bytes;
+  }
+
+  let decryptedData: ArrayBuffer;
   try {
-    // Read encrypted file as ArrayBuffer
-    const encryptedData = await encryptedFile.arrayBuffer();
-    
-    if (encryptedData.byteLength < 28) {
-      return {
-        success: false,
-        error: 'Invalid encrypted file format'
-      };
+    decryptedData = await crypto.subtle.decrypt(params, key, content);
+  } catch {
+    throw new Error('Decryption failed - wrong password or corrupted file');
+  }
+  options.onProgress?.(encryptedFile.size, encryptedFile.size);
+  return { header, plaintext: new Uint8Array(decryptedData) };
+}
+
+/**
+ * Decrypt a password-protected file, streaming chunked files from disk
+ */
+export async function decryptFile(encryptedFile: File, password: string, options: StreamOptions = {}): Promise<EncryptionResult> {
+  return openFile(encryptedFile, options, header => deriveKey(password, header.salt, header.kdf));
+}
+
+/**
+ * Decrypt a file that was encrypted to public-key recipients
+ */
+export async function decryptFileWithPrivateKey(encryptedFile: File, identity: IdentityKey, options: StreamOptions = {}): Promise<EncryptionResult> {
+  return openFile(encryptedFile, options, async header => {
+    if (!header.recipients) {
+      throw new Error('This file is password-protected - decrypt it with its password');
     }
-    
-    // Extract salt, IV, and encrypted content
-    const salt = new Uint8Array(encryptedData, 0, 16);
-    const iv = new Uint8Array(encryptedData, 16, 12);
-    const content = new Uint8Array(encryptedData, 28);
-    
-    // Derive key from password
-    const key = await deriveKey(password, salt);
-    
-    // Decrypt the content
-    const decryptedData = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv: iv },
-      key,
-      content
-    );
-    
+    return unwrapContentKey(header.recipients, identity);
+  });
+}
+
+/**
+ * Decrypt any supported container, taking the content key from `resolveKey`
+ */
+async function openFile(encryptedFile: File, options: StreamOptions, resolveKey: KeyResolver): Promise<EncryptionResult> {
+  let envelope: EnvelopeReader | null = null;
+  const sink = createSink(options.output, () => envelope?.metadata ?? null);
+  const reader = new ChunkReader(encryptedFile.stream());
+
+  try {
+    const prefix = await reader.read(PREFIX_LENGTH);
+    const headerLength = readHeaderLength(prefix);
+
+    // Legacy files have no header; they are handled by decryptWhole below
+    let header: ContainerHeader | null = null;
+    if (headerLength !== null) {
+      if (headerLength < PREFIX_LENGTH || headerLength > MAX_HEADER_LENGTH) {
+        throw new Error('Invalid encrypted file format: bad header length');
+      }
+      const headerBytes = new Uint8Array(headerLength);
+      headerBytes.set(prefix);
+      headerBytes.set(await reader.read(headerLength - PREFIX_LENGTH), PREFIX_LENGTH);
+      header = parseHeader(headerBytes);
+      if (header.cipher !== CipherId.AES_256_GCM) {
+        throw new Error('This is an encrypted text message, not an encrypted file - open it in the Text tab');
+      }
+    }
+
+    if (header && header.flags & ContainerFlag.CHUNKED) {
+      envelope = new EnvelopeReader(Boolean(header.flags & ContainerFlag.METADATA), sink);
+      await decryptChunks(reader, header, resolveKey, envelope, encryptedFile.size, options);
+    } else {
+      // Legacy and single-shot files are read whole
+      await reader.cancel();
+      const whole = await decryptWhole(encryptedFile, resolveKey, options);
+      header = whole.header;
+      envelope = new EnvelopeReader(Boolean(header.flags & ContainerFlag.METADATA), sink);
+      await envelope.write(whole.plaintext);
+    }
+
+    const integrityVerified = envelope.finish();
+    const metadata = envelope.metadata ?? undefined;
+    let blob = await sink.close();
+    if (blob && metadata) {
+      blob = new File([blob], metadata.name, { type: metadata.type, lastModified: metadata.lastModified });
+    }
+
     return {
       success: true,
-      data: decryptedData,
-      salt,
-      iv
+      blob,
+      salt: header.salt,
+      iv: header.iv,
+      header,
+      metadata,
+      integrityVerified
     };
   } catch (error) {
+    await sink.abort();
+    await reader.cancel().catch(() => undefined);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Decryption failed - wrong password or corrupted file'
@@ -123,6 +529,68 @@ export async function decryptFile(encryptedFile: File, password: string): Promis
   }
 }
 
+/**
+ * Open every sealed chunk after the header, checking order and the final-chunk marker
+ */
+async function decryptChunks(
+  reader: ChunkReader,
+  header: ContainerHeader,
+  resolveKey: KeyResolver,
+  envelope: EnvelopeReader,
+  totalSize: number,
+  options: StreamOptions
+): Promise<void> {
+  const key = await resolveKey(header);
+  const sealedSize = header.chunkSize + GCM_TAG_LENGTH;
+
+  let processed = header.bytes.length;
+  let current = await reader.read(sealedSize);
+  for (let index = 0; ; index++) {
+    if (current.length < GCM_TAG_LENGTH) {
+      throw new Error('Decryption failed - file is truncated');
+    }
+    const next = current.length === sealedSize
+      ? await reader.read(sealedSize)
+      : new Uint8Array(0);
+    const isFinal = next.length === 0;
+
+    let plain: ArrayBuffer;
+    try {
+      plain = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: chunkNonce(header.iv, index, isFinal), additionalData: header.bytes },
+        key,
+        current
+      );
+    } catch {
+      throw new Error(index === 0
+        ? 'Decryption failed - wrong password or corrupted file'
+        : 'Decryption failed - file is truncated, reordered or corrupted');
+    }
+    await envelope.write(new Uint8Array(plain));
+
+    processed += current.length;
+    options.onProgress?.(processed, totalSize);
+    if (isFinal) break;
+    current = next;
+  }
+}
+
+/**
+ * Read the container header of an encrypted file without decrypting it
+ */
+export async function readContainerHeader(encryptedFile: File): Promise<ContainerHeader | null> {
+  try {
+    const prefix = new Uint8Array(await encryptedFile.slice(0, PREFIX_LENGTH).arrayBuffer());
+    const headerLength = readHeaderLength(prefix);
+    if (headerLength !== null && (headerLength < PREFIX_LENGTH || headerLength > MAX_HEADER_LENGTH)) return null;
+    // Legacy files have no header, only the salt and IV at the start
+    const head = await encryptedFile.slice(0, headerLength ?? 64).arrayBuffer();
+    return parseHeader(new Uint8Array(head));
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get original file extension from encrypted filename
  */
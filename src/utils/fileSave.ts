@@ -0,0 +1,88 @@
+// Helpers for saving generated files from the browser
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+}
+
+type SaveFilePickerWindow = Window & {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+};
+
+/**
+ * Ask the user where to save a file and return a stream that writes straight to disk.
+ * Returns null when the File System Access API is not available, in which case
+ * the caller should collect a Blob and use downloadBlob instead.
+ * Rejects with an AbortError when the user dismisses the picker.
+ */
+export async function openSaveStream(suggestedName: string): Promise<WritableStream<Uint8Array> | null> {
+  const picker = (window as SaveFilePickerWindow).showSaveFilePicker;
+  if (!picker) {
+    return null;
+  }
+  const handle = await picker.call(window, { suggestedName });
+  return handle.createWritable();
+}
+
+/**
+ * Ask the user for a folder to save into, for outputs whose names are only
+ * known later (e.g. the original filename stored inside an encrypted file).
+ * Returns null when the API is unavailable; rejects with an AbortError on cancel.
+ */
+export async function openOutputDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  const picker = (window as SaveFilePickerWindow).showDirectoryPicker;
+  if (!picker) {
+    return null;
+  }
+  return picker.call(window, { mode: 'readwrite' });
+}
+
+/**
+ * Create (or replace) a file in a directory and return a stream writing to it
+ */
+export async function createFileStream(
+  directory: FileSystemDirectoryHandle,
+  fileName: string
+): Promise<WritableStream<Uint8Array>> {
+  const handle = await directory.getFileHandle(sanitizeFileName(fileName), { create: true });
+  return handle.createWritable();
+}
+
+/**
+ * Like createFileStream, but for a relative path such as "case/photos/a.jpg",
+ * creating any missing subdirectories on the way
+ */
+export async function createNestedFileStream(
+  directory: FileSystemDirectoryHandle,
+  path: string
+): Promise<WritableStream<Uint8Array>> {
+  const segments = path.split('/');
+  const fileName = segments.pop() ?? '';
+  let current = directory;
+  for (const segment of segments) {
+    current = await current.getDirectoryHandle(sanitizeFileName(segment, '_'), { create: true });
+  }
+  return createFileStream(current, fileName);
+}
+
+/**
+ * Reduce an untrusted name to a safe single path component
+ */
+export function sanitizeFileName(fileName: string, fallback = 'download'): string {
+  const base = fileName.split(/[\\/]/).pop() ?? '';
+  // eslint-disable-next-line no-control-regex
+  const cleaned = base.replace(/[\u0000-\u001f<>:"|?*]/g, '_').trim();
+  return cleaned && cleaned !== '.' && cleaned !== '..' ? cleaned : fallback;
+}
+
+/**
+ * Trigger a browser download for a Blob
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,288 @@
+// Detached file signatures.
+//
+// A .sig file is a small JSON document. The signed file is streamed through
+// SHA-256 and the signature covers a statement of that digest together with
+// the file size and name, the signing time and the signer's key fingerprint.
+// Web Crypto can only sign whole buffers, so signing the digest is what lets
+// files of any size be signed without loading them into memory.
+
+import { base64ToBytes, bytesToBase64 } from './base64';
+import { HashAlgorithm, hashFileMulti } from './digest';
+import {
+  KeyTextFormat,
+  OID_EC_PUBLIC_KEY,
+  OID_PRIME256V1,
+  derContainsOid,
+  exportKeyText,
+  formatFingerprint,
+  keyFingerprint,
+  parseKeyText,
+  publicJwkFromPrivate
+} from './publicKeyCrypto';
+
+export type SignatureAlgorithm = 'ECDSA-P256' | 'Ed25519';
+
+export interface SignatureAlgorithmInfo {
+  name: string;
+  description: string;
+}
+
+/** A signing key pair, or just the public half when only verifying */
+export interface SigningKey {
+  algorithm: SignatureAlgorithm;
+  publicKey: CryptoKey;
+  privateKey?: CryptoKey;
+  /** Hex SHA-256 of the SPKI encoding of the public key */
+  fingerprint: string;
+  label: string;
+}
+
+export interface DetachedSignature {
+  format: typeof SIGNATURE_FORMAT;
+  version: number;
+  algorithm: SignatureAlgorithm;
+  hash: 'SHA-256';
+  /** Hex SHA-256 of the signed file */
+  digest: string;
+  size: number;
+  fileName: string;
+  signedAt: string;
+  keyFingerprint: string;
+  /** Base64 signature over the statement built from the fields above */
+  signature: string;
+}
+
+export interface SignatureCheck {
+  valid: boolean;
+  message: string;
+  signature: DetachedSignature;
+  hashes: Partial<Record<HashAlgorithm, string>>;
+}
+
+export const SIGNATURE_ALGORITHMS: Record<SignatureAlgorithm, SignatureAlgorithmInfo> = {
+  'ECDSA-P256': {
+    name: 'ECDSA P-256',
+    description: 'NIST curve with SHA-256, supported by every browser'
+  },
+  Ed25519: {
+    name: 'Ed25519',
+    description: 'Modern deterministic signatures, needs a recent browser'
+  }
+};
+
+export const SIGNATURE_EXTENSION = '.sig';
+const SIGNATURE_FORMAT = 'securex-signature';
+const SIGNATURE_VERSION = 1;
+const STATEMENT_PREFIX = 'securex-signature v1\n';
+
+const OID_ED25519 = [0x06, 0x03, 0x2b, 0x65, 0x70];
+
+function keyParams(algorithm: SignatureAlgorithm): EcKeyImportParams | Algorithm {
+  return algorithm === 'ECDSA-P256' ? { name: 'ECDSA', namedCurve: 'P-256' } : { name: 'Ed25519' };
+}
+
+function signParams(algorithm: SignatureAlgorithm): EcdsaParams | Algorithm {
+  return algorithm === 'ECDSA-P256' ? { name: 'ECDSA', hash: 'SHA-256' } : { name: 'Ed25519' };
+}
+
+function detectDerAlgorithm(der: Uint8Array): SignatureAlgorithm {
+  if (derContainsOid(der, OID_EC_PUBLIC_KEY) && derContainsOid(der, OID_PRIME256V1)) return 'ECDSA-P256';
+  if (derContainsOid(der, OID_ED25519)) return 'Ed25519';
+  throw new Error('Unsupported signing key - use a P-256 or Ed25519 key');
+}
+
+function detectJwkAlgorithm(jwk: JsonWebKey): SignatureAlgorithm {
+  if (jwk.kty === 'EC' && jwk.crv === 'P-256') return 'ECDSA-P256';
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') return 'Ed25519';
+  throw new Error('Unsupported signing key - use a P-256 or Ed25519 key');
+}
+
+async function importSigningKeyText(text: string, type: 'public' | 'private'): Promise<{ algorithm: SignatureAlgorithm; key: CryptoKey }> {
+  const parsed = parseKeyText(text, type, 'sign');
+  const usages: KeyUsage[] = type === 'public' ? ['verify'] : ['sign'];
+  if (parsed.format === 'jwk') {
+    const algorithm = detectJwkAlgorithm(parsed.jwk);
+    const key = await crypto.subtle.importKey('jwk', parsed.jwk, keyParams(algorithm), true, usages);
+    return { algorithm, key };
+  }
+  const algorithm = detectDerAlgorithm(parsed.der);
+  const key = await crypto.subtle.importKey(parsed.format, parsed.der, keyParams(algorithm), true, usages);
+  return { algorithm, key };
+}
+
+/**
+ * Generate a new extractable signing key pair
+ */
+export async function generateSigningKeyPair(algorithm: SignatureAlgorithm, label = ''): Promise<SigningKey> {
+  const pair = await crypto.subtle.generateKey(keyParams(algorithm), true, ['sign', 'verify']) as CryptoKeyPair;
+  return {
+    algorithm,
+    publicKey: pair.publicKey,
+    privateKey: pair.privateKey,
+    fingerprint: await keyFingerprint(pair.publicKey),
+    label
+  };
+}
+
+/**
+ * Import a private signing key from PEM or JWK, recovering its public half
+ */
+export async function importSigningKey(text: string, label = ''): Promise<SigningKey> {
+  const { algorithm, key: privateKey } = await importSigningKeyText(text, 'private');
+  const publicJwk = publicJwkFromPrivate(await crypto.subtle.exportKey('jwk', privateKey));
+  const publicKey = await crypto.subtle.importKey('jwk', publicJwk, keyParams(algorithm), true, ['verify']);
+  return { algorithm, publicKey, privateKey, fingerprint: await keyFingerprint(publicKey), label };
+}
+
+/**
+ * Import a signer's public key from PEM or JWK
+ */
+export async function importVerificationKey(text: string, label = ''): Promise<SigningKey> {
+  const { algorithm, key } = await importSigningKeyText(text, 'public');
+  return { algorithm, publicKey: key, fingerprint: await keyFingerprint(key), label };
+}
+
+/**
+ * Export one half of a signing key as PEM or JWK
+ */
+export function exportSigningKey(key: SigningKey, half: 'public' | 'private', format: KeyTextFormat): Promise<string> {
+  const cryptoKey = half === 'public' ? key.publicKey : key.privateKey;
+  if (!cryptoKey) {
+    throw new Error('This key has no private half');
+  }
+  return exportKeyText(cryptoKey, format);
+}
+
+/**
+ * Sign a statement with the private half of a key, returning base64
+ */
+export async function signStatement(key: SigningKey, statement: Uint8Array): Promise<string> {
+  if (!key.privateKey) {
+    throw new Error('A private key is needed to sign');
+  }
+  const signature = await crypto.subtle.sign(signParams(key.algorithm), key.privateKey, statement);
+  return bytesToBase64(new Uint8Array(signature));
+}
+
+/**
+ * Check a base64 signature over a statement; a malformed signature is just invalid
+ */
+export async function verifyStatement(key: SigningKey, signature: string, statement: Uint8Array): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(signParams(key.algorithm), key.publicKey, base64ToBytes(signature), statement);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The bytes that are actually signed: every field of the .sig file except the signature
+ */
+function signedStatement(signature: Omit<DetachedSignature, 'signature'>): Uint8Array {
+  return new TextEncoder().encode(STATEMENT_PREFIX + JSON.stringify([
+    signature.format,
+    signature.version,
+    signature.algorithm,
+    signature.hash,
+    signature.digest,
+    signature.size,
+    signature.fileName,
+    signature.signedAt,
+    signature.keyFingerprint
+  ]));
+}
+
+/**
+ * Sign a file, returning the detached signature and the file's hashes
+ */
+export async function signFile(
+  file: File,
+  key: SigningKey,
+  onProgress?: (processed: number, total: number) => void
+): Promise<{ signature: DetachedSignature; hashes: Partial<Record<HashAlgorithm, string>> }> {
+  if (!key.privateKey) {
+    throw new Error('A private key is needed to sign');
+  }
+  const hashes = await hashFileMulti(file, undefined, onProgress);
+  const unsigned: Omit<DetachedSignature, 'signature'> = {
+    format: SIGNATURE_FORMAT,
+    version: SIGNATURE_VERSION,
+    algorithm: key.algorithm,
+    hash: 'SHA-256',
+    digest: hashes['SHA-256'] ?? '',
+    size: file.size,
+    fileName: file.name,
+    signedAt: new Date().toISOString(),
+    keyFingerprint: key.fingerprint
+  };
+  const signature = await signStatement(key, signedStatement(unsigned));
+  return { signature: { ...unsigned, signature }, hashes };
+}
+
+export function serializeSignature(signature: DetachedSignature): string {
+  return JSON.stringify(signature, null, 2) + '\n';
+}
+
+/**
+ * Parse and sanity-check the contents of a .sig file
+ */
+export function parseSignature(text: string): DetachedSignature {
+  let parsed: Partial<DetachedSignature>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not a signature file - expected a SecureX .sig document');
+  }
+  if (parsed?.format !== SIGNATURE_FORMAT) {
+    throw new Error('Not a signature file - expected a SecureX .sig document');
+  }
+  if (parsed.version !== SIGNATURE_VERSION) {
+    throw new Error(`Unsupported signature version ${parsed.version}`);
+  }
+  if (!parsed.algorithm || !(parsed.algorithm in SIGNATURE_ALGORITHMS)) {
+    throw new Error(`Unsupported signature algorithm ${parsed.algorithm}`);
+  }
+  if (
+    parsed.hash !== 'SHA-256' ||
+    typeof parsed.digest !== 'string' || !/^[0-9a-f]{64}$/.test(parsed.digest) ||
+    typeof parsed.size !== 'number' ||
+    typeof parsed.fileName !== 'string' ||
+    typeof parsed.signedAt !== 'string' ||
+    typeof parsed.keyFingerprint !== 'string' ||
+    typeof parsed.signature !== 'string'
+  ) {
+    throw new Error('Signature file is malformed');
+  }
+  return parsed as DetachedSignature;
+}
+
+/**
+ * Check a file against a detached signature and the signer's public key.
+ * A bad signature or a modified file is reported in the result, not thrown.
+ */
+export async function verifyFile(
+  file: File,
+  signature: DetachedSignature,
+  key: SigningKey,
+  onProgress?: (processed: number, total: number) => void
+): Promise<SignatureCheck> {
+  const hashes = await hashFileMulti(file, undefined, onProgress);
+  const result = (valid: boolean, message: string): SignatureCheck => ({ valid, message, signature, hashes });
+
+  if (signature.algorithm !== key.algorithm) {
+    return result(false, `The signature uses ${SIGNATURE_ALGORITHMS[signature.algorithm].name}, but this is an ${SIGNATURE_ALGORITHMS[key.algorithm].name} key`);
+  }
+  if (signature.keyFingerprint !== key.fingerprint) {
+    return result(false, `Signed by a different key (${formatFingerprint(signature.keyFingerprint)})`);
+  }
+
+  if (!(await verifyStatement(key, signature.signature, signedStatement(signature)))) {
+    return result(false, 'The signature is not valid - the .sig file has been altered or was not made with this key');
+  }
+
+  if (signature.size !== file.size || signature.digest !== hashes['SHA-256']) {
+    return result(false, 'The file has been modified - its SHA-256 does not match the signed digest');
+  }
+  const renamed = signature.fileName !== file.name ? ` (signed as "${signature.fileName}")` : '';
+  return result(true, `Valid signature from key ${formatFingerprint(key.fingerprint)}, made ${new Date(signature.signedAt).toLocaleString()}${renamed}`);
+}
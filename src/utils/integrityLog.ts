@@ -0,0 +1,55 @@
+// History of file hashing, signing and verification results, kept in
+// localStorage so they survive a reload and can be put into security reports.
+
+import { HashAlgorithm } from './digest';
+import { SignatureAlgorithm } from './fileSignature';
+
+export type IntegrityAction = 'hash' | 'sign' | 'verify';
+
+export interface IntegrityRecord {
+  id: string;
+  timestamp: string;
+  action: IntegrityAction;
+  fileName: string;
+  size: number;
+  hashes: Partial<Record<HashAlgorithm, string>>;
+  algorithm?: SignatureAlgorithm;
+  keyFingerprint?: string;
+  /** Only set for verifications */
+  valid?: boolean;
+  detail?: string;
+}
+
+const STORAGE_KEY = 'securex-integrity-log';
+const MAX_RECORDS = 200;
+
+/**
+ * All recorded results, newest first
+ */
+export function readIntegrityLog(): IntegrityRecord[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const records = stored ? JSON.parse(stored) : [];
+    return Array.isArray(records) ? records : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Add a result to the log, dropping the oldest once it is full
+ */
+export function recordIntegrityResult(result: Omit<IntegrityRecord, 'id' | 'timestamp'>): IntegrityRecord {
+  const record: IntegrityRecord = { id: crypto.randomUUID(), timestamp: new Date().toISOString(), ...result };
+  try {
+    const records = [record, ...readIntegrityLog()].slice(0, MAX_RECORDS);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch {
+    // Storage may be full or disabled; the result is still shown to the user
+  }
+  return record;
+}
+
+export function clearIntegrityLog() {
+  localStorage.removeItem(STORAGE_KEY);
+}
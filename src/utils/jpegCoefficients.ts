@@ -0,0 +1,554 @@
+// Baseline JPEG at the level of quantized DCT coefficients.
+//
+// Steganography in JPEG works on the coefficients themselves, so the image
+// is never decoded to pixels and nothing is lost to a second compression.
+// This reads the Huffman-coded scans of a baseline (sequential, 8-bit) JPEG
+// into coefficient arrays, and writes them back as one interleaved scan.
+// Changing coefficients changes which run/size symbols occur, so the writer
+// builds optimal Huffman tables for the new data rather than reusing the
+// originals. Every other segment (quantization tables, EXIF, ICC profiles,
+// comments) is copied through unchanged. Progressive, lossless, arithmetic
+// coded and 12-bit JPEGs are not supported.
+
+export interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  /** Blocks per row and column in the MCU-padded grid */
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** Blocks per row and column that cover the image; the rest is padding */
+  visibleBlocksPerLine: number;
+  visibleBlocksPerColumn: number;
+  /** 64 coefficients per block in zigzag order, blocks row by row */
+  coefficients: Int16Array;
+}
+
+export interface JpegCoefficients {
+  width: number;
+  height: number;
+  components: JpegComponent[];
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  restartInterval: number;
+  /** Segments other than DHT, DRI and SOS, in file order, markers included */
+  segments: Uint8Array[];
+}
+
+interface HuffmanDecoder {
+  maxCode: Int32Array;
+  valueOffset: Int32Array;
+  symbols: Uint8Array;
+}
+
+interface HuffmanTable {
+  counts: number[];
+  symbols: number[];
+}
+
+const SOI = 0xd8;
+const EOI = 0xd9;
+const SOS = 0xda;
+const DHT = 0xc4;
+const DRI = 0xdd;
+const BASELINE_FRAMES = [0xc0, 0xc1];
+const UNSUPPORTED_FRAMES: Record<number, string> = {
+  0xc2: 'progressive', 0xc3: 'lossless', 0xc5: 'hierarchical', 0xc6: 'hierarchical', 0xc7: 'hierarchical',
+  0xc9: 'arithmetic-coded', 0xca: 'arithmetic-coded', 0xcb: 'arithmetic-coded',
+  0xcd: 'arithmetic-coded', 0xce: 'arithmetic-coded', 0xcf: 'arithmetic-coded'
+};
+const isRestartMarker = (marker: number) => marker >= 0xd0 && marker <= 0xd7;
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === SOI && bytes[2] === 0xff;
+}
+
+/**
+ * Whether the JPEG is baseline, i.e. whether parseJpeg can read it
+ */
+export function isBaselineJpeg(bytes: Uint8Array): boolean {
+  if (!isJpeg(bytes)) return false;
+  for (let offset = 2; offset + 4 <= bytes.length;) {
+    const marker = bytes[offset + 1];
+    if (bytes[offset] !== 0xff || marker === SOS || marker === EOI) return false;
+    if (BASELINE_FRAMES.includes(marker)) return bytes[offset + 4] === 8;
+    if (marker in UNSUPPORTED_FRAMES) return false;
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return false;
+}
+
+function buildDecoder(table: HuffmanTable): HuffmanDecoder {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valueOffset = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    valueOffset[length] = k - code;
+    code += table.counts[length - 1];
+    k += table.counts[length - 1];
+    if (table.counts[length - 1]) maxCode[length] = code - 1;
+    code <<= 1;
+  }
+  maxCode[17] = 0x7fffffff;
+  return { maxCode, valueOffset, symbols: Uint8Array.from(table.symbols) };
+}
+
+class BitReader {
+  private buffer = 0;
+  private bits = 0;
+
+  constructor(private data: Uint8Array, public offset: number) {}
+
+  private fill() {
+    const byte = this.data[this.offset];
+    if (byte === undefined) {
+      throw new Error('JPEG data ends in the middle of a scan');
+    }
+    if (byte === 0xff) {
+      const next = this.data[this.offset + 1];
+      if (next !== 0) {
+        throw new Error('JPEG scan data is corrupt (unexpected marker)');
+      }
+      this.offset += 2;
+    } else {
+      this.offset++;
+    }
+    this.buffer = byte;
+    this.bits = 8;
+  }
+
+  bit(): number {
+    if (this.bits === 0) this.fill();
+    return (this.buffer >> --this.bits) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = (value << 1) | this.bit();
+    return value;
+  }
+
+  decode(decoder: HuffmanDecoder): number {
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.bit();
+      if (code <= decoder.maxCode[length]) {
+        return decoder.symbols[decoder.valueOffset[length] + code];
+      }
+    }
+    throw new Error('JPEG scan data is corrupt (bad Huffman code)');
+  }
+
+  /** Skip to the byte after the expected RSTn marker */
+  restart() {
+    this.bits = 0;
+    if (this.data[this.offset] !== 0xff || !isRestartMarker(this.data[this.offset + 1])) {
+      throw new Error('JPEG scan data is corrupt (missing restart marker)');
+    }
+    this.offset += 2;
+  }
+}
+
+/** Sign-extend a received value of `size` bits (JPEG F.12) */
+const extend = (value: number, size: number) => (value < 1 << (size - 1) ? value - (1 << size) + 1 : value);
+
+interface ScanComponent {
+  component: JpegComponent;
+  dc: HuffmanDecoder;
+  ac: HuffmanDecoder;
+  predictor: number;
+}
+
+function decodeBlock(reader: BitReader, scan: ScanComponent, row: number, col: number) {
+  const { component } = scan;
+  const base = (row * component.blocksPerLine + col) * 64;
+  const size = reader.decode(scan.dc);
+  scan.predictor += size ? extend(reader.receive(size), size) : 0;
+  component.coefficients[base] = scan.predictor;
+  for (let k = 1; k < 64;) {
+    const rs = reader.decode(scan.ac);
+    const s = rs & 15;
+    const r = rs >> 4;
+    if (s === 0) {
+      if (r !== 15) break; // end of block
+      k += 16;
+      continue;
+    }
+    k += r;
+    if (k > 63) {
+      throw new Error('JPEG scan data is corrupt (coefficient out of range)');
+    }
+    component.coefficients[base + k] = extend(reader.receive(s), s);
+    k++;
+  }
+}
+
+/**
+ * Iterate over the blocks of a scan in coding order, calling `restart`
+ * at each restart interval
+ */
+function forEachBlock(
+  jpeg: JpegCoefficients,
+  components: JpegComponent[],
+  visit: (index: number, row: number, col: number) => void,
+  restart: () => void
+) {
+  if (components.length === 1) {
+    const component = components[0];
+    const units = component.visibleBlocksPerLine * component.visibleBlocksPerColumn;
+    for (let n = 0; n < units; n++) {
+      if (jpeg.restartInterval && n > 0 && n % jpeg.restartInterval === 0) restart();
+      visit(0, Math.floor(n / component.visibleBlocksPerLine), n % component.visibleBlocksPerLine);
+    }
+    return;
+  }
+  const units = jpeg.mcusPerLine * jpeg.mcusPerColumn;
+  for (let n = 0; n < units; n++) {
+    if (jpeg.restartInterval && n > 0 && n % jpeg.restartInterval === 0) restart();
+    const mcuRow = Math.floor(n / jpeg.mcusPerLine);
+    const mcuCol = n % jpeg.mcusPerLine;
+    components.forEach((component, index) => {
+      for (let y = 0; y < component.v; y++) {
+        for (let x = 0; x < component.h; x++) {
+          visit(index, mcuRow * component.v + y, mcuCol * component.h + x);
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Read the coefficients of a baseline JPEG
+ */
+export function parseJpeg(bytes: Uint8Array): JpegCoefficients {
+  if (!isJpeg(bytes)) {
+    throw new Error('Not a JPEG image');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tables = new Map<number, HuffmanDecoder>(); // class << 4 | id
+  const segments: Uint8Array[] = [];
+  let jpeg: JpegCoefficients | null = null;
+  let restartInterval = 0;
+
+  let offset = 2;
+  while (offset + 1 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new Error('JPEG structure is corrupt');
+    }
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // fill byte
+      continue;
+    }
+    offset += 2;
+    if (marker === EOI) break;
+    if (marker === SOI || isRestartMarker(marker)) continue;
+
+    const length = view.getUint16(offset);
+    const body = bytes.subarray(offset + 2, offset + length);
+    if (marker in UNSUPPORTED_FRAMES) {
+      throw new Error(`This is a ${UNSUPPORTED_FRAMES[marker]} JPEG; only baseline JPEGs are supported`);
+    }
+
+    if (BASELINE_FRAMES.includes(marker)) {
+      if (body[0] !== 8) {
+        throw new Error(`${body[0]}-bit JPEGs are not supported`);
+      }
+      const height = (body[1] << 8) | body[2];
+      const width = (body[3] << 8) | body[4];
+      if (!width || !height) {
+        throw new Error('JPEGs that give their height after the scan are not supported');
+      }
+      const frame = Array.from({ length: body[5] }, (_, i) => ({
+        id: body[6 + i * 3],
+        h: body[7 + i * 3] >> 4,
+        v: body[7 + i * 3] & 15
+      }));
+      const hMax = Math.max(...frame.map(c => c.h));
+      const vMax = Math.max(...frame.map(c => c.v));
+      const mcusPerLine = Math.ceil(width / (8 * hMax));
+      const mcusPerColumn = Math.ceil(height / (8 * vMax));
+      const components = frame.map(({ id, h, v }) => {
+        const blocksPerLine = mcusPerLine * h;
+        const blocksPerColumn = mcusPerColumn * v;
+        return {
+          id, h, v, blocksPerLine, blocksPerColumn,
+          visibleBlocksPerLine: Math.ceil(Math.ceil((width * h) / hMax) / 8),
+          visibleBlocksPerColumn: Math.ceil(Math.ceil((height * v) / vMax) / 8),
+          coefficients: new Int16Array(blocksPerLine * blocksPerColumn * 64)
+        };
+      });
+      jpeg = { width, height, components, mcusPerLine, mcusPerColumn, restartInterval, segments };
+      segments.push(bytes.subarray(offset - 2, offset + length));
+    } else if (marker === DHT) {
+      for (let p = 0; p < body.length;) {
+        const counts = Array.from(body.subarray(p + 1, p + 17));
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        tables.set(body[p], buildDecoder({ counts, symbols: Array.from(body.subarray(p + 17, p + 17 + total)) }));
+        p += 17 + total;
+      }
+    } else if (marker === DRI) {
+      restartInterval = (body[0] << 8) | body[1];
+      if (jpeg) jpeg.restartInterval = restartInterval;
+    } else if (marker === SOS) {
+      if (!jpeg) {
+        throw new Error('JPEG scan comes before the frame header');
+      }
+      const count = body[0];
+      const scan: ScanComponent[] = [];
+      for (let i = 0; i < count; i++) {
+        const component = jpeg.components.find(c => c.id === body[1 + i * 2]);
+        const dc = tables.get(body[2 + i * 2] >> 4);
+        const ac = tables.get(0x10 | (body[2 + i * 2] & 15));
+        if (!component || !dc || !ac) {
+          throw new Error('JPEG scan refers to a missing component or Huffman table');
+        }
+        scan.push({ component, dc, ac, predictor: 0 });
+      }
+      const reader = new BitReader(bytes, offset + length);
+      forEachBlock(
+        jpeg,
+        scan.map(s => s.component),
+        (index, row, col) => decodeBlock(reader, scan[index], row, col),
+        () => {
+          reader.restart();
+          scan.forEach(s => (s.predictor = 0));
+        }
+      );
+      // Skip any padding up to the next marker
+      offset = reader.offset;
+      while (offset + 1 < bytes.length && !(bytes[offset] === 0xff && bytes[offset + 1] !== 0 && !isRestartMarker(bytes[offset + 1]))) {
+        offset++;
+      }
+      continue;
+    } else {
+      segments.push(bytes.subarray(offset - 2, offset + length));
+    }
+    offset += length;
+  }
+
+  if (!jpeg) {
+    throw new Error('JPEG has no frame header');
+  }
+  return jpeg;
+}
+
+/**
+ * Optimal length-limited Huffman code for symbol frequencies (JPEG K.2)
+ */
+function optimalTable(frequencies: Uint32Array): HuffmanTable {
+  const freq = Array.from(frequencies);
+  freq[256] = 1; // reserved so that no code is all ones
+  const codeSize = new Array(257).fill(0);
+  const others = new Array(257).fill(-1);
+
+  for (;;) {
+    let c1 = -1;
+    let c2 = -1;
+    for (let i = 0; i <= 256; i++) {
+      if (freq[i] && (c1 < 0 || freq[i] <= freq[c1])) c1 = i;
+    }
+    for (let i = 0; i <= 256; i++) {
+      if (freq[i] && i !== c1 && (c2 < 0 || freq[i] <= freq[c2])) c2 = i;
+    }
+    if (c2 < 0) break;
+    freq[c1] += freq[c2];
+    freq[c2] = 0;
+    codeSize[c1]++;
+    while (others[c1] >= 0) {
+      c1 = others[c1];
+      codeSize[c1]++;
+    }
+    others[c1] = c2;
+    codeSize[c2]++;
+    while (others[c2] >= 0) {
+      c2 = others[c2];
+      codeSize[c2]++;
+    }
+  }
+
+  const bits = new Array(33).fill(0);
+  for (let i = 0; i <= 256; i++) {
+    if (codeSize[i]) bits[codeSize[i]]++;
+  }
+  // Limit code lengths to 16 bits
+  for (let i = 32; i > 16; i--) {
+    while (bits[i] > 0) {
+      let j = i - 2;
+      while (bits[j] === 0) j--;
+      bits[i] -= 2;
+      bits[i - 1]++;
+      bits[j + 1] += 2;
+      bits[j]--;
+    }
+  }
+  let longest = 16;
+  while (bits[longest] === 0) longest--;
+  bits[longest]--; // drop the reserved symbol
+
+  const symbols: number[] = [];
+  for (let length = 1; length <= 32; length++) {
+    for (let symbol = 0; symbol < 256; symbol++) {
+      if (codeSize[symbol] === length) symbols.push(symbol);
+    }
+  }
+  return { counts: bits.slice(1, 17), symbols };
+}
+
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private bits = 0;
+
+  write(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+      if (++this.bits === 8) this.flushByte();
+    }
+  }
+
+  private flushByte() {
+    this.bytes.push(this.buffer);
+    if (this.buffer === 0xff) this.bytes.push(0); // byte stuffing
+    this.buffer = 0;
+    this.bits = 0;
+  }
+
+  /** Pad the last byte with ones, as the standard requires */
+  align() {
+    if (this.bits) this.write(0x7f, 8 - this.bits);
+  }
+
+  marker(marker: number) {
+    this.align();
+    this.bytes.push(0xff, marker);
+  }
+
+  toBytes(): Uint8Array {
+    this.align();
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+const bitLength = (value: number) => (value === 0 ? 0 : 32 - Math.clz32(Math.abs(value)));
+const magnitudeBits = (value: number, size: number) => (value < 0 ? value + (1 << size) - 1 : value);
+
+type SymbolSink = (table: number, symbol: number, extra: number, extraLength: number) => void;
+
+/**
+ * Produce the Huffman symbols of one interleaved scan over all components;
+ * tables are numbered as for DHT, DC 0-1 and AC 16-17
+ */
+function emitScan(jpeg: JpegCoefficients, emit: SymbolSink, restart: (index: number) => void) {
+  const predictors = jpeg.components.map(() => 0);
+  let restarts = 0;
+  forEachBlock(
+    jpeg,
+    jpeg.components,
+    (index, row, col) => {
+      const component = jpeg.components[index];
+      const table = index === 0 ? 0 : 1;
+      const base = (row * component.blocksPerLine + col) * 64;
+      const c = component.coefficients;
+
+      const diff = c[base] - predictors[index];
+      predictors[index] = c[base];
+      const size = bitLength(diff);
+      emit(table, size, magnitudeBits(diff, size), size);
+
+      let run = 0;
+      for (let k = 1; k < 64; k++) {
+        const value = c[base + k];
+        if (value === 0) {
+          run++;
+          continue;
+        }
+        while (run > 15) {
+          emit(0x10 | table, 0xf0, 0, 0);
+          run -= 16;
+        }
+        const acSize = bitLength(value);
+        emit(0x10 | table, (run << 4) | acSize, magnitudeBits(value, acSize), acSize);
+        run = 0;
+      }
+      if (run > 0) emit(0x10 | table, 0x00, 0, 0);
+    },
+    () => {
+      predictors.fill(0);
+      restart(restarts++ % 8);
+    }
+  );
+}
+
+function segment(marker: number, body: number[]): Uint8Array {
+  const length = body.length + 2;
+  return Uint8Array.from([0xff, marker, length >> 8, length & 0xff, ...body]);
+}
+
+/**
+ * Write the coefficients back out as a baseline JPEG
+ */
+export function writeJpeg(jpeg: JpegCoefficients): Uint8Array {
+  const tableIds = jpeg.components.length > 1 ? [0, 1] : [0];
+  const frequencies = new Map<number, Uint32Array>();
+  for (const id of tableIds) {
+    frequencies.set(id, new Uint32Array(256));
+    frequencies.set(0x10 | id, new Uint32Array(256));
+  }
+  emitScan(jpeg, (table, symbol) => frequencies.get(table)[symbol]++, () => undefined);
+
+  const dht: number[] = [];
+  const codes = new Map<number, { code: number[]; size: number[] }>();
+  for (const [table, counts] of frequencies) {
+    const huffman = optimalTable(counts);
+    dht.push(table, ...huffman.counts, ...huffman.symbols);
+    const code: number[] = [];
+    const size: number[] = [];
+    let next = 0;
+    let k = 0;
+    for (let length = 1; length <= 16; length++) {
+      for (let i = 0; i < huffman.counts[length - 1]; i++) {
+        code[huffman.symbols[k]] = next++;
+        size[huffman.symbols[k++]] = length;
+      }
+      next <<= 1;
+    }
+    codes.set(table, { code, size });
+  }
+
+  const writer = new BitWriter();
+  emitScan(
+    jpeg,
+    (table, symbol, extra, extraLength) => {
+      const { code, size } = codes.get(table);
+      writer.write(code[symbol], size[symbol]);
+      if (extraLength) writer.write(extra, extraLength);
+    },
+    (index) => writer.marker(0xd0 + index)
+  );
+
+  const sos = [jpeg.components.length];
+  jpeg.components.forEach((component, index) => {
+    const table = index === 0 ? 0 : 1;
+    sos.push(component.id, (table << 4) | table);
+  });
+  sos.push(0, 63, 0);
+
+  const parts = [
+    Uint8Array.from([0xff, SOI]),
+    ...jpeg.segments,
+    ...(jpeg.restartInterval ? [segment(DRI, [jpeg.restartInterval >> 8, jpeg.restartInterval & 0xff])] : []),
+    segment(DHT, dht),
+    segment(SOS, sos),
+    writer.toBytes(),
+    Uint8Array.from([0xff, EOI])
+  ];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,298 @@
+// F5 steganography in the DCT coefficients of baseline JPEGs.
+//
+// Bits are carried by the nonzero AC coefficients, visited in a keyed
+// pseudo-random order over the whole image. The bit of a coefficient is the
+// LSB of its absolute value, inverted for negative values, and it is changed
+// by moving the value one step towards zero rather than by overwriting the
+// LSB (as JSteg does), which keeps the histogram free of the pairs-of-values
+// signature the chi-square attack finds. A coefficient that reaches zero no
+// longer counts, so its bit is embedded again in the next one ("shrinkage").
+//
+// Matrix encoding (1, 2^k - 1, k) hides k bits in each group of 2^k - 1
+// coefficients while changing at most one of them, so small payloads in
+// large images change very few coefficients. The value of k is written
+// first, one bit per coefficient; the payload (see stegoPayload.ts, or the
+// sealed form from stegoCrypto.ts with a passphrase) follows.
+
+import { JpegCoefficients, parseJpeg, writeJpeg } from './jpegCoefficients';
+import {
+  LENGTH_BYTES,
+  SEAL_OVERHEAD,
+  deriveStegoKeys,
+  keyedPermutation,
+  openPayload,
+  publicScatterKey,
+  sealPayload,
+  sealedLength
+} from './stegoCrypto';
+import { PAYLOAD_HEADER_LENGTH, StegoPayload, decodePayload, decodePayloadBody, parsePayloadHeader } from './stegoPayload';
+
+const MAX_K = 9;
+
+/**
+ * The AC coefficients of every block inside the image, in a keyed order
+ */
+class CoefficientWalker {
+  private position = 0;
+
+  constructor(
+    private arrays: Int16Array[],
+    private slotArray: Uint8Array,
+    private slotOffset: Uint32Array,
+    private order: Uint32Array
+  ) {}
+
+  /** Next nonzero coefficient, or -1 when there are none left */
+  next(): number {
+    while (this.position < this.order.length) {
+      const slot = this.order[this.position++];
+      if (this.get(slot) !== 0) return slot;
+    }
+    return -1;
+  }
+
+  get(slot: number): number {
+    return this.arrays[this.slotArray[slot]][this.slotOffset[slot]];
+  }
+
+  /** Move one step towards zero, flipping its bit; returns the new value */
+  decrement(slot: number): number {
+    const array = this.arrays[this.slotArray[slot]];
+    const offset = this.slotOffset[slot];
+    array[offset] += array[offset] > 0 ? -1 : 1;
+    return array[offset];
+  }
+}
+
+const coefficientBit = (value: number) => (value > 0 ? value & 1 : ((-value) & 1) ^ 1);
+
+interface CoefficientSlots {
+  arrays: Int16Array[];
+  slotArray: Uint8Array;
+  slotOffset: Uint32Array;
+}
+
+function coefficientSlots(jpeg: JpegCoefficients): CoefficientSlots {
+  const count = jpeg.components.reduce((sum, c) => sum + c.visibleBlocksPerLine * c.visibleBlocksPerColumn * 63, 0);
+  const slotArray = new Uint8Array(count);
+  const slotOffset = new Uint32Array(count);
+  let slot = 0;
+  jpeg.components.forEach((component, index) => {
+    for (let row = 0; row < component.visibleBlocksPerColumn; row++) {
+      for (let col = 0; col < component.visibleBlocksPerLine; col++) {
+        const base = (row * component.blocksPerLine + col) * 64;
+        for (let k = 1; k < 64; k++) {
+          slotArray[slot] = index;
+          slotOffset[slot++] = base + k;
+        }
+      }
+    }
+  });
+  return { arrays: jpeg.components.map(c => c.coefficients), slotArray, slotOffset };
+}
+
+function countCoefficients(jpeg: JpegCoefficients): { nonzero: number; ones: number } {
+  const { arrays, slotArray, slotOffset } = coefficientSlots(jpeg);
+  let nonzero = 0;
+  let ones = 0;
+  for (let slot = 0; slot < slotArray.length; slot++) {
+    const value = arrays[slotArray[slot]][slotOffset[slot]];
+    if (value !== 0) nonzero++;
+    if (value === 1 || value === -1) ones++;
+  }
+  return { nonzero, ones };
+}
+
+/**
+ * Number of bits that can be hidden one per coefficient: every nonzero
+ * coefficient holds one, less those lost to shrinkage (half of the ±1s on
+ * average, with a margin since the actual loss varies)
+ */
+function expectedBits(jpeg: JpegCoefficients): number {
+  const { nonzero, ones } = countCoefficients(jpeg);
+  return Math.floor((nonzero - ones / 2) * 0.97);
+}
+
+/**
+ * Approximate number of message or file bytes the JPEG can hold
+ */
+export function jpegCapacity(jpeg: JpegCoefficients, withPassphrase: boolean): number {
+  const overhead = PAYLOAD_HEADER_LENGTH + (withPassphrase ? SEAL_OVERHEAD : 0);
+  return Math.max(Math.floor((expectedBits(jpeg) - 8) / 8) - overhead, 0);
+}
+
+const capacityError = () => new Error('The image ran out of usable coefficients');
+
+function* bitsOf(bytes: Uint8Array) {
+  for (const byte of bytes) {
+    for (let bit = 7; bit >= 0; bit--) yield (byte >> bit) & 1;
+  }
+}
+
+/**
+ * Embed one bit per coefficient (k = 1), re-embedding after shrinkage
+ */
+function embedDirect(walker: CoefficientWalker, bits: Iterable<number>) {
+  for (const bit of bits) {
+    for (;;) {
+      const slot = walker.next();
+      if (slot < 0) throw capacityError();
+      if (coefficientBit(walker.get(slot)) === bit) break;
+      if (walker.decrement(slot) !== 0) break;
+    }
+  }
+}
+
+/**
+ * Embed k bits per group of 2^k - 1 coefficients, changing at most one
+ */
+function embedMatrix(walker: CoefficientWalker, data: Uint8Array, k: number) {
+  const n = (1 << k) - 1;
+  const bits = Array.from(bitsOf(data));
+  for (let start = 0; start < bits.length; start += k) {
+    let message = 0;
+    for (let i = 0; i < k; i++) message = (message << 1) | (bits[start + i] ?? 0);
+
+    const group: number[] = [];
+    while (group.length < n) {
+      const slot = walker.next();
+      if (slot < 0) throw capacityError();
+      group.push(slot);
+    }
+    for (;;) {
+      let hash = 0;
+      group.forEach((slot, i) => {
+        if (coefficientBit(walker.get(slot))) hash ^= i + 1;
+      });
+      const change = hash ^ message;
+      if (change === 0) break;
+      if (walker.decrement(group[change - 1]) !== 0) break;
+      // Shrinkage: the coefficient left the group, so refill and try again
+      group.splice(change - 1, 1);
+      const slot = walker.next();
+      if (slot < 0) throw capacityError();
+      group.push(slot);
+    }
+  }
+}
+
+/**
+ * Reads bits back in the order embedMatrix wrote them
+ */
+class MatrixReader {
+  private pending: number[] = [];
+
+  constructor(private walker: CoefficientWalker, private k: number) {}
+
+  /** The next `length` bytes, or null if the coefficients run out */
+  read(length: number): Uint8Array | null {
+    const n = (1 << this.k) - 1;
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length * 8; i++) {
+      if (this.pending.length === 0) {
+        let hash = 0;
+        for (let j = 1; j <= n; j++) {
+          const slot = this.walker.next();
+          if (slot < 0) return null;
+          if (coefficientBit(this.walker.get(slot))) hash ^= j;
+        }
+        for (let bit = this.k - 1; bit >= 0; bit--) this.pending.push((hash >> bit) & 1);
+      }
+      bytes[i >> 3] |= this.pending.shift() << (7 - (i & 7));
+    }
+    return bytes;
+  }
+}
+
+function readDirectByte(walker: CoefficientWalker): number | null {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const slot = walker.next();
+    if (slot < 0) return null;
+    value = (value << 1) | coefficientBit(walker.get(slot));
+  }
+  return value;
+}
+
+async function walkerFor(jpeg: JpegCoefficients, scatterKey?: Uint8Array): Promise<CoefficientWalker> {
+  const { arrays, slotArray, slotOffset } = coefficientSlots(jpeg);
+  const order = keyedPermutation(scatterKey ?? await publicScatterKey(), slotArray.length);
+  return new CoefficientWalker(arrays, slotArray, slotOffset, order);
+}
+
+/**
+ * Hide a payload (header and body) in a baseline JPEG; returns the new JPEG
+ */
+export async function embedInJpeg(jpegBytes: Uint8Array, payload: Uint8Array, passphrase = ''): Promise<Uint8Array> {
+  const original = parseJpeg(jpegBytes);
+  const keys = passphrase ? await deriveStegoKeys(passphrase, original.width, original.height) : null;
+  const data = keys ? await sealPayload(keys, payload) : payload;
+
+  const capacity = jpegCapacity(original, Boolean(passphrase));
+  const needed = payload.length - PAYLOAD_HEADER_LENGTH;
+  if (needed > capacity) {
+    throw new Error(`Too much data to hide. Max capacity: about ${capacity} bytes, needed ${needed}`);
+  }
+
+  // The largest k the image has room for changes the fewest coefficients;
+  // if shrinkage uses up more coefficients than expected, fall back to a
+  // smaller one
+  const available = expectedBits(original) - 8;
+  const bits = data.length * 8;
+  let k = 1;
+  while (k < MAX_K && Math.ceil(bits / (k + 1)) * ((1 << (k + 1)) - 1) <= available) k++;
+
+  for (; k >= 1; k--) {
+    const jpeg = { ...original, components: original.components.map(c => ({ ...c, coefficients: c.coefficients.slice() })) };
+    const walker = await walkerFor(jpeg, keys?.scatterKey);
+    try {
+      embedDirect(walker, bitsOf(Uint8Array.of(k)));
+      embedMatrix(walker, data, k);
+      return writeJpeg(jpeg);
+    } catch (error) {
+      if (k === 1) {
+        throw new Error('Too much data to hide in this JPEG. Try a shorter message or a larger image');
+      }
+    }
+  }
+  throw capacityError();
+}
+
+/**
+ * Find a payload hidden by embedInJpeg; null if there is none (or the
+ * passphrase is wrong, which cannot be told apart)
+ */
+export async function extractFromJpeg(jpegBytes: Uint8Array, passphrase = ''): Promise<StegoPayload | null> {
+  const jpeg = parseJpeg(jpegBytes);
+  const keys = passphrase ? await deriveStegoKeys(passphrase, jpeg.width, jpeg.height) : null;
+  const walker = await walkerFor(jpeg, keys?.scatterKey);
+  const k = readDirectByte(walker);
+  if (k === null || k < 1 || k > MAX_K) return null;
+  const reader = new MatrixReader(walker, k);
+  // A length beyond what the image can hold means there is nothing here
+  const maxBytes = Math.ceil(countCoefficients(jpeg).nonzero / 8);
+
+  if (keys) {
+    const lengthBytes = reader.read(LENGTH_BYTES);
+    if (!lengthBytes) return null;
+    const length = sealedLength(keys, lengthBytes);
+    if (length > maxBytes) return null;
+    const rest = reader.read(length);
+    const opened = rest && await openPayload(keys, rest);
+    if (!opened) return null;
+    const payload = decodePayload(opened);
+    if (!payload) {
+      throw new Error('The passphrase opened the hidden data, but it is not in a known format');
+    }
+    return payload;
+  }
+
+  const headerBytes = reader.read(PAYLOAD_HEADER_LENGTH);
+  const header = headerBytes && parsePayloadHeader(headerBytes);
+  if (!header) return null;
+  const body = header.length <= maxBytes ? reader.read(header.length) : null;
+  if (!body) {
+    throw new Error('Hidden data is damaged - its length runs past the end of the image');
+  }
+  return decodePayloadBody(header, body);
+}
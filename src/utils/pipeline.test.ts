@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_STREAM_OUTPUT, runRecipe } from './pipeline';
+
+async function compressed(format: CompressionFormat, size: number): Promise<Uint8Array> {
+  const zeros = new Blob([new Uint8Array(size)]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(zeros).arrayBuffer());
+}
+
+describe('decompression limits', () => {
+  it.each([
+    ['gzip', 'gunzip'],
+    ['deflate', 'zlib-inflate'],
+    ['deflate-raw', 'raw-inflate']
+  ] as const)('stops %s output past the limit', async (format, op) => {
+    const bomb = await compressed(format, MAX_STREAM_OUTPUT + 1);
+    expect(bomb.length).toBeLessThan(64 * 1024);
+    const [result] = await runRecipe([{ op, args: {} }], bomb);
+    expect(result).toEqual({ error: `Output is larger than ${MAX_STREAM_OUTPUT / (1024 * 1024)} MiB - stopped` });
+  });
+
+  it('still inflates output up to the limit', async () => {
+    const [result] = await runRecipe([{ op: 'gunzip', args: {} }], await compressed('gzip', MAX_STREAM_OUTPUT));
+    expect(result.output?.length).toBe(MAX_STREAM_OUTPUT);
+  });
+});
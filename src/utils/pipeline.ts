@@ -0,0 +1,571 @@
+// Composable encoding pipeline, in the style of CyberChef recipes.
+//
+// Every operation takes bytes and returns bytes, so binary steps (gzip, XOR,
+// hashing) and text steps (URL encoding, classical ciphers) can be chained in
+// any order; text steps read and write UTF-8, and the Encode / Decode Text
+// operations convert to and from the other encodings in textCodec.ts. A recipe
+// is the ordered list of operation ids with their arguments and is saved and
+// shared as JSON:
+//
+//   { "format": "securex-recipe", "version": 1, "name": "...", "steps": [{ "op": "from-base64", "args": {} }] }
+
+import { base64ToBytes, bytesToBase64 } from './base64';
+import {
+  base32ToBytes,
+  base58ToBytes,
+  bytesToBase32,
+  bytesToBase58,
+  bytesToHex,
+  hexToBytes,
+  htmlEntityDecode,
+  htmlEntityEncode,
+  urlDecode,
+  urlEncode
+} from './encodings';
+import { HASH_ALGORITHMS, HashAlgorithm, createHasher } from './digest';
+import { CLASSICAL_CIPHERS, ClassicalCipher, applyClassicalCipher } from './classicalCiphers';
+import { TEXT_CIPHERS, TextCipher, decryptText, encryptText } from './textEncryption';
+import { englishScore } from './cryptanalysis';
+import { DEFAULT_TEXT_ENCODING, TEXT_ENCODINGS, decodeText, encodeText, isTextEncoding, tryDecodeText } from './textCodec';
+
+export type OperationCategory = 'Encoding' | 'Compression' | 'Bytes' | 'Hashing' | 'Ciphers';
+
+export interface OperationArg {
+  name: string;
+  label: string;
+  default: string;
+  /** Fixed choices as [value, label]; a free text field when omitted */
+  options?: [string, string][];
+  placeholder?: string;
+}
+
+export interface PipelineOperation {
+  id: string;
+  name: string;
+  category: OperationCategory;
+  args: OperationArg[];
+  run(input: Uint8Array, args: Record<string, string>): Uint8Array | Promise<Uint8Array>;
+  /** Whether the input looks like this operation's format; only decoders have one, for magic mode */
+  detect?(input: Uint8Array): boolean;
+}
+
+export interface RecipeStep {
+  op: string;
+  args: Record<string, string>;
+}
+
+export interface Recipe {
+  format: 'securex-recipe';
+  version: 1;
+  name: string;
+  steps: RecipeStep[];
+}
+
+export interface StepResult {
+  output?: Uint8Array;
+  error?: string;
+}
+
+export interface MagicResult {
+  steps: RecipeStep[];
+  output: Uint8Array;
+  score: number;
+}
+
+/**
+ * Decode bytes as UTF-8, or null when they are not valid UTF-8
+ */
+export function bytesToText(bytes: Uint8Array): string | null {
+  return tryDecodeText(bytes);
+}
+
+function requireText(bytes: Uint8Array): string {
+  const text = bytesToText(bytes);
+  if (text === null) {
+    throw new Error('Input is binary, not UTF-8 text - decode or hex-encode it first');
+  }
+  return text;
+}
+
+/**
+ * Wrap a string-to-string function as a byte operation
+ */
+function textOperation(transform: (text: string, args: Record<string, string>) => string) {
+  return (input: Uint8Array, args: Record<string, string>) => encodeText(transform(requireText(input), args));
+}
+
+/**
+ * Test a decoder's input pattern against the (ASCII) input, trimmed
+ */
+function matches(pattern: RegExp, minLength = 4) {
+  return (input: Uint8Array) => {
+    const text = decodeText(input).trim();
+    return text.length >= minLength && pattern.test(text);
+  };
+}
+
+// A few bytes of deflate can inflate to gigabytes, so stream steps stop here
+export const MAX_STREAM_OUTPUT = 32 * 1024 * 1024;
+
+async function pipeThrough(input: Uint8Array, stream: GenericTransformStream, failure: string): Promise<Uint8Array> {
+  const reader = new Blob([input]).stream().pipeThrough(stream).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch {
+      throw new Error(failure);
+    }
+    if (chunk.done) break;
+    length += chunk.value.length;
+    if (length > MAX_STREAM_OUTPUT) {
+      await reader.cancel().catch(() => undefined);
+      throw new Error(`Output is larger than ${MAX_STREAM_OUTPUT / (1024 * 1024)} MiB - stopped`);
+    }
+    chunks.push(chunk.value);
+  }
+
+  const output = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+const compress = (format: CompressionFormat) =>
+  (input: Uint8Array) => pipeThrough(input, new CompressionStream(format), `${format} compression failed`);
+
+const decompress = (format: CompressionFormat, name: string) =>
+  (input: Uint8Array) => pipeThrough(input, new DecompressionStream(format), `Input is not valid ${name} data`);
+
+function xorBytes(input: Uint8Array, args: Record<string, string>): Uint8Array {
+  const key = args.keyFormat === 'hex' ? hexToBytes(args.key) : encodeText(args.key);
+  if (key.length === 0) {
+    throw new Error('Enter an XOR key');
+  }
+  return input.map((byte, i) => byte ^ key[i % key.length]);
+}
+
+const CIPHER_OPTIONS = Object.entries(CLASSICAL_CIPHERS).map(([id, info]) => [id, info.name] as [string, string]);
+const TEXT_CIPHER_OPTIONS = Object.entries(TEXT_CIPHERS).map(([id, info]) => [id, info.name] as [string, string]);
+const ENCODING_OPTIONS = Object.entries(TEXT_ENCODINGS).map(([id, info]) => [id, info.name] as [string, string]);
+const HASH_OPTIONS = HASH_ALGORITHMS.map(algorithm => [algorithm, algorithm] as [string, string]);
+
+function encodingArg(args: Record<string, string>) {
+  return isTextEncoding(args.encoding) ? args.encoding : DEFAULT_TEXT_ENCODING;
+}
+
+export const PIPELINE_OPERATIONS: PipelineOperation[] = [
+  {
+    id: 'encode-text',
+    name: 'Encode Text',
+    category: 'Encoding',
+    args: [{ name: 'encoding', label: 'Encoding', default: 'utf-16le', options: ENCODING_OPTIONS }],
+    run: (input, args) => encodeText(requireText(input), encodingArg(args))
+  },
+  {
+    id: 'decode-text',
+    name: 'Decode Text',
+    category: 'Encoding',
+    args: [{ name: 'encoding', label: 'Encoding', default: 'utf-16le', options: ENCODING_OPTIONS }],
+    run: (input, args) => encodeText(decodeText(input, encodingArg(args), true))
+  },
+  {
+    id: 'to-base64',
+    name: 'To Base64',
+    category: 'Encoding',
+    args: [],
+    run: input => encodeText(bytesToBase64(input))
+  },
+  {
+    id: 'from-base64',
+    name: 'From Base64',
+    category: 'Encoding',
+    args: [],
+    run: input => {
+      try {
+        return base64ToBytes(requireText(input));
+      } catch {
+        throw new Error('Input is not valid base64');
+      }
+    },
+    detect: matches(/^[A-Za-z0-9+/_-]+={0,2}$/)
+  },
+  {
+    id: 'to-base32',
+    name: 'To Base32',
+    category: 'Encoding',
+    args: [],
+    run: input => encodeText(bytesToBase32(input))
+  },
+  {
+    id: 'from-base32',
+    name: 'From Base32',
+    category: 'Encoding',
+    args: [],
+    run: input => base32ToBytes(requireText(input)),
+    detect: matches(/^[A-Z2-7]+=*$/, 8)
+  },
+  {
+    id: 'to-base58',
+    name: 'To Base58',
+    category: 'Encoding',
+    args: [],
+    run: input => encodeText(bytesToBase58(input))
+  },
+  {
+    id: 'from-base58',
+    name: 'From Base58',
+    category: 'Encoding',
+    args: [],
+    run: input => base58ToBytes(requireText(input)),
+    detect: matches(/^[1-9A-HJ-NP-Za-km-z]+$/)
+  },
+  {
+    id: 'to-hex',
+    name: 'To Hex',
+    category: 'Encoding',
+    args: [{ name: 'separator', label: 'Separator', default: '', options: [['', 'None'], [' ', 'Space'], [':', 'Colon']] }],
+    run: (input, args) => encodeText(bytesToHex(input, args.separator))
+  },
+  {
+    id: 'from-hex',
+    name: 'From Hex',
+    category: 'Encoding',
+    args: [],
+    run: input => hexToBytes(requireText(input)),
+    detect: matches(/^(0x)?([0-9a-fA-F]{2}[\s:,]?)+$/, 2)
+  },
+  {
+    id: 'url-encode',
+    name: 'URL Encode',
+    category: 'Encoding',
+    args: [],
+    run: textOperation(urlEncode)
+  },
+  {
+    id: 'url-decode',
+    name: 'URL Decode',
+    category: 'Encoding',
+    args: [],
+    run: textOperation(urlDecode),
+    detect: matches(/%[0-9a-fA-F]{2}/, 3)
+  },
+  {
+    id: 'html-encode',
+    name: 'HTML Entity Encode',
+    category: 'Encoding',
+    args: [{ name: 'scope', label: 'Encode', default: 'special', options: [['special', 'Special characters'], ['all', 'All non-ASCII']] }],
+    run: textOperation((text, args) => htmlEntityEncode(text, args.scope === 'all'))
+  },
+  {
+    id: 'html-decode',
+    name: 'HTML Entity Decode',
+    category: 'Encoding',
+    args: [],
+    run: textOperation(htmlEntityDecode),
+    detect: matches(/&(#[xX][0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/)
+  },
+  {
+    id: 'gzip',
+    name: 'Gzip',
+    category: 'Compression',
+    args: [],
+    run: compress('gzip')
+  },
+  {
+    id: 'gunzip',
+    name: 'Gunzip',
+    category: 'Compression',
+    args: [],
+    run: decompress('gzip', 'gzip'),
+    detect: input => input.length > 18 && input[0] === 0x1f && input[1] === 0x8b
+  },
+  {
+    id: 'zlib-deflate',
+    name: 'Zlib Deflate',
+    category: 'Compression',
+    args: [],
+    run: compress('deflate')
+  },
+  {
+    id: 'zlib-inflate',
+    name: 'Zlib Inflate',
+    category: 'Compression',
+    args: [],
+    run: decompress('deflate', 'zlib'),
+    // CMF byte says deflate, and the header checksum holds
+    detect: input => input.length > 6 && (input[0] & 0x0f) === 8 && ((input[0] << 8) | input[1]) % 31 === 0
+  },
+  {
+    id: 'raw-deflate',
+    name: 'Raw Deflate',
+    category: 'Compression',
+    args: [],
+    run: compress('deflate-raw')
+  },
+  {
+    id: 'raw-inflate',
+    name: 'Raw Inflate',
+    category: 'Compression',
+    args: [],
+    run: decompress('deflate-raw', 'raw deflate')
+  },
+  {
+    id: 'reverse',
+    name: 'Reverse Bytes',
+    category: 'Bytes',
+    args: [],
+    run: input => input.slice().reverse()
+  },
+  {
+    id: 'xor',
+    name: 'XOR',
+    category: 'Bytes',
+    args: [
+      { name: 'key', label: 'Key', default: '', placeholder: 'Repeating key' },
+      { name: 'keyFormat', label: 'Key Format', default: 'text', options: [['text', 'Text (UTF-8)'], ['hex', 'Hex']] }
+    ],
+    run: xorBytes
+  },
+  {
+    id: 'hash',
+    name: 'Hash',
+    category: 'Hashing',
+    args: [{ name: 'algorithm', label: 'Algorithm', default: 'SHA-256', options: HASH_OPTIONS }],
+    run: (input, args) => {
+      const algorithm = (HASH_ALGORITHMS.includes(args.algorithm as HashAlgorithm) ? args.algorithm : 'SHA-256') as HashAlgorithm;
+      return encodeText(bytesToHex(createHasher(algorithm).update(input).digest()));
+    }
+  },
+  {
+    id: 'classical-cipher',
+    name: 'Classical Cipher',
+    category: 'Ciphers',
+    args: [
+      { name: 'cipher', label: 'Cipher', default: 'caesar', options: CIPHER_OPTIONS },
+      { name: 'key', label: 'Key', default: '', placeholder: 'Cipher key, if it takes one' },
+      { name: 'mode', label: 'Mode', default: 'encrypt', options: [['encrypt', 'Encrypt'], ['decrypt', 'Decrypt']] }
+    ],
+    run: textOperation((text, args) => {
+      if (!(args.cipher in CLASSICAL_CIPHERS)) {
+        throw new Error(`Unknown cipher "${args.cipher}"`);
+      }
+      return applyClassicalCipher(args.cipher as ClassicalCipher, text, args.key, args.mode === 'decrypt');
+    })
+  },
+  {
+    id: 'encrypt-text',
+    name: 'Encrypt (password)',
+    category: 'Ciphers',
+    args: [
+      { name: 'cipher', label: 'Cipher', default: 'aes-256-gcm', options: TEXT_CIPHER_OPTIONS },
+      { name: 'password', label: 'Password', default: '' }
+    ],
+    run: async (input, args) => {
+      if (!args.password) throw new Error('Enter a password');
+      const cipher = (args.cipher in TEXT_CIPHERS ? args.cipher : 'aes-256-gcm') as TextCipher;
+      return encodeText(await encryptText(requireText(input), args.password, cipher));
+    }
+  },
+  {
+    id: 'decrypt-text',
+    name: 'Decrypt (password)',
+    category: 'Ciphers',
+    args: [{ name: 'password', label: 'Password', default: '' }],
+    run: async (input, args) => {
+      if (!args.password) throw new Error('Enter a password');
+      return encodeText(await decryptText(requireText(input).trim(), args.password));
+    }
+  }
+];
+
+const OPERATIONS_BY_ID = new Map(PIPELINE_OPERATIONS.map(op => [op.id, op]));
+
+export function getOperation(id: string): PipelineOperation | undefined {
+  return OPERATIONS_BY_ID.get(id);
+}
+
+/**
+ * A new step for an operation, with its default arguments
+ */
+export function createStep(id: string): RecipeStep {
+  const op = getOperation(id);
+  if (!op) throw new Error(`Unknown operation "${id}"`);
+  return { op: id, args: Object.fromEntries(op.args.map(arg => [arg.name, arg.default])) };
+}
+
+/**
+ * Run every step in turn, keeping each step's output. Stops at the first
+ * step that fails; that step's result carries the error.
+ */
+export async function runRecipe(steps: RecipeStep[], input: Uint8Array): Promise<StepResult[]> {
+  const results: StepResult[] = [];
+  let data = input;
+  for (const step of steps) {
+    const op = getOperation(step.op);
+    try {
+      if (!op) throw new Error(`Unknown operation "${step.op}"`);
+      data = await op.run(data, { ...createStep(step.op).args, ...step.args });
+      results.push({ output: data });
+    } catch (error) {
+      results.push({ error: error instanceof Error ? error.message : 'Operation failed' });
+      break;
+    }
+  }
+  return results;
+}
+
+/**
+ * Steps with any password arguments blanked, so that saved and shared
+ * recipes never carry secrets
+ */
+function withoutSecrets(steps: RecipeStep[]): RecipeStep[] {
+  return steps.map(step => ({
+    op: step.op,
+    args: Object.fromEntries(Object.entries(step.args).map(([name, value]) => [name, name === 'password' ? '' : value]))
+  }));
+}
+
+export function serializeRecipe(name: string, steps: RecipeStep[]): string {
+  const recipe: Recipe = { format: 'securex-recipe', version: 1, name, steps: withoutSecrets(steps) };
+  return JSON.stringify(recipe, null, 2);
+}
+
+/**
+ * Parse a shared recipe; throws if it is malformed or uses unknown operations
+ */
+export function parseRecipe(json: string): Recipe {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Recipe is not valid JSON');
+  }
+  const recipe = value as Recipe;
+  if (!recipe || recipe.format !== 'securex-recipe' || !Array.isArray(recipe.steps)) {
+    throw new Error('Not a SecureX recipe');
+  }
+  if (recipe.version !== 1) {
+    throw new Error(`Unsupported recipe version ${recipe.version}`);
+  }
+  const steps = recipe.steps.map((step, i) => {
+    if (!step || typeof step.op !== 'string' || !getOperation(step.op)) {
+      throw new Error(`Step ${i + 1} uses an unknown operation`);
+    }
+    const args: Record<string, string> = {};
+    for (const [name, arg] of Object.entries(step.args ?? {})) {
+      args[name] = String(arg);
+    }
+    return { op: step.op, args };
+  });
+  return { format: 'securex-recipe', version: 1, name: typeof recipe.name === 'string' ? recipe.name : 'Imported recipe', steps };
+}
+
+const STORAGE_KEY = 'securex-recipes';
+
+/**
+ * Recipes saved in this browser, by name
+ */
+export function readSavedRecipes(): Recipe[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const recipes = stored ? JSON.parse(stored) : [];
+    return Array.isArray(recipes) ? recipes : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save a recipe, replacing any saved recipe with the same name
+ */
+export function saveRecipe(name: string, steps: RecipeStep[]): Recipe[] {
+  const recipe: Recipe = { format: 'securex-recipe', version: 1, name, steps: withoutSecrets(steps) };
+  const recipes = [recipe, ...readSavedRecipes().filter(r => r.name !== name)];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+  return recipes;
+}
+
+export function deleteSavedRecipe(name: string): Recipe[] {
+  const recipes = readSavedRecipes().filter(r => r.name !== name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+  return recipes;
+}
+
+/**
+ * How much the bytes look like readable text: the share of printable
+ * characters, plus the English score weighted by the share of letters and
+ * spaces (so hex digits with the odd "e" do not pass for prose). Binary data
+ * scores well below any text.
+ */
+export function readabilityScore(bytes: Uint8Array): number {
+  const text = bytesToText(bytes);
+  if (text === null || text.length === 0) return -10;
+  let printable = 0, letters = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0);
+    if (code >= 0x20 ? code !== 0x7f && code !== 0xfffd : char === '\n' || char === '\r' || char === '\t') {
+      printable++;
+    }
+    if (/[a-zA-Z ]/.test(char)) letters++;
+  }
+  const english = englishScore(text);
+  const length = Array.from(text).length;
+  return (printable / length) * 5 + (letters / length) * (Number.isFinite(english) ? Math.max(english + 6, 0) : 0);
+}
+
+const MAGIC_DEPTH = 4;
+const MAGIC_RESULTS = 8;
+// Stop exploring before the search grows too large on ambiguous input
+const MAGIC_MAX_NODES = 200;
+// Decoded data the search may hold, since nested compression multiplies it
+const MAGIC_MAX_OUTPUT = 64 * 1024 * 1024;
+
+/**
+ * Try chains of decoders whose input pattern matches, breadth first, and
+ * return the decodings that read better than the input, best first
+ */
+export async function magic(input: Uint8Array): Promise<MagicResult[]> {
+  const baseline = readabilityScore(input);
+  const results: MagicResult[] = [];
+  const seen = new Set<string>([bytesToHex(input.subarray(0, 256)) + input.length]);
+  let frontier: { steps: RecipeStep[]; data: Uint8Array }[] = [{ steps: [], data: input }];
+  let explored = 0;
+  let produced = 0;
+
+  for (let depth = 0; depth < MAGIC_DEPTH && frontier.length > 0; depth++) {
+    const next: typeof frontier = [];
+    for (const node of frontier) {
+      for (const op of PIPELINE_OPERATIONS) {
+        if (!op.detect?.(node.data) || explored >= MAGIC_MAX_NODES || produced >= MAGIC_MAX_OUTPUT) continue;
+        explored++;
+        let output: Uint8Array;
+        try {
+          output = await op.run(node.data, {});
+        } catch {
+          continue;
+        }
+        const fingerprint = bytesToHex(output.subarray(0, 256)) + output.length;
+        if (output.length === 0 || seen.has(fingerprint)) continue;
+        seen.add(fingerprint);
+        produced += output.length;
+
+        const steps = [...node.steps, { op: op.id, args: {} }];
+        const score = readabilityScore(output);
+        if (score > baseline) results.push({ steps, output, score });
+        next.push({ steps, data: output });
+      }
+    }
+    frontier = next;
+  }
+
+  // Prefer the better reading, then the shorter recipe
+  return results
+    .sort((a, b) => b.score - a.score || a.steps.length - b.steps.length)
+    .slice(0, MAGIC_RESULTS);
+}
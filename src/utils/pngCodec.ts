@@ -0,0 +1,202 @@
+// Minimal PNG reader and writer for exact RGBA pixels.
+//
+// Steganography needs every bit of every channel to survive a round trip.
+// The 2D canvas stores pixels with premultiplied alpha, so any pixel that is
+// not fully opaque loses precision in getImageData/putImageData, and some
+// browsers also colour-manage images as they decode them. Reading and writing
+// PNG here keeps the stored values untouched. The reader covers the common
+// non-interlaced 8-bit (and 16-bit, reduced to 8) formats and returns null
+// for anything else, so callers can fall back to the canvas.
+
+import { crc32 } from './crc32';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Channels per pixel for each PNG colour type
+const COLOR_TYPE_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Compress or decompress a zlib stream, the format PNG image data uses
+ */
+async function zlib(data: Uint8Array, compress: boolean): Promise<Uint8Array> {
+  const stream = compress ? new CompressionStream('deflate') : new DecompressionStream('deflate');
+  return new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer());
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= SIGNATURE.length && SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Undo the per-row filters; `bpp` is bytes per complete pixel
+ */
+function unfilter(raw: Uint8Array, height: number, stride: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[prev + x] : 0;
+      const c = x >= bpp && y > 0 ? out[prev + x - bpp] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = a; break;
+        case 2: predictor = b; break;
+        case 3: predictor = (a + b) >> 1; break;
+        case 4: predictor = paeth(a, b, c); break;
+        default: throw new Error(`PNG row ${y} uses unknown filter ${filter}`);
+      }
+      out[row + x] = (raw[src + x] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Decode a PNG to RGBA exactly as stored, or null if the format is not
+ * one this reader handles (interlaced or below 8 bits per sample)
+ */
+export async function decodePng(bytes: Uint8Array): Promise<RgbaImage | null> {
+  if (!isPng(bytes)) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  for (let offset = SIGNATURE.length; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const start = offset + 8;
+    const body = bytes.subarray(start, start + length);
+    offset = start + length + 4; // skip the CRC
+    if (type === 'IHDR') {
+      width = view.getUint32(start);
+      height = view.getUint32(start + 4);
+      [bitDepth, colorType] = [body[8], body[9]];
+      interlace = body[12];
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'tRNS') {
+      transparency = body;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = COLOR_TYPE_CHANNELS[colorType];
+  if (!width || !height || !channels || interlace || (bitDepth !== 8 && bitDepth !== 16)) return null;
+  if (colorType === 3 && (!palette || bitDepth !== 8)) return null;
+
+  const sampleBytes = bitDepth / 8;
+  const bpp = channels * sampleBytes;
+  const stride = width * bpp;
+  const raw = await zlib(concat(idat), false);
+  if (raw.length < height * (stride + 1)) {
+    throw new Error('PNG image data is truncated');
+  }
+  const pixels = unfilter(raw, height, stride, bpp);
+
+  // Only the high byte of 16-bit samples is kept, as a canvas would
+  const sample = (pixel: number, channel: number) => pixels[pixel * bpp + channel * sampleBytes];
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) {
+    const o = p * 4;
+    switch (colorType) {
+      case 0:
+      case 4: {
+        const gray = sample(p, 0);
+        data[o] = data[o + 1] = data[o + 2] = gray;
+        data[o + 3] = colorType === 4 ? sample(p, 1) : 255;
+        break;
+      }
+      case 2:
+      case 6:
+        data[o] = sample(p, 0);
+        data[o + 1] = sample(p, 1);
+        data[o + 2] = sample(p, 2);
+        data[o + 3] = colorType === 6 ? sample(p, 3) : 255;
+        break;
+      case 3: {
+        const index = sample(p, 0);
+        data.set(palette.subarray(index * 3, index * 3 + 3), o);
+        data[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+function chunk(type: string, body: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + body.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, body.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(body, 8);
+  view.setUint32(8 + body.length, crc32(out.subarray(4, 8 + body.length)));
+  return out;
+}
+
+/**
+ * Encode RGBA pixels as an 8-bit RGBA PNG, every row Paeth-filtered
+ */
+export async function encodePng(image: RgbaImage): Promise<Blob> {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const filtered = new Uint8Array(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const dest = y * (stride + 1);
+    filtered[dest] = 4;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= 4 ? data[row + x - 4] : 0;
+      const b = y > 0 ? data[row - stride + x] : 0;
+      const c = x >= 4 && y > 0 ? data[row - stride + x - 4] : 0;
+      filtered[dest + 1 + x] = (data[row + x] - paeth(a, b, c)) & 0xff;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  return new Blob([
+    new Uint8Array(SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', await zlib(filtered, true)),
+    chunk('IEND', new Uint8Array(0))
+  ], { type: 'image/png' });
+}
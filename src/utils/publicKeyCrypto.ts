@@ -0,0 +1,382 @@
+// Public-key recipients for file encryption.
+//
+// A file encrypted to recipients uses a random AES-256-GCM content key. Each
+// recipient gets their own wrapped copy of that key in the container header:
+//   RSA-OAEP   - the content key is wrapped directly with RSA-OAEP-SHA256
+//   P-256      - ephemeral ECDH, HKDF-SHA256, then AES-KW;
+//   X25519       the payload is the ephemeral public key followed by the wrapped key
+// Keys are exchanged as PEM (SPKI / PKCS#8) or JWK.
+
+import { RecipientStanza, RecipientType } from './containerFormat';
+import { base64ToBytes, bytesToBase64 } from './base64';
+import { toHex } from './digest';
+
+export type KeyAlgorithm = 'RSA-OAEP' | 'P-256' | 'X25519';
+
+export type KeyTextFormat = 'pem' | 'jwk';
+
+export interface KeyAlgorithmInfo {
+  name: string;
+  description: string;
+  recipientType: number;
+}
+
+/** A public key that files can be encrypted to */
+export interface RecipientKey {
+  algorithm: KeyAlgorithm;
+  publicKey: CryptoKey;
+  /** Hex SHA-256 of the SPKI encoding of the public key */
+  fingerprint: string;
+  label: string;
+}
+
+/** A private key (with its public half) that can decrypt files */
+export interface IdentityKey extends RecipientKey {
+  privateKey: CryptoKey;
+}
+
+export const KEY_ALGORITHMS: Record<KeyAlgorithm, KeyAlgorithmInfo> = {
+  'RSA-OAEP': {
+    name: 'RSA-OAEP 3072',
+    description: 'Widest compatibility, larger keys and slower generation',
+    recipientType: RecipientType.RSA_OAEP_SHA256
+  },
+  'P-256': {
+    name: 'ECDH P-256',
+    description: 'NIST curve supported by every browser',
+    recipientType: RecipientType.ECDH_P256
+  },
+  X25519: {
+    name: 'X25519',
+    description: 'Modern curve with small keys, needs a recent browser',
+    recipientType: RecipientType.X25519
+  }
+};
+
+const RSA_MODULUS_LENGTH = 3072;
+const KEY_ID_LENGTH = 8;
+const HKDF_INFO = new TextEncoder().encode('securex-cipher-forge file key v1');
+
+// Uncompressed P-256 point and raw X25519 key sizes
+const EPHEMERAL_KEY_LENGTH: Partial<Record<KeyAlgorithm, number>> = {
+  'P-256': 65,
+  X25519: 32
+};
+
+// DER-encoded algorithm OIDs used to recognise SPKI / PKCS#8 keys
+const OID_RSA_ENCRYPTION = [0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01];
+export const OID_EC_PUBLIC_KEY = [0x06, 0x07, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x02, 0x01];
+export const OID_PRIME256V1 = [0x06, 0x08, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07];
+const OID_X25519 = [0x06, 0x03, 0x2b, 0x65, 0x6e];
+
+// JWK members that only exist on private keys
+const PRIVATE_JWK_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth'];
+
+function importParams(algorithm: KeyAlgorithm): RsaHashedImportParams | EcKeyImportParams | Algorithm {
+  switch (algorithm) {
+    case 'RSA-OAEP':
+      return { name: 'RSA-OAEP', hash: 'SHA-256' };
+    case 'P-256':
+      return { name: 'ECDH', namedCurve: 'P-256' };
+    case 'X25519':
+      return { name: 'X25519' };
+  }
+}
+
+function keyUsages(algorithm: KeyAlgorithm, type: 'public' | 'private'): KeyUsage[] {
+  if (algorithm === 'RSA-OAEP') {
+    return type === 'public' ? ['wrapKey'] : ['unwrapKey'];
+  }
+  return type === 'public' ? [] : ['deriveBits'];
+}
+
+/**
+ * Hex SHA-256 of a public key's SPKI encoding
+ */
+export async function keyFingerprint(publicKey: CryptoKey): Promise<string> {
+  const spki = await crypto.subtle.exportKey('spki', publicKey);
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', spki)));
+}
+
+/**
+ * Shorten a fingerprint for display, e.g. "3f2a 91c0 …"
+ */
+export function formatFingerprint(fingerprint: string): string {
+  return fingerprint.slice(0, 32).match(/.{4}/g)?.join(' ') ?? fingerprint;
+}
+
+function keyIdFromFingerprint(fingerprint: string): Uint8Array {
+  const keyId = new Uint8Array(KEY_ID_LENGTH);
+  for (let i = 0; i < KEY_ID_LENGTH; i++) {
+    keyId[i] = parseInt(fingerprint.slice(i * 2, i * 2 + 2), 16);
+  }
+  return keyId;
+}
+
+/**
+ * Generate a new extractable keypair for the given algorithm
+ */
+export async function generateKeyPair(algorithm: KeyAlgorithm, label = ''): Promise<IdentityKey> {
+  const params = algorithm === 'RSA-OAEP'
+    ? {
+        name: 'RSA-OAEP',
+        modulusLength: RSA_MODULUS_LENGTH,
+        publicExponent: new Uint8Array([0x01, 0x00, 0x01]),
+        hash: 'SHA-256'
+      }
+    : importParams(algorithm);
+  const usages: KeyUsage[] = algorithm === 'RSA-OAEP' ? ['wrapKey', 'unwrapKey'] : ['deriveBits'];
+  const pair = await crypto.subtle.generateKey(params, true, usages) as CryptoKeyPair;
+
+  return {
+    algorithm,
+    publicKey: pair.publicKey,
+    privateKey: pair.privateKey,
+    fingerprint: await keyFingerprint(pair.publicKey),
+    label
+  };
+}
+
+/**
+ * True when a DER structure contains the given encoded OID
+ */
+export function derContainsOid(der: Uint8Array, oid: number[]): boolean {
+  outer: for (let i = 0; i + oid.length <= der.length; i++) {
+    for (let j = 0; j < oid.length; j++) {
+      if (der[i + j] !== oid[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Find the algorithm of a DER-encoded SPKI or PKCS#8 key from its OIDs
+ */
+function detectDerAlgorithm(der: Uint8Array): KeyAlgorithm {
+  if (derContainsOid(der, OID_RSA_ENCRYPTION)) return 'RSA-OAEP';
+  if (derContainsOid(der, OID_EC_PUBLIC_KEY)) {
+    if (derContainsOid(der, OID_PRIME256V1)) return 'P-256';
+    throw new Error('Unsupported elliptic curve - only P-256 and X25519 keys can be used');
+  }
+  if (derContainsOid(der, OID_X25519)) return 'X25519';
+  throw new Error('Unsupported key type - use an RSA, P-256 or X25519 key');
+}
+
+function detectJwkAlgorithm(jwk: JsonWebKey): KeyAlgorithm {
+  if (jwk.kty === 'RSA') return 'RSA-OAEP';
+  if (jwk.kty === 'EC' && jwk.crv === 'P-256') return 'P-256';
+  if (jwk.kty === 'OKP' && jwk.crv === 'X25519') return 'X25519';
+  throw new Error('Unsupported key type - use an RSA, P-256 or X25519 key');
+}
+
+/** Key material from PEM or JWK text, before it is imported */
+export type ParsedKeyText =
+  | { format: 'jwk'; jwk: JsonWebKey }
+  | { format: 'spki' | 'pkcs8'; der: Uint8Array };
+
+/**
+ * Parse a PEM block or JWK and check it is a public or private key as expected.
+ * `purpose` completes the error shown when a public key is given instead of a private one.
+ */
+export function parseKeyText(text: string, type: 'public' | 'private', purpose = 'decrypt'): ParsedKeyText {
+  const trimmed = text.trim();
+  const wrongType = () => new Error(type === 'public'
+    ? 'This is a private key - import the matching public key instead'
+    : `This is a public key - a private key is needed to ${purpose}`);
+
+  if (trimmed.startsWith('{')) {
+    let jwk: JsonWebKey;
+    try {
+      jwk = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Invalid JWK - the key is not valid JSON');
+    }
+    if ((typeof jwk.d === 'string') !== (type === 'private')) {
+      throw wrongType();
+    }
+    // Hints from other tools (e.g. alg "RSA-OAEP" for SHA-1) would make the import fail
+    const { alg: _alg, key_ops: _ops, use: _use, ...material } = jwk;
+    return { format: 'jwk', jwk: material };
+  }
+
+  const pem = trimmed.match(/-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/);
+  if (!pem) {
+    throw new Error('Unrecognised key - paste a PEM block or a JWK');
+  }
+  const label = pem[1];
+  if (label === 'RSA PUBLIC KEY' || label === 'RSA PRIVATE KEY' || label === 'EC PRIVATE KEY') {
+    throw new Error(`${label} (PKCS#1/SEC1) blocks are not supported - convert with "openssl pkey" to SPKI / PKCS#8`);
+  }
+  if (label !== 'PUBLIC KEY' && label !== 'PRIVATE KEY') {
+    throw new Error(`Unsupported PEM block "${label}"`);
+  }
+  if ((label === 'PRIVATE KEY') !== (type === 'private')) {
+    throw wrongType();
+  }
+  return { format: type === 'public' ? 'spki' : 'pkcs8', der: base64ToBytes(pem[2]) };
+}
+
+/**
+ * Import a PEM or JWK key, detecting its algorithm
+ */
+async function importKeyText(text: string, type: 'public' | 'private'): Promise<{ algorithm: KeyAlgorithm; key: CryptoKey }> {
+  const parsed = parseKeyText(text, type);
+  if (parsed.format === 'jwk') {
+    const algorithm = detectJwkAlgorithm(parsed.jwk);
+    const key = await crypto.subtle.importKey('jwk', parsed.jwk, importParams(algorithm), true, keyUsages(algorithm, type));
+    return { algorithm, key };
+  }
+
+  const algorithm = detectDerAlgorithm(parsed.der);
+  const key = await crypto.subtle.importKey(parsed.format, parsed.der, importParams(algorithm), true, keyUsages(algorithm, type));
+  return { algorithm, key };
+}
+
+/**
+ * Strip the private members from a private JWK, leaving its public half
+ */
+export function publicJwkFromPrivate(jwk: JsonWebKey): JsonWebKey {
+  const publicJwk: JsonWebKey = { ...jwk, key_ops: undefined, ext: undefined };
+  for (const member of PRIVATE_JWK_MEMBERS) {
+    delete publicJwk[member as keyof JsonWebKey];
+  }
+  return publicJwk;
+}
+
+/**
+ * Import a recipient's public key from PEM or JWK
+ */
+export async function importRecipientKey(text: string, label = ''): Promise<RecipientKey> {
+  const { algorithm, key } = await importKeyText(text, 'public');
+  return { algorithm, publicKey: key, fingerprint: await keyFingerprint(key), label };
+}
+
+/**
+ * Import a private key from PEM or JWK, recovering its public half
+ */
+export async function importIdentityKey(text: string, label = ''): Promise<IdentityKey> {
+  const { algorithm, key: privateKey } = await importKeyText(text, 'private');
+
+  // Every supported private JWK also carries the public components
+  const publicJwk = publicJwkFromPrivate(await crypto.subtle.exportKey('jwk', privateKey));
+  const publicKey = await crypto.subtle.importKey('jwk', publicJwk, importParams(algorithm), true, keyUsages(algorithm, 'public'));
+
+  return { algorithm, publicKey, privateKey, fingerprint: await keyFingerprint(publicKey), label };
+}
+
+/**
+ * Export a public or private key as PEM (SPKI / PKCS#8) or pretty-printed JWK
+ */
+export async function exportKeyText(key: CryptoKey, format: KeyTextFormat): Promise<string> {
+  if (format === 'jwk') {
+    const jwk = await crypto.subtle.exportKey('jwk', key);
+    delete jwk.key_ops;
+    delete jwk.ext;
+    return JSON.stringify(jwk, null, 2);
+  }
+
+  const isPrivate = key.type === 'private';
+  const der = new Uint8Array(await crypto.subtle.exportKey(isPrivate ? 'pkcs8' : 'spki', key));
+  const label = isPrivate ? 'PRIVATE KEY' : 'PUBLIC KEY';
+  const body = bytesToBase64(der).match(/.{1,64}/g)?.join('\n') ?? '';
+  return `-----BEGIN ${label}-----\n${body}\n-----END ${label}-----\n`;
+}
+
+/**
+ * Derive the AES-KW key for an ECDH exchange, bound to both public keys
+ */
+async function keyEncryptionKey(sharedSecret: ArrayBuffer, ephemeralPublic: Uint8Array, recipientPublic: Uint8Array): Promise<CryptoKey> {
+  const salt = new Uint8Array(ephemeralPublic.length + recipientPublic.length);
+  salt.set(ephemeralPublic);
+  salt.set(recipientPublic, ephemeralPublic.length);
+
+  const ikm = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: HKDF_INFO },
+    ikm,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+/**
+ * Generate a random content key; it must stay extractable so it can be wrapped
+ */
+export async function generateContentKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Wrap the content key for one recipient
+ */
+export async function wrapContentKey(contentKey: CryptoKey, recipient: RecipientKey): Promise<RecipientStanza> {
+  const { recipientType } = KEY_ALGORITHMS[recipient.algorithm];
+  const keyId = keyIdFromFingerprint(recipient.fingerprint);
+
+  if (recipient.algorithm === 'RSA-OAEP') {
+    const wrapped = await crypto.subtle.wrapKey('raw', contentKey, recipient.publicKey, { name: 'RSA-OAEP' });
+    return { type: recipientType, keyId, payload: new Uint8Array(wrapped) };
+  }
+
+  const params = importParams(recipient.algorithm);
+  const ephemeral = await crypto.subtle.generateKey(params, true, ['deriveBits']) as CryptoKeyPair;
+  const shared = await crypto.subtle.deriveBits(
+    { name: params.name, public: recipient.publicKey } as EcdhKeyDeriveParams,
+    ephemeral.privateKey,
+    256
+  );
+  const ephemeralPublic = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const recipientPublic = new Uint8Array(await crypto.subtle.exportKey('raw', recipient.publicKey));
+  const kek = await keyEncryptionKey(shared, ephemeralPublic, recipientPublic);
+  const wrapped = new Uint8Array(await crypto.subtle.wrapKey('raw', contentKey, kek, 'AES-KW'));
+
+  const payload = new Uint8Array(ephemeralPublic.length + wrapped.length);
+  payload.set(ephemeralPublic);
+  payload.set(wrapped, ephemeralPublic.length);
+  return { type: recipientType, keyId, payload };
+}
+
+async function unwrapStanza(stanza: RecipientStanza, identity: IdentityKey): Promise<CryptoKey> {
+  if (identity.algorithm === 'RSA-OAEP') {
+    return crypto.subtle.unwrapKey(
+      'raw', stanza.payload, identity.privateKey, { name: 'RSA-OAEP' }, 'AES-GCM', false, ['encrypt', 'decrypt']
+    );
+  }
+
+  const params = importParams(identity.algorithm);
+  const ephemeralLength = EPHEMERAL_KEY_LENGTH[identity.algorithm];
+  const ephemeralPublic = stanza.payload.slice(0, ephemeralLength);
+  const wrapped = stanza.payload.slice(ephemeralLength);
+  const ephemeralKey = await crypto.subtle.importKey('raw', ephemeralPublic, params, false, []);
+  const shared = await crypto.subtle.deriveBits(
+    { name: params.name, public: ephemeralKey } as EcdhKeyDeriveParams,
+    identity.privateKey,
+    256
+  );
+  const recipientPublic = new Uint8Array(await crypto.subtle.exportKey('raw', identity.publicKey));
+  const kek = await keyEncryptionKey(shared, ephemeralPublic, recipientPublic);
+  return crypto.subtle.unwrapKey('raw', wrapped, kek, 'AES-KW', 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Recover the content key from the recipient stanza addressed to this identity
+ */
+export async function unwrapContentKey(stanzas: RecipientStanza[], identity: IdentityKey): Promise<CryptoKey> {
+  const { recipientType } = KEY_ALGORITHMS[identity.algorithm];
+  const keyId = toHex(keyIdFromFingerprint(identity.fingerprint));
+  const matching = stanzas.filter(s => s.type === recipientType && toHex(s.keyId) === keyId);
+
+  if (matching.length === 0) {
+    throw new Error(`This file was not encrypted to key ${formatFingerprint(identity.fingerprint)}`);
+  }
+  for (const stanza of matching) {
+    try {
+      return await unwrapStanza(stanza, identity);
+    } catch {
+      // Key ids are short, so another stanza may still be ours
+    }
+  }
+  throw new Error('Decryption failed - could not unwrap the file key with this private key');
+}
@@ -0,0 +1,181 @@
+// Client for the local scan agent; see scanAgentProtocol.ts.
+//
+// Scans run over one WebSocket, opened on first use. Like the worker
+// clients, every scan carries an id so that progress, open ports and
+// findings reach the right caller while the scan is still running. The
+// check list and check packs are plain HTTP requests.
+
+import {
+  AGENT_SCAN_SOCKET_PATH,
+  AgentClientMessage,
+  AgentHealth,
+  AgentServerMessage,
+  CheckInfo,
+  CheckPackResult,
+  CheckPackUpload,
+  DEFAULT_AGENT_PORT,
+  OpenPort,
+  ScanFinding,
+  ScanReport,
+  ScanRequest
+} from './scanAgentProtocol';
+
+/** Where the agent listens; set VITE_SCAN_AGENT_URL if it is started elsewhere */
+export const SCAN_AGENT_URL: string = import.meta.env.VITE_SCAN_AGENT_URL ?? `http://127.0.0.1:${DEFAULT_AGENT_PORT}`;
+
+const HEALTH_TIMEOUT = 3000;
+const NOT_RUNNING = 'The scan agent is not running. Start it with "npm run agent".';
+
+export interface ScanHandlers {
+  onProgress?: (fraction: number, stage: string) => void;
+  onOpenPort?: (port: OpenPort) => void;
+  onFinding?: (finding: ScanFinding) => void;
+}
+
+interface PendingScan extends ScanHandlers {
+  resolve: (report: ScanReport) => void;
+  reject: (error: Error) => void;
+}
+
+export class ScanAgentClient {
+  private readonly baseUrl: string;
+  private socket: Promise<WebSocket> | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingScan>();
+
+  constructor(baseUrl: string = SCAN_AGENT_URL) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Name and version of the agent; throws if it cannot be reached
+   */
+  async health(): Promise<AgentHealth> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/health`, { signal: AbortSignal.timeout(HEALTH_TIMEOUT) });
+    } catch {
+      throw new Error(NOT_RUNNING);
+    }
+    if (!response.ok) {
+      throw new Error(`The scan agent refused the request (HTTP ${response.status})`);
+    }
+    return await response.json() as AgentHealth;
+  }
+
+  private async request<T>(path: string, method = 'GET', body?: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+    } catch {
+      throw new Error(NOT_RUNNING);
+    }
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error ?? `The scan agent refused the request (HTTP ${response.status})`);
+    }
+    return result as T;
+  }
+
+  /**
+   * Every check the agent knows, built-in and from check packs
+   */
+  listChecks(): Promise<CheckInfo[]> {
+    return this.request('/api/checks');
+  }
+
+  setCheckEnabled(id: string, enabled: boolean): Promise<CheckInfo> {
+    return this.request(`/api/checks/${encodeURIComponent(id)}`, 'PUT', { enabled });
+  }
+
+  /**
+   * Load a JSON or YAML check pack, replacing any earlier pack of the same name
+   */
+  importCheckPack(upload: CheckPackUpload): Promise<CheckPackResult> {
+    return this.request('/api/check-packs', 'POST', upload);
+  }
+
+  private open(): Promise<WebSocket> {
+    if (this.socket) return this.socket;
+    const url = new URL(AGENT_SCAN_SOCKET_PATH, this.baseUrl);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+
+    const opening = new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(url);
+      socket.onopen = () => resolve(socket);
+      socket.onmessage = (event: MessageEvent<string>) => {
+        const message: AgentServerMessage = JSON.parse(event.data);
+        const scan = this.pending.get(message.id);
+        if (!scan) return;
+        if (message.type === 'progress') {
+          scan.onProgress?.(message.fraction, message.stage);
+        } else if (message.type === 'open-port') {
+          scan.onOpenPort?.(message.port);
+        } else if (message.type === 'finding') {
+          scan.onFinding?.(message.finding);
+        } else {
+          this.pending.delete(message.id);
+          if (message.type === 'result') {
+            scan.resolve(message.report);
+          } else {
+            scan.reject(new Error(message.error));
+          }
+        }
+      };
+      socket.onclose = () => {
+        reject(new Error(NOT_RUNNING));
+        if (this.socket === opening) this.fail(new Error('Lost the connection to the scan agent'));
+      };
+    });
+    this.socket = opening;
+    return opening;
+  }
+
+  private fail(error: Error) {
+    for (const scan of this.pending.values()) scan.reject(error);
+    this.pending.clear();
+    this.socket = null;
+  }
+
+  private send(socket: WebSocket, message: AgentClientMessage) {
+    socket.send(JSON.stringify(message));
+  }
+
+  /**
+   * Run a scan; findings and open ports are reported as they are found
+   */
+  async scan(request: ScanRequest, handlers: ScanHandlers = {}): Promise<ScanReport> {
+    const socket = await this.open();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { ...handlers, resolve, reject });
+      this.send(socket, { id, type: 'scan', request });
+    });
+  }
+
+  /**
+   * Stop every running scan; their promises reject straight away
+   */
+  cancel() {
+    const ids = [...this.pending.keys()];
+    for (const scan of this.pending.values()) scan.reject(new Error('Scan was cancelled'));
+    this.pending.clear();
+    this.socket?.then((socket) => {
+      for (const id of ids) this.send(socket, { id, type: 'cancel' });
+    }).catch(() => undefined);
+  }
+
+  /**
+   * Cancel running scans and close the connection
+   */
+  close() {
+    this.cancel();
+    const socket = this.socket;
+    this.socket = null;
+    socket?.then((s) => s.close()).catch(() => undefined);
+  }
+}
@@ -0,0 +1,185 @@
+// Messages between the vulnerability scanner UI and the local scan agent
+// (agent/ in the repository root, started with `npm run agent`).
+//
+// Browsers cannot open raw TCP connections, so the probing runs in a small
+// Node process on the user's machine. The UI starts scans and receives
+// progress over a WebSocket; `POST /api/scans` runs a scan to completion in
+// one request, which is handy for scripts. Checks are listed with
+// `GET /api/checks`, switched on and off with `PUT /api/checks/:id` and
+// added from check packs with `POST /api/check-packs`. This file is shared
+// by both sides and must not import anything browser- or Node-specific.
+
+export const DEFAULT_AGENT_PORT = 8787;
+export const AGENT_SCAN_SOCKET_PATH = '/api/scans/socket';
+
+export type ScanMode = 'network' | 'website';
+
+export interface ScanRequest {
+  /** Host name, IP address, CIDR range of up to 256 addresses, or a URL in website mode */
+  target: string;
+  mode: ScanMode;
+  /** Ports to try; the agent's list of common service ports if omitted */
+  ports?: number[];
+}
+
+export interface OpenPort {
+  host: string;
+  port: number;
+  /** Service identified from the banner or by probing, e.g. "ssh" */
+  service: string;
+  banner?: string;
+  /** Products and versions named in the banner or HTTP Server header */
+  software?: DetectedSoftware[];
+  /** For services that speak TLS */
+  tls?: TlsAnalysis;
+}
+
+/** Named as in the CPE dictionary, e.g. openbsd / openssh / 8.2p1 */
+export interface DetectedSoftware {
+  /** Missing when the product is listed under more than one vendor */
+  vendor?: string;
+  product: string;
+  version: string;
+}
+
+export type TlsVersion = 'SSLv3' | 'TLSv1' | 'TLSv1.1' | 'TLSv1.2' | 'TLSv1.3';
+
+/** SSL Labs-style grade; T means the certificate is not trusted */
+export type TlsGrade = 'A' | 'A-' | 'B' | 'C' | 'D' | 'E' | 'F' | 'T';
+
+export interface TlsCipherSuite {
+  /** IANA name, e.g. "TLS_ECDHE_RSA_WITH_AES_128_GCM_SHA256" */
+  name: string;
+  version: TlsVersion;
+  /** Strength of the encryption; 0 for none */
+  bits: number;
+  forwardSecrecy: boolean;
+  aead: boolean;
+  /** Why the suite is unsafe, e.g. "RC4" */
+  weakness?: string;
+}
+
+export interface TlsCertificate {
+  subject: string;
+  issuer: string;
+  validFrom: string;
+  validTo: string;
+  /** "rsa", "ec", "ed25519"... */
+  keyType: string;
+  keyBits: number;
+  /** e.g. "sha256WithRSAEncryption" */
+  signatureAlgorithm: string;
+  subjectAltNames: string[];
+  selfSigned: boolean;
+  fingerprint256: string;
+}
+
+export interface TlsAnalysis {
+  grade: TlsGrade;
+  /** The grade the configuration would get if the certificate were trusted */
+  gradeIgnoringTrust: TlsGrade;
+  /** Why the grade is not an A */
+  gradeReasons: string[];
+  protocols: TlsVersion[];
+  /** Supported suites, grouped by protocol, in the order the server chose them */
+  cipherSuites: TlsCipherSuite[];
+  /** Leaf certificate first */
+  chain: TlsCertificate[];
+  /** Whether the chain verifies against the agent's trusted CAs */
+  trusted: boolean;
+  trustError?: string;
+  /** Whether the certificate covers the host name scanned; null when an IP address was scanned */
+  hostnameMatches: boolean | null;
+  ocspStapling: boolean;
+}
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low';
+
+/** What a check looks for, and what to do about it */
+export interface CheckSummary {
+  id: string;
+  /** Title of the vulnerability, e.g. "Anonymous FTP Access" */
+  name: string;
+  /** Label for the affected service, e.g. "FTP" */
+  service: string;
+  severity: Severity;
+  description: string;
+  risks: string[];
+  remediation: string[];
+}
+
+/** A check as listed by the agent's registry */
+export interface CheckInfo extends CheckSummary {
+  /** "built-in", or the name of the check pack it came from */
+  source: string;
+  enabled: boolean;
+  /** Service checks probe open ports; website checks audit the page fetched in website mode */
+  kind: 'service' | 'website';
+  /** Services (as named in OpenPort) and port numbers a service check runs against */
+  services: string[];
+  ports: number[];
+}
+
+/** A JSON or YAML check pack sent to `POST /api/check-packs` */
+export interface CheckPackUpload {
+  fileName: string;
+  content: string;
+}
+
+export interface CheckPackResult {
+  name: string;
+  checks: CheckInfo[];
+}
+
+export interface ScanFinding {
+  /** Id of the check that produced it, e.g. "vuln_003" */
+  checkId: string;
+  check: CheckSummary;
+  host: string;
+  port: number;
+  service: string;
+  /** What the agent saw that shows the problem */
+  evidence: string;
+}
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+/** What website mode fetched */
+export interface WebsiteSummary {
+  /** Where the redirect chain started */
+  url: string;
+  /** Each response on the way to the page, the page last */
+  chain: RedirectHop[];
+  /** Why the page could not be fetched */
+  error?: string;
+}
+
+export interface ScanReport {
+  target: string;
+  hosts: string[];
+  openPorts: OpenPort[];
+  findings: ScanFinding[];
+  /** Website mode only */
+  website?: WebsiteSummary;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface AgentHealth {
+  name: string;
+  version: string;
+}
+
+export type AgentClientMessage =
+  | { id: number; type: 'scan'; request: ScanRequest }
+  | { id: number; type: 'cancel' };
+
+export type AgentServerMessage =
+  | { id: number; type: 'progress'; fraction: number; stage: string }
+  | { id: number; type: 'open-port'; port: OpenPort }
+  | { id: number; type: 'finding'; finding: ScanFinding }
+  | { id: number; type: 'result'; report: ScanReport }
+  | { id: number; type: 'error'; error: string };
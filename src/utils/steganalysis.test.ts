@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { embedInAudio } from './audioSteganography';
+import { analyzeAudio, channelName } from './steganalysis';
+import { encodeFilePayload } from './stegoPayload';
+import { PcmAudio } from './wavCodec';
+
+const SAMPLE_RATE = 44100;
+const FRAMES = SAMPLE_RATE * 2;
+const SAMPLES = FRAMES * 2;
+
+/** Repeatable pseudo-random numbers from 0 to 1 */
+function generator(seed: number): () => number {
+  return () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) / 2 ** 31;
+}
+
+/**
+ * Two seconds of a quiet stereo recording: a tone over slowly wandering
+ * noise. `step` quantizes the samples, as in audio converted from a lower
+ * bit depth.
+ */
+function recording(step = 1): PcmAudio {
+  const random = generator(1);
+  const level = [0, 0];
+  const data = new Uint8Array(SAMPLES * 2);
+  const view = new DataView(data.buffer);
+  for (let i = 0; i < FRAMES; i++) {
+    for (let channel = 0; channel < 2; channel++) {
+      level[channel] = 0.995 * level[channel] + (random() - 0.5) * 6 * step;
+      const tone = 120 * step * Math.sin((2 * Math.PI * (220 + 110 * channel) * i) / SAMPLE_RATE);
+      view.setInt16((i * 2 + channel) * 2, Math.round((tone + level[channel]) / step) * step, true);
+    }
+  }
+  return { sampleRate: SAMPLE_RATE, channels: 2, data, chunks: [] };
+}
+
+/** The audio with `share` of its sample LSBs, from the start, replaced by random-looking data */
+async function withPayload(audio: PcmAudio, share: number): Promise<PcmAudio> {
+  const random = generator(2);
+  const body = Uint8Array.from({ length: Math.floor((SAMPLES * share) / 8) - 64 }, () => Math.floor(random() * 256));
+  return embedInAudio(audio, encodeFilePayload('secret.bin', body));
+}
+
+describe('analyzeAudio', () => {
+  it('describes the audio and its channels', () => {
+    const report = analyzeAudio(recording());
+    expect(report.media).toEqual({ kind: 'audio', sampleRate: SAMPLE_RATE, channels: 2, frames: FRAMES });
+    expect(report.channels.map((c) => channelName(report.media, c.channel))).toEqual(['Left', 'Right']);
+  });
+
+  it('finds no LSB signs in an untouched recording', () => {
+    const report = analyzeAudio(recording());
+    expect(report.embeddingRate).toBeLessThan(0.04);
+    expect(report.probability).toBeLessThan(0.4);
+    expect(report.chiSquareFraction).toBe(0);
+  });
+
+  it('estimates the share of samples carrying a payload', async () => {
+    const report = analyzeAudio(await withPayload(recording(), 0.5));
+    expect(report.probability).toBeGreaterThan(0.99);
+    for (const { rs, spa } of report.channels) {
+      expect(Math.abs(rs - 0.5)).toBeLessThan(0.1);
+      expect(Math.abs(spa - 0.5)).toBeLessThan(0.1);
+    }
+    expect(Math.abs(report.embeddingRate - 0.5)).toBeLessThan(0.05);
+    expect(Math.abs(report.estimatedPayloadBytes / (SAMPLES / 16) - 1)).toBeLessThan(0.1);
+  });
+
+  it('shows how far sequential embedding reaches with the chi-square attack', async () => {
+    // Samples from a lower bit depth leave the LSB pairs uneven until data is embedded
+    const cover = recording(4);
+    expect(analyzeAudio(cover).chiSquare.every((point) => point.probability < 0.01)).toBe(true);
+    const report = analyzeAudio(await withPayload(cover, 0.3));
+    expect(report.chiSquareFraction).toBeCloseTo(0.3, 1);
+    expect(report.probability).toBeGreaterThan(0.99);
+  });
+});
@@ -0,0 +1,397 @@
+// Steganalysis: statistical detection of LSB embedding in images and in
+// 16-bit PCM audio.
+//
+// Three classic detectors, each run on a sequence of sample values - the R,
+// G and B values of an image, or each channel of a WAV file:
+//   - the chi-square attack (Westfeld & Pfitzmann) notices that replacing
+//     LSBs evens out the counts of each pair of values 2k and 2k+1; run over
+//     growing prefixes of the image or audio it also shows how far
+//     sequential embedding reaches
+//   - RS analysis (Fridrich, Goljan & Du) compares how flipping LSBs changes
+//     the smoothness of small groups of neighbouring values, and solves for
+//     the embedding rate
+//   - sample pair analysis (Dumitrescu, Wu & Wang) estimates the rate from
+//     the statistics of adjacent value pairs
+// RS and SPA estimate the fraction of values whose LSB carries message bits,
+// which gives the payload size. All three target LSB replacement; embedding
+// in deeper bits or with matching (±1) schemes is detected far less reliably.
+// Every function here is pure, so it can run in a worker.
+
+import { RgbaImage } from './pngCodec';
+import { PcmAudio, frameCount } from './wavCodec';
+
+export type AnalysisChannel = 0 | 1 | 2 | 3;
+
+export const ANALYSIS_CHANNEL_NAMES = ['Red', 'Green', 'Blue', 'Alpha'];
+
+export interface ChiSquarePoint {
+  /** Fraction of the image (in reading order) or audio that was tested */
+  fraction: number;
+  /** Probability that this part holds embedded data */
+  probability: number;
+}
+
+export interface ChannelAnalysis {
+  /** An AnalysisChannel for images, the channel number for audio */
+  channel: number;
+  /** RS analysis estimate of the embedding rate, 0-1 */
+  rs: number;
+  /** Sample pair analysis estimate of the embedding rate, 0-1 */
+  spa: number;
+}
+
+export type AnalyzedMedia =
+  | { kind: 'image'; width: number; height: number }
+  | { kind: 'audio'; sampleRate: number; channels: number; frames: number };
+
+export interface SteganalysisReport {
+  media: AnalyzedMedia;
+  /** Chi-square probability over growing prefixes of the image or audio */
+  chiSquare: ChiSquarePoint[];
+  /** Fraction of the image (from the top) or audio (from the start) that chi-square flags as embedded */
+  chiSquareFraction: number;
+  channels: ChannelAnalysis[];
+  /** Combined RS and SPA embedding rate */
+  embeddingRate: number;
+  /** Overall probability, 0-1, that the file carries LSB-embedded data */
+  probability: number;
+  /** Likely size of the hidden payload in bytes, at one bit per value */
+  estimatedPayloadBytes: number;
+}
+
+const COLOR_CHANNELS: AnalysisChannel[] = [0, 1, 2];
+const CHI_SQUARE_STEPS = 100;
+const IMAGE_LEVELS = 256;
+// 16-bit samples are offset to 0-65535, which keeps each pair 2k, 2k+1 together
+const AUDIO_LEVELS = 65536;
+const AUDIO_OFFSET = 0x8000;
+// Fewer values than this make the chi-square statistic meaningless
+const CHI_SQUARE_MIN_SAMPLES = 2048;
+// A sequential payload must end before this fraction to be told from a cover
+const CHI_SQUARE_MAX_REACH = 0.9;
+// Rates below this are typical of untouched photographs and recordings
+const RATE_THRESHOLD = 0.04;
+const RATE_STEEPNESS = 110;
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+function logGamma(x: number): number {
+  const c = [76.18009172947146, -86.50532032941678, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of c) series += coefficient / ++y;
+  return -tmp + Math.log(2.5066282746310007 * series / x);
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x)
+ */
+function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const front = Math.exp(-x + a * Math.log(x) - logGamma(a));
+  if (x < a + 1) {
+    // Series for P(a, x)
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-12; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return 1 - sum * front;
+  }
+  // Continued fraction for Q(a, x), modified Lentz
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return front * h;
+}
+
+/**
+ * Chi-square p-value that a histogram's value pairs were evened out
+ */
+function pairsOfValuesProbability(histogram: Float64Array): number {
+  let chi = 0;
+  let categories = 0;
+  for (let k = 0; k < histogram.length; k += 2) {
+    const expected = (histogram[k] + histogram[k + 1]) / 2;
+    // Sparse pairs carry no information and inflate the statistic
+    if (expected < 5) continue;
+    chi += (histogram[k] - expected) ** 2 / expected;
+    categories++;
+  }
+  return categories > 1 ? gammaQ((categories - 1) / 2, chi / 2) : 0;
+}
+
+/**
+ * Westfeld & Pfitzmann's attack over growing prefixes of a sequence of
+ * values from 0 to `levels` - 1, in the order data would be embedded
+ */
+export function chiSquareSequence(values: ArrayLike<number>, levels: number): ChiSquarePoint[] {
+  const histogram = new Float64Array(levels);
+  const points: ChiSquarePoint[] = [];
+  let i = 0;
+  for (let step = 1; step <= CHI_SQUARE_STEPS; step++) {
+    const end = Math.round((values.length * step) / CHI_SQUARE_STEPS);
+    for (; i < end; i++) histogram[values[i]]++;
+    if (end >= CHI_SQUARE_MIN_SAMPLES) {
+      points.push({ fraction: step / CHI_SQUARE_STEPS, probability: pairsOfValuesProbability(histogram) });
+    }
+  }
+  return points;
+}
+
+/** Values of some channels of an image, pixel by pixel in reading order */
+function imageValues(image: RgbaImage, channels: AnalysisChannel[]): Uint8Array {
+  const pixels = image.width * image.height;
+  const values = new Uint8Array(pixels * channels.length);
+  for (let pixel = 0, i = 0; pixel < pixels; pixel++) {
+    for (const c of channels) values[i++] = image.data[pixel * 4 + c];
+  }
+  return values;
+}
+
+/**
+ * Samples of a WAV file offset to 0-65535: one channel, or every channel
+ * interleaved as stored
+ */
+function audioValues(audio: PcmAudio, channel?: number): Uint16Array {
+  const view = new DataView(audio.data.buffer, audio.data.byteOffset, audio.data.byteLength);
+  const frames = frameCount(audio);
+  if (channel === undefined) {
+    const values = new Uint16Array(frames * audio.channels);
+    for (let i = 0; i < values.length; i++) values[i] = view.getUint16(i * 2, true) ^ AUDIO_OFFSET;
+    return values;
+  }
+  const values = new Uint16Array(frames);
+  for (let i = 0; i < frames; i++) values[i] = view.getUint16((i * audio.channels + channel) * 2, true) ^ AUDIO_OFFSET;
+  return values;
+}
+
+/**
+ * Westfeld & Pfitzmann's attack over growing prefixes of the image
+ */
+export function chiSquareAttack(image: RgbaImage, channels: AnalysisChannel[] = COLOR_CHANNELS): ChiSquarePoint[] {
+  return chiSquareSequence(imageValues(image, channels), IMAGE_LEVELS);
+}
+
+/**
+ * How far from the start sequential embedding reaches, or 0 if the curve
+ * does not show it. Embedded data keeps the probability high up to the end
+ * of the message and then it collapses; a cover with a very smooth histogram
+ * can look embedded throughout, so only a clear drop well before the end
+ * counts.
+ */
+function chiSquareReach(points: ChiSquarePoint[]): number {
+  if (points.length === 0 || points[0].probability < 0.5) return 0;
+  let reach = points[0].fraction;
+  for (const point of points) {
+    if (point.probability < 0.5) break;
+    reach = point.fraction;
+  }
+  const final = points[points.length - 1];
+  return reach <= CHI_SQUARE_MAX_REACH && final.probability < 0.01 ? reach : 0;
+}
+
+/** Smoothness of a group of values: sum of absolute neighbour differences */
+const variation = (g: number[]) => Math.abs(g[1] - g[0]) + Math.abs(g[2] - g[1]) + Math.abs(g[3] - g[2]);
+const flip = (v: number) => v ^ 1;
+const flipShifted = (v: number) => ((v + 1) ^ 1) - 1;
+
+/**
+ * Regular minus singular group counts for the mask [0, 1, 1, 0] and its
+ * negation, optionally after first flipping every LSB. Groups are four
+ * neighbouring values within a row.
+ */
+function rsCounts(values: ArrayLike<number>, rowLength: number, flipAll: boolean) {
+  if (rowLength < 4) return null;
+  let positive = 0;
+  let negative = 0;
+  let groups = 0;
+  const value = (i: number) => (flipAll ? values[i] ^ 1 : values[i]);
+  for (let row = 0; row + rowLength <= values.length; row += rowLength) {
+    for (let i = row; i + 4 <= row + rowLength; i += 4) {
+      const g = [value(i), value(i + 1), value(i + 2), value(i + 3)];
+      const f = variation(g);
+      const fm = variation([g[0], flip(g[1]), flip(g[2]), g[3]]);
+      const fn = variation([g[0], flipShifted(g[1]), flipShifted(g[2]), g[3]]);
+      positive += Math.sign(fm - f);
+      negative += Math.sign(fn - f);
+      groups++;
+    }
+  }
+  return groups ? { d: positive / groups, dNegative: negative / groups } : null;
+}
+
+const clampRate = (rate: number) => (Number.isFinite(rate) ? Math.min(Math.max(rate, 0), 1) : 0);
+
+/**
+ * The root of ax² + bx + c nearest zero (or the smaller one). Near full
+ * embedding noise can push the roots off the real line; their real part,
+ * the vertex, is then the best estimate.
+ */
+function smallRoot(a: number, b: number, c: number, nearestZero: boolean): number {
+  if (Math.abs(a) < 1e-12) return b ? -c / b : 0;
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return -b / (2 * a);
+  const root = Math.sqrt(discriminant);
+  const r1 = (-b + root) / (2 * a);
+  const r2 = (-b - root) / (2 * a);
+  if (nearestZero) return Math.abs(r1) < Math.abs(r2) ? r1 : r2;
+  return Math.min(r1, r2);
+}
+
+/**
+ * Fridrich's RS analysis: estimated embedding rate for a sequence of values
+ * split into rows of `rowLength`
+ */
+export function rsSequence(values: ArrayLike<number>, rowLength = values.length): number {
+  const original = rsCounts(values, rowLength, false);
+  const flipped = rsCounts(values, rowLength, true);
+  if (!original || !flipped) return 0;
+  const { d: d0, dNegative: dn0 } = original;
+  const { d: d1, dNegative: dn1 } = flipped;
+
+  const z = smallRoot(2 * (d1 + d0), dn0 - dn1 - d1 - 3 * d0, d0 - dn0, true);
+  return clampRate(z / (z - 0.5));
+}
+
+/**
+ * Fridrich's RS analysis: estimated embedding rate for one channel
+ */
+export function rsAnalysis(image: RgbaImage, channel: AnalysisChannel): number {
+  return rsSequence(imageValues(image, [channel]), image.width);
+}
+
+/**
+ * Dumitrescu's sample pair analysis: estimated embedding rate for a sequence
+ * of values split into rows of `rowLength`; pairs do not cross rows
+ */
+export function samplePairSequence(values: ArrayLike<number>, rowLength = values.length): number {
+  if (rowLength < 2) return 0;
+  let x = 0, y = 0, k = 0, pairs = 0;
+  for (let row = 0; row + rowLength <= values.length; row += rowLength) {
+    for (let i = row; i + 1 < row + rowLength; i++) {
+      const u = values[i];
+      const v = values[i + 1];
+      if ((v % 2 === 0 && u < v) || (v % 2 === 1 && u > v)) x++;
+      if ((v % 2 === 0 && u > v) || (v % 2 === 1 && u < v)) y++;
+      if (u >> 1 === v >> 1) k++;
+      pairs++;
+    }
+  }
+  if (k === 0) return 0;
+  // 0.5(W + Z)p² + (2X − P)p + (Y − X) = 0, taking the smaller root
+  return clampRate(smallRoot(k / 2, 2 * x - pairs, y - x, false));
+}
+
+/**
+ * Dumitrescu's sample pair analysis: estimated embedding rate for one channel
+ */
+export function samplePairAnalysis(image: RgbaImage, channel: AnalysisChannel): number {
+  return samplePairSequence(imageValues(image, [channel]), image.width);
+}
+
+/**
+ * Combine the detectors' results into one verdict over `values` samples
+ */
+function combine(
+  media: AnalyzedMedia,
+  chiSquare: ChiSquarePoint[],
+  channels: ChannelAnalysis[],
+  values: number
+): SteganalysisReport {
+  const chiSquareFraction = chiSquareReach(chiSquare);
+  const embeddingRate = channels.reduce((sum, c) => sum + (c.rs + c.spa) / 2, 0) / channels.length;
+  const rateProbability = 1 / (1 + Math.exp(-RATE_STEEPNESS * (embeddingRate - RATE_THRESHOLD)));
+  const chiProbability = chiSquareFraction > 0 ? chiSquare[0].probability : 0;
+
+  return {
+    media,
+    chiSquare,
+    chiSquareFraction,
+    channels,
+    embeddingRate,
+    probability: Math.max(rateProbability, chiProbability),
+    estimatedPayloadBytes: Math.round((Math.max(embeddingRate, chiSquareFraction) * values) / 8)
+  };
+}
+
+/**
+ * Run every detector on an image and combine them into one verdict
+ */
+export function analyzeImage(image: RgbaImage, onProgress?: (fraction: number) => void): SteganalysisReport {
+  const chiSquare = chiSquareAttack(image);
+  onProgress?.(0.2);
+
+  const channels = COLOR_CHANNELS.map((channel, i) => {
+    const result = { channel, rs: rsAnalysis(image, channel), spa: samplePairAnalysis(image, channel) };
+    onProgress?.(0.2 + (0.8 * (i + 1)) / COLOR_CHANNELS.length);
+    return result;
+  });
+
+  const media: AnalyzedMedia = { kind: 'image', width: image.width, height: image.height };
+  return combine(media, chiSquare, channels, image.width * image.height * COLOR_CHANNELS.length);
+}
+
+/**
+ * Run every detector on the samples of a WAV file: chi-square over all of
+ * them in file order, RS and sample pairs on each channel's run of samples
+ */
+export function analyzeAudio(audio: PcmAudio, onProgress?: (fraction: number) => void): SteganalysisReport {
+  const chiSquare = chiSquareSequence(audioValues(audio), AUDIO_LEVELS);
+  onProgress?.(0.2);
+
+  const channels = Array.from({ length: audio.channels }, (_, channel) => {
+    const values = audioValues(audio, channel);
+    const result = { channel, rs: rsSequence(values), spa: samplePairSequence(values) };
+    onProgress?.(0.2 + (0.8 * (channel + 1)) / audio.channels);
+    return result;
+  });
+
+  const frames = frameCount(audio);
+  const media: AnalyzedMedia = { kind: 'audio', sampleRate: audio.sampleRate, channels: audio.channels, frames };
+  return combine(media, chiSquare, channels, frames * audio.channels);
+}
+
+/**
+ * Display name of a channel in a report
+ */
+export function channelName(media: AnalyzedMedia, channel: number): string {
+  if (media.kind === 'image') return ANALYSIS_CHANNEL_NAMES[channel];
+  if (media.channels === 1) return 'Mono';
+  if (media.channels === 2) return channel === 0 ? 'Left' : 'Right';
+  return `Channel ${channel + 1}`;
+}
+
+/**
+ * One bit plane of one channel as a black and white image: set bits are
+ * white. Hidden data in the low planes shows up as noise where the image
+ * should have structure.
+ */
+export function bitPlane(image: RgbaImage, channel: AnalysisChannel, bit: number): RgbaImage {
+  const { width, height } = image;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    const value = (image.data[i + channel] >> bit) & 1 ? 255 : 0;
+    data[i] = data[i + 1] = data[i + 2] = value;
+    data[i + 3] = 255;
+  }
+  return { width, height, data };
+}
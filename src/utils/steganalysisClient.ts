@@ -0,0 +1,115 @@
+// Runs steganalysis in a Web Worker so large images and long recordings do
+// not freeze the page.
+//
+// The worker is started on first use and answers one request at a time.
+// Every request carries an id so that progress updates and results find
+// their way back to the promise that asked for them.
+
+import { RgbaImage } from './pngCodec';
+import { AnalysisChannel, SteganalysisReport } from './steganalysis';
+import { PcmAudio } from './wavCodec';
+
+export type SteganalysisRequest =
+  | { id: number; type: 'analyze'; image: RgbaImage }
+  | { id: number; type: 'analyze-audio'; audio: PcmAudio }
+  | { id: number; type: 'bit-plane'; image?: RgbaImage; channel: AnalysisChannel; bit: number };
+
+export type SteganalysisResponse =
+  | { id: number; type: 'progress'; fraction: number }
+  | { id: number; type: 'result'; result: SteganalysisReport | Blob }
+  | { id: number; type: 'error'; error: string };
+
+interface PendingRequest {
+  resolve: (result: SteganalysisReport | Blob) => void;
+  reject: (error: Error) => void;
+  onProgress?: (fraction: number) => void;
+}
+
+export class SteganalysisWorker {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private planeImage: RgbaImage | null = null;
+
+  private start(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL('../workers/steganalysis.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SteganalysisResponse>) => {
+      const response = event.data;
+      const request = this.pending.get(response.id);
+      if (!request) return;
+      if (response.type === 'progress') {
+        request.onProgress?.(response.fraction);
+        return;
+      }
+      this.pending.delete(response.id);
+      if (response.type === 'result') {
+        request.resolve(response.result);
+      } else {
+        request.reject(new Error(response.error));
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.fail(new Error(event.message || 'Steganalysis worker failed'));
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private fail(error: Error) {
+    for (const request of this.pending.values()) request.reject(error);
+    this.pending.clear();
+    this.worker?.terminate();
+    this.worker = null;
+    this.planeImage = null;
+  }
+
+  private send(
+    message: SteganalysisRequest,
+    transfer: Transferable[] = [],
+    onProgress?: (fraction: number) => void
+  ): Promise<SteganalysisReport | Blob> {
+    const worker = this.start();
+    return new Promise((resolve, reject) => {
+      this.pending.set(message.id, { resolve, reject, onProgress });
+      worker.postMessage(message, transfer);
+    });
+  }
+
+  /**
+   * Run every detector on an image. The pixel buffer is handed over to the
+   * worker, so `image` cannot be used afterwards.
+   */
+  async analyze(image: RgbaImage, onProgress?: (fraction: number) => void): Promise<SteganalysisReport> {
+    const message: SteganalysisRequest = { id: this.nextId++, type: 'analyze', image };
+    return await this.send(message, [image.data.buffer], onProgress) as SteganalysisReport;
+  }
+
+  /**
+   * Run every detector on the samples of a WAV file. The sample buffer is
+   * handed over to the worker, so `audio` cannot be used afterwards.
+   */
+  async analyzeAudio(audio: PcmAudio, onProgress?: (fraction: number) => void): Promise<SteganalysisReport> {
+    const message: SteganalysisRequest = { id: this.nextId++, type: 'analyze-audio', audio };
+    return await this.send(message, [audio.data.buffer], onProgress) as SteganalysisReport;
+  }
+
+  /**
+   * One bit plane of one channel as a PNG. The worker keeps the last image
+   * it was given, so slicing the same image again does not copy it.
+   */
+  async bitPlane(image: RgbaImage, channel: AnalysisChannel, bit: number): Promise<Blob> {
+    const isNew = image !== this.planeImage;
+    this.planeImage = image;
+    const message: SteganalysisRequest = { id: this.nextId++, type: 'bit-plane', image: isNew ? image : undefined, channel, bit };
+    return await this.send(message) as Blob;
+  }
+
+  /**
+   * Stop the worker; pending requests fail. It restarts on the next request.
+   */
+  terminate() {
+    this.fail(new Error('Steganalysis was cancelled'));
+  }
+}
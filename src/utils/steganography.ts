@@ -1,175 +1,385 @@
 // LSB Steganography utilities for hiding and extracting messages in images
+//
+// The hidden data is a payload with a small header recording its length and
+// CRC-32 (see stegoPayload.ts), so text in any encoding or a whole file can
+// be hidden, and extraction reads only the bits the payload occupies. The
+// layout decides which low bits of which channels carry it and in what
+// order (see stegoLayout.ts); extraction finds the layout by itself. With a
+// passphrase the payload is encrypted and scattered over the image in a
+// key-derived order instead of the layout's traversal (see stegoCrypto.ts).
+// Images from older versions, which end the message with a "###END###"
+// delimiter, can still be read.
+//
+// Pixels are read and written through pngCodec.ts rather than the canvas
+// where possible, because the canvas cannot round-trip translucent pixels.
+// Other formats are decoded with createImageBitmap and an OffscreenCanvas,
+// so everything here also runs in a worker (see steganographyClient.ts).
+//
+// Changed pixel bits do not survive JPEG compression, so for JPEG output the
+// payload goes into the quantized DCT coefficients instead (F5, see
+// jpegSteganography.ts). Such an image can be shared as it is, but not
+// recompressed or resized.
 
-const MESSAGE_DELIMITER = "###END###";
+import { DEFAULT_TEXT_ENCODING, TEXT_ENCODINGS, TextEncodingId, decodeText, encodeText } from './textCodec';
+import { LENGTH_BYTES, SEAL_OVERHEAD, StegoKeys, deriveStegoKeys, openPayload, sealPayload, sealedLength } from './stegoCrypto';
+import {
+  PAYLOAD_HEADER_LENGTH,
+  StegoPayload,
+  decodePayload,
+  decodePayloadBody,
+  encodeFilePayload,
+  encodeTextPayload,
+  parsePayloadHeader
+} from './stegoPayload';
+import {
+  DEFAULT_LAYOUT,
+  LsbCursor,
+  StegoLayout,
+  allLayouts,
+  layoutCapacityBits,
+  sameLayout,
+  validateLayout,
+  valueOrder
+} from './stegoLayout';
+import { RgbaImage, decodePng, encodePng } from './pngCodec';
+import { isBaselineJpeg, parseJpeg } from './jpegCoefficients';
+import { embedInJpeg, extractFromJpeg, jpegCapacity } from './jpegSteganography';
+import { DistortionMetrics, estimateDistortion } from './stegoQuality';
+
+const LEGACY_DELIMITER = "###END###";
+const LEGACY_DELIMITER_BYTES = encodeText(LEGACY_DELIMITER, 'ascii');
+const NOT_FOUND = "No hidden message found in this image";
+
+export type StegoFormat = 'png' | 'jpeg';
+
+export interface StegoFormatInfo {
+  name: string;
+  description: string;
+}
+
+export const STEGO_FORMATS: Record<StegoFormat, StegoFormatInfo> = {
+  'png': { name: 'PNG (LSB)', description: 'Low bits of the pixels; lossless, so any JPEG conversion destroys the data' },
+  'jpeg': { name: 'JPEG (F5)', description: 'DCT coefficients of a JPEG; survives being shared as a JPEG, but not recompression or resizing' }
+};
 
 export interface SteganographyResult {
   success: boolean;
   message?: string;
+  /** A hidden file, with its original name */
+  file?: File;
   error?: string;
   blob?: Blob;
 }
 
+export interface SteganographyOptions {
+  /** How text is turned into bytes; extraction only needs it for images from older versions */
+  encoding?: TextEncodingId;
+  /** Encrypt and scatter the message; the same passphrase is needed to extract it */
+  passphrase?: string;
+  /** Where the bits go when embedding; tried first when extracting, before detecting it */
+  layout?: StegoLayout;
+  /** Image format to embed into; extraction detects it from the file */
+  format?: StegoFormat;
+  /** Called with the fraction done, from 0 to 1 */
+  onProgress?: (fraction: number) => void;
+}
+
 /**
- * Convert string to binary representation
+ * Draw an image file onto a canvas of its own size
  */
-function stringToBinary(str: string): string {
-  return str
-    .split('')
-    .map(char => char.charCodeAt(0).toString(2).padStart(8, '0'))
-    .join('');
+async function drawImage(imageFile: Blob): Promise<OffscreenCanvas> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(imageFile, { premultiplyAlpha: 'none', colorSpaceConversion: 'none' });
+  } catch {
+    throw new Error("Failed to load image");
+  }
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error("Failed to get image data");
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
 }
 
 /**
- * Convert binary string to text
+ * Decode an image through the canvas, for formats pngCodec does not read
  */
-function binaryToString(binary: string): string {
-  const chars = [];
-  for (let i = 0; i < binary.length; i += 8) {
-    const byte = binary.substr(i, 8);
-    if (byte.length === 8) {
-      chars.push(String.fromCharCode(parseInt(byte, 2)));
-    }
+async function loadImageViaCanvas(imageFile: Blob): Promise<RgbaImage> {
+  const canvas = await drawImage(imageFile);
+  const imageData = canvas.getContext('2d')?.getImageData(0, 0, canvas.width, canvas.height);
+  if (!imageData) {
+    throw new Error("Failed to get image data");
   }
-  return chars.join('');
+  return { width: canvas.width, height: canvas.height, data: imageData.data };
 }
 
 /**
- * Embed a message into an image using LSB steganography
+ * The cover as a baseline JPEG: baseline JPEGs as they are, so their
+ * coefficients are kept, anything else converted through the canvas
  */
-export async function embedMessage(imageFile: File, message: string): Promise<SteganographyResult> {
-  return new Promise((resolve) => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const img = new Image();
+async function jpegCover(imageFile: Blob): Promise<Uint8Array> {
+  const bytes = new Uint8Array(await imageFile.arrayBuffer());
+  if (isBaselineJpeg(bytes)) return bytes;
+  const canvas = await drawImage(imageFile);
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.92 });
+  return new Uint8Array(await blob.arrayBuffer());
+}
 
-    img.onload = () => {
-      canvas.width = img.width;
-      canvas.height = img.height;
-      ctx?.drawImage(img, 0, 0);
+/**
+ * Decode an image file into its exact RGBA pixels
+ */
+export async function loadImagePixels(imageFile: Blob): Promise<RgbaImage> {
+  const png = await decodePng(new Uint8Array(await imageFile.arrayBuffer()));
+  return png ?? loadImageViaCanvas(imageFile);
+}
 
-      const imageData = ctx?.getImageData(0, 0, canvas.width, canvas.height);
-      if (!imageData) {
-        resolve({ success: false, error: "Failed to get image data" });
-        return;
-      }
+/**
+ * Bytes of message or file a cover of this size can hold with the layout
+ */
+export function embedCapacity(width: number, height: number, layout: StegoLayout, withPassphrase: boolean): number {
+  const overhead = PAYLOAD_HEADER_LENGTH + (withPassphrase ? SEAL_OVERHEAD : 0);
+  return Math.max(Math.floor(layoutCapacityBits(width, height, layout) / 8) - overhead, 0);
+}
 
-      // Prepare message with delimiter
-      const fullMessage = message + MESSAGE_DELIMITER;
-      const binaryMessage = stringToBinary(fullMessage);
-      
-      // Check if image has enough capacity
-      const maxCapacity = Math.floor((imageData.data.length / 4) * 3); // 3 color channels per pixel
-      if (binaryMessage.length > maxCapacity) {
-        resolve({ 
-          success: false, 
-          error: `Message too long. Max capacity: ${Math.floor(maxCapacity / 8)} characters` 
-        });
-        return;
-      }
+/**
+ * Bytes of message or file a cover can hold as a JPEG (about; shrinkage
+ * makes the exact figure depend on the data)
+ */
+export async function jpegEmbedCapacity(imageFile: Blob, withPassphrase: boolean): Promise<number> {
+  return jpegCapacity(parseJpeg(await jpegCover(imageFile)), withPassphrase);
+}
 
-      // Embed message bits into LSB of RGB channels
-      let bitIndex = 0;
-      for (let i = 0; i < imageData.data.length && bitIndex < binaryMessage.length; i += 4) {
-        // Skip alpha channel, only use RGB
-        for (let channel = 0; channel < 3 && bitIndex < binaryMessage.length; channel++) {
-          const pixelIndex = i + channel;
-          const bit = parseInt(binaryMessage[bitIndex]);
-          
-          // Clear LSB and set new bit
-          imageData.data[pixelIndex] = (imageData.data[pixelIndex] & 0xFE) | bit;
-          bitIndex++;
-        }
-      }
+/**
+ * Likely PSNR and SSIM after hiding a message or file of `length` bytes
+ */
+export function estimateEmbedDistortion(
+  cover: RgbaImage,
+  layout: StegoLayout,
+  length: number,
+  withPassphrase: boolean
+): Promise<DistortionMetrics> {
+  // A passphrase scatters the bits, which spreads the changes like the randomized traversal
+  const effective = withPassphrase ? { ...layout, traversal: 'random' as const } : layout;
+  const written = PAYLOAD_HEADER_LENGTH + length + (withPassphrase ? SEAL_OVERHEAD : 0);
+  return estimateDistortion(cover, effective, written);
+}
 
-      ctx?.putImageData(imageData, 0, 0);
-      
-      canvas.toBlob((blob) => {
-        if (blob) {
-          resolve({ success: true, blob });
-        } else {
-          resolve({ success: false, error: "Failed to create image blob" });
-        }
-      }, 'image/png');
-    };
+/**
+ * Position of the legacy delimiter in the extracted bytes, or -1
+ */
+function findDelimiter(bytes: Uint8Array): number {
+  outer:
+  for (let i = 0; i + LEGACY_DELIMITER_BYTES.length <= bytes.length; i++) {
+    for (let j = 0; j < LEGACY_DELIMITER_BYTES.length; j++) {
+      if (bytes[i + j] !== LEGACY_DELIMITER_BYTES[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Hide a complete payload (header and body) in an image
+ */
+async function embedPayload(
+  imageFile: File,
+  payload: Uint8Array,
+  { passphrase = '', layout = DEFAULT_LAYOUT, format = 'png', onProgress }: SteganographyOptions
+): Promise<SteganographyResult> {
+  if (format === 'jpeg') {
+    const cover = await jpegCover(imageFile);
+    onProgress?.(0.3);
+    const stego = await embedInJpeg(cover, payload, passphrase);
+    onProgress?.(1);
+    return { success: true, blob: new Blob([stego], { type: 'image/jpeg' }) };
+  }
 
-    img.onerror = () => {
-      resolve({ success: false, error: "Failed to load image" });
+  validateLayout(layout);
+  const image = await loadImagePixels(imageFile);
+  onProgress?.(0.3);
+  const capacity = embedCapacity(image.width, image.height, layout, Boolean(passphrase));
+  const needed = payload.length - PAYLOAD_HEADER_LENGTH;
+
+  // Check if image has enough capacity
+  if (needed > capacity) {
+    return {
+      success: false,
+      error: `Too much data to hide. Max capacity: ${capacity} bytes, needed ${needed}`
     };
+  }
 
-    img.src = URL.createObjectURL(imageFile);
-  });
+  if (passphrase) {
+    const keys = await deriveStegoKeys(passphrase, image.width, image.height);
+    const order = await valueOrder(image.width, image.height, layout, keys.scatterKey);
+    new LsbCursor(image.data, layout.bitsPerChannel, order).write(await sealPayload(keys, payload));
+  } else {
+    const order = await valueOrder(image.width, image.height, layout);
+    new LsbCursor(image.data, layout.bitsPerChannel, order).write(payload);
+  }
+  onProgress?.(0.6);
+
+  const blob = await encodePng(image);
+  onProgress?.(1);
+  return { success: true, blob };
 }
 
 /**
- * Extract a hidden message from an image using LSB steganography
+ * Embed a message into an image using LSB or (for JPEG output) F5 steganography
  */
-export async function extractMessage(imageFile: File): Promise<SteganographyResult> {
-  return new Promise((resolve) => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const img = new Image();
+export async function embedMessage(
+  imageFile: File,
+  message: string,
+  options: SteganographyOptions = {}
+): Promise<SteganographyResult> {
+  try {
+    const payload = encodeTextPayload(message, options.encoding ?? DEFAULT_TEXT_ENCODING);
+    return await embedPayload(imageFile, payload, options);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Failed to embed message" };
+  }
+}
 
-    img.onload = () => {
-      canvas.width = img.width;
-      canvas.height = img.height;
-      ctx?.drawImage(img, 0, 0);
+/**
+ * Embed a whole file (any type) into an image, keeping its name
+ */
+export async function embedFile(
+  imageFile: File,
+  secretFile: File,
+  options: SteganographyOptions = {}
+): Promise<SteganographyResult> {
+  try {
+    const payload = encodeFilePayload(secretFile.name, new Uint8Array(await secretFile.arrayBuffer()));
+    return await embedPayload(imageFile, payload, options);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Failed to embed file" };
+  }
+}
 
-      const imageData = ctx?.getImageData(0, 0, canvas.width, canvas.height);
-      if (!imageData) {
-        resolve({ success: false, error: "Failed to get image data" });
-        return;
-      }
+/**
+ * The result for an extracted payload: its text or a File with its name
+ */
+export function toResult(payload: StegoPayload): SteganographyResult {
+  return payload.kind === 'text'
+    ? { success: true, message: payload.text }
+    : { success: true, file: new File([payload.data], payload.name) };
+}
 
-      // Extract bits from LSB of RGB channels
-      let binaryMessage = '';
-      for (let i = 0; i < imageData.data.length; i += 4) {
-        // Extract from RGB channels only
-        for (let channel = 0; channel < 3; channel++) {
-          const pixelIndex = i + channel;
-          const lsb = imageData.data[pixelIndex] & 1;
-          binaryMessage += lsb.toString();
-        }
-      }
+/**
+ * The layouts to try when extracting, the caller's guess first
+ */
+function candidateLayouts(first?: StegoLayout): StegoLayout[] {
+  const layouts = allLayouts();
+  return first ? [first, ...layouts.filter(layout => !sameLayout(layout, first))] : layouts;
+}
+
+/**
+ * Read an unencrypted payload: the header first, then only as many bytes as
+ * it says. Returns null when the layout shows no payload header.
+ */
+async function readPlainPayload(image: RgbaImage, layout: StegoLayout): Promise<StegoPayload | null> {
+  const cursor = new LsbCursor(image.data, layout.bitsPerChannel, await valueOrder(image.width, image.height, layout));
+  const header = parsePayloadHeader(cursor.read(PAYLOAD_HEADER_LENGTH));
+  if (!header) return null;
+  if ((PAYLOAD_HEADER_LENGTH + header.length) * 8 > layoutCapacityBits(image.width, image.height, layout)) {
+    throw new Error('Hidden data is damaged - its length runs past the end of the image');
+  }
+  return decodePayloadBody(header, cursor.read(header.length));
+}
+
+/**
+ * Read and decrypt a passphrase-protected payload; null when the layout or
+ * key is wrong, which cannot be told apart from there being nothing there
+ */
+async function readSealedPayload(image: RgbaImage, layout: StegoLayout, keys: StegoKeys): Promise<Uint8Array | null> {
+  const order = await valueOrder(image.width, image.height, layout, keys.scatterKey);
+  const cursor = new LsbCursor(image.data, layout.bitsPerChannel, order);
+  const length = sealedLength(keys, cursor.read(LENGTH_BYTES));
+  if ((LENGTH_BYTES + length) * 8 > layoutCapacityBits(image.width, image.height, layout)) {
+    return null;
+  }
+  return openPayload(keys, cursor.read(length));
+}
 
-      // Convert binary to text and look for delimiter
-      let extractedText = '';
-      try {
-        // Process in chunks to find the delimiter
-        for (let i = 0; i < binaryMessage.length; i += 8) {
-          const byte = binaryMessage.substr(i, 8);
-          if (byte.length === 8) {
-            const char = String.fromCharCode(parseInt(byte, 2));
-            extractedText += char;
-            
-            // Check if we've found the delimiter
-            if (extractedText.includes(MESSAGE_DELIMITER)) {
-              const message = extractedText.split(MESSAGE_DELIMITER)[0];
-              if (message.length > 0) {
-                resolve({ success: true, message });
-                return;
-              }
-            }
-          }
+/**
+ * Messages from older versions: text in order up to the "###END###" delimiter
+ */
+async function readLegacyMessage(image: RgbaImage, encoding: TextEncodingId): Promise<string | null> {
+  const order = await valueOrder(image.width, image.height, DEFAULT_LAYOUT);
+  const capacity = Math.floor(layoutCapacityBits(image.width, image.height, DEFAULT_LAYOUT) / 8);
+  const bytes = new LsbCursor(image.data, 1, order).read(capacity);
+  const end = findDelimiter(bytes);
+  if (end <= 0) return null;
+  try {
+    return decodeText(bytes.subarray(0, end), encoding, true);
+  } catch {
+    throw new Error(`Found a hidden message, but it is not valid ${TEXT_ENCODINGS[encoding].name} - try another text encoding`);
+  }
+}
+
+/**
+ * Extract a hidden message or file from an image using LSB or F5 steganography
+ */
+export async function extractMessage(
+  imageFile: File,
+  options: SteganographyOptions = {}
+): Promise<SteganographyResult> {
+  const encoding = options.encoding ?? DEFAULT_TEXT_ENCODING;
+  try {
+    const bytes = new Uint8Array(await imageFile.arrayBuffer());
+    if (isBaselineJpeg(bytes)) {
+      // JPEG compression wipes out pixel LSBs, so only F5 can be present
+      const payload = await extractFromJpeg(bytes, options.passphrase);
+      return payload ? toResult(payload) : { success: false, error: NOT_FOUND };
+    }
+
+    const image = await loadImagePixels(imageFile);
+
+    if (options.passphrase) {
+      // A wrong passphrase reads random bits, exactly as an image with no
+      // payload does, so both give the same answer. The key replaces the
+      // traversal, so only bit depth and channels need to be searched.
+      const keys = await deriveStegoKeys(options.passphrase, image.width, image.height);
+      const tried = new Set<string>();
+      const layouts = candidateLayouts(options.layout);
+      for (const [i, layout] of layouts.entries()) {
+        options.onProgress?.(i / layouts.length);
+        const key = `${layout.bitsPerChannel}:${layout.channels.join('')}`;
+        if (tried.has(key)) continue;
+        tried.add(key);
+        const opened = await readSealedPayload(image, layout, keys);
+        if (!opened) continue;
+        const payload = decodePayload(opened);
+        if (!payload) {
+          throw new Error('The passphrase opened the hidden data, but it is not in a known format');
         }
-        
-        resolve({ success: false, error: "No hidden message found in this image" });
-      } catch (error) {
-        resolve({ success: false, error: "Failed to decode message from image" });
+        return toResult(payload);
       }
-    };
-
-    img.onerror = () => {
-      resolve({ success: false, error: "Failed to load image" });
-    };
+      return { success: false, error: NOT_FOUND };
+    }
 
-    img.src = URL.createObjectURL(imageFile);
-  });
+    const layouts = candidateLayouts(options.layout);
+    for (const [i, layout] of layouts.entries()) {
+      options.onProgress?.(i / layouts.length);
+      const payload = await readPlainPayload(image, layout);
+      if (payload) {
+        return toResult(payload);
+      }
+    }
+    const legacy = await readLegacyMessage(image, encoding);
+    return legacy ? { success: true, message: legacy } : { success: false, error: NOT_FOUND };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Failed to decode message from image" };
+  }
 }
 
 /**
- * Check if an image potentially contains a hidden message
+ * Check if an image potentially contains an unprotected hidden message or file
  */
-export async function hasHiddenMessage(imageFile: File): Promise<boolean> {
-  const result = await extractMessage(imageFile);
-  return result.success && result.message !== undefined && result.message.length > 0;
-}
\ No newline at end of file
+export async function hasHiddenMessage(imageFile: File, encoding: TextEncodingId = DEFAULT_TEXT_ENCODING): Promise<boolean> {
+  const result = await extractMessage(imageFile, { encoding });
+  return result.success && (Boolean(result.message) || Boolean(result.file));
+}
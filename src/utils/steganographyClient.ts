@@ -0,0 +1,176 @@
+// Runs image steganography in a Web Worker so decoding, embedding and
+// comparing large images does not freeze the page.
+//
+// Works like steganalysisClient.ts: the worker is started on first use,
+// every request carries an id, and terminating it cancels whatever is
+// running. The worker keeps the decoded cover, so capacity checks, distortion
+// estimates and comparisons against the same cover decode it only once.
+
+import { SteganographyOptions, SteganographyResult } from './steganography';
+import { StegoLayout } from './stegoLayout';
+import { DistortionMetrics } from './stegoQuality';
+import { TextEncodingId } from './textCodec';
+
+/** Options as sent to the worker; progress comes back as messages instead */
+export type WorkerStegoOptions = Omit<SteganographyOptions, 'onProgress'>;
+
+export interface CoverSize {
+  width: number;
+  height: number;
+}
+
+export interface ImageComparison {
+  metrics: DistortionMetrics;
+  /** PNG of the changed pixels, amplified so they are visible */
+  diff: Blob;
+}
+
+export type SteganographyRequest =
+  | { id: number; type: 'load-cover'; cover: File }
+  | { id: number; type: 'jpeg-capacity'; image: File; withPassphrase: boolean }
+  | { id: number; type: 'embed'; image: File; message?: string; secret?: File; options: WorkerStegoOptions }
+  | { id: number; type: 'extract'; image: File; options: WorkerStegoOptions }
+  | { id: number; type: 'estimate'; cover?: File; layout: StegoLayout; length: number; withPassphrase: boolean }
+  | { id: number; type: 'compare'; cover?: File; stego: Blob; includeAlpha: boolean };
+
+type WorkerResult = CoverSize | number | SteganographyResult | DistortionMetrics | ImageComparison;
+
+export type SteganographyResponse =
+  | { id: number; type: 'progress'; fraction: number }
+  | { id: number; type: 'result'; result: WorkerResult }
+  | { id: number; type: 'error'; error: string };
+
+interface PendingRequest {
+  resolve: (result: WorkerResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (fraction: number) => void;
+}
+
+export class SteganographyWorker {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private coverFile: File | null = null;
+
+  private start(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL('../workers/steganography.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SteganographyResponse>) => {
+      const response = event.data;
+      const request = this.pending.get(response.id);
+      if (!request) return;
+      if (response.type === 'progress') {
+        request.onProgress?.(response.fraction);
+        return;
+      }
+      this.pending.delete(response.id);
+      if (response.type === 'result') {
+        request.resolve(response.result);
+      } else {
+        request.reject(new Error(response.error));
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.fail(new Error(event.message || 'Steganography worker failed'));
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private fail(error: Error) {
+    for (const request of this.pending.values()) request.reject(error);
+    this.pending.clear();
+    this.worker?.terminate();
+    this.worker = null;
+    this.coverFile = null;
+  }
+
+  private send(message: SteganographyRequest, onProgress?: (fraction: number) => void): Promise<WorkerResult> {
+    const worker = this.start();
+    return new Promise((resolve, reject) => {
+      this.pending.set(message.id, { resolve, reject, onProgress });
+      worker.postMessage(message);
+    });
+  }
+
+  /** The cover file if the worker does not already hold it decoded */
+  private coverToSend(cover: File): File | undefined {
+    const isNew = cover !== this.coverFile;
+    this.coverFile = cover;
+    return isNew ? cover : undefined;
+  }
+
+  /**
+   * Decode a cover image and keep it in the worker for estimates and comparisons
+   */
+  async loadCover(cover: File): Promise<CoverSize> {
+    this.coverFile = cover;
+    return await this.send({ id: this.nextId++, type: 'load-cover', cover }) as CoverSize;
+  }
+
+  async jpegCapacity(image: File, withPassphrase: boolean): Promise<number> {
+    return await this.send({ id: this.nextId++, type: 'jpeg-capacity', image, withPassphrase }) as number;
+  }
+
+  async embedMessage(
+    image: File,
+    message: string,
+    options: WorkerStegoOptions,
+    onProgress?: (fraction: number) => void
+  ): Promise<SteganographyResult> {
+    return await this.send({ id: this.nextId++, type: 'embed', image, message, options }, onProgress) as SteganographyResult;
+  }
+
+  async embedFile(
+    image: File,
+    secret: File,
+    options: WorkerStegoOptions,
+    onProgress?: (fraction: number) => void
+  ): Promise<SteganographyResult> {
+    return await this.send({ id: this.nextId++, type: 'embed', image, secret, options }, onProgress) as SteganographyResult;
+  }
+
+  async extractMessage(
+    image: File,
+    options: WorkerStegoOptions,
+    onProgress?: (fraction: number) => void
+  ): Promise<SteganographyResult> {
+    return await this.send({ id: this.nextId++, type: 'extract', image, options }, onProgress) as SteganographyResult;
+  }
+
+  /**
+   * Check if an image contains an unprotected hidden message or file
+   */
+  async hasHiddenMessage(image: File, encoding?: TextEncodingId): Promise<boolean> {
+    const result = await this.extractMessage(image, { encoding });
+    return result.success && (Boolean(result.message) || Boolean(result.file));
+  }
+
+  /**
+   * Likely PSNR and SSIM of hiding `length` bytes in the cover
+   */
+  async estimateDistortion(cover: File, layout: StegoLayout, length: number, withPassphrase: boolean): Promise<DistortionMetrics> {
+    const message: SteganographyRequest = {
+      id: this.nextId++, type: 'estimate', cover: this.coverToSend(cover), layout, length, withPassphrase
+    };
+    return await this.send(message) as DistortionMetrics;
+  }
+
+  /**
+   * Measure a stego image against its cover and draw the difference
+   */
+  async compare(cover: File, stego: Blob, includeAlpha: boolean): Promise<ImageComparison> {
+    const message: SteganographyRequest = {
+      id: this.nextId++, type: 'compare', cover: this.coverToSend(cover), stego, includeAlpha
+    };
+    return await this.send(message) as ImageComparison;
+  }
+
+  /**
+   * Stop the worker; pending requests fail. It restarts on the next request.
+   */
+  terminate() {
+    this.fail(new Error('Steganography was cancelled'));
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LAYOUT, valueOrder } from './stegoLayout';
+import { ScatterOrder, keyedPermutation } from './stegoCrypto';
+
+const key = Uint8Array.from({ length: 32 }, (_, i) => i * 7);
+
+describe('scatter order', () => {
+  it('matches the whole permutation, including after leaving the map behind', () => {
+    const order = new ScatterOrder(key, 1000);
+    const walked = Array.from({ length: 1000 }, () => order.next());
+    expect(walked).toEqual(Array.from(keyedPermutation(key, 1000)));
+    expect(() => order.next()).toThrow('The carrier has no unused positions left');
+  });
+
+  it('visits every value of a 6000x4000 RGB carrier once in random traversal', async () => {
+    const width = 6000;
+    const height = 4000;
+    const total = width * height * 3;
+    const next = await valueOrder(width, height, { ...DEFAULT_LAYOUT, traversal: 'random' });
+    const seen = new Uint8Array(width * height * 4);
+    let repeats = 0;
+    let alpha = 0;
+    for (let n = 0; n < total; n++) {
+      const index = next();
+      repeats += seen[index];
+      seen[index] = 1;
+      if (index % 4 === 3) alpha++;
+    }
+    expect(repeats).toBe(0);
+    expect(alpha).toBe(0);
+    expect(() => next()).toThrow('The carrier has no unused positions left');
+  }, 120000);
+});
@@ -0,0 +1,196 @@
+// Passphrase protection for steganography payloads (encrypt-then-hide).
+//
+// The passphrase is stretched with PBKDF2 and split with HKDF into three
+// independent values:
+//   - a ChaCha20 key that drives a pseudo-random permutation of the carrier
+//     slots, so the payload bits are scattered rather than written in order
+//   - an AES-256-GCM key that encrypts and authenticates the message
+//   - a 4-byte mask that hides the payload length
+//
+// The payload written to the scattered slots is
+//   masked length (4) || nonce (12) || ciphertext || tag (16)
+// and every byte of it is indistinguishable from random, so without the
+// passphrase there is no header, delimiter or order to look for. The KDF salt
+// is fixed apart from the carrier dimensions, because anything stored in the
+// clear would itself give the payload away.
+
+import { chacha20 } from './chacha20poly1305';
+import { KDF_PRESETS, deriveKeyBits } from './fileEncryption';
+import { encodeText } from './textCodec';
+
+const SALT_PREFIX = 'securex-stego v1';
+const PUBLIC_ORDER_SEED = 'securex-stego order v1';
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+// Swaps ScatterOrder keeps in a map, far below the 2^24 entries a Map can hold
+const MAX_LAZY_SWAPS = 1 << 22;
+export const LENGTH_BYTES = 4;
+/** Bytes a sealed payload adds to the message: length, nonce and tag */
+export const SEAL_OVERHEAD = LENGTH_BYTES + NONCE_LENGTH + TAG_LENGTH;
+
+export interface StegoKeys {
+  scatterKey: Uint8Array;
+  sealKey: CryptoKey;
+  lengthMask: Uint8Array;
+}
+
+/**
+ * Derive the scatter, seal and mask keys for a carrier of the given size
+ */
+export async function deriveStegoKeys(passphrase: string, width: number, height: number): Promise<StegoKeys> {
+  const salt = encodeText(`${SALT_PREFIX} ${width}x${height}`);
+  const master = await deriveKeyBits(passphrase, salt, KDF_PRESETS.pbkdf2.kdf);
+  const hkdfKey = await crypto.subtle.importKey('raw', master, 'HKDF', false, ['deriveBits', 'deriveKey']);
+  const hkdf = (info: string) => ({ name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encodeText(info) });
+
+  const [scatterKey, lengthMask, sealKey] = await Promise.all([
+    crypto.subtle.deriveBits(hkdf('scatter'), hkdfKey, 256).then(bits => new Uint8Array(bits)),
+    crypto.subtle.deriveBits(hkdf('length'), hkdfKey, LENGTH_BYTES * 8).then(bits => new Uint8Array(bits)),
+    crypto.subtle.deriveKey(hkdf('seal'), hkdfKey, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+  ]);
+  return { scatterKey, sealKey, lengthMask };
+}
+
+/**
+ * Uniform random integers from a ChaCha20 keystream, the same for the same key
+ */
+class KeyedRandom {
+  private stream = new Uint32Array(0);
+  private streamIndex = 0;
+  private counter = 0;
+
+  constructor(private key: Uint8Array) {}
+
+  private nextWord(): number {
+    if (this.streamIndex === this.stream.length) {
+      // 16 ChaCha20 blocks of keystream at a time
+      const bytes = chacha20(this.key, new Uint8Array(12), new Uint8Array(1024), this.counter);
+      this.counter += 16;
+      this.stream = new Uint32Array(bytes.buffer);
+      this.streamIndex = 0;
+    }
+    return this.stream[this.streamIndex++];
+  }
+
+  /** Uniform integer in [0, range), by rejection so no value is favoured */
+  uniform(range: number): number {
+    const limit = Math.floor(0x100000000 / range) * range;
+    let word: number;
+    do {
+      word = this.nextWord();
+    } while (word >= limit);
+    return word % range;
+  }
+}
+
+/**
+ * Keyed pseudo-random order over `slots` positions, produced lazily: each
+ * call to next() returns a position not returned before. This is a
+ * Fisher-Yates shuffle that only records the swaps it has made, so it costs
+ * memory for the positions used rather than for the whole carrier. Once the
+ * record grows past a share of the carrier it moves into a plain array,
+ * which is smaller from there on and has no limit on its size, and the
+ * order carries on unchanged.
+ */
+export class ScatterOrder {
+  private swapped: Map<number, number> | null = new Map();
+  private order: Uint32Array | null = null;
+  private index = 0;
+  private random: KeyedRandom;
+
+  constructor(key: Uint8Array, private slots: number) {
+    this.random = new KeyedRandom(key);
+  }
+
+  next(): number {
+    const i = this.index++;
+    if (i >= this.slots) {
+      throw new Error('The carrier has no unused positions left');
+    }
+    const j = i + this.random.uniform(this.slots - i);
+    if (this.order) {
+      const order = this.order;
+      [order[i], order[j]] = [order[j], order[i]];
+      return order[i];
+    }
+    const swapped = this.swapped as Map<number, number>;
+    const valueAtJ = swapped.get(j) ?? j;
+    swapped.set(j, swapped.get(i) ?? i);
+    swapped.delete(i);
+    if (swapped.size > Math.min(this.slots / 8, MAX_LAZY_SWAPS)) this.fillOrder();
+    return valueAtJ;
+  }
+
+  private fillOrder() {
+    const order = new Uint32Array(this.slots);
+    for (let k = this.index; k < this.slots; k++) order[k] = k;
+    for (const [k, value] of this.swapped as Map<number, number>) order[k] = value;
+    this.order = order;
+    this.swapped = null;
+  }
+}
+
+/**
+ * The whole of a ScatterOrder at once, for carriers that are walked to the
+ * end, where a plain array is far cheaper than the lazy version's map
+ */
+export function keyedPermutation(key: Uint8Array, count: number): Uint32Array {
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+  const random = new KeyedRandom(key);
+  for (let i = 0; i < count; i++) {
+    const j = i + random.uniform(count - i);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+/**
+ * Key for a randomized order that needs no passphrase. It spreads changes
+ * out; it does not hide them.
+ */
+export async function publicScatterKey(): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', encodeText(PUBLIC_ORDER_SEED)));
+}
+
+/**
+ * Encrypt a message into a payload ready to be scattered
+ */
+export async function sealPayload(keys: StegoKeys, message: Uint8Array): Promise<Uint8Array> {
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+  const sealed = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, keys.sealKey, message));
+
+  const payload = new Uint8Array(LENGTH_BYTES + NONCE_LENGTH + sealed.length);
+  new DataView(payload.buffer).setUint32(0, sealed.length);
+  for (let i = 0; i < LENGTH_BYTES; i++) payload[i] ^= keys.lengthMask[i];
+  payload.set(nonce, LENGTH_BYTES);
+  payload.set(sealed, LENGTH_BYTES + NONCE_LENGTH);
+  return payload;
+}
+
+/**
+ * Length of the rest of the payload (nonce, ciphertext and tag) from its
+ * first four bytes. With the wrong key this is just a random number.
+ */
+export function sealedLength(keys: StegoKeys, lengthBytes: Uint8Array): number {
+  const unmasked = lengthBytes.map((byte, i) => byte ^ keys.lengthMask[i]);
+  return NONCE_LENGTH + new DataView(unmasked.buffer).getUint32(0);
+}
+
+/**
+ * Decrypt the payload after its length field; null if the key is wrong or
+ * there is no payload, which cannot be told apart
+ */
+export async function openPayload(keys: StegoKeys, rest: Uint8Array): Promise<Uint8Array | null> {
+  if (rest.length < NONCE_LENGTH + TAG_LENGTH) return null;
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: rest.subarray(0, NONCE_LENGTH) },
+      keys.sealKey,
+      rest.subarray(NONCE_LENGTH)
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,160 @@
+// Where LSB steganography puts its bits.
+//
+// A layout picks how many low bits of each channel value are used (1-4),
+// which of R, G, B and A carry data, and the order the values are visited
+// in: rows, columns, or a pseudo-random order. The payload is a bit stream,
+// most significant bit first, poured into the chosen low bits of one value
+// after another. The default layout (1 bit of R, G and B, row by row) is
+// the one earlier versions always used.
+
+import { ScatterOrder, publicScatterKey } from './stegoCrypto';
+
+export type StegoChannel = 'r' | 'g' | 'b' | 'a';
+export type StegoTraversal = 'row' | 'column' | 'random';
+
+export interface StegoLayout {
+  /** Low bits used in each channel value, 1-4 */
+  bitsPerChannel: number;
+  /** Channels that carry data, in the order they are visited within a pixel */
+  channels: StegoChannel[];
+  traversal: StegoTraversal;
+}
+
+export interface StegoTraversalInfo {
+  name: string;
+  description: string;
+}
+
+export const STEGO_CHANNELS: StegoChannel[] = ['r', 'g', 'b', 'a'];
+
+export const STEGO_TRAVERSALS: Record<StegoTraversal, StegoTraversalInfo> = {
+  'row': { name: 'Row by row', description: 'Left to right, top to bottom; changes gather at the top of the image' },
+  'column': { name: 'Column by column', description: 'Top to bottom, left to right; changes gather at the left edge' },
+  'random': { name: 'Randomized', description: 'Spread evenly over the image in a fixed pseudo-random order' }
+};
+
+export const DEFAULT_LAYOUT: StegoLayout = { bitsPerChannel: 1, channels: ['r', 'g', 'b'], traversal: 'row' };
+
+export const MAX_BITS_PER_CHANNEL = 4;
+
+/**
+ * Every layout, default first; extraction tries them in turn
+ */
+export function allLayouts(): StegoLayout[] {
+  const layouts: StegoLayout[] = [DEFAULT_LAYOUT];
+  for (const traversal of Object.keys(STEGO_TRAVERSALS) as StegoTraversal[]) {
+    for (let mask = 1; mask < 16; mask++) {
+      const channels = STEGO_CHANNELS.filter((_, i) => mask & (1 << i));
+      for (let bitsPerChannel = 1; bitsPerChannel <= MAX_BITS_PER_CHANNEL; bitsPerChannel++) {
+        const layout = { bitsPerChannel, channels, traversal };
+        if (!sameLayout(layout, DEFAULT_LAYOUT)) layouts.push(layout);
+      }
+    }
+  }
+  return layouts;
+}
+
+export function sameLayout(a: StegoLayout, b: StegoLayout): boolean {
+  return a.bitsPerChannel === b.bitsPerChannel && a.traversal === b.traversal &&
+    a.channels.length === b.channels.length && a.channels.every((channel, i) => channel === b.channels[i]);
+}
+
+export function validateLayout(layout: StegoLayout) {
+  if (!Number.isInteger(layout.bitsPerChannel) || layout.bitsPerChannel < 1 || layout.bitsPerChannel > MAX_BITS_PER_CHANNEL) {
+    throw new Error(`Bits per channel must be between 1 and ${MAX_BITS_PER_CHANNEL}`);
+  }
+  if (layout.channels.length === 0) {
+    throw new Error('Select at least one color channel');
+  }
+}
+
+/**
+ * Number of channel values the layout can write to in a width × height image
+ */
+export function layoutValues(width: number, height: number, layout: StegoLayout): number {
+  return width * height * layout.channels.length;
+}
+
+/**
+ * Total bits the layout can hold in a width × height image
+ */
+export function layoutCapacityBits(width: number, height: number, layout: StegoLayout): number {
+  return layoutValues(width, height, layout) * layout.bitsPerChannel;
+}
+
+/**
+ * Index into the RGBA data of each channel value, in the layout's order.
+ * A scatter key overrides the traversal with a secret order.
+ */
+export async function valueOrder(
+  width: number,
+  height: number,
+  layout: StegoLayout,
+  scatterKey?: Uint8Array
+): Promise<() => number> {
+  const channels = layout.channels.map(channel => STEGO_CHANNELS.indexOf(channel));
+  const perPixel = channels.length;
+  const total = layoutValues(width, height, layout);
+  const toIndex = (pixel: number, value: number) => pixel * 4 + channels[value % perPixel];
+
+  if (scatterKey || layout.traversal === 'random') {
+    const order = new ScatterOrder(scatterKey ?? await publicScatterKey(), total);
+    return () => {
+      const value = order.next();
+      return toIndex(Math.floor(value / perPixel), value);
+    };
+  }
+
+  let value = 0;
+  return () => {
+    if (value >= total) {
+      throw new Error('The carrier has no unused positions left');
+    }
+    const n = value++;
+    let pixel = Math.floor(n / perPixel);
+    if (layout.traversal === 'column') {
+      pixel = (pixel % height) * width + Math.floor(pixel / height);
+    }
+    return toIndex(pixel, n);
+  };
+}
+
+/**
+ * Reads and writes a bit stream through the low bits of channel values (or
+ * the low bytes of audio samples) taken in order; reads and writes continue
+ * where the last one stopped
+ */
+export class LsbCursor {
+  private index = 0;
+  private bitsLeft = 0;
+
+  constructor(private data: Uint8ClampedArray | Uint8Array, private bitsPerChannel: number, private nextIndex: () => number) {}
+
+  private nextBit(): number {
+    if (this.bitsLeft === 0) {
+      this.index = this.nextIndex();
+      this.bitsLeft = this.bitsPerChannel;
+    }
+    return --this.bitsLeft;
+  }
+
+  write(bytes: Uint8Array) {
+    for (const byte of bytes) {
+      for (let bit = 7; bit >= 0; bit--) {
+        const position = this.nextBit();
+        this.data[this.index] = (this.data[this.index] & ~(1 << position)) | (((byte >> bit) & 1) << position);
+      }
+    }
+  }
+
+  read(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      for (let bit = 7; bit >= 0; bit--) {
+        const position = this.nextBit();
+        bytes[i] |= ((this.data[this.index] >> position) & 1) << bit;
+      }
+    }
+    return bytes;
+  }
+}
@@ -0,0 +1,158 @@
+// Binary payload format for steganography.
+//
+// Everything hidden in a carrier starts with a fixed 14-byte header, so the
+// extractor knows exactly how many bits to read and can check them:
+//
+//   magic   "SXSG"   4 bytes
+//   version 1        1 byte
+//   flags            1 byte   bit 0: file; bits 4-7: text encoding (text only)
+//   length           4 bytes  big-endian size of the body
+//   crc32            4 bytes  CRC-32 of the body
+//
+// A text body is the message in its encoding. A file body is the UTF-8 file
+// name prefixed by its 2-byte length, followed by the file contents.
+
+import { crc32 } from './crc32';
+import { LENGTH_BYTES, StegoKeys, openPayload, sealedLength } from './stegoCrypto';
+import { TextEncodingId, decodeText, encodeText } from './textCodec';
+
+const MAGIC = [0x53, 0x58, 0x53, 0x47]; // "SXSG"
+const VERSION = 1;
+const FLAG_FILE = 0x01;
+export const PAYLOAD_HEADER_LENGTH = 14;
+const MAX_NAME_LENGTH = 0xffff;
+
+// Position in this list is the code stored in the flags; append only
+const ENCODING_CODES: TextEncodingId[] = ['utf-8', 'utf-16le', 'utf-16be', 'latin1', 'ascii'];
+
+export interface PayloadHeader {
+  isFile: boolean;
+  encoding: TextEncodingId;
+  length: number;
+  crc: number;
+}
+
+export type StegoPayload =
+  | { kind: 'text'; text: string; encoding: TextEncodingId }
+  | { kind: 'file'; name: string; data: Uint8Array };
+
+function buildPayload(flags: number, body: Uint8Array): Uint8Array {
+  const payload = new Uint8Array(PAYLOAD_HEADER_LENGTH + body.length);
+  const view = new DataView(payload.buffer);
+  payload.set(MAGIC);
+  payload[4] = VERSION;
+  payload[5] = flags;
+  view.setUint32(6, body.length);
+  view.setUint32(10, crc32(body));
+  payload.set(body, PAYLOAD_HEADER_LENGTH);
+  return payload;
+}
+
+/**
+ * Header and body for a text message; throws if the encoding cannot hold it
+ */
+export function encodeTextPayload(text: string, encoding: TextEncodingId): Uint8Array {
+  return buildPayload(ENCODING_CODES.indexOf(encoding) << 4, encodeText(text, encoding));
+}
+
+/**
+ * Header and body for a whole file, keeping its name
+ */
+export function encodeFilePayload(name: string, data: Uint8Array): Uint8Array {
+  const nameBytes = encodeText(name);
+  if (nameBytes.length > MAX_NAME_LENGTH) {
+    throw new Error('File name is too long to embed');
+  }
+  const body = new Uint8Array(2 + nameBytes.length + data.length);
+  new DataView(body.buffer).setUint16(0, nameBytes.length);
+  body.set(nameBytes, 2);
+  body.set(data, 2 + nameBytes.length);
+  return buildPayload(FLAG_FILE, body);
+}
+
+/**
+ * Body size of a file payload, for capacity checks before reading the file
+ */
+export function filePayloadBodyLength(name: string, size: number): number {
+  return 2 + encodeText(name).length + size;
+}
+
+/**
+ * Parse the 14-byte header, or null if these bytes are not a payload header
+ */
+export function parsePayloadHeader(bytes: Uint8Array): PayloadHeader | null {
+  if (bytes.length < PAYLOAD_HEADER_LENGTH || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    return null;
+  }
+  if (bytes[4] !== VERSION) {
+    throw new Error(`Hidden data uses payload version ${bytes[4]}, which this version cannot read`);
+  }
+  const flags = bytes[5];
+  const encoding = ENCODING_CODES[flags >> 4];
+  if (!encoding) {
+    throw new Error('Hidden data uses an unknown text encoding');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, PAYLOAD_HEADER_LENGTH);
+  return { isFile: (flags & FLAG_FILE) !== 0, encoding, length: view.getUint32(6), crc: view.getUint32(10) };
+}
+
+/**
+ * Check the body against the header's CRC and decode it
+ */
+export function decodePayloadBody(header: PayloadHeader, body: Uint8Array): StegoPayload {
+  if (body.length !== header.length || crc32(body) !== header.crc) {
+    throw new Error('Hidden data is damaged - checksum mismatch (was the image resized or re-compressed?)');
+  }
+  if (!header.isFile) {
+    return { kind: 'text', text: decodeText(body, header.encoding, true), encoding: header.encoding };
+  }
+  const nameLength = body.length >= 2 ? new DataView(body.buffer, body.byteOffset).getUint16(0) : -1;
+  if (nameLength < 0 || 2 + nameLength > body.length) {
+    throw new Error('Hidden file is damaged - its name is cut off');
+  }
+  return {
+    kind: 'file',
+    name: decodeText(body.subarray(2, 2 + nameLength)),
+    data: body.slice(2 + nameLength)
+  };
+}
+
+/**
+ * Parse a complete payload held in memory, e.g. after decryption
+ */
+export function decodePayload(bytes: Uint8Array): StegoPayload | null {
+  const header = parsePayloadHeader(bytes);
+  if (!header) return null;
+  return decodePayloadBody(header, bytes.subarray(PAYLOAD_HEADER_LENGTH, PAYLOAD_HEADER_LENGTH + header.length));
+}
+
+/**
+ * Read a payload, plain or sealed with `keys`, through `read`, which returns
+ * the next bytes of a carrier holding `available` bytes in all; null when
+ * there is none (or the key is wrong, which cannot be told apart)
+ */
+export async function readPayload(
+  read: (length: number) => Uint8Array,
+  available: number,
+  keys: StegoKeys | null
+): Promise<StegoPayload | null> {
+  if (available < (keys ? LENGTH_BYTES : PAYLOAD_HEADER_LENGTH)) return null;
+  if (keys) {
+    const length = sealedLength(keys, read(LENGTH_BYTES));
+    if (LENGTH_BYTES + length > available) return null;
+    const opened = await openPayload(keys, read(length));
+    if (!opened) return null;
+    const payload = decodePayload(opened);
+    if (!payload) {
+      throw new Error('The passphrase opened the hidden data, but it is not in a known format');
+    }
+    return payload;
+  }
+
+  const header = parsePayloadHeader(read(PAYLOAD_HEADER_LENGTH));
+  if (!header) return null;
+  if (PAYLOAD_HEADER_LENGTH + header.length > available) {
+    throw new Error('Hidden data is damaged - its length runs past the end of the carrier');
+  }
+  return decodePayloadBody(header, read(header.length));
+}
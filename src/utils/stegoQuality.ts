@@ -0,0 +1,122 @@
+// Image distortion metrics for steganography.
+//
+// PSNR measures the average size of the changes (higher is better; above
+// about 40 dB differences are invisible). SSIM compares local brightness,
+// contrast and structure (1 means identical). SSIM here is the mean over
+// non-overlapping 8×8 windows of each measured channel, which tracks the
+// usual Gaussian-window figure closely at a fraction of the cost.
+
+import { RgbaImage } from './pngCodec';
+import { LsbCursor, StegoLayout, valueOrder } from './stegoLayout';
+
+export interface DistortionMetrics {
+  /** Peak signal-to-noise ratio in dB; Infinity when nothing changed */
+  psnr: number;
+  /** Mean structural similarity, from 0 to 1 */
+  ssim: number;
+}
+
+const WINDOW = 8;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+function psnr(a: Uint8ClampedArray, b: Uint8ClampedArray, channels: number[]): number {
+  let squared = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    for (const c of channels) {
+      const d = a[i + c] - b[i + c];
+      squared += d * d;
+    }
+  }
+  const mse = squared / ((a.length / 4) * channels.length);
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+}
+
+function ssim(a: RgbaImage, b: RgbaImage, channels: number[]): number {
+  const { width, height } = a;
+  let total = 0;
+  let windows = 0;
+  for (const c of channels) {
+    for (let y0 = 0; y0 < height; y0 += WINDOW) {
+      for (let x0 = 0; x0 < width; x0 += WINDOW) {
+        let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0, n = 0;
+        for (let y = y0; y < Math.min(y0 + WINDOW, height); y++) {
+          for (let x = x0; x < Math.min(x0 + WINDOW, width); x++) {
+            const i = (y * width + x) * 4 + c;
+            const va = a.data[i];
+            const vb = b.data[i];
+            sumA += va;
+            sumB += vb;
+            sumAA += va * va;
+            sumBB += vb * vb;
+            sumAB += va * vb;
+            n++;
+          }
+        }
+        const meanA = sumA / n;
+        const meanB = sumB / n;
+        const varA = sumAA / n - meanA * meanA;
+        const varB = sumBB / n - meanB * meanB;
+        const covariance = sumAB / n - meanA * meanB;
+        total += ((2 * meanA * meanB + C1) * (2 * covariance + C2)) /
+          ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+        windows++;
+      }
+    }
+  }
+  return windows ? total / windows : 1;
+}
+
+/**
+ * PSNR and SSIM between a cover image and a stego image of the same size.
+ * Alpha is only measured when it may carry data.
+ */
+export function compareImages(cover: RgbaImage, stego: RgbaImage, includeAlpha = false): DistortionMetrics {
+  if (cover.width !== stego.width || cover.height !== stego.height) {
+    throw new Error('Images must have the same dimensions to compare');
+  }
+  const channels = includeAlpha ? [0, 1, 2, 3] : [0, 1, 2];
+  return { psnr: psnr(cover.data, stego.data, channels), ssim: ssim(cover, stego, channels) };
+}
+
+/**
+ * Expected distortion of hiding `payloadBytes` random-looking bytes with a
+ * layout, measured by actually writing random data into a copy of the cover
+ */
+export async function estimateDistortion(
+  cover: RgbaImage,
+  layout: StegoLayout,
+  payloadBytes: number
+): Promise<DistortionMetrics> {
+  const stego = { ...cover, data: cover.data.slice() };
+  const cursor = new LsbCursor(stego.data, layout.bitsPerChannel, await valueOrder(cover.width, cover.height, layout));
+  // getRandomValues fills at most 64 KiB at a time
+  const chunk = new Uint8Array(65536);
+  for (let left = payloadBytes; left > 0; left -= chunk.length) {
+    cursor.write(crypto.getRandomValues(chunk).subarray(0, Math.min(left, chunk.length)));
+  }
+  return compareImages(cover, stego, layout.channels.includes('a'));
+}
+
+/**
+ * Visualise the changes between two images: each channel difference is
+ * scaled so the largest one is fully bright, on an opaque black background
+ */
+export function amplifiedDifference(cover: RgbaImage, stego: RgbaImage): RgbaImage {
+  const { width, height } = cover;
+  const data = new Uint8ClampedArray(cover.data.length);
+  let largest = 0;
+  for (let i = 0; i < data.length; i++) {
+    largest = Math.max(largest, Math.abs(cover.data[i] - stego.data[i]));
+  }
+  const gain = largest ? 255 / largest : 0;
+  for (let i = 0; i < data.length; i += 4) {
+    // Alpha changes show in all three colors, as the output has no transparency
+    const alpha = Math.abs(cover.data[i + 3] - stego.data[i + 3]);
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = Math.max(Math.abs(cover.data[i + c] - stego.data[i + c]), alpha) * gain;
+    }
+    data[i + 3] = 255;
+  }
+  return { width, height, data };
+}
@@ -0,0 +1,55 @@
+// Helpers for reading a ReadableStream in exact-size pieces
+
+/**
+ * Wraps a byte stream reader so callers can ask for exactly `n` bytes at a time,
+ * regardless of how the underlying stream happens to split its chunks.
+ */
+export class ChunkReader {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private pending: Uint8Array[] = [];
+  private pendingLength = 0;
+  private done = false;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+  }
+
+  /**
+   * Read exactly `count` bytes, or fewer if the stream ends first
+   */
+  async read(count: number): Promise<Uint8Array> {
+    while (this.pendingLength < count && !this.done) {
+      const { value, done } = await this.reader.read();
+      if (done) {
+        this.done = true;
+      } else if (value && value.length > 0) {
+        this.pending.push(value);
+        this.pendingLength += value.length;
+      }
+    }
+
+    const size = Math.min(count, this.pendingLength);
+    const result = new Uint8Array(size);
+    let filled = 0;
+    while (filled < size) {
+      const head = this.pending[0];
+      const take = Math.min(head.length, size - filled);
+      result.set(head.subarray(0, take), filled);
+      filled += take;
+      if (take === head.length) {
+        this.pending.shift();
+      } else {
+        this.pending[0] = head.subarray(take);
+      }
+    }
+    this.pendingLength -= size;
+    return result;
+  }
+
+  /**
+   * Release the underlying stream
+   */
+  async cancel(): Promise<void> {
+    await this.reader.cancel();
+  }
+}
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { base64ToBytes, bytesToBase64 } from './base64';
+import { runRecipe } from './pipeline';
+import { decodePayload, encodeTextPayload, PAYLOAD_HEADER_LENGTH } from './stegoPayload';
+import { TEXT_ENCODINGS, TextEncodingId, decodeText, encodeText, tryDecodeText } from './textCodec';
+import { TEXT_CIPHERS, TextCipher, decryptText, encryptText } from './textEncryption';
+import { TEXT_STEGO_METHODS, TextStegoMethod, embedInText, extractFromText } from './textSteganography';
+
+const SAMPLES: Record<string, string> = {
+  emoji: 'Hi 😀👍🏽 family 👨‍👩‍👧',
+  astral: '𝕳𝖊𝖑𝖑𝖔 𠜎 𓂀',
+  hebrew: 'שלום עולם',
+  arabic: 'مرحبا بالعالم',
+  bidi: 'abc \u202eשלום\u202c 123',
+  combining: 'e\u0301 a\u0308 n\u0303 \u1100\u1161\u11a8',
+  latin: 'Café déjà vu',
+  ascii: 'Plain ASCII, 100%!'
+};
+
+const UNICODE_ENCODINGS: TextEncodingId[] = ['utf-8', 'utf-16le', 'utf-16be'];
+
+/** Which samples each single-byte encoding can hold */
+const REPRESENTABLE: Record<TextEncodingId, string[]> = {
+  'utf-8': Object.keys(SAMPLES),
+  'utf-16le': Object.keys(SAMPLES),
+  'utf-16be': Object.keys(SAMPLES),
+  latin1: ['latin', 'ascii'],
+  ascii: ['ascii']
+};
+
+const cases = (Object.keys(TEXT_ENCODINGS) as TextEncodingId[]).flatMap((encoding) =>
+  REPRESENTABLE[encoding].map((name) => [encoding, name, SAMPLES[name]] as const)
+);
+
+describe('encodeText and decodeText', () => {
+  it.each(cases)('round-trips %s %s text losslessly', (encoding, _, text) => {
+    const bytes = encodeText(text, encoding);
+    expect(decodeText(bytes, encoding, true)).toBe(text);
+    expect(tryDecodeText(bytes, encoding)).toBe(text);
+  });
+
+  it('encodes astral-plane characters as four UTF-8 bytes or a surrogate pair', () => {
+    expect([...encodeText('😀', 'utf-8')]).toEqual([0xf0, 0x9f, 0x98, 0x80]);
+    expect([...encodeText('😀', 'utf-16le')]).toEqual([0x3d, 0xd8, 0x00, 0xde]);
+    expect([...encodeText('😀', 'utf-16be')]).toEqual([0xd8, 0x3d, 0xde, 0x00]);
+    expect(encodeText('𠜎', 'utf-8')).toHaveLength(4);
+  });
+
+  it('keeps combining marks as separate code points without normalizing', () => {
+    expect([...encodeText('e\u0301', 'utf-8')]).toEqual([0x65, 0xcc, 0x81]);
+    expect(decodeText(encodeText('e\u0301'))).toBe('e\u0301');
+    expect(decodeText(encodeText('\u00e9'))).toBe('\u00e9');
+    expect(encodeText('e\u0301', 'utf-16le')).toHaveLength(4);
+  });
+
+  it('encodes RTL text in logical order', () => {
+    expect(encodeText(SAMPLES.hebrew, 'utf-8')).toHaveLength(17);
+    expect([...encodeText('ש', 'utf-8')]).toEqual([0xd7, 0xa9]);
+    expect(encodeText(SAMPLES.arabic, 'utf-16be')).toHaveLength(SAMPLES.arabic.length * 2);
+  });
+
+  it.each(UNICODE_ENCODINGS)('gives %s a length that matches the code units', (encoding) => {
+    const text = SAMPLES.emoji;
+    const expected = encoding === 'utf-8' ? new TextEncoder().encode(text).length : text.length * 2;
+    expect(encodeText(text, encoding)).toHaveLength(expected);
+  });
+
+  it('keeps a byte order mark as part of the text', () => {
+    for (const encoding of UNICODE_ENCODINGS) {
+      expect(decodeText(encodeText('\ufeffx', encoding), encoding)).toBe('\ufeffx');
+    }
+  });
+
+  it('refuses characters a single-byte encoding cannot hold', () => {
+    expect([...encodeText('é', 'latin1')]).toEqual([0xe9]);
+    expect(() => encodeText('e\u0301', 'latin1')).toThrow('U+0301');
+    expect(() => encodeText('😀', 'latin1')).toThrow('U+1F600');
+    expect(() => encodeText('é', 'ascii')).toThrow('U+00E9');
+    expect(() => encodeText('שלום', 'ascii')).toThrow('U+05E9');
+  });
+
+  it('reports invalid input only when fatal', () => {
+    expect(tryDecodeText(new Uint8Array([0xff]), 'utf-8')).toBeNull();
+    expect(decodeText(new Uint8Array([0xff]), 'utf-8')).toBe('\ufffd');
+    expect(tryDecodeText(new Uint8Array([0x3d]), 'utf-16le')).toBeNull();
+    expect(tryDecodeText(new Uint8Array([0x80]), 'ascii')).toBeNull();
+    expect(decodeText(new Uint8Array([0x80]), 'ascii')).toBe('\ufffd');
+  });
+});
+
+describe('base64 of encoded text', () => {
+  it.each(cases)('round-trips %s %s text', (encoding, _, text) => {
+    const base64 = bytesToBase64(encodeText(text, encoding));
+    expect(base64).toMatch(/^[A-Za-z0-9+/]*={0,2}$/);
+    expect(decodeText(base64ToBytes(base64), encoding, true)).toBe(text);
+  });
+
+  it('matches the standard encoding of UTF-8 bytes', () => {
+    expect(bytesToBase64(encodeText('😀'))).toBe('8J+YgA==');
+    expect(bytesToBase64(encodeText('e\u0301'))).toBe('ZcyB');
+    expect(bytesToBase64(encodeText('שלום'))).toBe('16nXnNeV150=');
+  });
+});
+
+describe('steganography payloads', () => {
+  it.each(cases)('carry %s %s text and its encoding', (encoding, _, text) => {
+    const payload = encodeTextPayload(text, encoding);
+    expect(payload).toHaveLength(PAYLOAD_HEADER_LENGTH + encodeText(text, encoding).length);
+    expect(decodePayload(payload)).toEqual({ kind: 'text', text, encoding });
+  });
+
+  it('refuses text the chosen encoding cannot hold', () => {
+    expect(() => encodeTextPayload(SAMPLES.emoji, 'latin1')).toThrow('cannot be represented');
+  });
+});
+
+describe('text steganography', () => {
+  const cover = 'The quick brown fox jumps over the lazy dog.\nAnother line of an ordinary cover text goes here.\n'.repeat(40);
+  const message = `${SAMPLES.emoji} ${SAMPLES.hebrew} ${SAMPLES.combining}`;
+  const methods = Object.keys(TEXT_STEGO_METHODS) as TextStegoMethod[];
+
+  it.each(methods)('hides and recovers Unicode text with %s', async (method) => {
+    for (const encoding of UNICODE_ENCODINGS) {
+      const stego = await embedInText(cover, encodeTextPayload(message, encoding), method);
+      const found = await extractFromText(stego);
+      expect(found?.method).toBe(method);
+      expect(found?.payload).toEqual({ kind: 'text', text: message, encoding });
+    }
+  });
+
+  it('recovers Unicode text sealed with a passphrase', async () => {
+    const stego = await embedInText(cover, encodeTextPayload(message, 'utf-8'), 'zero-width', 'pässwörd 🔑');
+    expect((await extractFromText(stego, 'pässwörd 🔑'))?.payload).toEqual({ kind: 'text', text: message, encoding: 'utf-8' });
+    expect(await extractFromText(stego, 'wrong')).toBeNull();
+  });
+});
+
+describe('text encryption', () => {
+  const ciphers = Object.keys(TEXT_CIPHERS) as TextCipher[];
+
+  it.each(ciphers)('round-trips Unicode text and passwords with %s', async (cipher) => {
+    const text = Object.values(SAMPLES).join('\n');
+    const password = 'קוד סודי 😀 e\u0301';
+    const armored = await encryptText(text, password, cipher);
+    expect(await decryptText(armored, password)).toBe(text);
+    await expect(decryptText(armored, 'קוד סודי 😀 \u00e9')).rejects.toThrow('Decryption failed');
+  });
+});
+
+describe('pipeline text steps', () => {
+  const run = async (steps: [string, Record<string, string>][], input: Uint8Array) => {
+    const results = await runRecipe(steps.map(([op, args]) => ({ op, args })), input);
+    expect(results.every((result) => result.output)).toBe(true);
+    return results[results.length - 1].output ?? new Uint8Array();
+  };
+
+  it.each(Object.entries(SAMPLES))('round-trips %s text through another encoding and base64', async (_, text) => {
+    const output = await run([
+      ['encode-text', { encoding: 'utf-16be' }],
+      ['to-base64', {}],
+      ['from-base64', {}],
+      ['decode-text', { encoding: 'utf-16be' }]
+    ], encodeText(text));
+    expect(decodeText(output)).toBe(text);
+  });
+
+  it('XORs with a Unicode key as UTF-8 bytes', async () => {
+    const input = encodeText(SAMPLES.emoji);
+    const once = await run([['xor', { key: 'ключ 🔑' }]], input);
+    expect(once).not.toEqual(input);
+    expect(await run([['xor', { key: 'ключ 🔑' }], ['xor', { key: 'ключ 🔑' }]], input)).toEqual(input);
+  });
+
+  it('leaves characters outside the alphabet alone in classical ciphers', async () => {
+    const output = await run([['classical-cipher', { cipher: 'caesar', key: '3' }]], encodeText('Hi 😀 שלום e\u0301'));
+    expect(decodeText(output)).toBe('Kl 😀 שלום h\u0301');
+  });
+});
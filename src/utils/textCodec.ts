@@ -0,0 +1,121 @@
+// Conversion between text and bytes for every text operation in the suite.
+//
+// JavaScript strings are UTF-16, and the browser helpers that look like they
+// handle bytes (btoa, charCodeAt & 0xff) silently lose anything outside
+// Latin-1. Everything that turns text into bytes goes through here instead:
+// UTF-8 by default, with the other common encodings selectable. Encoding a
+// character the target cannot represent throws rather than substituting.
+
+export type TextEncodingId = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1' | 'ascii';
+
+export interface TextEncodingInfo {
+  name: string;
+  description: string;
+}
+
+export const TEXT_ENCODINGS: Record<TextEncodingId, TextEncodingInfo> = {
+  'utf-8': { name: 'UTF-8', description: 'Any Unicode text; 1-4 bytes per character' },
+  'utf-16le': { name: 'UTF-16 LE', description: 'Any Unicode text; 2 or 4 bytes per character, as used by Windows' },
+  'utf-16be': { name: 'UTF-16 BE', description: 'Any Unicode text; 2 or 4 bytes per character, big-endian' },
+  'latin1': { name: 'Latin-1', description: 'ISO-8859-1, one byte per character; Western European text only' },
+  'ascii': { name: 'ASCII', description: '7-bit, one byte per character; English letters, digits and punctuation only' }
+};
+
+export const DEFAULT_TEXT_ENCODING: TextEncodingId = 'utf-8';
+
+const utf8Encoder = new TextEncoder();
+
+/**
+ * A character that the single-byte encodings cannot hold, for the error message
+ */
+function unrepresentable(char: string, encoding: TextEncodingId): Error {
+  const code = char.codePointAt(0).toString(16).toUpperCase().padStart(4, '0');
+  return new Error(`"${char}" (U+${code}) cannot be represented in ${TEXT_ENCODINGS[encoding].name} - use UTF-8 instead`);
+}
+
+function encodeSingleByte(text: string, encoding: TextEncodingId, max: number): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code > max) {
+      throw unrepresentable(String.fromCodePoint(text.codePointAt(i)), encoding);
+    }
+    bytes[i] = code;
+  }
+  return bytes;
+}
+
+function encodeUtf16(text: string, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(text.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(i * 2, text.charCodeAt(i), littleEndian);
+  }
+  return bytes;
+}
+
+/**
+ * Encode text as bytes; throws if a character has no representation
+ */
+export function encodeText(text: string, encoding: TextEncodingId = DEFAULT_TEXT_ENCODING): Uint8Array {
+  switch (encoding) {
+    case 'utf-8':
+      return utf8Encoder.encode(text);
+    case 'utf-16le':
+      return encodeUtf16(text, true);
+    case 'utf-16be':
+      return encodeUtf16(text, false);
+    case 'latin1':
+      return encodeSingleByte(text, encoding, 0xff);
+    case 'ascii':
+      return encodeSingleByte(text, encoding, 0x7f);
+    default:
+      throw new Error(`Unknown text encoding "${encoding}"`);
+  }
+}
+
+/**
+ * Decode bytes as text. With `fatal`, invalid input throws; otherwise bad
+ * sequences become U+FFFD so that damage stays visible.
+ */
+export function decodeText(bytes: Uint8Array, encoding: TextEncodingId = DEFAULT_TEXT_ENCODING, fatal = false): string {
+  switch (encoding) {
+    case 'utf-8':
+    case 'utf-16le':
+    case 'utf-16be':
+      try {
+        // ignoreBOM keeps a byte order mark as part of the text, so decoding
+        // and re-encoding gives back exactly the same bytes
+        return new TextDecoder(encoding, { fatal, ignoreBOM: true }).decode(bytes);
+      } catch {
+        throw new Error(`The data is not valid ${TEXT_ENCODINGS[encoding].name} text`);
+      }
+    case 'latin1':
+      return Array.from(bytes, b => String.fromCharCode(b)).join('');
+    case 'ascii':
+      return Array.from(bytes, b => {
+        if (b > 0x7f) {
+          if (fatal) throw new Error(`The data is not valid ASCII text (byte 0x${b.toString(16)})`);
+          return '\ufffd';
+        }
+        return String.fromCharCode(b);
+      }).join('');
+    default:
+      throw new Error(`Unknown text encoding "${encoding}"`);
+  }
+}
+
+/**
+ * Decode bytes as text, or null when they are not valid in that encoding
+ */
+export function tryDecodeText(bytes: Uint8Array, encoding: TextEncodingId = DEFAULT_TEXT_ENCODING): string | null {
+  try {
+    return decodeText(bytes, encoding, true);
+  } catch {
+    return null;
+  }
+}
+
+export function isTextEncoding(value: string): value is TextEncodingId {
+  return value in TEXT_ENCODINGS;
+}
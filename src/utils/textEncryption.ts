@@ -0,0 +1,133 @@
+// Password-based text encryption with a compact armored output.
+//
+// A message is sealed in the same SXCF container as encrypted files (see
+// containerFormat.ts): the header records the format version, cipher, KDF
+// settings, salt and nonce, and is authenticated as additional data, so
+// changing any character of the armored text makes decryption fail. Text
+// is sealed in one piece, so none of the container flags are set.
+//
+//   SX1.<base64url(header || ciphertext || tag)>
+
+import { bytesToBase64Url, base64ToBytes } from './base64';
+import { CipherId, ContainerHeader, KdfParams, parseHeader, serializeHeader } from './containerFormat';
+import { KDF_PRESETS, deriveKeyBits } from './fileEncryption';
+import { chacha20Poly1305Decrypt, chacha20Poly1305Encrypt } from './chacha20poly1305';
+import { decodeText, encodeText } from './textCodec';
+
+export type TextCipher = 'aes-256-gcm' | 'chacha20-poly1305';
+
+export interface TextCipherInfo {
+  name: string;
+  description: string;
+  id: number;
+}
+
+export const TEXT_CIPHERS: Record<TextCipher, TextCipherInfo> = {
+  'aes-256-gcm': {
+    name: 'AES-256-GCM',
+    description: 'Hardware-accelerated Web Crypto AES, the same cipher used for files',
+    id: CipherId.AES_256_GCM
+  },
+  'chacha20-poly1305': {
+    name: 'ChaCha20-Poly1305',
+    description: 'RFC 8439 stream cipher, constant-time without AES hardware',
+    id: CipherId.CHACHA20_POLY1305
+  }
+};
+
+export const ARMOR_PREFIX = 'SX1.';
+
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 12;
+
+/**
+ * True when the text looks like an armored message from encryptText
+ */
+export function isArmoredText(text: string): boolean {
+  return text.trim().startsWith(ARMOR_PREFIX);
+}
+
+function decodeArmor(text: string): Uint8Array {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith(ARMOR_PREFIX)) {
+    throw new Error(`Not an encrypted message - expected text starting with ${ARMOR_PREFIX}`);
+  }
+  try {
+    return base64ToBytes(trimmed.slice(ARMOR_PREFIX.length));
+  } catch {
+    throw new Error('Encrypted message is damaged - it is not valid base64');
+  }
+}
+
+function parseArmor(armored: string): { data: Uint8Array; header: ContainerHeader } {
+  const data = decodeArmor(armored);
+  let header: ContainerHeader;
+  try {
+    header = parseHeader(data);
+  } catch {
+    throw new Error('Encrypted message is damaged or incomplete');
+  }
+  // Without the magic prefix parseHeader falls back to legacy files
+  if (header.bytes.length === 0 || header.flags !== 0) {
+    throw new Error('Not an encrypted text message');
+  }
+  return { data, header };
+}
+
+/**
+ * Parse the container header of an armored message, e.g. to show its settings
+ */
+export function readTextHeader(armored: string): ContainerHeader {
+  return parseArmor(armored).header;
+}
+
+/**
+ * Encrypt text under a password-derived key and armor the result
+ */
+export async function encryptText(
+  text: string,
+  password: string,
+  cipher: TextCipher = 'aes-256-gcm',
+  kdf: KdfParams = KDF_PRESETS.pbkdf2.kdf
+): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+  const header = serializeHeader({ flags: 0, cipher: TEXT_CIPHERS[cipher].id, kdf, salt, iv });
+
+  const plaintext = encodeText(text);
+  const keyBits = await deriveKeyBits(password, salt, kdf);
+  let sealed: Uint8Array;
+  if (cipher === 'chacha20-poly1305') {
+    sealed = chacha20Poly1305Encrypt(keyBits, iv, plaintext, header.bytes);
+  } else {
+    const key = await crypto.subtle.importKey('raw', keyBits, 'AES-GCM', false, ['encrypt']);
+    sealed = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: header.bytes }, key, plaintext));
+  }
+
+  const armored = new Uint8Array(header.bytes.length + sealed.length);
+  armored.set(header.bytes);
+  armored.set(sealed, header.bytes.length);
+  return ARMOR_PREFIX + bytesToBase64Url(armored);
+}
+
+/**
+ * Decrypt an armored message; fails if the password is wrong or the text was altered
+ */
+export async function decryptText(armored: string, password: string): Promise<string> {
+  const { data, header } = parseArmor(armored);
+  const content = data.subarray(header.bytes.length);
+  const keyBits = await deriveKeyBits(password, header.salt, header.kdf);
+
+  let plaintext: Uint8Array;
+  try {
+    if (header.cipher === CipherId.CHACHA20_POLY1305) {
+      plaintext = chacha20Poly1305Decrypt(keyBits, header.iv, content, header.bytes);
+    } else {
+      const key = await crypto.subtle.importKey('raw', keyBits, 'AES-GCM', false, ['decrypt']);
+      plaintext = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: header.iv, additionalData: header.bytes }, key, content));
+    }
+  } catch {
+    throw new Error('Decryption failed - wrong password or the message has been modified');
+  }
+  return decodeText(plaintext);
+}
@@ -0,0 +1,272 @@
+// Steganography in plain text, and a scanner for the characters it leaves.
+//
+// Three carriers, which extraction tells apart by itself:
+//   - whitespace (after SNOW): each 3 bits become 0-7 spaces and a tab at the
+//     end of a line; the cover's own trailing whitespace is removed first and
+//     blank lines are added when the cover runs out of lines
+//   - zero-width: ZWNJ (U+200C) for a 0 and ZWJ (U+200D) for a 1, spread
+//     over the word gaps; any the cover already had are removed first
+//   - homoglyphs: each Latin letter with a Cyrillic twin (a/а, o/о, ...)
+//     carries a bit, Latin for 0 and Cyrillic for 1
+//
+// The hidden data is the same payload as in images (see stegoPayload.ts). A
+// passphrase seals it as in images, but there is no order to scatter it
+// over, and since the text changes length as data is added the keys are
+// salted without a carrier size.
+
+import { SEAL_OVERHEAD, deriveStegoKeys, sealPayload } from './stegoCrypto';
+import { PAYLOAD_HEADER_LENGTH, StegoPayload, readPayload } from './stegoPayload';
+
+export type TextStegoMethod = 'whitespace' | 'zero-width' | 'homoglyph';
+
+export interface TextStegoMethodInfo {
+  name: string;
+  description: string;
+}
+
+export const TEXT_STEGO_METHODS: Record<TextStegoMethod, TextStegoMethodInfo> = {
+  'whitespace': { name: 'Trailing whitespace', description: 'Spaces and tabs at line ends (SNOW style); lost when an editor trims lines' },
+  'zero-width': { name: 'Zero-width characters', description: 'Invisible joiners between words; survives copy and paste, but not plain-ASCII filters' },
+  'homoglyph': { name: 'Homoglyphs', description: 'Latin letters swapped for identical Cyrillic ones; capacity depends on the cover' }
+};
+
+const ZWNJ = '\u200c';
+const ZWJ = '\u200d';
+const TAB = '\t';
+const GROUPS_PER_LINE = 8;
+
+// Latin letters and the Cyrillic letters drawn the same way (а, с, е, ...)
+const HOMOGLYPHS: [string, string][] = [
+  ['a', '\u0430'], ['c', '\u0441'], ['e', '\u0435'], ['i', '\u0456'], ['j', '\u0458'], ['o', '\u043e'],
+  ['p', '\u0440'], ['s', '\u0455'], ['x', '\u0445'], ['y', '\u0443'], ['A', '\u0410'], ['B', '\u0412'],
+  ['C', '\u0421'], ['E', '\u0415'], ['H', '\u041d'], ['I', '\u0406'], ['J', '\u0408'], ['K', '\u041a'],
+  ['M', '\u041c'], ['O', '\u041e'], ['P', '\u0420'], ['S', '\u0405'], ['T', '\u0422'], ['X', '\u0425']
+];
+const TO_CYRILLIC = new Map(HOMOGLYPHS);
+const TO_LATIN = new Map(HOMOGLYPHS.map(([latin, cyrillic]) => [cyrillic, latin]));
+
+function toBits(bytes: Uint8Array): number[] {
+  const bits: number[] = [];
+  for (const byte of bytes) {
+    for (let bit = 7; bit >= 0; bit--) bits.push((byte >> bit) & 1);
+  }
+  return bits;
+}
+
+function toBytes(bits: number[]): Uint8Array {
+  const bytes = new Uint8Array(bits.length >> 3);
+  for (let i = 0; i < bytes.length * 8; i++) bytes[i >> 3] |= bits[i] << (7 - (i & 7));
+  return bytes;
+}
+
+const keysFor = (passphrase: string) => (passphrase ? deriveStegoKeys(passphrase, 0, 0) : Promise.resolve(null));
+
+/**
+ * Split a line into its content, trailing spaces and tabs, and any "\r"
+ */
+function splitLine(line: string): [string, string, string] {
+  const match = /([ \t]*)(\r?)$/.exec(line);
+  return [line.slice(0, match.index), match[1], match[2]];
+}
+
+function embedWhitespace(cover: string, bits: number[]): string {
+  const groups: string[] = [];
+  for (let i = 0; i < bits.length; i += 3) {
+    const value = (bits[i] << 2) | ((bits[i + 1] ?? 0) << 1) | (bits[i + 2] ?? 0);
+    groups.push(' '.repeat(value) + TAB);
+  }
+  const lines = cover.split('\n');
+  const out: string[] = [];
+  for (let i = 0; i < lines.length || groups.length > 0; i++) {
+    const [content, , cr] = splitLine(lines[i] ?? '');
+    out.push(content + groups.splice(0, GROUPS_PER_LINE).join('') + cr);
+  }
+  return out.join('\n');
+}
+
+function readWhitespace(text: string): number[] {
+  const bits: number[] = [];
+  for (const line of text.split('\n')) {
+    const [, trailing] = splitLine(line);
+    // Only runs of whole groups count; a line's stray spaces are not data
+    const end = trailing.lastIndexOf(TAB) + 1;
+    for (const spaces of trailing.slice(0, end).split(TAB).slice(0, -1)) {
+      const value = spaces.length;
+      if (value > 7) return bits;
+      bits.push((value >> 2) & 1, (value >> 1) & 1, value & 1);
+    }
+  }
+  return bits;
+}
+
+function embedZeroWidth(cover: string, bits: number[]): string {
+  const clean = cover.replace(/[\u200c\u200d]/g, '');
+  const marks = bits.map(bit => (bit ? ZWJ : ZWNJ));
+  // After every space, or after the first character if there are none
+  const gaps = [...clean.matchAll(/ /g)].map(match => match.index + 1);
+  if (gaps.length === 0) gaps.push(Math.min(1, clean.length));
+  const perGap = Math.ceil(marks.length / gaps.length);
+  let out = '';
+  let last = 0;
+  gaps.forEach((gap, i) => {
+    out += clean.slice(last, gap) + marks.slice(i * perGap, (i + 1) * perGap).join('');
+    last = gap;
+  });
+  return out + clean.slice(last);
+}
+
+function readZeroWidth(text: string): number[] {
+  return Array.from(text.matchAll(/[\u200c\u200d]/g), match => (match[0] === ZWJ ? 1 : 0));
+}
+
+function embedHomoglyph(cover: string, bits: number[]): string {
+  let index = 0;
+  return Array.from(cover, char => {
+    const latin = TO_CYRILLIC.has(char) ? char : TO_LATIN.get(char);
+    if (!latin || index >= bits.length) return char;
+    return bits[index++] ? TO_CYRILLIC.get(latin) : latin;
+  }).join('');
+}
+
+function readHomoglyph(text: string): number[] {
+  const bits: number[] = [];
+  for (const char of text) {
+    if (TO_CYRILLIC.has(char)) bits.push(0);
+    else if (TO_LATIN.has(char)) bits.push(1);
+  }
+  return bits;
+}
+
+const CARRIERS: Record<TextStegoMethod, { embed: (cover: string, bits: number[]) => string; read: (text: string) => number[] }> = {
+  'whitespace': { embed: embedWhitespace, read: readWhitespace },
+  'zero-width': { embed: embedZeroWidth, read: readZeroWidth },
+  'homoglyph': { embed: embedHomoglyph, read: readHomoglyph }
+};
+
+/**
+ * Bytes of message or file the cover can hold; Infinity for the carriers
+ * that add characters rather than change them
+ */
+export function textCapacity(cover: string, method: TextStegoMethod, withPassphrase: boolean): number {
+  if (method !== 'homoglyph') return Infinity;
+  const overhead = PAYLOAD_HEADER_LENGTH + (withPassphrase ? SEAL_OVERHEAD : 0);
+  return Math.max(Math.floor(readHomoglyph(cover).length / 8) - overhead, 0);
+}
+
+/**
+ * Hide a complete payload (header and body) in the cover text
+ */
+export async function embedInText(cover: string, payload: Uint8Array, method: TextStegoMethod, passphrase = ''): Promise<string> {
+  const capacity = textCapacity(cover, method, Boolean(passphrase));
+  const needed = payload.length - PAYLOAD_HEADER_LENGTH;
+  if (needed > capacity) {
+    throw new Error(`Too much data to hide. Max capacity: ${capacity} bytes, needed ${needed} - use a longer cover text`);
+  }
+  const keys = await keysFor(passphrase);
+  const data = keys ? await sealPayload(keys, payload) : payload;
+  return CARRIERS[method].embed(cover, toBits(data));
+}
+
+/**
+ * Find a payload hidden by embedInText with any method
+ */
+export async function extractFromText(
+  text: string,
+  passphrase = ''
+): Promise<{ method: TextStegoMethod; payload: StegoPayload } | null> {
+  const keys = await keysFor(passphrase);
+  for (const method of Object.keys(CARRIERS) as TextStegoMethod[]) {
+    const bytes = toBytes(CARRIERS[method].read(text));
+    let offset = 0;
+    const payload = await readPayload(length => bytes.subarray(offset, (offset += length)), bytes.length, keys);
+    if (payload) return { method, payload };
+  }
+  return null;
+}
+
+export type HiddenCharacterKind = 'zero-width' | 'bidi' | 'format' | 'variation' | 'tag' | 'filler' | 'space' | 'whitespace' | 'homoglyph';
+
+export interface HiddenCharacterKindInfo {
+  name: string;
+  description: string;
+}
+
+export const HIDDEN_CHARACTER_KINDS: Record<HiddenCharacterKind, HiddenCharacterKindInfo> = {
+  'zero-width': { name: 'Zero-width', description: 'Zero-width spaces, joiners and non-joiners, word joiners and byte order marks' },
+  'bidi': { name: 'Bidi control', description: 'Direction marks, embeddings, overrides and isolates, which can reorder what is shown' },
+  'format': { name: 'Format', description: 'Soft hyphens, invisible operators and other formatting characters' },
+  'variation': { name: 'Variation selector', description: 'Glyph variant selectors, which can carry data after any character' },
+  'tag': { name: 'Tag', description: 'Unicode tag characters, invisible copies of ASCII' },
+  'filler': { name: 'Blank filler', description: 'Hangul fillers and the blank Braille pattern, which render as nothing' },
+  'space': { name: 'Unusual space', description: 'No-break, em, thin and other spaces that look like an ordinary space' },
+  'whitespace': { name: 'Trailing whitespace', description: 'Spaces and tabs at line ends, as used by SNOW' },
+  'homoglyph': { name: 'Homoglyph', description: 'Cyrillic letters inside Latin words, drawn the same as the Latin ones' }
+};
+
+export interface HiddenCharacterRun {
+  /** UTF-16 offset and length in the text */
+  index: number;
+  length: number;
+  kind: HiddenCharacterKind;
+  codePoints: number[];
+}
+
+function characterKind(code: number): HiddenCharacterKind | null {
+  if (code === 0x200b || code === 0x200c || code === 0x200d || code === 0x2060 || code === 0xfeff) return 'zero-width';
+  if (code === 0x200e || code === 0x200f || code === 0x061c || (code >= 0x202a && code <= 0x202e) || (code >= 0x2066 && code <= 0x2069)) {
+    return 'bidi';
+  }
+  if (code === 0x00ad || code === 0x034f || code === 0x180e || (code >= 0x2061 && code <= 0x2064) || (code >= 0x206a && code <= 0x206f)) {
+    return 'format';
+  }
+  if ((code >= 0xfe00 && code <= 0xfe0f) || (code >= 0xe0100 && code <= 0xe01ef)) return 'variation';
+  if (code >= 0xe0000 && code <= 0xe007f) return 'tag';
+  if (code === 0x115f || code === 0x1160 || code === 0x3164 || code === 0xffa0 || code === 0x2800) return 'filler';
+  if (code === 0x00a0 || (code >= 0x2000 && code <= 0x200a) || code === 0x202f || code === 0x205f || code === 0x3000) return 'space';
+  return null;
+}
+
+/**
+ * Find invisible and look-alike characters, merged into runs of one kind
+ */
+export function scanHiddenCharacters(text: string): HiddenCharacterRun[] {
+  const runs: HiddenCharacterRun[] = [];
+  const add = (index: number, length: number, kind: HiddenCharacterKind, code: number) => {
+    const last = runs[runs.length - 1];
+    if (last && last.kind === kind && last.index + last.length === index) {
+      last.length += length;
+      last.codePoints.push(code);
+    } else {
+      runs.push({ index, length, kind, codePoints: [code] });
+    }
+  };
+
+  // Cyrillic look-alikes in words without other Cyrillic letters, i.e. Latin words
+  const mixed = new Set<number>();
+  for (const match of text.matchAll(/[\p{L}\p{M}]+/gu)) {
+    if (Array.from(match[0]).some(char => /\p{Script=Cyrillic}/u.test(char) && !TO_LATIN.has(char))) continue;
+    let offset = match.index;
+    for (const char of match[0]) {
+      if (TO_LATIN.has(char)) mixed.add(offset);
+      offset += char.length;
+    }
+  }
+  // Trailing whitespace, by where each run starts
+  const trailing = new Map<number, number>();
+  for (const match of text.matchAll(/[ \t]+(?=\r?\n|$)/g)) trailing.set(match.index, match[0].length);
+
+  for (let index = 0; index < text.length;) {
+    const trailingLength = trailing.get(index);
+    if (trailingLength) {
+      for (let i = 0; i < trailingLength; i++) add(index + i, 1, 'whitespace', text.charCodeAt(index + i));
+      index += trailingLength;
+      continue;
+    }
+    const code = text.codePointAt(index);
+    const length = code > 0xffff ? 2 : 1;
+    const kind = mixed.has(index) ? 'homoglyph' : characterKind(code);
+    if (kind) add(index, length, kind, code);
+    index += length;
+  }
+  return runs;
+}
@@ -0,0 +1,125 @@
+// Minimal RIFF/WAVE reader and writer for 16-bit PCM audio.
+//
+// Audio steganography changes individual sample bits, so the samples are
+// kept exactly as they are stored: little-endian 16-bit words, channels
+// interleaved. Chunks other than "fmt " and "data" (LIST metadata, cue
+// points and so on) are carried through unchanged, so a written file differs
+// from the original only in its samples.
+
+const PCM_FORMAT = 1;
+const EXTENSIBLE_FORMAT = 0xfffe;
+
+export interface RiffChunk {
+  id: string;
+  data: Uint8Array;
+}
+
+export interface PcmAudio {
+  sampleRate: number;
+  channels: number;
+  /** Interleaved little-endian 16-bit samples, as stored in the data chunk */
+  data: Uint8Array;
+  /** Other chunks, in file order, written back between "fmt " and "data" */
+  chunks: RiffChunk[];
+}
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+export function isWav(bytes: Uint8Array): boolean {
+  return bytes.length >= 12 && fourCC(bytes, 0) === 'RIFF' && fourCC(bytes, 8) === 'WAVE';
+}
+
+/**
+ * Number of samples per channel
+ */
+export function frameCount(audio: PcmAudio): number {
+  return Math.floor(audio.data.length / (2 * audio.channels));
+}
+
+/**
+ * Parse a WAV file; throws for anything but 16-bit integer PCM
+ */
+export function decodeWav(bytes: Uint8Array): PcmAudio {
+  if (!isWav(bytes)) {
+    throw new Error('Not a WAV file');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let format: { sampleRate: number; channels: number } | null = null;
+  let data: Uint8Array | null = null;
+
+  // Chunks are padded to an even length; a truncated last chunk is clipped
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const id = fourCC(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = bytes.subarray(offset + 8, Math.min(offset + 8 + size, bytes.length));
+    offset += 8 + size + (size & 1);
+
+    if (id === 'fmt ') {
+      if (body.length < 16) {
+        throw new Error('The WAV format chunk is damaged');
+      }
+      const fmt = new DataView(body.buffer, body.byteOffset, body.byteLength);
+      let tag = fmt.getUint16(0, true);
+      if (tag === EXTENSIBLE_FORMAT && body.length >= 26) {
+        tag = fmt.getUint16(24, true);
+      }
+      const channels = fmt.getUint16(2, true);
+      const bitsPerSample = fmt.getUint16(14, true);
+      if (tag !== PCM_FORMAT) {
+        throw new Error('Only uncompressed PCM WAV files are supported');
+      }
+      if (bitsPerSample !== 16) {
+        throw new Error(`This WAV file has ${bitsPerSample}-bit samples; only 16-bit PCM is supported`);
+      }
+      if (channels === 0) {
+        throw new Error('The WAV file has no channels');
+      }
+      format = { sampleRate: fmt.getUint32(4, true), channels };
+    } else if (id === 'data') {
+      data = body.slice(0, body.length & ~1);
+    } else {
+      chunks.push({ id, data: body.slice() });
+    }
+  }
+
+  if (!format || !data) {
+    throw new Error('The WAV file is missing its format or data chunk');
+  }
+  return { ...format, data, chunks };
+}
+
+/**
+ * Write 16-bit PCM audio as a WAV file
+ */
+export function encodeWav(audio: PcmAudio): Uint8Array {
+  const parts: RiffChunk[] = [];
+  const fmt = new DataView(new ArrayBuffer(16));
+  fmt.setUint16(0, PCM_FORMAT, true);
+  fmt.setUint16(2, audio.channels, true);
+  fmt.setUint32(4, audio.sampleRate, true);
+  fmt.setUint32(8, audio.sampleRate * audio.channels * 2, true);
+  fmt.setUint16(12, audio.channels * 2, true);
+  fmt.setUint16(14, 16, true);
+  parts.push({ id: 'fmt ', data: new Uint8Array(fmt.buffer) });
+  parts.push(...audio.chunks);
+  parts.push({ id: 'data', data: audio.data });
+
+  const size = 12 + parts.reduce((sum, chunk) => sum + 8 + chunk.data.length + (chunk.data.length & 1), 0);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  const writeId = (offset: number, id: string) => {
+    for (let i = 0; i < 4; i++) out[offset + i] = id.charCodeAt(i);
+  };
+  writeId(0, 'RIFF');
+  view.setUint32(4, size - 8, true);
+  writeId(8, 'WAVE');
+  let offset = 12;
+  for (const chunk of parts) {
+    writeId(offset, chunk.id);
+    view.setUint32(offset + 4, chunk.data.length, true);
+    out.set(chunk.data, offset + 8);
+    offset += 8 + chunk.data.length + (chunk.data.length & 1);
+  }
+  return out;
+}
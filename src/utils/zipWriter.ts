@@ -0,0 +1,162 @@
+// Minimal store-only ZIP writer, used to hand back a folder tree as a
+// single download when the browser cannot write into a chosen directory.
+// Entries are streamed with data descriptors, so sizes and CRCs do not
+// need to be known up front. No ZIP64: each entry and the whole archive
+// must stay under 4 GiB.
+
+import { crc32 } from './crc32';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const VERSION = 20;
+// Bit 3: sizes follow in a data descriptor; bit 11: UTF-8 file names
+const FLAGS = 0x0008 | 0x0800;
+const MAX_SIZE = 0xffffffff;
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+function dosDateTime(timestamp: number): { time: number; date: number } {
+  const d = new Date(Math.max(timestamp, Date.UTC(1980, 0, 1)));
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  };
+}
+
+export class ZipWriter {
+  private parts: BlobPart[] = [];
+  private offset = 0;
+  private entries: ZipEntry[] = [];
+  private current: ZipEntry | null = null;
+
+  private push(bytes: Uint8Array) {
+    this.parts.push(bytes);
+    this.offset += bytes.length;
+    if (this.offset > MAX_SIZE) {
+      throw new Error('ZIP archive would exceed 4 GiB');
+    }
+  }
+
+  /**
+   * Begin a new entry; follow with write() calls and endFile()
+   */
+  startFile(path: string, lastModified = Date.now()) {
+    if (this.current) {
+      throw new Error('Previous ZIP entry was not finished');
+    }
+    const name = new TextEncoder().encode(path);
+    const { time, date } = dosDateTime(lastModified);
+    this.current = { name, crc: 0, size: 0, offset: this.offset, time, date };
+
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, VERSION, true);
+    view.setUint16(6, FLAGS, true);
+    view.setUint16(8, 0, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    // CRC and sizes (14..25) stay zero; they are in the data descriptor
+    view.setUint16(26, name.length, true);
+    header.set(name, 30);
+    this.push(header);
+  }
+
+  write(chunk: Uint8Array) {
+    if (!this.current) {
+      throw new Error('No ZIP entry is open');
+    }
+    this.current.crc = crc32(chunk, this.current.crc);
+    this.current.size += chunk.length;
+    if (this.current.size > MAX_SIZE) {
+      throw new Error('Files over 4 GiB cannot be stored in a ZIP download');
+    }
+    this.push(chunk);
+  }
+
+  endFile() {
+    const entry = this.current;
+    if (!entry) {
+      throw new Error('No ZIP entry is open');
+    }
+    const descriptor = new Uint8Array(16);
+    const view = new DataView(descriptor.buffer);
+    view.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    view.setUint32(4, entry.crc, true);
+    view.setUint32(8, entry.size, true);
+    view.setUint32(12, entry.size, true);
+    this.push(descriptor);
+    this.entries.push(entry);
+    this.current = null;
+  }
+
+  /**
+   * Add a whole Blob as one entry, streaming it
+   */
+  async addBlob(path: string, blob: Blob, lastModified = Date.now()) {
+    this.startFile(path, lastModified);
+    const reader = blob.stream().getReader();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      this.write(value);
+    }
+    this.endFile();
+  }
+
+  /**
+   * WritableStream that stores everything written to it as one entry
+   */
+  entryStream(path: string, lastModified = Date.now()): WritableStream<Uint8Array> {
+    this.startFile(path, lastModified);
+    return new WritableStream({
+      write: (chunk) => this.write(chunk),
+      close: () => this.endFile()
+    });
+  }
+
+  /**
+   * Write the central directory and return the finished archive
+   */
+  finish(): Blob {
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const header = new Uint8Array(46 + entry.name.length);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      view.setUint16(4, VERSION, true);
+      view.setUint16(6, VERSION, true);
+      view.setUint16(8, FLAGS, true);
+      view.setUint16(10, 0, true);
+      view.setUint16(12, entry.time, true);
+      view.setUint16(14, entry.date, true);
+      view.setUint32(16, entry.crc, true);
+      view.setUint32(20, entry.size, true);
+      view.setUint32(24, entry.size, true);
+      view.setUint16(28, entry.name.length, true);
+      view.setUint32(42, entry.offset, true);
+      header.set(entry.name, 46);
+      this.push(header);
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(8, this.entries.length, true);
+    view.setUint16(10, this.entries.length, true);
+    view.setUint32(12, this.offset - directoryOffset, true);
+    view.setUint32(16, directoryOffset, true);
+    this.push(end);
+
+    return new Blob(this.parts, { type: 'application/zip' });
+  }
+}
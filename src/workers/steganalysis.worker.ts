@@ -0,0 +1,32 @@
+// Web Worker entry point for steganalysis; see utils/steganalysisClient.ts
+
+import { analyzeAudio, analyzeImage, bitPlane } from '@/utils/steganalysis';
+import { RgbaImage, encodePng } from '@/utils/pngCodec';
+import type { SteganalysisRequest, SteganalysisResponse } from '@/utils/steganalysisClient';
+
+// Image for the bit plane view, kept so each slice does not resend it
+let planeImage: RgbaImage | null = null;
+
+const reply = (response: SteganalysisResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<SteganalysisRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'analyze') {
+      const report = analyzeImage(request.image, (fraction) => reply({ id: request.id, type: 'progress', fraction }));
+      reply({ id: request.id, type: 'result', result: report });
+    } else if (request.type === 'analyze-audio') {
+      const report = analyzeAudio(request.audio, (fraction) => reply({ id: request.id, type: 'progress', fraction }));
+      reply({ id: request.id, type: 'result', result: report });
+    } else {
+      if (request.image) planeImage = request.image;
+      if (!planeImage) {
+        throw new Error('No image loaded for the bit plane view');
+      }
+      const plane = await encodePng(bitPlane(planeImage, request.channel, request.bit));
+      reply({ id: request.id, type: 'result', result: plane });
+    }
+  } catch (error) {
+    reply({ id: request.id, type: 'error', error: error instanceof Error ? error.message : 'Analysis failed' });
+  }
+};
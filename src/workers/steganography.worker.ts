@@ -0,0 +1,68 @@
+// Web Worker entry point for image steganography; see utils/steganographyClient.ts
+
+import {
+  embedFile,
+  embedMessage,
+  estimateEmbedDistortion,
+  extractMessage,
+  jpegEmbedCapacity,
+  loadImagePixels
+} from '@/utils/steganography';
+import { amplifiedDifference, compareImages } from '@/utils/stegoQuality';
+import { RgbaImage, encodePng } from '@/utils/pngCodec';
+import type { SteganographyRequest, SteganographyResponse } from '@/utils/steganographyClient';
+
+// Decoded cover, kept so estimates and comparisons do not decode it again.
+// Requests run interleaved, so it is held as a promise: a request that
+// arrives while a new cover is decoding waits for that cover.
+let cover: Promise<RgbaImage> | null = null;
+
+const reply = (response: SteganographyResponse) => self.postMessage(response);
+
+function coverImage(file?: File): Promise<RgbaImage> {
+  if (file) cover = loadImagePixels(file);
+  return cover ?? Promise.reject(new Error('No cover image loaded'));
+}
+
+self.onmessage = async (event: MessageEvent<SteganographyRequest>) => {
+  const request = event.data;
+  const onProgress = (fraction: number) => reply({ id: request.id, type: 'progress', fraction });
+  try {
+    switch (request.type) {
+      case 'load-cover': {
+        const image = await coverImage(request.cover);
+        reply({ id: request.id, type: 'result', result: { width: image.width, height: image.height } });
+        break;
+      }
+      case 'jpeg-capacity':
+        reply({ id: request.id, type: 'result', result: await jpegEmbedCapacity(request.image, request.withPassphrase) });
+        break;
+      case 'embed': {
+        const options = { ...request.options, onProgress };
+        const result = request.secret
+          ? await embedFile(request.image, request.secret, options)
+          : await embedMessage(request.image, request.message ?? '', options);
+        reply({ id: request.id, type: 'result', result });
+        break;
+      }
+      case 'extract':
+        reply({ id: request.id, type: 'result', result: await extractMessage(request.image, { ...request.options, onProgress }) });
+        break;
+      case 'estimate': {
+        const image = await coverImage(request.cover);
+        const metrics = await estimateEmbedDistortion(image, request.layout, request.length, request.withPassphrase);
+        reply({ id: request.id, type: 'result', result: metrics });
+        break;
+      }
+      case 'compare': {
+        const image = await coverImage(request.cover);
+        const stego = await loadImagePixels(request.stego);
+        const diff = await encodePng(amplifiedDifference(image, stego));
+        reply({ id: request.id, type: 'result', result: { metrics: compareImages(image, stego, request.includeAlpha), diff } });
+        break;
+      }
+    }
+  } catch (error) {
+    reply({ id: request.id, type: 'error', error: error instanceof Error ? error.message : 'Steganography failed' });
+  }
+};
@@ -0,0 +1,13 @@
+import { defineConfig } from "vite";
+
+// Builds the local scan agent (agent/) into a single Node script.
+// https://vitejs.dev/guide/ssr.html#building-for-production
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: "agent/main.ts",
+    outDir: "dist-agent",
+    target: "node20",
+    emptyOutDir: true,
+  },
+});
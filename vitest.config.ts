@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests for src/utils and end-to-end tests for the scan agent, all run in Node.
+// https://vitest.dev/config/
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts", "agent/**/*.test.ts"],
+    environment: "node",
+    testTimeout: 30000,
+  },
+});